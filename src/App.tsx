@@ -33,12 +33,9 @@ function App() {
   }, []);
 
   const handleDataLoaded = (data: any) => {
+    // DataUploader has already streamed the data into the agents
     console.log('✅ Marketing data loaded successfully:', data);
     setDataLoaded(true);
-    // Initialize agents with real data
-    if (orchestrator) {
-      orchestrator.loadMarketingData(data);
-    }
   };
   const renderContent = () => {
     if (!orchestrator) return null;
@@ -55,7 +52,7 @@ function App() {
               Load your marketing dataset to begin agent-driven automation
             </p>
           </div>
-          <DataUploader onDataLoaded={handleDataLoaded} />
+          <DataUploader orchestrator={orchestrator} onDataLoaded={handleDataLoaded} />
         </div>
       );
     }
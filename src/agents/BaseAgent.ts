@@ -1,13 +1,32 @@
-import { Agent, AgentType, AgentStatus, AgentMemory, AgentAction, ActionResult } from '../types';
-import { MemoryManager } from '../memory/MemoryManager';
+import { Agent, AgentType, AgentStatus, AgentMemory, AgentAction, ActionResult, KnowledgeGraph, KnowledgeNode, Relationship, Playbook, DecisionOutcome, MessageType } from '../types';
+import { MemoryEvictionEvent, MemoryExpiryEvent, MemoryLineage, MemoryManager, SemanticSearchHit, SemanticSearchOptions } from '../memory/MemoryManager';
+import { MemoryUsage } from '../memory/MemoryIndex';
+import { MemoryStore } from '../memory/MemoryStore';
+import { MemoryPolicy, MemoryPolicyPatch } from '../memory/MemoryPolicy';
+import { MemoryImportMode } from '../memory/MemorySnapshot';
+import { MemoryQuery, MemoryQueryResult } from '../memory/MemoryQuery';
+import { KnowledgeGraphQuery } from '../memory/KnowledgeGraphQuery';
+import { SemanticView } from '../memory/SharedSemanticStore';
 import { MCPClient } from '../mcp/MCPClient';
 import { WebSocketManager } from '../communication/WebSocketManager';
+import { AgentRegistry } from '../system/AgentRegistry';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface AgentOptions {
+  /** Stable identity; memory is persisted under it. Defaults to the agent type. */
+  id?: string;
+  name?: string;
+  aliases?: string[];
+  memoryStore?: MemoryStore;
+  /** Overrides for the default decay, consolidation and capacity policy */
+  memoryPolicy?: MemoryPolicyPatch;
+}
+
 export abstract class BaseAgent implements Agent {
   public readonly id: string;
   public readonly name: string;
   public readonly type: AgentType;
+  public readonly aliases: string[];
   public status: AgentStatus = AgentStatus.IDLE;
   public readonly capabilities: string[];
   public memory: AgentMemory;
@@ -22,21 +41,32 @@ export abstract class BaseAgent implements Agent {
     type: AgentType,
     capabilities: string[],
     mcpClient: MCPClient,
-    wsManager: WebSocketManager
+    wsManager: WebSocketManager,
+    options: AgentOptions = {}
   ) {
-    this.id = uuidv4();
-    this.name = name;
+    this.id = options.id || type;
+    this.name = options.name || name;
     this.type = type;
+    this.aliases = options.aliases || [];
     this.capabilities = capabilities;
     this.mcpClient = mcpClient;
     this.wsManager = wsManager;
     
-    this.memoryManager = new MemoryManager(this.id);
+    this.memoryManager = new MemoryManager(this.id, options.memoryStore, this.id, options.memoryPolicy);
     this.memory = this.memoryManager.getMemory();
+    this.memoryManager.onExpiry(events => this.broadcastMemoryExpiry(events));
+    this.memoryManager.onEviction(events => this.broadcastMemoryEviction(events));
     
     this.initialize();
   }
 
+  /**
+   * Whether a message or handoff addressed to `ref` is meant for this agent
+   */
+  public respondsTo(ref: string | undefined): boolean {
+    return !!ref && AgentRegistry.matches(this, ref);
+  }
+
   protected abstract initialize(): void;
   public abstract processAction(action: AgentAction): Promise<ActionResult>;
 
@@ -46,20 +76,155 @@ export abstract class BaseAgent implements Agent {
     this.broadcastStatusUpdate();
   }
 
-  protected async storeMemory(type: 'short' | 'long' | 'episodic' | 'semantic', data: any): Promise<void> {
+  /**
+   * Reload whatever memory this agent persisted in a previous run
+   */
+  public async restoreMemory(): Promise<number> {
+    const replayed = await this.memoryManager.restore();
+    this.memory = this.memoryManager.getMemory();
+    return replayed;
+  }
+
+  /**
+   * Read and write domain knowledge through a store shared with the other agents
+   */
+  public async attachSharedSemantic(view: SemanticView): Promise<void> {
+    await this.memoryManager.attachSharedSemantic(view);
+    this.memory = this.memoryManager.getMemory();
+  }
+
+  /**
+   * The concepts and relationships this agent reasons over
+   */
+  public getKnowledgeGraph(): KnowledgeGraph {
+    return this.memoryManager.getKnowledgeGraph();
+  }
+
+  /**
+   * Neighbours, traversals, paths and triple patterns over the knowledge graph as it is now.
+   * The query is cached until semantic memory changes, so calling this per lead is cheap.
+   */
+  public queryKnowledgeGraph(): KnowledgeGraphQuery {
+    return this.memoryManager.queryKnowledgeGraph();
+  }
+
+  public async storeMemory(type: 'short' | 'long' | 'episodic' | 'semantic', data: any): Promise<void> {
     await this.memoryManager.store(type, data);
     this.memory = this.memoryManager.getMemory();
   }
 
-  protected async retrieveMemory(type: 'short' | 'long' | 'episodic' | 'semantic', query: any): Promise<any[]> {
+  public async retrieveMemory(type: 'short' | 'long' | 'episodic' | 'semantic', query: any): Promise<any[]> {
     return await this.memoryManager.retrieve(type, query);
   }
 
+  /**
+   * Find memories similar to a free-text description across tiers
+   */
+  protected async searchMemory(text: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchHit[]> {
+    return await this.memoryManager.search(text, options);
+  }
+
+  public exportMemory(): AgentMemory {
+    return this.memoryManager.exportMemory();
+  }
+
+  public async importMemory(memory: AgentMemory, mode: MemoryImportMode = 'merge'): Promise<void> {
+    await this.memoryManager.importMemory(memory, mode);
+    this.memory = this.memoryManager.getMemory();
+  }
+
+  /**
+   * Why the agent holds an item: the items, actions, dataset rows and consolidation runs behind it
+   */
+  public explainMemory(itemId: string, maxDepth?: number): MemoryLineage | null {
+    return this.memoryManager.getLineage(itemId, maxDepth);
+  }
+
+  /**
+   * Filtered, sorted, paginated view over this agent's memory
+   */
+  public queryMemory(query: MemoryQuery = {}): MemoryQueryResult {
+    return this.memoryManager.query(query);
+  }
+
+  /**
+   * Drop short-term memories whose TTL has passed, promoting useful conversation slots first
+   */
+  public async sweepExpiredMemory(now: Date = new Date()): Promise<MemoryExpiryEvent[]> {
+    const events = await this.memoryManager.sweepExpired(now);
+    this.memory = this.memoryManager.getMemory();
+    return events;
+  }
+
+  private broadcastMemoryExpiry(events: MemoryExpiryEvent[]): void {
+    this.wsManager.broadcast({
+      type: MessageType.MEMORY_UPDATE,
+      payload: {
+        event: 'short_term_expired',
+        expired: events.filter(event => event.reason === 'expired').length,
+        evicted: events.filter(event => event.reason === 'evicted').length,
+        items: events
+      },
+      timestamp: new Date()
+    }).catch(error => console.error(`Failed to broadcast memory expiry for ${this.id}:`, error));
+  }
+
+  private broadcastMemoryEviction(events: MemoryEvictionEvent[]): void {
+    this.wsManager.broadcast({
+      type: MessageType.MEMORY_UPDATE,
+      payload: {
+        event: 'quota_evicted',
+        evicted: events.length,
+        bytes: events.reduce((sum, event) => sum + event.bytes, 0),
+        items: events
+      },
+      timestamp: new Date()
+    }).catch(error => console.error(`Failed to broadcast memory eviction for ${this.id}:`, error));
+  }
+
+  /**
+   * Bytes this agent's memory holds per tier and item type
+   */
+  public getMemoryUsage(): MemoryUsage {
+    return this.memoryManager.getUsage();
+  }
+
+  public onMemoryEviction(handler: (events: MemoryEvictionEvent[]) => void): string {
+    return this.memoryManager.onEviction(handler);
+  }
+
+  public offMemoryEviction(handlerId: string): void {
+    this.memoryManager.offEviction(handlerId);
+  }
+
+  public getRecentEvictions(limit?: number): MemoryEvictionEvent[] {
+    return this.memoryManager.getRecentEvictions(limit);
+  }
+
   protected async consolidateMemory(): Promise<void> {
     await this.memoryManager.consolidate();
     this.memory = this.memoryManager.getMemory();
   }
 
+  /**
+   * Consolidate only if the memory policy's count, time or idle trigger has fired
+   */
+  public async consolidateMemoryIfDue(now: Date = new Date()): Promise<boolean> {
+    const consolidated = await this.memoryManager.consolidateIfDue(now);
+    this.memory = this.memoryManager.getMemory();
+    return consolidated;
+  }
+
+  public getMemoryPolicy(): MemoryPolicy {
+    return this.memoryManager.getPolicy();
+  }
+
+  public async setMemoryPolicy(patch: MemoryPolicyPatch): Promise<MemoryPolicy> {
+    const policy = await this.memoryManager.setPolicy(patch);
+    this.memory = this.memoryManager.getMemory();
+    return policy;
+  }
+
   protected async sendMessage(targetAgentId: string, message: any): Promise<void> {
     await this.wsManager.sendMessage({
       type: 'AGENT_COMMUNICATION',
@@ -113,11 +278,13 @@ export abstract class BaseAgent implements Agent {
 
   protected async learnFromOutcome(action: AgentAction, result: ActionResult): Promise<void> {
     const learning = {
+      id: uuidv4(),
       actionType: action.type,
       context: action.payload,
       outcome: result,
       success: result.success,
-      timestamp: new Date()
+      timestamp: new Date(),
+      provenance: { agentId: this.id, sourceActionIds: [action.id] }
     };
 
     await this.storeMemory('episodic', {
@@ -127,11 +294,11 @@ export abstract class BaseAgent implements Agent {
 
     // Update semantic memory with new patterns
     if (result.success) {
-      await this.updateSemanticKnowledge(action, result);
+      await this.updateSemanticKnowledge(action, result, learning.id);
     }
   }
 
-  private async updateSemanticKnowledge(action: AgentAction, result: ActionResult): Promise<void> {
+  private async updateSemanticKnowledge(action: AgentAction, result: ActionResult, learningId: string): Promise<void> {
     const pattern = {
       id: uuidv4(),
       pattern: `${action.type}_success_pattern`,
@@ -139,7 +306,8 @@ export abstract class BaseAgent implements Agent {
       applications: 1,
       successRate: 1.0,
       lastUsed: new Date(),
-      context: [action.type, JSON.stringify(action.payload)]
+      context: [action.type, JSON.stringify(action.payload)],
+      provenance: { agentId: this.id, sourceActionIds: [action.id], derivedFrom: [learningId] }
     };
 
     await this.storeMemory('semantic', {
@@ -148,6 +316,66 @@ export abstract class BaseAgent implements Agent {
     });
   }
 
+  /**
+   * Seed semantic memory with a knowledge graph node or edge
+   */
+  public async importKnowledge(item: KnowledgeNode | Relationship): Promise<void> {
+    await this.storeMemory('semantic', {
+      type: 'concept' in item ? 'domain_knowledge' : 'relationship',
+      data: item
+    });
+  }
+
+  /**
+   * Seed episodic memory with a playbook: a scenario, the actions taken and how well it went
+   */
+  public async importPlaybook(playbook: Playbook): Promise<void> {
+    const outcome: DecisionOutcome = {
+      id: playbook.id,
+      decision: playbook.scenario,
+      outcome: playbook.notes,
+      success: playbook.outcomeScore >= 0.5,
+      impact: playbook.outcomeScore,
+      timestamp: new Date(),
+      context: {
+        playbook: true,
+        scenario: playbook.scenario,
+        actionSequence: playbook.actionSequence,
+        source: 'memory_episodic.csv'
+      },
+      provenance: playbook.provenance
+    };
+
+    await this.storeMemory('episodic', {
+      type: 'decision_outcome',
+      data: outcome
+    });
+  }
+
+  /**
+   * Best-scoring playbook recorded for a scenario, if any
+   */
+  protected async findBestPlaybook(scenario: string): Promise<Playbook | null> {
+    const [hit] = this.queryMemory({
+      types: ['decision_outcome'],
+      where: { 'context.playbook': true, 'context.scenario': scenario },
+      sort: [{ path: 'impact', direction: 'desc' }],
+      limit: 1
+    }).items;
+
+    const best = hit?.data as DecisionOutcome | undefined;
+
+    if (!best) return null;
+
+    return {
+      id: best.id,
+      scenario: best.context.scenario,
+      actionSequence: best.context.actionSequence,
+      outcomeScore: best.impact,
+      notes: best.outcome
+    };
+  }
+
   public async getPerformanceMetrics(): Promise<Record<string, number>> {
     const metrics = await this.retrieveMemory('long', {
       type: 'performance_metric',
@@ -166,6 +394,8 @@ export abstract class BaseAgent implements Agent {
   }
 
   public async getMemoryStats(): Promise<Record<string, number>> {
+    const knowledgeGraph = this.getKnowledgeGraph();
+
     return {
       shortTermItems: this.memory.shortTerm.currentContext.length + 
                      this.memory.shortTerm.activeLeads.length + 
@@ -175,8 +405,8 @@ export abstract class BaseAgent implements Agent {
                     this.memory.longTerm.performanceMetrics.length,
       episodicItems: this.memory.episodic.successfulInteractions.length + 
                     this.memory.episodic.problemResolutions.length,
-      semanticItems: this.memory.semantic.domainKnowledge.length + 
-                    this.memory.semantic.relationships.length
+      semanticItems: knowledgeGraph.nodes.length + 
+                    knowledgeGraph.relationships.length
     };
   }
 }
\ No newline at end of file
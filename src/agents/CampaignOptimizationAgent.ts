@@ -1,4 +1,4 @@
-import { BaseAgent } from './BaseAgent';
+import { AgentOptions, BaseAgent } from './BaseAgent';
 import { 
   AgentType, 
   AgentAction, 
@@ -6,12 +6,28 @@ import {
   Campaign, 
   CampaignMetrics,
   ActionType,
-  PerformanceMetric
+  Playbook
 } from '../types';
 import { MCPClient } from '../mcp/MCPClient';
 import { WebSocketManager } from '../communication/WebSocketManager';
+import { TextEmbedder } from '../memory/TextEmbedder';
 import { v4 as uuidv4 } from 'uuid';
 
+/** The parts of a performance analysis that pick a playbook scenario */
+interface ScenarioSignals {
+  severity: string;
+  trends: Record<string, number>;
+}
+
+interface PlaybookRecommendation {
+  type: 'playbook';
+  action: string;
+  actionSequence: string[];
+  confidence: number;
+  playbookId: string;
+  reason: string;
+}
+
 export class CampaignOptimizationAgent extends BaseAgent {
   private readonly OPTIMIZATION_THRESHOLDS = {
     low_open_rate: 0.15,
@@ -28,7 +44,24 @@ export class CampaignOptimizationAgent extends BaseAgent {
     consecutive_failures: 3
   };
 
-  constructor(mcpClient: MCPClient, wsManager: WebSocketManager) {
+  // Evaluated in order; the first match picks the playbook scenario
+  private readonly SCENARIO_RULES: Array<{ scenario: string; matches: (campaign: Campaign, analysis: ScenarioSignals) => boolean }> = [
+    { scenario: 'churn_risk', matches: (_campaign, analysis) => analysis.severity === 'critical' },
+    {
+      scenario: 'budget_blocker',
+      matches: (campaign, analysis) =>
+        analysis.trends.conversionRate < this.OPTIMIZATION_THRESHOLDS.low_conversion_rate && campaign.budget > 50000
+    },
+    {
+      scenario: 'multi_stakeholder',
+      matches: campaign => campaign.targetAudience.length >= 3 || campaign.targetAudience.includes('Procurement')
+    },
+    { scenario: 'security_review', matches: campaign => campaign.targetAudience.includes('Engineer') },
+    { scenario: 'enterprise_eval', matches: campaign => campaign.budget > 100000 },
+    { scenario: 'smb_quick_win', matches: () => true }
+  ];
+
+  constructor(mcpClient: MCPClient, wsManager: WebSocketManager, options: AgentOptions = {}) {
     super(
       'Campaign Optimization Agent',
       AgentType.CAMPAIGN_OPTIMIZATION,
@@ -42,13 +75,13 @@ export class CampaignOptimizationAgent extends BaseAgent {
         'escalation_management'
       ],
       mcpClient,
-      wsManager
+      wsManager,
+      options
     );
   }
 
   protected initialize(): void {
     console.log(`${this.name} initialized with capabilities:`, this.capabilities);
-    this.loadOptimizationStrategies();
     this.startPerformanceMonitoring();
   }
 
@@ -120,6 +153,13 @@ export class CampaignOptimizationAgent extends BaseAgent {
       // Check for escalation criteria
       const escalationNeeded = this.checkEscalationCriteria(analysis);
 
+      // Reuse the best-scoring playbook recorded for this kind of situation
+      const scenario = this.inferScenario(campaign, analysis);
+      const playbook = await this.findBestPlaybook(scenario);
+      if (playbook) {
+        recommendations.manualReview.push(this.playbookRecommendation(playbook));
+      }
+
       // Store analysis results
       await this.storeMemory('long', {
         type: 'performance_analysis',
@@ -128,6 +168,8 @@ export class CampaignOptimizationAgent extends BaseAgent {
           analysis,
           recommendations,
           escalationNeeded,
+          scenario,
+          playbookId: playbook?.id,
           timestamp: new Date()
         }
       });
@@ -152,12 +194,15 @@ export class CampaignOptimizationAgent extends BaseAgent {
         data: {
           analysis,
           recommendations,
-          escalationNeeded
+          escalationNeeded,
+          scenario,
+          playbook
         },
         metrics: {
           analysis_confidence: analysis.confidence,
           recommendations_count: recommendations.autoApplicable.length + recommendations.manualReview.length,
-          performance_score: analysis.overallScore
+          performance_score: analysis.overallScore,
+          playbook_score: playbook?.outcomeScore ?? 0
         }
       };
 
@@ -319,6 +364,21 @@ export class CampaignOptimizationAgent extends BaseAgent {
     return recommendations;
   }
 
+  private inferScenario(campaign: Campaign, analysis: ScenarioSignals): string {
+    return this.SCENARIO_RULES.find(rule => rule.matches(campaign, analysis))!.scenario;
+  }
+
+  private playbookRecommendation(playbook: Playbook): PlaybookRecommendation {
+    return {
+      type: 'playbook',
+      action: playbook.actionSequence[0],
+      actionSequence: playbook.actionSequence,
+      confidence: playbook.outcomeScore,
+      playbookId: playbook.id,
+      reason: `Playbook ${playbook.id} scored ${playbook.outcomeScore.toFixed(2)} on ${playbook.scenario}${playbook.notes ? ` (${playbook.notes})` : ''}`
+    };
+  }
+
   private checkEscalationCriteria(analysis: any): boolean {
     return analysis.severity === 'high' || 
            analysis.severity === 'critical' ||
@@ -439,42 +499,6 @@ export class CampaignOptimizationAgent extends BaseAgent {
     }
   }
 
-  private async loadOptimizationStrategies(): Promise<void> {
-    const strategies = [
-      {
-        name: 'subject_line_ab_testing',
-        description: 'Test multiple subject line variations to optimize open rates',
-        effectiveness: 0.85,
-        applicableMetrics: ['open_rate']
-      },
-      {
-        name: 'send_time_optimization',
-        description: 'Optimize email send times based on audience behavior',
-        effectiveness: 0.72,
-        applicableMetrics: ['open_rate', 'click_rate']
-      },
-      {
-        name: 'content_personalization',
-        description: 'Increase personalization to improve engagement',
-        effectiveness: 0.88,
-        applicableMetrics: ['click_rate', 'conversion_rate']
-      },
-      {
-        name: 'audience_segmentation',
-        description: 'Segment audience for more targeted messaging',
-        effectiveness: 0.91,
-        applicableMetrics: ['conversion_rate', 'unsubscribe_rate']
-      }
-    ];
-
-    for (const strategy of strategies) {
-      await this.storeMemory('semantic', {
-        type: 'optimization_strategy',
-        data: strategy
-      });
-    }
-  }
-
   public async generatePerformanceReport(campaignId: string): Promise<any> {
     const analysis = await this.retrieveMemory('long', {
       type: 'performance_analysis',
@@ -515,13 +539,14 @@ export class CampaignOptimizationAgent extends BaseAgent {
 
   public async predictCampaignOutcome(campaignData: Partial<Campaign>): Promise<any> {
     // Use historical data and machine learning patterns to predict outcomes
-    const historicalCampaigns = await this.retrieveMemory('long', {
-      type: 'campaign'
-    });
+    const historicalCampaigns = await this.searchMemory(
+      TextEmbedder.describe({ name: campaignData.name, type: campaignData.type, content: campaignData.content }),
+      { tiers: ['long'], types: ['campaign'], topK: 20, minScore: 0.3 }
+    );
 
     const similarCampaigns = historicalCampaigns.filter((camp: any) => 
       camp.data.type === campaignData.type &&
-      this.calculateSimilarity(camp.data, campaignData) > 0.7
+      camp.relevanceScore + this.calculateSimilarity(camp.data, campaignData) > 0.7
     );
 
     if (similarCampaigns.length === 0) {
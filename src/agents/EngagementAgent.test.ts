@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EngagementAgent } from './EngagementAgent';
+import { DataExtractor } from '../utils/dataExtractor';
+import { InteractionOutcome, Lead, LeadStatus } from '../types';
+import { buildZip, toCsv } from '../test/zipFixture';
+import { offlineMCPClient, silentWebSocketManager } from '../test/agentStubs';
+import { leadRecord } from '../test/records';
+
+const lead = (id: string): Record<string, string | number> => ({
+  lead_id: id,
+  created_at: '2024-03-01T09:00:00Z',
+  triage_category: 'Campaign Qualified',
+  lead_status: 'Open',
+  lead_score: 70,
+  email: `${id.toLowerCase()}@example.com`
+});
+
+const interaction = (id: string, leadId: string, conversationId: string, timestamp: string, channel: string, outcome: string) => ({
+  interaction_id: id,
+  conversation_id: conversationId,
+  lead_id: leadId,
+  timestamp,
+  channel,
+  event_type: 'email_reply',
+  outcome
+});
+
+const dataset = (): ArrayBuffer => buildZip({
+  'leads.csv': toCsv([lead('L-1'), lead('L-2')]),
+  'conversations.csv': toCsv([
+    { conversation_id: 'C-1', lead_id: 'L-1', opened_at: '2024-03-02T09:00:00Z', status: 'active' },
+    { conversation_id: 'C-2', lead_id: 'L-2', opened_at: '2024-03-02T09:00:00Z', status: 'closed' }
+  ]),
+  'interactions.csv': toCsv([
+    interaction('I-1', 'L-1', 'C-1', '2024-03-02T10:00:00Z', 'Email', 'positive'),
+    interaction('I-2', 'L-1', 'C-1', '2024-03-03T10:00:00Z', 'SMS', 'none'),
+    interaction('I-3', 'L-1', 'C-1', '2024-03-04T10:00:00Z', 'Email', 'callback_requested'),
+    interaction('I-4', 'L-2', 'C-2', '2024-03-02T10:00:00Z', 'Email', 'negative')
+  ])
+});
+
+const importDataset = async (agent: EngagementAgent): Promise<void> => {
+  const { conversations = [] } = await DataExtractor.extractMarketingData(dataset());
+  for (const conversation of conversations) {
+    await agent.importConversation(conversation);
+  }
+};
+
+describe('EngagementAgent conversation import', () => {
+  let agent: EngagementAgent;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    agent = new EngagementAgent(offlineMCPClient(), silentWebSocketManager(), { id: 'EN-TEST' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the successful touches of imported conversations in episodic memory', async () => {
+    await importDataset(agent);
+
+    const successful = agent.exportMemory().episodic.successfulInteractions;
+    expect(successful.map(item => item.id).sort()).toEqual(['I-1', 'I-3']);
+    expect(successful.every(item => item.outcome === InteractionOutcome.POSITIVE)).toBe(true);
+  });
+
+  it('uses imported history when inferring preferences', async () => {
+    await importDataset(agent);
+
+    const preferences = await agent.getCustomerPreferences({
+      id: 'L-1',
+      email: 'l-1@example.com',
+      status: LeadStatus.CONTACTED,
+      score: 70
+    } as Lead);
+
+    expect(preferences.preferredChannel).toBe('Email');
+    expect(preferences.responseRate).toBe(1);
+    expect(preferences.lastEngagedContent).toBe('email_reply via Email');
+    expect(preferences.communicationFrequency).toBe('daily');
+  });
+});
+
+describe('EngagementAgent playbooks', () => {
+  const episode = (id: string, scenario: string, actions: string[], score: number) => ({
+    episode_id: id,
+    scenario,
+    action_sequence_json: JSON.stringify(actions),
+    outcome_score: score,
+    notes: `${scenario} run ${id}`
+  });
+
+  let agent: EngagementAgent;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    agent = new EngagementAgent(offlineMCPClient(), silentWebSocketManager(), { id: 'EN-TEST' });
+
+    const { playbooks = [] } = await DataExtractor.extractMarketingData(buildZip({
+      'memory_episodic.csv': toCsv([
+        episode('E-1', 'smb_quick_win', ['send_email', 'offer_trial'], 0.6),
+        episode('E-2', 'smb_quick_win', ['book_demo'], 0.9),
+        episode('E-3', 'churn_risk', ['send_case_study'], 0.2)
+      ])
+    }));
+    for (const playbook of playbooks) {
+      await agent.importPlaybook(playbook);
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('imports each episode with its action sequence and dataset row', async () => {
+    const outcomes = agent.exportMemory().episodic.decisionOutcomes;
+
+    expect(outcomes.map(outcome => [outcome.id, outcome.success, outcome.context.actionSequence])).toEqual([
+      ['E-1', true, ['send_email', 'offer_trial']],
+      ['E-2', true, ['book_demo']],
+      ['E-3', false, ['send_case_study']]
+    ]);
+    expect(outcomes[1].provenance?.datasetSources).toEqual([{ file: 'memory_episodic.csv', row: 2 }]);
+  });
+
+  it("recommends the best-scoring playbook for the lead's scenario", async () => {
+    const { scenario, playbook } = await agent.recommendPlaybook(leadRecord('L-1', { score: 80 }));
+
+    expect(scenario).toBe('smb_quick_win');
+    expect(playbook).toMatchObject({ id: 'E-2', actionSequence: ['book_demo'], outcomeScore: 0.9 });
+  });
+
+  it('returns no playbook for a scenario without episodes', async () => {
+    const { scenario, playbook } = await agent.recommendPlaybook(leadRecord('L-1', { score: 80, metadata: { persona: 'Procurement' } }));
+
+    expect(scenario).toBe('multi_stakeholder');
+    expect(playbook).toBeNull();
+  });
+});
@@ -1,16 +1,20 @@
-import { BaseAgent } from './BaseAgent';
+import { AgentOptions, BaseAgent } from './BaseAgent';
 import { 
   AgentType, 
   AgentAction, 
   ActionResult, 
   Lead, 
+  LeadStatus,
   Campaign, 
   CampaignType, 
   CampaignStatus,
   ActionType,
+  CustomerProfile,
   Interaction,
   InteractionType,
-  InteractionOutcome
+  InteractionOutcome,
+  ConversationTimeline,
+  Playbook
 } from '../types';
 import { MCPClient } from '../mcp/MCPClient';
 import { WebSocketManager } from '../communication/WebSocketManager';
@@ -24,7 +28,26 @@ export class EngagementAgent extends BaseAgent {
     conversion: 'Hi {name}, based on your engagement with {previous_content}, you might be ready for {next_step}.'
   };
 
-  constructor(mcpClient: MCPClient, wsManager: WebSocketManager) {
+  // Evaluated in order; the first match picks the playbook scenario
+  private readonly SCENARIO_RULES: Array<{ scenario: string; matches: (lead: Lead) => boolean }> = [
+    { scenario: 'churn_risk', matches: lead => lead.status === LeadStatus.LOST || lead.score < 30 },
+    { scenario: 'security_review', matches: lead => ['FinTech', 'HealthTech'].includes(lead.metadata?.industry) },
+    { scenario: 'multi_stakeholder', matches: lead => lead.metadata?.persona === 'Procurement' },
+    { scenario: 'enterprise_eval', matches: lead => ['1001-5000', '5000+'].includes(lead.metadata?.companySize) },
+    { scenario: 'budget_blocker', matches: lead => lead.score < 50 },
+    { scenario: 'smb_quick_win', matches: () => true }
+  ];
+
+  // Playbook actions this agent can carry out, and the template each one uses
+  private readonly PLAYBOOK_TEMPLATES: Record<string, string> = {
+    book_demo: 'conversion',
+    offer_trial: 'conversion',
+    send_case_study: 'nurture',
+    retarget_ads: 'nurture',
+    follow_up_sms: 'followup'
+  };
+
+  constructor(mcpClient: MCPClient, wsManager: WebSocketManager, options: AgentOptions = {}) {
     super(
       'Engagement Agent',
       AgentType.ENGAGEMENT,
@@ -38,13 +61,13 @@ export class EngagementAgent extends BaseAgent {
         'sentiment_analysis'
       ],
       mcpClient,
-      wsManager
+      wsManager,
+      options
     );
   }
 
   protected initialize(): void {
     console.log(`${this.name} initialized with capabilities:`, this.capabilities);
-    this.loadEngagementStrategies();
     this.setupMessageHandlers();
   }
 
@@ -87,14 +110,11 @@ export class EngagementAgent extends BaseAgent {
   }
 
   private async sendPersonalizedEmail(payload: any): Promise<ActionResult> {
-    const { lead, campaignType, customMessage } = payload;
+    const { lead, campaignType, customMessage, playbook } = payload;
     
     try {
       // Retrieve customer preferences and history
-      const customerHistory = await this.retrieveMemory('long', {
-        type: 'customer_profile',
-        email: lead.email
-      });
+      const customerHistory = await this.customerHistory(lead);
 
       // Generate personalized content
       const personalizedContent = await this.generatePersonalizedContent(
@@ -120,7 +140,8 @@ export class EngagementAgent extends BaseAgent {
         metadata: {
           subject: personalizedContent.subject,
           campaignType,
-          deliveryStatus: emailResult.status
+          deliveryStatus: emailResult.status,
+          playbookId: playbook?.id
         }
       };
 
@@ -137,7 +158,8 @@ export class EngagementAgent extends BaseAgent {
         data: {
           interaction,
           deliveryStatus: emailResult.status,
-          personalizedContent
+          personalizedContent,
+          playbook
         },
         metrics: {
           personalization_score: personalizedContent.personalizationScore,
@@ -186,29 +208,107 @@ export class EngagementAgent extends BaseAgent {
     return personalizedContent;
   }
 
+  /**
+   * Preferences inferred from everything remembered about a lead
+   */
+  public async getCustomerPreferences(lead: Lead) {
+    return this.analyzeCustomerPreferences(await this.customerHistory(lead));
+  }
+
+  /**
+   * The lead's profile, whose timeline comes from the dataset, and the interactions held in
+   * episodic memory, which include imported conversations
+   */
+  private async customerHistory(lead: Lead) {
+    return [
+      ...await this.retrieveMemory('long', { type: 'customer_profile', email: lead.email }),
+      ...await this.retrieveMemory('episodic', { type: 'interaction', customerId: lead.id })
+    ];
+  }
+
   private analyzeCustomerPreferences(history: any[]): any {
     const preferences = {
       preferredContentType: 'article',
+      preferredChannel: undefined as string | undefined,
       communicationFrequency: 'weekly',
       topicsOfInterest: ['technology', 'marketing'],
       lastEngagedContent: 'product demo',
       responseRate: 0.3
     };
 
-    // Analyze historical interactions
-    history.forEach((item: any) => {
-      if (item.data?.type === 'interaction') {
-        const interaction = item.data.data;
-        if (interaction.outcome === InteractionOutcome.POSITIVE) {
-          // Extract successful patterns
-          preferences.responseRate += 0.1;
-        }
-      }
+    const profileTopics = history
+      .filter(item => item.type === 'customer_profile')
+      .flatMap(item => (item.data as CustomerProfile).preferences?.topics || []);
+    if (profileTopics.length > 0) {
+      preferences.topicsOfInterest = Array.from(new Set<string>(profileTopics));
+    }
+
+    const interactions = this.collectInteractions(history);
+    if (interactions.length === 0) return preferences;
+
+    // Response rate and best channel from actual outcomes
+    const successful = interactions.filter(interaction => this.isSuccessfulOutcome(interaction));
+    preferences.responseRate = successful.length / interactions.length;
+
+    const channelStats = new Map<string, { total: number; successful: number }>();
+    interactions.forEach(interaction => {
+      const channel = interaction.metadata?.channel || interaction.type;
+      const stats = channelStats.get(channel) || { total: 0, successful: 0 };
+      stats.total++;
+      if (this.isSuccessfulOutcome(interaction)) stats.successful++;
+      channelStats.set(channel, stats);
     });
+    preferences.preferredChannel = Array.from(channelStats.entries())
+      .sort(([, a], [, b]) => b.successful / b.total - a.successful / a.total || b.total - a.total)[0][0];
+
+    const lastSuccess = successful[successful.length - 1];
+    if (lastSuccess) {
+      preferences.lastEngagedContent = lastSuccess.metadata?.variantId
+        ? `${lastSuccess.metadata.eventType} (${lastSuccess.metadata.variantId})`
+        : lastSuccess.content;
+    }
+
+    // Cadence from the median gap between touches
+    if (interactions.length > 1) {
+      const gaps = interactions
+        .slice(1)
+        .map((interaction, index) =>
+          new Date(interaction.timestamp).getTime() - new Date(interactions[index].timestamp).getTime()
+        )
+        .sort((a, b) => a - b);
+      const medianDays = gaps[Math.floor(gaps.length / 2)] / (1000 * 60 * 60 * 24);
+      preferences.communicationFrequency = medianDays <= 2 ? 'daily' : medianDays <= 10 ? 'weekly' : 'monthly';
+    }
 
     return preferences;
   }
 
+  /**
+   * Flatten retrieved memory items (customer profiles and stored interactions) into one
+   * chronological, de-duplicated interaction list
+   */
+  private collectInteractions(items: Array<{ type: string; data: unknown }>): Interaction[] {
+    const interactions = new Map<string, Interaction>();
+
+    items.forEach(item => {
+      if (item.type === 'customer_profile') {
+        ((item.data as CustomerProfile).interactionHistory || []).forEach(interaction => {
+          interactions.set(interaction.id, interaction);
+        });
+      } else if (item.type === 'interaction') {
+        const interaction = item.data as Interaction;
+        interactions.set(interaction.id, interaction);
+      }
+    });
+
+    return Array.from(interactions.values())
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  private isSuccessfulOutcome(interaction: Interaction): boolean {
+    return interaction.outcome === InteractionOutcome.POSITIVE || interaction.outcome === InteractionOutcome.CONVERSION;
+  }
+
   private selectTemplate(campaignType: string, preferences: any): any {
     const templates = {
       welcome: {
@@ -345,7 +445,7 @@ export class EngagementAgent extends BaseAgent {
   private setupMessageHandlers(): void {
     // Handle messages from other agents
     this.wsManager.onMessage((message: any) => {
-      if (message.targetAgentId === this.id || message.targetAgentId === 'engagement_agent') {
+      if (this.respondsTo(message.targetAgentId)) {
         this.handleIncomingMessage(message);
       }
     });
@@ -363,7 +463,13 @@ export class EngagementAgent extends BaseAgent {
   }
 
   private async processNewQualifiedLead(lead: Lead, triageNotes: any): Promise<void> {
-    // Automatically initiate engagement based on triage recommendations
+    // Automatically initiate engagement based on triage recommendations,
+    // unless a playbook for this kind of lead says otherwise
+    const { playbook } = await this.recommendPlaybook(lead);
+    const playbookTemplate = playbook?.actionSequence
+      .map(step => this.PLAYBOOK_TEMPLATES[step])
+      .find(Boolean);
+
     const action: AgentAction = {
       id: uuidv4(),
       agentId: this.id,
@@ -371,8 +477,9 @@ export class EngagementAgent extends BaseAgent {
       target: lead.id,
       payload: {
         lead,
-        campaignType: this.mapApproachToCampaign(triageNotes.recommendedApproach),
-        urgency: lead.score > 80 ? 'high' : 'normal'
+        campaignType: playbookTemplate || this.mapApproachToCampaign(triageNotes.recommendedApproach),
+        urgency: lead.score > 80 ? 'high' : 'normal',
+        playbook
       },
       timestamp: new Date()
     };
@@ -380,6 +487,14 @@ export class EngagementAgent extends BaseAgent {
     await this.processAction(action);
   }
 
+  /**
+   * Classify a lead into a playbook scenario and find the best-scoring action sequence for it
+   */
+  public async recommendPlaybook(lead: Lead): Promise<{ scenario: string; playbook: Playbook | null }> {
+    const scenario = this.SCENARIO_RULES.find(rule => rule.matches(lead))!.scenario;
+    return { scenario, playbook: await this.findBestPlaybook(scenario) };
+  }
+
   private mapApproachToCampaign(approach: string): string {
     const mapping: Record<string, string> = {
       'immediate_personal_outreach': 'welcome',
@@ -411,36 +526,6 @@ export class EngagementAgent extends BaseAgent {
     }
   }
 
-  private async loadEngagementStrategies(): Promise<void> {
-    const strategies = [
-      {
-        name: 'value_first_approach',
-        description: 'Lead with value proposition before asking for anything',
-        effectiveness: 0.85,
-        applicableScenarios: ['cold_outreach', 'first_contact']
-      },
-      {
-        name: 'social_proof_integration',
-        description: 'Include testimonials and case studies in communications',
-        effectiveness: 0.78,
-        applicableScenarios: ['nurture_campaigns', 'conversion_focused']
-      },
-      {
-        name: 'problem_solution_fit',
-        description: 'Align messaging with specific customer pain points',
-        effectiveness: 0.92,
-        applicableScenarios: ['qualified_leads', 'demo_requests']
-      }
-    ];
-
-    for (const strategy of strategies) {
-      await this.storeMemory('semantic', {
-        type: 'engagement_strategy',
-        data: strategy
-      });
-    }
-  }
-
   public async getEngagementMetrics(): Promise<Record<string, number>> {
     const interactions = await this.retrieveMemory('long', {
       type: 'interaction',
@@ -501,7 +586,8 @@ export class EngagementAgent extends BaseAgent {
 
   public async createCampaign(campaignData: Partial<Campaign>): Promise<Campaign> {
     const campaign: Campaign = {
-      id: uuidv4(),
+      // Keep the dataset's id so reloading a campaign updates it instead of adding a copy
+      id: campaignData.id || uuidv4(),
       name: campaignData.name || 'Untitled Campaign',
       type: campaignData.type || CampaignType.EMAIL,
       status: CampaignStatus.DRAFT,
@@ -524,7 +610,8 @@ export class EngagementAgent extends BaseAgent {
       startDate: campaignData.startDate || new Date(),
       endDate: campaignData.endDate,
       budget: campaignData.budget || 0,
-      createdBy: this.id
+      createdBy: this.id,
+      targetSegmentId: campaignData.targetSegmentId
     };
 
     await this.storeMemory('long', {
@@ -535,12 +622,27 @@ export class EngagementAgent extends BaseAgent {
     return campaign;
   }
 
+  /**
+   * Import a conversation from the dataset. Successful touches become episodic memories;
+   * the full timeline is already on the customer profile.
+   */
+  public async importConversation(conversation: ConversationTimeline): Promise<void> {
+    for (const interaction of conversation.interactions) {
+      if (this.isSuccessfulOutcome(interaction)) {
+        await this.storeMemory('episodic', {
+          type: 'successful_interaction',
+          data: interaction
+        });
+      }
+    }
+  }
+
   public async optimizeEngagementTiming(leadId: string): Promise<Date> {
     // Analyze historical engagement patterns
-    const history = await this.retrieveMemory('long', {
-      type: 'interaction',
-      customerId: leadId
-    });
+    const history = this.collectInteractions([
+      ...await this.retrieveMemory('long', { type: 'customer_profile', customerId: leadId }),
+      ...await this.retrieveMemory('episodic', { type: 'interaction', customerId: leadId })
+    ]);
 
     // Default to business hours if no history
     if (history.length === 0) {
@@ -552,8 +654,8 @@ export class EngagementAgent extends BaseAgent {
 
     // Find optimal engagement times from successful interactions
     const successfulTimes = history
-      .filter((item: any) => item.data.outcome === InteractionOutcome.POSITIVE)
-      .map((item: any) => new Date(item.data.timestamp).getHours());
+      .filter(interaction => this.isSuccessfulOutcome(interaction))
+      .map(interaction => new Date(interaction.timestamp).getHours());
 
     const optimalHour = successfulTimes.length > 0 
       ? Math.round(successfulTimes.reduce((a, b) => a + b, 0) / successfulTimes.length)
@@ -1,6 +1,7 @@
-import { BaseAgent } from './BaseAgent';
-import { AgentType, AgentAction, ActionResult, Lead, LeadCategory, LeadStatus, ActionType } from '../types';
+import { AgentOptions, BaseAgent } from './BaseAgent';
+import { AgentType, AgentAction, ActionResult, KnowledgeNode, Lead, LeadCategory, LeadStatus, ActionType } from '../types';
 import { MCPClient } from '../mcp/MCPClient';
+import { TriplePattern } from '../memory/KnowledgeGraphQuery';
 import { WebSocketManager } from '../communication/WebSocketManager';
 
 export class LeadTriageAgent extends BaseAgent {
@@ -11,7 +12,10 @@ export class LeadTriageAgent extends BaseAgent {
     engagement_history: 0.25
   };
 
-  constructor(mcpClient: MCPClient, wsManager: WebSocketManager) {
+  /** Knowledge graph concepts that are outreach channels */
+  private readonly CHANNEL_CONCEPTS = ['Email', 'SMS', 'Social', 'Ads'];
+
+  constructor(mcpClient: MCPClient, wsManager: WebSocketManager, options: AgentOptions = {}) {
     super(
       'Lead Triage Agent',
       AgentType.LEAD_TRIAGE,
@@ -23,13 +27,13 @@ export class LeadTriageAgent extends BaseAgent {
         'duplicate_detection'
       ],
       mcpClient,
-      wsManager
+      wsManager,
+      options
     );
   }
 
   protected initialize(): void {
     console.log(`${this.name} initialized with capabilities:`, this.capabilities);
-    this.loadDomainKnowledge();
   }
 
   public async processAction(action: AgentAction): Promise<ActionResult> {
@@ -156,9 +160,60 @@ export class LeadTriageAgent extends BaseAgent {
       };
     }
 
+    const graphChannels = this.recommendChannels(enriched);
+    if (graphChannels.length > 0) {
+      enriched.metadata = { ...enriched.metadata, graphChannels };
+    }
+
     return enriched;
   }
 
+  /**
+   * Channels the knowledge graph says the lead's segment, region, industry or persona prefers, strongest first
+   */
+  private recommendChannels(lead: Partial<Lead>): string[] {
+    const graph = this.queryKnowledgeGraph();
+    const { companySize, region, industry, persona } = lead.metadata || {};
+    const concepts = [this.companySegment(companySize), region, industry, persona]
+      .filter((concept): concept is string => typeof concept === 'string' && !!graph.node(concept));
+
+    const strengths = new Map<string, number>();
+    concepts.forEach(concept => {
+      graph.match({ subject: concept, predicate: 'preferred_channel', object: '?channel' }).forEach(({ bindings, triples }) => {
+        const channel = graph.node(bindings.channel)!.concept;
+        if (this.CHANNEL_CONCEPTS.includes(channel)) {
+          strengths.set(channel, (strengths.get(channel) || 0) + triples[0].strength);
+        }
+      });
+    });
+
+    return Array.from(strengths.entries())
+      .sort(([, a], [, b]) => b - a)
+      .map(([channel]) => channel);
+  }
+
+  /**
+   * Concepts that prefer a channel, e.g. which segments prefer Email. With `linkedTo`, only
+   * those with an edge to that concept, e.g. segments that prefer Email and target FinTech.
+   */
+  public findAudiencesPreferring(channel: string, linkedTo?: string): KnowledgeNode[] {
+    const graph = this.queryKnowledgeGraph();
+    const patterns: TriplePattern[] = [{ subject: '?audience', predicate: 'preferred_channel', object: channel }];
+    if (linkedTo) {
+      patterns.push({ subject: '?audience', object: linkedTo });
+    }
+
+    const ids = new Set(graph.match(patterns).map(match => match.bindings.audience));
+    return Array.from(ids).map(id => graph.node(id)!);
+  }
+
+  private companySegment(companySize: unknown): string | undefined {
+    // Dataset sizes are ranges such as '51-200' or '5000+'
+    const lowerBound = typeof companySize === 'string' ? parseInt(companySize, 10) : NaN;
+    if (isNaN(lowerBound)) return undefined;
+    return lowerBound > 200 ? 'Enterprise' : 'SMB';
+  }
+
   private async scoreLead(lead: Partial<Lead>): Promise<number> {
     let score = 0;
 
@@ -244,13 +299,15 @@ export class LeadTriageAgent extends BaseAgent {
   }
 
   private async handoffToEngagementAgent(lead: Lead): Promise<void> {
-    await this.sendMessage('engagement_agent', {
+    // Dataset leads name their engagement agent (e.g. EN-015); others go to the default one
+    await this.sendMessage(lead.metadata?.assignedEngagementAgent || 'engagement_agent', {
       type: 'new_qualified_lead',
       lead,
       triageNotes: {
         score: lead.score,
         category: lead.category,
-        recommendedApproach: this.getRecommendedApproach(lead)
+        recommendedApproach: this.getRecommendedApproach(lead),
+        recommendedChannels: lead.metadata?.graphChannels || []
       }
     });
   }
@@ -268,33 +325,6 @@ export class LeadTriageAgent extends BaseAgent {
     }
   }
 
-  private async loadDomainKnowledge(): Promise<void> {
-    const domainKnowledge = [
-      {
-        concept: 'lead_qualification',
-        description: 'Process of evaluating leads based on fit and intent',
-        category: 'sales_process'
-      },
-      {
-        concept: 'lead_scoring',
-        description: 'Numerical assessment of lead quality and conversion probability',
-        category: 'analytics'
-      },
-      {
-        concept: 'lead_nurturing',
-        description: 'Process of developing relationships with buyers at every stage',
-        category: 'marketing_strategy'
-      }
-    ];
-
-    for (const knowledge of domainKnowledge) {
-      await this.storeMemory('semantic', {
-        type: 'domain_knowledge',
-        data: knowledge
-      });
-    }
-  }
-
   public async getTriageStats(): Promise<Record<string, number>> {
     const recentActions = await this.retrieveMemory('episodic', {
       type: 'action_log',
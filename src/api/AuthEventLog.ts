@@ -0,0 +1,49 @@
+import { AuthEvent, AuthResult } from '../types';
+
+export interface AuthEventQuery {
+  principal?: string;
+  result?: AuthResult;
+  method?: string;
+  /** Newest events returned (default 100) */
+  limit?: number;
+}
+
+/**
+ * Where the MCP server writes every auth decision
+ */
+export interface AuthEventLog {
+  record(event: AuthEvent): void;
+  /** Matching events, newest first */
+  query(query?: AuthEventQuery): AuthEvent[];
+  /** Wait for buffered writes to be persisted */
+  flush(): Promise<void>;
+}
+
+/**
+ * Keeps the latest events in process memory, dropping the oldest beyond `capacity`
+ */
+export class InMemoryAuthEventLog implements AuthEventLog {
+  protected events: AuthEvent[] = [];
+
+  constructor(private readonly capacity: number = 1000) {}
+
+  public record(event: AuthEvent): void {
+    this.events.unshift(event);
+    if (this.events.length > this.capacity) {
+      this.events.length = this.capacity;
+    }
+  }
+
+  public query(query: AuthEventQuery = {}): AuthEvent[] {
+    return this.events
+      .filter(event =>
+        (!query.principal || event.principal === query.principal) &&
+        (!query.result || event.result === query.result) &&
+        (!query.method || event.method === query.method)
+      )
+      .slice(0, Math.max(1, query.limit ?? 100))
+      .map(event => ({ ...event }));
+  }
+
+  public async flush(): Promise<void> {}
+}
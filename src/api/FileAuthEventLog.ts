@@ -0,0 +1,63 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { reviveDates } from '../memory/MemoryStore';
+import { AuthEvent } from '../types';
+import { InMemoryAuthEventLog } from './AuthEventLog';
+
+/**
+ * Appends every event to a JSON-lines file and keeps the latest in memory for queries.
+ * Appends are write-behind and batched; call open() before use and flush() before exiting.
+ */
+export class FileAuthEventLog extends InMemoryAuthEventLog {
+  private writing: Promise<void> = Promise.resolve();
+  private buffered: AuthEvent[] = [];
+
+  constructor(private readonly filePath: string, capacity?: number) {
+    super(capacity);
+  }
+
+  /**
+   * Load the events already in the file, so queries see decisions from before a restart
+   */
+  public async open(): Promise<number> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    const content = await readFile(this.filePath, 'utf-8').catch(() => '');
+    let loaded = 0;
+    content.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        super.record(JSON.parse(line, reviveDates));
+        loaded++;
+      } catch {
+        // A line cut short by a crash; the rest of the log is still usable
+      }
+    });
+
+    return loaded;
+  }
+
+  public record(event: AuthEvent): void {
+    super.record(event);
+    this.buffered.push(event);
+    if (this.buffered.length === 1) {
+      this.writing = this.writing.then(() => this.append());
+    }
+  }
+
+  public async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  private async append(): Promise<void> {
+    // Events recorded from here on queue another append
+    const events = this.buffered;
+    this.buffered = [];
+
+    try {
+      await appendFile(this.filePath, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf-8');
+    } catch (error) {
+      console.error(`Failed to write auth events to ${this.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { reviveDates } from '../memory/MemoryStore';
+import { InMemoryMarketingRepository, MARKETING_COLLECTIONS, MarketingCollection } from './MarketingRepository';
+
+/**
+ * Keeps each collection in memory and mirrors it to `<baseDir>/<collection>.json`. Saves are
+ * write-behind and coalesced: a burst of writes to one collection ends up as at most two file
+ * writes. Call open() before use and flush() before exiting.
+ */
+export class FileMarketingRepository extends InMemoryMarketingRepository {
+  private writing: Promise<void> = Promise.resolve();
+  private dirty: Set<MarketingCollection> = new Set();
+
+  constructor(private readonly baseDir: string) {
+    super();
+  }
+
+  /**
+   * Load every collection saved in the directory; returns the number of records read
+   */
+  public async open(): Promise<number> {
+    await mkdir(this.baseDir, { recursive: true });
+
+    let loaded = 0;
+    for (const collection of MARKETING_COLLECTIONS) {
+      const content = await readFile(this.filePath(collection), 'utf-8').catch(() => null);
+      if (content === null) continue;
+
+      try {
+        const records: Array<{ id: string }> = JSON.parse(content, reviveDates);
+        const target: Map<string, unknown> = this.collections[collection];
+        target.clear();
+        records.forEach(record => target.set(record.id, record));
+        loaded += records.length;
+      } catch (error) {
+        // Keep the file for recovery, out of the way of the next save; seeding refills the collection
+        const aside = `${this.filePath(collection)}.corrupt-${Date.now()}`;
+        await rename(this.filePath(collection), aside);
+        console.error(`Unreadable marketing collection ${this.filePath(collection)}, moved to ${aside}:`, error);
+      }
+    }
+
+    return loaded;
+  }
+
+  public async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  protected changed(collection: MarketingCollection): void {
+    if (this.dirty.has(collection)) return;
+    this.dirty.add(collection);
+    this.writing = this.writing.then(() => this.save(collection));
+  }
+
+  private async save(collection: MarketingCollection): Promise<void> {
+    // Writes arriving from here on queue another save
+    this.dirty.delete(collection);
+    const records: Map<string, unknown> = this.collections[collection];
+    const content = JSON.stringify(Array.from(records.values()));
+    const target = this.filePath(collection);
+
+    try {
+      // Write then rename so a crash never leaves a half-written collection behind
+      await writeFile(`${target}.tmp`, content, 'utf-8');
+      await rename(`${target}.tmp`, target);
+    } catch (error) {
+      console.error(`Failed to save marketing collection ${target}:`, error);
+    }
+  }
+
+  private filePath(collection: MarketingCollection): string {
+    return join(this.baseDir, `${collection}.json`);
+  }
+}
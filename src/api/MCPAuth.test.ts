@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createHmac } from 'crypto';
+import { ADMIN_SCOPE, MCPAuthenticator, signAccessToken } from './MCPAuth';
+import { MCPServer } from './MCPServer';
+import { InMemoryMarketingRepository } from './MarketingRepository';
+import { leadRecord } from '../test/records';
+
+const SECRET = 'test-secret';
+const now = () => Math.floor(Date.now() / 1000);
+const call = (method: string, params?: unknown, id: number = 1) => ({ jsonrpc: '2.0', id, method, params });
+
+/** A token signed with SECRET whose header says `alg` */
+const tokenWithAlg = (alg: string, claims: object): string => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', SECRET).update(unsigned).digest('base64url')}`;
+};
+
+describe('MCPAuthenticator tokens', () => {
+  let auth: MCPAuthenticator;
+
+  beforeEach(() => {
+    auth = new MCPAuthenticator({ jwtSecret: SECRET, jwtIssuer: 'marketing', jwtAudience: 'mcp' });
+  });
+
+  const authorize = (token: string) => auth.authorize('marketing.getLeads', {}, { credential: token });
+  const claims = { sub: 'svc-1', scope: 'leads:read', iss: 'marketing', aud: 'mcp' };
+
+  it('accepts a valid token and names its subject', () => {
+    expect(authorize(signAccessToken(claims, SECRET, 60))).toMatchObject({
+      result: 'success',
+      principal: { id: 'svc-1', mechanism: 'JWT', scopes: ['leads:read'] }
+    });
+  });
+
+  it('accepts an audience list that includes the expected audience', () => {
+    expect(authorize(signAccessToken({ ...claims, aud: ['other', 'mcp'] }, SECRET)).result).toBe('success');
+  });
+
+  it.each([
+    ['a signature made with another secret', () => signAccessToken(claims, 'wrong-secret'), 'failure', 'Invalid token signature'],
+    ['alg none', () => tokenWithAlg('none', claims), 'failure', 'Unsupported token algorithm'],
+    ['alg HS512', () => tokenWithAlg('HS512', claims), 'failure', 'Unsupported token algorithm'],
+    ['an expired token', () => signAccessToken({ ...claims, exp: now() - 10 }, SECRET), 'expired', 'Token expired'],
+    ['a token not valid yet', () => signAccessToken({ ...claims, nbf: now() + 60 }, SECRET), 'failure', 'Token not yet valid'],
+    ['another issuer', () => signAccessToken({ ...claims, iss: 'elsewhere' }, SECRET), 'failure', 'Unexpected token issuer'],
+    ['another audience', () => signAccessToken({ ...claims, aud: 'billing' }, SECRET), 'failure', 'Unexpected token audience'],
+    ['no subject', () => signAccessToken({ ...claims, sub: '' }, SECRET), 'failure', 'Token has no subject'],
+    ['a malformed payload', () => `${tokenWithAlg('HS256', claims).split('.')[0]}.bm90LWpzb24.c2ln`, 'failure', 'Malformed token']
+  ])('rejects %s', (_, token, result, reason) => {
+    expect(authorize(token())).toMatchObject({ result, reason });
+  });
+
+  it('logs every decision, naming the principal when the credential was valid', () => {
+    authorize(signAccessToken({ ...claims, scope: 'campaigns:read' }, SECRET));
+    authorize('not-a-key');
+
+    const events = auth.getLog().query({});
+    expect(events.map(event => [event.principal, event.result])).toEqual(
+      expect.arrayContaining([['svc-1', 'denied'], ['anonymous', 'failure']])
+    );
+  });
+});
+
+describe('MCPAuthenticator scopes', () => {
+  const auth = new MCPAuthenticator({
+    apiKeys: [
+      { key: 'rw-key', principal: 'crm-sync', scopes: ['leads:rw'] },
+      { key: 'admin-key', principal: 'ops', scopes: [ADMIN_SCOPE] }
+    ]
+  });
+
+  it.each([
+    ['tools/call', { name: 'marketing.updateLead', arguments: {} }, 'leads:write'],
+    ['tools/call', { name: 'unmapped.tool' }, ADMIN_SCOPE],
+    ['resources/read', { uri: 'db://campaigns/C-1' }, 'campaigns:read'],
+    ['resources/subscribe', { uri: 'kg://graph?agentId=EN-001' }, 'kg:read'],
+    ['resources/read', { uri: 'file:///etc/passwd' }, ADMIN_SCOPE],
+    ['resources/read', { uri: 'not a uri' }, ADMIN_SCOPE],
+    ['prompts/get', { name: 'review_campaign' }, 'campaigns:read'],
+    ['prompts/get', { name: 'unknown' }, ADMIN_SCOPE],
+    ['notifications/cancelled', {}, null],
+    ['memory.import', {}, ADMIN_SCOPE],
+    ['tools/call', { name: 'memory.import', arguments: { snapshot: {} } }, ADMIN_SCOPE],
+    ['never.registered', {}, ADMIN_SCOPE],
+    ['tools/call', { name: 'constructor' }, ADMIN_SCOPE],
+    ['tools/call', { name: 'toString' }, ADMIN_SCOPE],
+    ['tools/call', { name: 5 }, ADMIN_SCOPE],
+    ['tools/call', null, ADMIN_SCOPE],
+    ['prompts/get', { name: 'constructor' }, ADMIN_SCOPE],
+    ['prompts/get', { name: ['triage_lead'] }, ADMIN_SCOPE],
+    ['resources/read', { uri: 42 }, ADMIN_SCOPE]
+  ])('needs the right scope for %s %o', (method, params, scope) => {
+    expect(auth.scopeFor(method, params)).toBe(scope);
+  });
+
+  it('lets a :rw grant read and write its resource only', () => {
+    const authorize = (method: string) => auth.authorize(method, {}, { credential: 'rw-key' }).result;
+
+    expect(authorize('marketing.getLeads')).toBe('success');
+    expect(authorize('marketing.updateLead')).toBe('success');
+    expect(authorize('marketing.getCampaigns')).toBe('denied');
+  });
+
+  it.each([
+    ['tools/call', { name: 'constructor' }],
+    ['tools/call', { name: 5 }],
+    ['prompts/get', { name: 'toString' }]
+  ])('denies and logs %s %o for a scoped key instead of failing', (method, params) => {
+    const logged = new MCPAuthenticator({ apiKeys: [{ key: 'rw-key', principal: 'crm-sync', scopes: ['leads:rw'] }] });
+
+    expect(logged.authorize(method, params, { credential: 'rw-key' })).toMatchObject({ result: 'denied', scope: ADMIN_SCOPE });
+    expect(logged.getLog().query({})).toEqual([expect.objectContaining({ principal: 'crm-sync', method, result: 'denied' })]);
+  });
+
+  it('lets the admin scope call anything, including unmapped methods', () => {
+    expect(auth.authorize('never.registered', {}, { credential: 'admin-key' }).result).toBe('success');
+  });
+
+  it('requires credentials only for scoped methods', () => {
+    expect(auth.authorize('initialize', {}, {}).result).toBe('success');
+    expect(auth.authorize('marketing.getLeads', {}, {})).toMatchObject({ result: 'failure', reason: 'No credentials' });
+  });
+});
+
+describe('MCPServer authorization errors', () => {
+  let server: MCPServer;
+
+  beforeEach(async () => {
+    const repository = new InMemoryMarketingRepository();
+    await repository.seed({ leads: [leadRecord('L-1')] });
+    const auth = new MCPAuthenticator({
+      apiKeys: [{ key: 'reader-key', principal: 'dashboard', scopes: ['leads:read'] }],
+      jwtSecret: SECRET
+    });
+    server = new MCPServer(0, repository, auth);
+  });
+
+  it('answers missing or invalid credentials with -32001', async () => {
+    expect(await server.dispatch(call('marketing.getLeads'))).toMatchObject({
+      error: { code: -32001, message: 'Unauthorized', data: { reason: 'No credentials' } }
+    });
+    expect(await server.dispatch(call('marketing.getLeads'), { credential: 'unknown-key' })).toMatchObject({
+      error: { code: -32001, data: { reason: 'Unknown API key' } }
+    });
+  });
+
+  it('answers an expired token with -32001', async () => {
+    const token = signAccessToken({ sub: 'svc-1', scope: 'leads:read', exp: now() - 1 }, SECRET);
+
+    expect(await server.dispatch(call('marketing.getLeads'), { credential: token })).toMatchObject({
+      error: { code: -32001, data: { reason: 'Token expired' } }
+    });
+  });
+
+  it('answers a missing scope with -32003, including through tools/call', async () => {
+    expect(await server.dispatch(call('marketing.updateLead', { leadId: 'L-1', updates: {} }), { credential: 'reader-key' }))
+      .toMatchObject({ error: { code: -32003, message: 'Forbidden', data: { scope: 'leads:write' } } });
+    expect(await server.dispatch(call('tools/call', { name: 'marketing.updateLead', arguments: {} }), { credential: 'reader-key' }))
+      .toMatchObject({ error: { code: -32003, data: { scope: 'leads:write' } } });
+  });
+
+  it.each(['constructor', 'toString'])('answers a tools/call named %s with -32003', async name => {
+    expect(await server.dispatch(call('tools/call', { name, arguments: {} }), { credential: 'reader-key' }))
+      .toMatchObject({ error: { code: -32003, data: { scope: ADMIN_SCOPE } } });
+  });
+
+  it('runs calls the credential is scoped for', async () => {
+    const response = await server.dispatch(call('marketing.getLeads', {}), { credential: 'reader-key' });
+
+    expect(response).toMatchObject({ result: { leads: [{ id: 'L-1' }] } });
+  });
+});
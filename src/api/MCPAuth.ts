@@ -0,0 +1,312 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthMechanism, AuthResult } from '../types';
+import { AuthEventLog, InMemoryAuthEventLog } from './AuthEventLog';
+
+/** Holding this scope allows every method */
+export const ADMIN_SCOPE = 'admin';
+
+/**
+ * Scope each method needs, keyed by method name; null means anyone may call it. Methods missing
+ * from the map need ADMIN_SCOPE, so new handlers are closed until someone maps them.
+ */
+export const METHOD_SCOPES: Record<string, string | null> = {
+  'initialize': null,
+  'ping': null,
+  'notifications/initialized': null,
+  'resources/list': null,
+  'resources/unsubscribe': null,
+  'tools/list': null,
+  'prompts/list': null,
+  'system.ping': null,
+  'marketing.getLeads': 'leads:read',
+  'marketing.createLead': 'leads:write',
+  'marketing.updateLead': 'leads:write',
+  'marketing.getCampaigns': 'campaigns:read',
+  'marketing.createCampaign': 'campaigns:write',
+  'marketing.updateCampaign': 'campaigns:write',
+  'analytics.query': 'analytics:read',
+  'customers.getProfiles': 'customers:read',
+  'customers.updateProfile': 'customers:write',
+  'email.send': 'email:write',
+  'email.getTemplates': 'email:read',
+  'email.trackEvent': 'analytics:write',
+  'social.post': 'social:write',
+  'social.getMetrics': 'social:read',
+  'enrichment.enrichLead': 'enrichment:read',
+  'validation.validateEmail': 'enrichment:read',
+  'intelligence.getMarketData': 'enrichment:read',
+  'memory.query': 'memory:read',
+  'memory.lineage': 'memory:read',
+  'memory.usage': 'memory:read',
+  'memory.export': 'memory:read',
+  // Replace mode wipes every covered agent's memory, which a write grant should not allow
+  'memory.import': ADMIN_SCOPE,
+  'kg.neighbors': 'kg:read',
+  'kg.traverse': 'kg:read',
+  'kg.shortestPath': 'kg:read',
+  'kg.match': 'kg:read',
+  'auth.events': 'auth:read',
+  // Agent messages on the WebSocket server, by message type
+  'agent_register': 'agents:write',
+  'agent_message': 'agents:write',
+  'broadcast_request': 'agents:broadcast'
+};
+
+/** Scope to read or subscribe to a resource, keyed by scheme and host */
+export const RESOURCE_SCOPES: Record<string, string> = {
+  'db://leads': 'leads:read',
+  'db://campaigns': 'campaigns:read',
+  'db://customers': 'customers:read',
+  'analytics://events': 'analytics:read',
+  'kg://graph': 'kg:read'
+};
+
+/** Scope to render a prompt, which reads the records it is about */
+export const PROMPT_SCOPES: Record<string, string> = {
+  triage_lead: 'leads:read',
+  review_campaign: 'campaigns:read',
+  draft_followup: 'leads:read'
+};
+
+export interface ApiKeyGrant {
+  key: string;
+  principal: string;
+  scopes: string[];
+}
+
+export interface MCPAuthOptions {
+  apiKeys?: ApiKeyGrant[];
+  /** Shared secret for HS256 tokens; without it only API keys are accepted */
+  jwtSecret?: string;
+  /** Required `iss` claim, when set */
+  jwtIssuer?: string;
+  /** Required `aud` claim, when set */
+  jwtAudience?: string;
+  /** Changes to METHOD_SCOPES, e.g. for methods registered by the entry point */
+  methodScopes?: Record<string, string | null>;
+  log?: AuthEventLog;
+}
+
+export interface AuthPrincipal {
+  id: string;
+  mechanism: AuthMechanism;
+  scopes: string[];
+}
+
+/** What a call presented: a bearer token or API key, and where it came from */
+export interface AuthCaller {
+  credential?: string;
+  ip?: string;
+}
+
+export interface AuthDecision {
+  result: AuthResult;
+  /** Set whenever the credential was valid, including when the scope was missing */
+  principal?: AuthPrincipal;
+  scope: string | null;
+  reason?: string;
+}
+
+/** Claims read from an HS256 token; `scope` is space-separated as in OAuth */
+export interface AccessTokenClaims {
+  sub: string;
+  scope?: string;
+  iss?: string;
+  aud?: string | string[];
+  /** Seconds since the epoch */
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+}
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+const hs256 = (input: string, secret: string): Buffer => createHmac('sha256', secret).update(input).digest();
+
+/**
+ * Issue an HS256 token the authenticator accepts, e.g. for a service account.
+ * `expiresIn` is in seconds.
+ */
+export const signAccessToken = (claims: AccessTokenClaims, secret: string, expiresIn?: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = { iat: now, ...claims, ...(expiresIn !== undefined ? { exp: now + expiresIn } : {}) };
+  const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`;
+  return `${unsigned}.${base64url(hs256(unsigned, secret))}`;
+};
+
+/**
+ * Decides whether a caller may make a call: checks its API key or signed token, then the scope
+ * the method needs. Every decision is written to the event log.
+ */
+export class MCPAuthenticator {
+  private apiKeys: Map<string, ApiKeyGrant>;
+  // Maps rather than object lookups, so names from the wire like `constructor` can't reach
+  // inherited properties
+  private methodScopes: Map<string, string | null>;
+  private promptScopes: Map<string, string> = new Map(Object.entries(PROMPT_SCOPES));
+  private resourceScopes: Map<string, string> = new Map(Object.entries(RESOURCE_SCOPES));
+  private log: AuthEventLog;
+
+  constructor(private readonly options: MCPAuthOptions = {}) {
+    this.apiKeys = new Map((options.apiKeys || []).map(grant => [grant.key, grant]));
+    this.methodScopes = new Map(Object.entries({ ...METHOD_SCOPES, ...options.methodScopes }));
+    this.log = options.log || new InMemoryAuthEventLog();
+  }
+
+  public authorize(method: string, params: unknown, caller: AuthCaller): AuthDecision {
+    const scope = this.scopeFor(method, params);
+    const decision = this.decide(scope, caller.credential);
+
+    this.log.record({
+      id: uuidv4(),
+      timestamp: new Date(),
+      principal: decision.principal?.id || 'anonymous',
+      mechanism: decision.principal?.mechanism || this.mechanismOf(caller.credential),
+      method,
+      scope,
+      result: decision.result,
+      reason: decision.reason,
+      ip: caller.ip
+    });
+
+    return decision;
+  }
+
+  /**
+   * Scope a call needs. Tool calls, resource reads and prompts need the scope of what they reach;
+   * a name that isn't a string can't be mapped, so it needs ADMIN_SCOPE.
+   */
+  public scopeFor(method: unknown, params?: unknown): string | null {
+    if (typeof method !== 'string') return ADMIN_SCOPE;
+
+    const target = (params ?? {}) as { name?: unknown; arguments?: unknown; uri?: unknown };
+    switch (method) {
+      case 'tools/call':
+        return this.scopeFor(target.name, target.arguments);
+      case 'resources/read':
+      case 'resources/subscribe':
+        return this.resourceScope(target.uri);
+      case 'prompts/get':
+        return typeof target.name === 'string' ? this.promptScopes.get(target.name) ?? ADMIN_SCOPE : ADMIN_SCOPE;
+      default:
+        if (method.startsWith('notifications/')) return null;
+        return this.methodScopes.has(method) ? this.methodScopes.get(method)! : ADMIN_SCOPE;
+    }
+  }
+
+  public setMethodScope(method: string, scope: string | null): void {
+    this.methodScopes.set(method, scope);
+  }
+
+  public getLog(): AuthEventLog {
+    return this.log;
+  }
+
+  private decide(scope: string | null, credential?: string): AuthDecision {
+    if (scope === null) {
+      // Credentials are optional here, but a valid one still names the caller in the log
+      const authenticated = credential ? this.authenticate(credential) : undefined;
+      return { result: 'success', scope, principal: authenticated?.principal };
+    }
+
+    if (!credential) {
+      return { result: 'failure', scope, reason: 'No credentials' };
+    }
+
+    const authenticated = this.authenticate(credential);
+    if (!authenticated.principal) {
+      return { ...authenticated, scope };
+    }
+
+    if (!this.grants(authenticated.principal.scopes, scope)) {
+      return { result: 'denied', scope, principal: authenticated.principal, reason: `Missing scope ${scope}` };
+    }
+
+    return { result: 'success', scope, principal: authenticated.principal };
+  }
+
+  private authenticate(credential: string): Omit<AuthDecision, 'scope'> {
+    const grant = this.apiKeys.get(credential);
+    if (grant) {
+      return { result: 'success', principal: { id: grant.principal, mechanism: 'APIKey', scopes: grant.scopes } };
+    }
+
+    if (this.mechanismOf(credential) === 'JWT' && this.options.jwtSecret) {
+      return this.verifyToken(credential, this.options.jwtSecret);
+    }
+
+    return { result: 'failure', reason: 'Unknown API key' };
+  }
+
+  private verifyToken(token: string, secret: string): Omit<AuthDecision, 'scope'> {
+    const [header, payload, signature] = token.split('.');
+
+    let claims: AccessTokenClaims;
+    try {
+      // Only HS256; accepting the header's alg as given would let `none` tokens through
+      if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') {
+        return { result: 'failure', reason: 'Unsupported token algorithm' };
+      }
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+      return { result: 'failure', reason: 'Malformed token' };
+    }
+
+    const expected = hs256(`${header}.${payload}`, secret);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return { result: 'failure', reason: 'Invalid token signature' };
+    }
+
+    const now = Date.now() / 1000;
+    if (typeof claims.exp === 'number' && now >= claims.exp) {
+      return { result: 'expired', reason: 'Token expired' };
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf) {
+      return { result: 'failure', reason: 'Token not yet valid' };
+    }
+    if (this.options.jwtIssuer && claims.iss !== this.options.jwtIssuer) {
+      return { result: 'failure', reason: 'Unexpected token issuer' };
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (this.options.jwtAudience && !audiences.includes(this.options.jwtAudience)) {
+      return { result: 'failure', reason: 'Unexpected token audience' };
+    }
+    if (!claims.sub) {
+      return { result: 'failure', reason: 'Token has no subject' };
+    }
+
+    return {
+      result: 'success',
+      principal: { id: claims.sub, mechanism: 'JWT', scopes: (claims.scope || '').split(' ').filter(Boolean) }
+    };
+  }
+
+  private resourceScope(value: unknown): string {
+    try {
+      const uri = new URL(value as string);
+      return this.resourceScopes.get(`${uri.protocol}//${uri.host}`) ?? ADMIN_SCOPE;
+    } catch {
+      return ADMIN_SCOPE;
+    }
+  }
+
+  /**
+   * A granted scope covers itself; `leads:rw` covers `leads:read` and `leads:write`;
+   * ADMIN_SCOPE covers everything
+   */
+  private grants(granted: string[], scope: string): boolean {
+    const [resource, access] = scope.split(':');
+    return granted.some(held =>
+      held === scope ||
+      held === ADMIN_SCOPE ||
+      (held === `${resource}:rw` && (access === 'read' || access === 'write'))
+    );
+  }
+
+  private mechanismOf(credential?: string): AuthMechanism {
+    if (!credential) return 'none';
+    return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(credential) ? 'JWT' : 'APIKey';
+  }
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MCPServer } from './MCPServer';
+import { InMemoryMarketingRepository } from './MarketingRepository';
+import { leadRecord } from '../test/records';
+import { MemoryQuery, MemoryQueryEngine } from '../memory/MemoryQuery';
+
+const call = (method: string, params?: unknown, id: number = 1) => ({ jsonrpc: '2.0', id, method, params });
+
+describe('MCPServer request errors', () => {
+  let server: MCPServer;
+
+  beforeEach(async () => {
+    const repository = new InMemoryMarketingRepository();
+    await repository.seed({ leads: [leadRecord('L-1'), leadRecord('L-2')] });
+    server = new MCPServer(0, repository);
+  });
+
+  it.each([
+    ['marketing.updateLead', { leadId: 'L-404', updates: { score: 1 } }, 'leads'],
+    ['marketing.updateCampaign', { campaignId: 'C-404', updates: {} }, 'campaigns'],
+    ['customers.updateProfile', { customerId: 'CU-404', updates: {} }, 'customers']
+  ])('answers %s for a missing record with -32602', async (method, params, collection) => {
+    const response = await server.dispatch(call(method, params));
+
+    expect(response).toMatchObject({
+      id: 1,
+      error: { code: -32602, data: { collection, id: expect.stringContaining('404') } }
+    });
+  });
+
+  it('answers malformed paging with -32602', async () => {
+    const response = await server.dispatch(call('marketing.getLeads', { limit: 'abc' }));
+
+    expect(response).toMatchObject({ error: { code: -32602, message: 'Invalid params' } });
+  });
+
+  it.each(['db://leads?limit=abc', 'db://leads?offset=-5', 'db://leads?limit=1.5'])(
+    'rejects the resource page %s with -32602',
+    async uri => {
+      const response = await server.dispatch(call('resources/read', { uri }));
+
+      expect(response).toMatchObject({ error: { code: -32602 } });
+    }
+  );
+
+  it.each([
+    [{ where: { score: { $near: 5 } } }, 'Unknown memory query operator: $near'],
+    [{ cursor: 'not-a-cursor' }, 'Invalid memory query cursor']
+  ])('answers a bad memory query with -32602', async (query, problem) => {
+    server.registerHandler('memory.query', async params =>
+      MemoryQueryEngine.run([{ data: { score: 5 }, type: 'lead', tier: 'short' }], params.query as MemoryQuery)
+    );
+
+    const response = await server.dispatch(call('memory.query', { query }));
+
+    expect(response).toMatchObject({ error: { code: -32602, message: 'Invalid params', data: { problems: [problem] } } });
+  });
+
+  it('pages resource reads', async () => {
+    const response = await server.dispatch(call('resources/read', { uri: 'db://leads?offset=1&limit=1' }));
+    const [contents] = (response as { result: { contents: Array<{ text: string }> } }).result.contents;
+
+    expect(JSON.parse(contents.text)).toMatchObject({ leads: [{ id: 'L-2' }], total: 2, offset: 1, limit: 1 });
+  });
+});
@@ -2,18 +2,122 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { RateLimiterMemory } from 'rate-limiter-flexible';
-import { MCPRequest, MCPResponse, MCPError } from '../types';
+import {
+  MCPRequest,
+  MCPResponse,
+  MCPNotification,
+  AnalyticsEvent,
+  CampaignStatus,
+  LeadStatus,
+  MCPImplementation,
+  MCPInitializeResult,
+  MCPPrompt,
+  MCPPromptMessage,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContents,
+  MCPTool,
+  MCPToolResult
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  InMemoryMarketingRepository,
+  MarketingCollection,
+  MarketingRecords,
+  MarketingRepository,
+  RecordNotFoundError,
+  RecordQuery,
+  RecordQueryError
+} from './MarketingRepository';
+import { BUILT_IN_TOOLS, validateToolArguments } from './MCPTools';
+import { AuthPrincipal, MCPAuthenticator } from './MCPAuth';
+import { MemoryQueryError } from '../memory/MemoryQuery';
+
+/**
+ * A failure with its own JSON-RPC error code, e.g. -32602 for invalid params.
+ * Anything else a handler throws is reported as -32603 Internal error.
+ */
+export class MCPRequestError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: unknown) {
+    super(message);
+    this.name = 'MCPRequestError';
+  }
+}
+
+/** Newest first; a client asking for another version is answered with the first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** Reads a resource; `uri` is the full URI requested, query string included */
+export type ResourceReader = (uri: URL) => Promise<unknown>;
+
+/** Builds a prompt's messages from its arguments */
+export type PromptRenderer = (args: Record<string, string>) => Promise<MCPPromptMessage[]>;
+
+/**
+ * A long-lived connection the server can push notifications down, such as a WebSocket.
+ * Plain HTTP requests have no session.
+ */
+export interface MCPSession {
+  id: string;
+  send(notification: MCPNotification): void;
+  /** URIs passed to resources/subscribe on this connection */
+  subscriptions: Set<string>;
+}
+
+/** What a handler knows about the call beyond its params */
+export interface MCPRequestContext {
+  session?: MCPSession;
+  /** Bearer token or API key the caller presented */
+  credential?: string;
+  ip?: string;
+  /** Who is calling, when the server authenticates and the caller gave valid credentials */
+  principal?: AuthPrincipal;
+}
+
+export type MCPHandler = (params: any, context: MCPRequestContext) => Promise<any>;
+
+/** Default page size for db:// and analytics:// resources */
+const RESOURCE_PAGE_SIZE = 100;
+
+/** Larger batches are rejected whole with Invalid Request */
+export const MAX_BATCH_SIZE = 100;
+
+/** What analytics.query answers with */
+interface LeadAnalytics {
+  metrics: {
+    totalLeads: number;
+    convertedLeads: number;
+    conversionRate: number;
+    averageScore: number;
+    activeCampaigns: number;
+    campaignRevenue: number;
+  };
+  trends: Array<{ date: string; value: number }>;
+}
 
 export class MCPServer {
   private app: express.Application;
   private port: number;
   private rateLimiter: RateLimiterMemory;
-  private requestHandlers: Map<string, (params: any) => Promise<any>> = new Map();
+  private requestHandlers: Map<string, MCPHandler> = new Map();
+  private repository: MarketingRepository;
+  /** Methods callable through tools/call; every tool is also a plain method */
+  private tools: Map<string, MCPTool> = new Map();
+  private resources: Map<string, { resource: MCPResource; read: ResourceReader }> = new Map();
+  private prompts: Map<string, { prompt: MCPPrompt; render: PromptRenderer }> = new Map();
+  private sessions: Map<string, MCPSession> = new Map();
+  /** Without one every call is allowed */
+  private auth?: MCPAuthenticator;
 
-  constructor(port: number = 3001) {
+  constructor(
+    port: number = 3001,
+    repository: MarketingRepository = new InMemoryMarketingRepository(),
+    auth?: MCPAuthenticator
+  ) {
     this.app = express();
     this.port = port;
+    this.repository = repository;
+    this.auth = auth;
     
     // Rate limiting: 100 requests per minute per IP
     this.rateLimiter = new RateLimiterMemory({
@@ -25,6 +129,8 @@ export class MCPServer {
     this.setupMiddleware();
     this.setupRoutes();
     this.registerHandlers();
+    this.registerResources();
+    this.registerPrompts();
   }
 
   private setupMiddleware(): void {
@@ -41,18 +147,11 @@ export class MCPServer {
 
     // Rate limiting middleware
     this.app.use(async (req, res, next) => {
-      try {
-        await this.rateLimiter.consume(req.ip);
+      const limited = await this.rateLimit(req.ip || 'unknown', req.body);
+      if (limited) {
+        res.status(429).json(limited);
+      } else {
         next();
-      } catch (rejRes) {
-        res.status(429).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32000,
-            message: 'Rate limit exceeded'
-          },
-          id: null
-        });
       }
     });
 
@@ -73,16 +172,21 @@ export class MCPServer {
       });
     });
 
-    // Main MCP endpoint
+    // Main MCP endpoint: one request or notification, or a batch array of them
     this.app.post('/mcp', async (req, res) => {
       try {
-        const request: MCPRequest = req.body;
-        const response = await this.handleMCPRequest(request);
-        res.json(response);
+        const response = await this.dispatch(req.body, this.callerOf(req));
+
+        // Nothing to answer when only notifications were sent
+        if (response === null) {
+          res.status(204).end();
+        } else {
+          res.json(response);
+        }
       } catch (error) {
         const errorResponse: MCPResponse = {
           jsonrpc: '2.0',
-          id: req.body.id || null,
+          id: req.body?.id ?? null,
           error: {
             code: -32603,
             message: 'Internal error',
@@ -93,11 +197,11 @@ export class MCPServer {
       }
     });
 
-    // Notification endpoint
+    // Notification endpoint, kept for clients that predate notifications on /mcp
     this.app.post('/mcp/notify', async (req, res) => {
       try {
         const notification = req.body;
-        await this.handleNotification(notification);
+        await this.handleNotification(notification, this.callerOf(req));
         res.status(200).json({ success: true });
       } catch (error) {
         res.status(500).json({ 
@@ -106,9 +210,104 @@ export class MCPServer {
         });
       }
     });
+
+    // Malformed JSON never reaches the routes; answer it as a JSON-RPC parse error
+    this.app.use((error: { type?: string } | undefined, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (error?.type !== 'entity.parse.failed') {
+        next(error);
+        return;
+      }
+      res.status(400).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' }
+      });
+    });
   }
 
-  private async handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
+  /**
+   * Charge a caller for a message, one point per call in a batch. Returns the error to answer
+   * with instead of handling the message once the caller is over the limit.
+   */
+  public async rateLimit(key: string, message: unknown): Promise<MCPResponse | null> {
+    try {
+      await this.rateLimiter.consume(key, Array.isArray(message) ? Math.max(1, message.length) : 1);
+      return null;
+    } catch {
+      return {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32000, message: 'Rate limit exceeded' }
+      };
+    }
+  }
+
+  /**
+   * Credentials come as `Authorization: Bearer <token or key>` or `X-API-Key: <key>`
+   */
+  private callerOf(req: express.Request): MCPRequestContext {
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const apiKey = req.headers['x-api-key'];
+    return { credential: bearer || (typeof apiKey === 'string' ? apiKey : undefined), ip: req.ip };
+  }
+
+  /**
+   * Check the caller may make this call, and name them in the context the handler gets.
+   * -32001 when credentials are missing, invalid or expired; -32003 when a scope is missing.
+   */
+  private authorize(method: string, params: unknown, context: MCPRequestContext): MCPRequestContext {
+    if (!this.auth) return context;
+
+    const decision = this.auth.authorize(method, params, context);
+    switch (decision.result) {
+      case 'success':
+        return { ...context, principal: decision.principal };
+      case 'denied':
+        throw new MCPRequestError(-32003, 'Forbidden', { scope: decision.scope });
+      default:
+        throw new MCPRequestError(-32001, 'Unauthorized', { reason: decision.reason });
+    }
+  }
+
+  /**
+   * Run every call in a batch concurrently. Responses come back for requests only, in
+   * batch order; null when the batch held nothing but notifications.
+   */
+  private async handleBatch(batch: unknown[], context: MCPRequestContext): Promise<MCPResponse | MCPResponse[] | null> {
+    if (batch.length === 0 || batch.length > MAX_BATCH_SIZE) {
+      return {
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+          data: batch.length === 0 ? 'Empty batch' : `Batches are limited to ${MAX_BATCH_SIZE} calls`
+        }
+      };
+    }
+
+    const responses = await Promise.all(batch.map(message => this.handleMessage(message, context)));
+    const answered = responses.filter((response): response is MCPResponse => response !== null);
+    return answered.length > 0 ? answered : null;
+  }
+
+  /**
+   * Dispatch one JSON-RPC message. Messages without an id are notifications and get no response.
+   */
+  private async handleMessage(message: unknown, context: MCPRequestContext): Promise<MCPResponse | null> {
+    if (message === null || typeof message !== 'object' || Array.isArray(message)) {
+      return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } };
+    }
+
+    if (!('id' in message) || message.id === undefined) {
+      await this.handleNotification(message, context);
+      return null;
+    }
+
+    return await this.handleMCPRequest(message as MCPRequest, context);
+  }
+
+  private async handleMCPRequest(request: MCPRequest, context: MCPRequestContext = {}): Promise<MCPResponse> {
     try {
       // Validate request format
       if (!request.jsonrpc || request.jsonrpc !== '2.0') {
@@ -133,6 +332,8 @@ export class MCPServer {
         };
       }
 
+      const authorized = this.authorize(request.method, request.params, context);
+
       // Get handler for the method
       const handler = this.requestHandlers.get(request.method);
       if (!handler) {
@@ -147,7 +348,7 @@ export class MCPServer {
       }
 
       // Execute handler
-      const result = await handler(request.params || {});
+      const result = await handler(request.params || {}, authorized);
 
       return {
         jsonrpc: '2.0',
@@ -155,28 +356,83 @@ export class MCPServer {
         result
       };
 
-    } catch (error) {
+    } catch (caught) {
+      const error = this.requestErrorOf(caught);
+      if (error) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: error.code, message: error.message, data: error.data }
+        };
+      }
+
       return {
         jsonrpc: '2.0',
         id: request.id,
         error: {
           code: -32603,
           message: 'Internal error',
-          data: error instanceof Error ? error.message : 'Unknown error'
+          data: caught instanceof Error ? caught.message : 'Unknown error'
         }
       };
     }
   }
 
-  private async handleNotification(notification: any): Promise<void> {
-    console.log('Received notification:', notification);
-    // In production, this would handle various notification types
-    // such as webhook events, system alerts, etc.
+  /**
+   * Errors the caller can act on: those thrown as MCPRequestError, plus failures caused by the
+   * params (a missing record, or a malformed repository or memory query), which are -32602
+   */
+  private requestErrorOf(error: unknown): MCPRequestError | null {
+    if (error instanceof MCPRequestError) return error;
+    if (error instanceof RecordNotFoundError) {
+      return new MCPRequestError(-32602, error.message, { collection: error.collection, id: error.id });
+    }
+    if (error instanceof RecordQueryError || error instanceof MemoryQueryError) {
+      return new MCPRequestError(-32602, 'Invalid params', { problems: [error.message] });
+    }
+    return null;
+  }
+
+  /**
+   * Notifications run the method's handler if there is one and discard the result; nothing
+   * is reported back, so failures are only logged.
+   */
+  private async handleNotification(notification: any, context: MCPRequestContext = {}): Promise<void> {
+    const handler = notification?.jsonrpc === '2.0' ? this.requestHandlers.get(notification.method) : undefined;
+    if (!handler) {
+      console.log('Received notification:', notification);
+      return;
+    }
+
+    try {
+      await handler(notification.params || {}, this.authorize(notification.method, notification.params, context));
+    } catch (error) {
+      console.error(`Notification ${notification.method} failed:`, error);
+    }
   }
 
   private registerHandlers(): void {
+    // MCP protocol methods
+    this.requestHandlers.set('initialize', this.handleInitialize.bind(this));
+    this.requestHandlers.set('ping', async () => ({}));
+    this.requestHandlers.set('resources/list', async () => ({
+      resources: Array.from(this.resources.values()).map(({ resource }) => resource)
+    }));
+    this.requestHandlers.set('resources/read', this.handleReadResource.bind(this));
+    this.requestHandlers.set('resources/subscribe', this.handleSubscribe.bind(this));
+    this.requestHandlers.set('resources/unsubscribe', this.handleUnsubscribe.bind(this));
+    this.requestHandlers.set('tools/list', async () => ({ tools: Array.from(this.tools.values()) }));
+    this.requestHandlers.set('tools/call', this.handleCallTool.bind(this));
+    this.requestHandlers.set('prompts/list', async () => ({
+      prompts: Array.from(this.prompts.values()).map(({ prompt }) => prompt)
+    }));
+    this.requestHandlers.set('prompts/get', this.handleGetPrompt.bind(this));
+
     // System methods
     this.requestHandlers.set('system.ping', async () => ({ pong: true, timestamp: new Date() }));
+    this.requestHandlers.set('auth.events', async (params) => ({
+      events: this.auth ? this.auth.getLog().query(params) : []
+    }));
     
     // Marketing methods
     this.requestHandlers.set('marketing.getLeads', this.handleGetLeads.bind(this));
@@ -206,90 +462,334 @@ export class MCPServer {
     this.requestHandlers.set('enrichment.enrichLead', this.handleEnrichLead.bind(this));
     this.requestHandlers.set('validation.validateEmail', this.handleValidateEmail.bind(this));
     this.requestHandlers.set('intelligence.getMarketData', this.handleGetMarketIntelligence.bind(this));
+
+    Object.entries(BUILT_IN_TOOLS).forEach(([name, tool]) => this.tools.set(name, { name, ...tool }));
+  }
+
+  private registerResources(): void {
+    const collections: Array<[MarketingCollection, string, string]> = [
+      ['leads', 'Leads', 'Leads with their triage category, score and status'],
+      ['campaigns', 'Campaigns', 'Campaigns with their content, budget and delivery metrics'],
+      ['customers', 'Customer profiles', 'Customer profiles with preferences and interaction history']
+    ];
+
+    collections.forEach(([collection, name, description]) => {
+      this.registerResource(
+        {
+          uri: `db://${collection}`,
+          name,
+          description: `${description}. Read db://${collection}/<id> for one record; ?offset= and ?limit= page the list.`,
+          mimeType: 'application/json'
+        },
+        uri => this.readCollection(collection, uri)
+      );
+    });
+
+    this.registerResource(
+      {
+        uri: 'analytics://events',
+        name: 'Analytics events',
+        description: 'Email and social events recorded by this server, newest first. ?offset= and ?limit= page the list.',
+        mimeType: 'application/json'
+      },
+      async uri => {
+        const { items, ...page } = await this.repository.list('events', {
+          ...this.pageOf(uri),
+          sort: [{ field: 'timestamp', direction: 'desc' }]
+        });
+        return { events: items, ...page };
+      }
+    );
+  }
+
+  private registerPrompts(): void {
+    this.registerPrompt(
+      {
+        name: 'triage_lead',
+        description: 'Categorize a lead and suggest its next step',
+        arguments: [{ name: 'leadId', description: 'Lead to triage', required: true }]
+      },
+      async ({ leadId }) => {
+        const lead = await this.requireRecord('leads', leadId);
+        return [this.userMessage(
+          'Categorize this lead as campaign_qualified, hot_prospect, general_inquiry, cold_lead or existing_customer, ' +
+          `and suggest the next engagement step.\n\n${JSON.stringify(lead, null, 2)}`
+        )];
+      }
+    );
+
+    this.registerPrompt(
+      {
+        name: 'review_campaign',
+        description: 'Review a campaign\'s delivery metrics and propose optimizations',
+        arguments: [{ name: 'campaignId', description: 'Campaign to review', required: true }]
+      },
+      async ({ campaignId }) => {
+        const campaign = await this.requireRecord('campaigns', campaignId);
+        return [this.userMessage(
+          `Review the performance of campaign "${campaign.name}" and propose up to three optimizations ` +
+          `to budget, audience or content.\n\n${JSON.stringify(campaign, null, 2)}`
+        )];
+      }
+    );
+
+    this.registerPrompt(
+      {
+        name: 'draft_followup',
+        description: 'Draft a follow-up message for a lead',
+        arguments: [
+          { name: 'leadId', description: 'Lead to follow up with', required: true },
+          { name: 'channel', description: 'Channel to write for; defaults to the lead\'s preferred channel' }
+        ]
+      },
+      async ({ leadId, channel }) => {
+        const lead = await this.requireRecord('leads', leadId);
+        const target = channel || lead.metadata?.preferredChannel || 'email';
+        return [this.userMessage(
+          `Draft a short ${target} follow-up for this lead, matching their persona and industry.\n\n` +
+          JSON.stringify(lead, null, 2)
+        )];
+      }
+    );
+  }
+
+  // MCP protocol
+  private async handleInitialize(
+    params: { protocolVersion?: string; clientInfo?: MCPImplementation } | undefined,
+    context: MCPRequestContext): Promise<MCPInitializeResult> {
+    const requested = params?.protocolVersion ?? '';
+    if (params?.clientInfo) {
+      console.log(`MCP client ${params.clientInfo.name} ${params.clientInfo.version} initialized (protocol ${requested})`);
+    }
+
+    // Only connections with a session can be sent notifications
+    const push = context.session !== undefined;
+    return {
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+      capabilities: {
+        resources: { subscribe: push, listChanged: push },
+        tools: { listChanged: push },
+        prompts: { listChanged: push }
+      },
+      serverInfo: { name: 'aiml-marketing-mcp', version: '1.0.0' },
+      instructions: 'Marketing records are resources under db://, the knowledge graph is kg://graph and ' +
+        'channel events are analytics://events. Tools wrap the marketing, customer and analytics methods.'
+    };
+  }
+
+  private async handleReadResource(params: { uri?: string } | undefined): Promise<{ contents: MCPResourceContents[] }> {
+    const uri = this.resourceUri(params?.uri);
+    const registered = this.resources.get(`${uri.protocol}//${uri.host}`)!;
+    const data = await registered.read(uri);
+    return {
+      contents: [{ uri: params?.uri as string, mimeType: registered.resource.mimeType, text: JSON.stringify(data) }]
+    };
+  }
+
+  /**
+   * Ask for notifications/resources/updated whenever the resource, or for a collection any record in it, changes
+   */
+  private async handleSubscribe(params: { uri?: string } | undefined, context: MCPRequestContext): Promise<Record<string, never>> {
+    if (!context.session) {
+      throw new MCPRequestError(-32600, 'Subscriptions need a connection the server can notify, such as a WebSocket');
+    }
+
+    this.resourceUri(params?.uri);
+    context.session.subscriptions.add(params?.uri as string);
+    return {};
+  }
+
+  private async handleUnsubscribe(params: { uri?: string } | undefined, context: MCPRequestContext): Promise<Record<string, never>> {
+    context.session?.subscriptions.delete(params?.uri ?? '');
+    return {};
+  }
+
+  /**
+   * Parse a URI naming a registered resource, or fail with the matching JSON-RPC error
+   */
+  private resourceUri(value: unknown): URL {
+    let uri: URL;
+    try {
+      uri = new URL(value as string);
+    } catch {
+      throw new MCPRequestError(-32602, `Invalid resource URI: ${value}`);
+    }
+
+    if (!this.resources.has(`${uri.protocol}//${uri.host}`)) {
+      throw new MCPRequestError(-32002, 'Resource not found', { uri: value });
+    }
+    return uri;
+  }
+
+  private async handleCallTool(params: { name?: string; arguments?: Record<string, unknown> } | undefined, context: MCPRequestContext): Promise<MCPToolResult> {
+    const tool = this.tools.get(params?.name ?? '');
+    const handler = tool && this.requestHandlers.get(tool.name);
+    if (!tool || !handler) {
+      throw new MCPRequestError(-32602, `Unknown tool: ${params?.name}`);
+    }
+
+    const args = params?.arguments ?? {};
+    const problems = validateToolArguments(tool.inputSchema, args);
+    if (problems.length > 0) {
+      throw new MCPRequestError(-32602, 'Invalid params', { tool: tool.name, problems });
+    }
+
+    // Failures inside the tool are results the caller's model should see, not protocol errors
+    try {
+      const result = await handler(args, context);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        structuredContent: result,
+        isError: false
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGetPrompt(params: { name?: string; arguments?: Record<string, string> } | undefined): Promise<MCPPromptResult> {
+    const registered = this.prompts.get(params?.name ?? '');
+    if (!registered) {
+      throw new MCPRequestError(-32602, `Unknown prompt: ${params?.name}`);
+    }
+
+    const args = params?.arguments || {};
+    const missing = (registered.prompt.arguments || []).filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      throw new MCPRequestError(-32602, 'Invalid params', { problems: missing.map(arg => `${arg.name} is required`) });
+    }
+
+    return {
+      description: registered.prompt.description,
+      messages: await registered.render(args)
+    };
+  }
+
+  /**
+   * A page of records, or with a path (`db://leads/L0001`) the one record it names
+   */
+  private async readCollection(collection: MarketingCollection, uri: URL): Promise<unknown> {
+    const id = decodeURIComponent(uri.pathname.replace(/^\/+/, ''));
+    if (id) {
+      const record = await this.repository.get(collection, id);
+      if (!record) {
+        throw new MCPRequestError(-32002, 'Resource not found', { uri: uri.href });
+      }
+      return record;
+    }
+
+    const { items, ...page } = await this.repository.list(collection, this.pageOf(uri));
+    return { [collection]: items, ...page };
+  }
+
+  private pageOf(uri: URL): RecordQuery {
+    return {
+      offset: this.integerParam(uri, 'offset'),
+      limit: this.integerParam(uri, 'limit') ?? RESOURCE_PAGE_SIZE
+    };
+  }
+
+  /**
+   * A non-negative integer from the URI's query string; -32602 for anything else, e.g. `limit=abc`
+   */
+  private integerParam(uri: URL, name: string): number | undefined {
+    const value = uri.searchParams.get(name);
+    if (value === null || value === '') return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new MCPRequestError(-32602, `Invalid ${name} ${value}: expected a non-negative integer`, { uri: uri.href });
+    }
+    return Number(value);
+  }
+
+  private async requireRecord<K extends MarketingCollection>(collection: K, id: string): Promise<MarketingRecords[K]> {
+    const record = await this.repository.get(collection, id);
+    if (!record) {
+      throw new MCPRequestError(-32602, `No record ${id} in ${collection}`);
+    }
+    return record;
+  }
+
+  private userMessage(text: string): MCPPromptMessage {
+    return { role: 'user', content: { type: 'text', text } };
   }
 
   // Handler implementations
   private async handleGetLeads(params: any): Promise<any> {
-    // Simulate database query with filters
-    const mockLeads = this.generateMockLeads(params.filters);
-    return { leads: mockLeads, total: mockLeads.length };
+    const { items, ...page } = await this.repository.list('leads', this.recordQuery(params));
+    return { leads: items, ...page };
   }
 
   private async handleCreateLead(params: any): Promise<any> {
-    const lead = {
-      id: uuidv4(),
+    const now = new Date();
+    const lead = await this.repository.create('leads', {
+      status: LeadStatus.NEW,
+      metadata: {},
       ...params.lead,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+      createdAt: now,
+      updatedAt: now
+    });
+    this.recordChanged('leads', lead.id);
     return { lead, success: true };
   }
 
   private async handleUpdateLead(params: any): Promise<any> {
-    return {
-      leadId: params.leadId,
-      updates: params.updates,
-      updatedAt: new Date(),
-      success: true
-    };
+    const lead = await this.repository.update('leads', params.leadId, { ...params.updates, updatedAt: new Date() });
+    this.recordChanged('leads', lead.id);
+    return { lead, success: true };
   }
 
   private async handleGetCampaigns(params: any): Promise<any> {
-    const mockCampaigns = this.generateMockCampaigns(params.filters);
-    return { campaigns: mockCampaigns, total: mockCampaigns.length };
+    const { items, ...page } = await this.repository.list('campaigns', this.recordQuery(params));
+    return { campaigns: items, ...page };
   }
 
   private async handleCreateCampaign(params: any): Promise<any> {
-    const campaign = {
-      id: uuidv4(),
-      ...params.campaign,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const campaign = await this.repository.create('campaigns', params.campaign || {});
+    this.recordChanged('campaigns', campaign.id);
     return { campaign, success: true };
   }
 
   private async handleUpdateCampaign(params: any): Promise<any> {
-    return {
-      campaignId: params.campaignId,
-      updates: params.updates,
-      updatedAt: new Date(),
-      success: true
-    };
+    const campaign = await this.repository.update('campaigns', params.campaignId, params.updates || {});
+    this.recordChanged('campaigns', campaign.id);
+    return { campaign, success: true };
   }
 
   private async handleAnalyticsQuery(params: any): Promise<any> {
-    // Generate mock analytics data based on query
     return {
-      data: this.generateAnalyticsData(params),
+      data: await this.calculateAnalytics(params),
       timestamp: new Date()
     };
   }
 
   private async handleGetCustomerProfiles(params: any): Promise<any> {
-    const mockProfiles = this.generateMockCustomerProfiles(params.filters);
-    return { profiles: mockProfiles, total: mockProfiles.length };
+    const { items, ...page } = await this.repository.list('customers', this.recordQuery(params));
+    return { profiles: items, ...page };
   }
 
   private async handleUpdateCustomerProfile(params: any): Promise<any> {
-    return {
-      customerId: params.customerId,
-      updates: params.updates,
-      updatedAt: new Date(),
-      success: true
-    };
+    const profile = await this.repository.update('customers', params.customerId, params.updates || {});
+    this.recordChanged('customers', profile.id);
+    return { profile, success: true };
   }
 
   private async handleSendEmail(params: any): Promise<any> {
     // Simulate email sending
     const deliveryTime = Math.random() * 2000 + 500;
     await new Promise(resolve => setTimeout(resolve, deliveryTime));
-    
+
+    const messageId = uuidv4();
+    const status = Math.random() > 0.05 ? 'delivered' : 'failed';
+    const event = await this.recordEvent(`email_${status}`, 'email', { ...params, messageId, deliveryTime });
+
     return {
-      messageId: uuidv4(),
-      status: Math.random() > 0.05 ? 'delivered' : 'failed',
+      messageId,
+      status,
       deliveryTime,
-      timestamp: new Date()
+      timestamp: event.timestamp
     };
   }
 
@@ -304,19 +804,23 @@ export class MCPServer {
   }
 
   private async handleTrackEmailEvent(params: any): Promise<any> {
+    const { event: type, ...properties } = params;
+    const event = await this.recordEvent(type || 'email_event', 'email', properties);
     return {
-      eventId: uuidv4(),
+      eventId: event.id,
       tracked: true,
-      timestamp: new Date()
+      timestamp: event.timestamp
     };
   }
 
   private async handleSocialPost(params: any): Promise<any> {
+    const postId = uuidv4();
+    const event = await this.recordEvent('social_post', params.platform || 'social', { ...params, postId });
     return {
-      postId: uuidv4(),
+      postId,
       platform: params.platform,
       status: 'published',
-      timestamp: new Date()
+      timestamp: event.timestamp
     };
   }
 
@@ -366,59 +870,160 @@ export class MCPServer {
     };
   }
 
-  // Mock data generators
-  private generateMockLeads(filters: any): any[] {
-    return Array.from({ length: 10 }, (_, i) => ({
-      id: `lead_${i}`,
-      name: `Lead ${i + 1}`,
-      email: `lead${i + 1}@example.com`,
-      company: `Company ${i + 1}`,
-      score: Math.floor(Math.random() * 100),
-      status: 'new',
-      createdAt: new Date()
-    }));
+  /**
+   * Store an analytics event; lead, campaign and message ids are lifted out of the properties
+   */
+  private async recordEvent(type: string, channel: string, properties: Record<string, unknown>): Promise<AnalyticsEvent> {
+    const { leadId, campaignId, messageId, ...rest } = properties as Record<string, unknown> & Pick<AnalyticsEvent, 'leadId' | 'campaignId' | 'messageId'>;
+    const event = await this.repository.create('events', {
+      type,
+      channel,
+      leadId,
+      campaignId,
+      messageId,
+      properties: rest,
+      timestamp: new Date()
+    });
+    this.recordChanged('events', event.id);
+    return event;
   }
 
-  private generateMockCampaigns(filters: any): any[] {
-    return Array.from({ length: 5 }, (_, i) => ({
-      id: `campaign_${i}`,
-      name: `Campaign ${i + 1}`,
-      type: 'email',
-      status: 'active',
-      metrics: {
-        sent: Math.floor(Math.random() * 1000) + 100,
-        opened: Math.floor(Math.random() * 300) + 20,
-        clicked: Math.floor(Math.random() * 50) + 5
-      },
-      createdAt: new Date()
-    }));
+  /**
+   * Tell subscribers about a written record, under the URI the resources serve it at
+   */
+  private recordChanged(collection: MarketingCollection, id: string): void {
+    this.notifyResourceUpdated(collection === 'events' ? 'analytics://events' : `db://${collection}/${encodeURIComponent(id)}`);
   }
 
-  private generateMockCustomerProfiles(filters: any): any[] {
-    return Array.from({ length: 8 }, (_, i) => ({
-      id: `customer_${i}`,
-      name: `Customer ${i + 1}`,
-      email: `customer${i + 1}@example.com`,
-      company: `Company ${i + 1}`,
-      lifetimeValue: Math.floor(Math.random() * 50000) + 5000,
-      lastEngagement: new Date()
-    }));
+  /**
+   * Send a notification to every open session
+   */
+  private broadcast(notification: MCPNotification): void {
+    this.sessions.forEach(session => this.notify(session, notification));
+  }
+
+  private notify(session: MCPSession, notification: MCPNotification): void {
+    try {
+      session.send(notification);
+    } catch (error) {
+      console.error(`Failed to notify MCP session ${session.id}:`, error);
+    }
+  }
+
+  /**
+   * Paging, sorting and filters as sent by MCP clients: `{ filters, sort, offset, limit }`
+   */
+  private recordQuery(params: RecordQuery | undefined): RecordQuery {
+    return {
+      filters: params?.filters,
+      sort: params?.sort,
+      offset: params?.offset,
+      limit: params?.limit
+    };
+  }
+
+  /**
+   * Every record matching the filters, read page by page
+   */
+  private async listAll<K extends MarketingCollection>(collection: K, filters?: RecordQuery['filters']): Promise<MarketingRecords[K][]> {
+    const records: MarketingRecords[K][] = [];
+    for (let offset = 0; ; ) {
+      const page = await this.repository.list(collection, { filters, offset, limit: InMemoryMarketingRepository.MAX_LIMIT });
+      records.push(...page.items);
+      offset += page.items.length;
+      if (page.items.length === 0 || offset >= page.total) return records;
+    }
   }
 
-  private generateAnalyticsData(query: any): any {
+  /**
+   * Lead funnel metrics over the leads matching `filters`, with daily new-lead counts for the
+   * `days` (default 7) leading up to the newest lead
+   */
+  private async calculateAnalytics(query: { filters?: RecordQuery['filters']; days?: number } | undefined): Promise<LeadAnalytics> {
+    const leads = await this.listAll('leads', query?.filters);
+    const campaigns = await this.listAll('campaigns');
+    const days = Math.max(1, Math.floor(query?.days ?? 7));
+
+    const converted = leads.filter(lead => lead.status === LeadStatus.CONVERTED).length;
+    const totalScore = leads.reduce((sum, lead) => sum + (lead.score || 0), 0);
+
+    let newest = 0;
+    const perDay = new Map<string, number>();
+    leads.forEach(lead => {
+      const created = new Date(lead.createdAt).getTime();
+      if (isNaN(created)) return;
+      newest = Math.max(newest, created);
+      const day = new Date(created).toISOString().split('T')[0];
+      perDay.set(day, (perDay.get(day) || 0) + 1);
+    });
+
     return {
       metrics: {
-        totalLeads: Math.floor(Math.random() * 1000) + 500,
-        conversionRate: (Math.random() * 0.1 + 0.02).toFixed(3),
-        averageScore: Math.floor(Math.random() * 40) + 60
+        totalLeads: leads.length,
+        convertedLeads: converted,
+        conversionRate: leads.length > 0 ? Number((converted / leads.length).toFixed(3)) : 0,
+        averageScore: leads.length > 0 ? Math.round(totalScore / leads.length) : 0,
+        activeCampaigns: campaigns.filter(campaign => campaign.status === CampaignStatus.ACTIVE).length,
+        campaignRevenue: campaigns.reduce((sum, campaign) => sum + (campaign.metrics?.revenue || 0), 0)
       },
-      trends: Array.from({ length: 7 }, (_, i) => ({
-        date: new Date(Date.now() - (6 - i) * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        value: Math.floor(Math.random() * 100) + 50
-      }))
+      trends: newest === 0 ? [] : Array.from({ length: days }, (_, i) => {
+        const date = new Date(newest - (days - 1 - i) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        return { date, value: perDay.get(date) || 0 };
+      })
     };
   }
 
+  /**
+   * Answer one JSON-RPC message or a batch of them, as POSTed to /mcp or received on another
+   * transport. Resolves to null when there is nothing to send back.
+   */
+  public async dispatch(body: unknown, context: MCPRequestContext = {}): Promise<MCPResponse | MCPResponse[] | null> {
+    return Array.isArray(body) ? await this.handleBatch(body, context) : await this.handleMessage(body, context);
+  }
+
+  /**
+   * Start a session for a connection that can receive notifications; `send` pushes one down it.
+   * Close it when the connection goes away.
+   */
+  public openSession(id: string, send: (notification: MCPNotification) => void): MCPSession {
+    const session: MCPSession = { id, send, subscriptions: new Set() };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * The authenticator calls are checked against; undefined when every call is allowed
+   */
+  public getAuthenticator(): MCPAuthenticator | undefined {
+    return this.auth;
+  }
+
+  public getSession(id: string): MCPSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  public closeSession(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Notify sessions subscribed to a resource that it changed. A subscription to a URI without a
+   * path (`db://leads`, with or without a query) covers every record below it.
+   */
+  public notifyResourceUpdated(uri: string): void {
+    const changed = new URL(uri);
+
+    this.sessions.forEach(session => session.subscriptions.forEach(subscribed => {
+      const subscription = new URL(subscribed);
+      const covers = subscription.protocol === changed.protocol &&
+        subscription.host === changed.host &&
+        (subscription.pathname === '' || subscription.pathname === changed.pathname);
+      if (covers) {
+        this.notify(session, { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: subscribed } });
+      }
+    }));
+  }
+
   public start(): Promise<void> {
     return new Promise((resolve) => {
       this.app.listen(this.port, () => {
@@ -428,8 +1033,30 @@ export class MCPServer {
     });
   }
 
-  public registerHandler(method: string, handler: (params: any) => Promise<any>): void {
+  /**
+   * Add a method. With a tool description it is also listed by tools/list and callable through tools/call.
+   */
+  public registerHandler(method: string, handler: MCPHandler, tool?: Omit<MCPTool, 'name'>): void {
     this.requestHandlers.set(method, handler);
+    if (tool) {
+      this.tools.set(method, { name: method, ...tool });
+      this.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    }
+  }
+
+  /**
+   * Serve a resource for resources/read. Requests are routed on scheme and host, so the reader
+   * also receives URIs below this one, e.g. `db://leads/L0001` for `db://leads`.
+   */
+  public registerResource(resource: MCPResource, read: ResourceReader): void {
+    const uri = new URL(resource.uri);
+    this.resources.set(`${uri.protocol}//${uri.host}`, { resource, read });
+    this.broadcast({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+  }
+
+  public registerPrompt(prompt: MCPPrompt, render: PromptRenderer): void {
+    this.prompts.set(prompt.name, { prompt, render });
+    this.broadcast({ jsonrpc: '2.0', method: 'notifications/prompts/list_changed' });
   }
 
   public getApp(): express.Application {
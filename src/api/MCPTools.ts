@@ -0,0 +1,336 @@
+import { JSONSchema, MCPTool } from '../types';
+
+const RECORD_QUERY_PROPERTIES: Record<string, JSONSchema> = {
+  filters: {
+    type: 'object',
+    description: 'Conditions keyed by dot path (e.g. "metadata.region"): a value to equal, or operators such as {"$gte": 80} or {"$in": [...]}'
+  },
+  sort: {
+    type: 'array',
+    description: 'Sort keys, applied in order',
+    items: {
+      type: 'object',
+      properties: {
+        field: { type: 'string' },
+        direction: { type: 'string', enum: ['asc', 'desc'] }
+      },
+      required: ['field']
+    }
+  },
+  offset: { type: 'integer', description: 'Records to skip' },
+  limit: { type: 'integer', description: 'Page size, at most 500' }
+};
+
+const recordUpdate = (idField: string, record: string): JSONSchema => ({
+  type: 'object',
+  properties: {
+    [idField]: { type: 'string', description: `Id of the ${record} to change` },
+    updates: { type: 'object', description: 'Fields to overwrite; anything not given is kept' }
+  },
+  required: [idField, 'updates']
+});
+
+/**
+ * Tool descriptions for the server's built-in methods, keyed by method name
+ */
+export const BUILT_IN_TOOLS: Record<string, Omit<MCPTool, 'name'>> = {
+  'system.ping': {
+    description: 'Check that the server is up',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  'auth.events': {
+    description: 'Recent authentication and authorization decisions, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        principal: { type: 'string' },
+        result: { type: 'string', enum: ['success', 'failure', 'expired', 'denied'] },
+        method: { type: 'string' },
+        limit: { type: 'integer', description: 'Events to return (default 100)' }
+      }
+    }
+  },
+  'marketing.getLeads': {
+    description: 'List leads, filtered, sorted and paged',
+    inputSchema: { type: 'object', properties: RECORD_QUERY_PROPERTIES }
+  },
+  'marketing.createLead': {
+    description: 'Add a lead; status defaults to new',
+    inputSchema: {
+      type: 'object',
+      properties: { lead: { type: 'object', description: 'Lead fields such as email, name, source and score' } },
+      required: ['lead']
+    }
+  },
+  'marketing.updateLead': {
+    description: 'Change fields of a lead',
+    inputSchema: recordUpdate('leadId', 'lead')
+  },
+  'marketing.getCampaigns': {
+    description: 'List campaigns, filtered, sorted and paged',
+    inputSchema: { type: 'object', properties: RECORD_QUERY_PROPERTIES }
+  },
+  'marketing.createCampaign': {
+    description: 'Add a campaign',
+    inputSchema: {
+      type: 'object',
+      properties: { campaign: { type: 'object', description: 'Campaign fields such as name, type, budget and targetAudience' } },
+      required: ['campaign']
+    }
+  },
+  'marketing.updateCampaign': {
+    description: 'Change fields of a campaign',
+    inputSchema: recordUpdate('campaignId', 'campaign')
+  },
+  'analytics.query': {
+    description: 'Lead funnel metrics and daily new-lead counts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filters: RECORD_QUERY_PROPERTIES.filters,
+        days: { type: 'integer', description: 'Days of trend data, ending at the newest lead (default 7)' }
+      }
+    }
+  },
+  'customers.getProfiles': {
+    description: 'List customer profiles, filtered, sorted and paged',
+    inputSchema: { type: 'object', properties: RECORD_QUERY_PROPERTIES }
+  },
+  'customers.updateProfile': {
+    description: 'Change fields of a customer profile',
+    inputSchema: recordUpdate('customerId', 'customer profile')
+  },
+  'email.send': {
+    description: 'Send an email and record its delivery as an analytics event',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        to: { type: 'string' },
+        subject: { type: 'string' },
+        body: { type: 'string' },
+        leadId: { type: 'string' },
+        campaignId: { type: 'string' }
+      },
+      required: ['to']
+    }
+  },
+  'email.getTemplates': {
+    description: 'List the available email templates',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  'email.trackEvent': {
+    description: 'Record an email event such as an open or click',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event: { type: 'string', description: 'e.g. opened, clicked, bounced, unsubscribed' },
+        messageId: { type: 'string' },
+        leadId: { type: 'string' },
+        campaignId: { type: 'string' }
+      },
+      required: ['event']
+    }
+  },
+  'social.post': {
+    description: 'Publish a post to a social platform',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        platform: { type: 'string' },
+        content: { type: 'string' },
+        campaignId: { type: 'string' }
+      },
+      required: ['platform']
+    }
+  },
+  'social.getMetrics': {
+    description: 'Impressions, engagement and clicks for a platform',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        platform: { type: 'string' },
+        timeRange: { type: 'object' }
+      },
+      required: ['platform']
+    }
+  },
+  'enrichment.enrichLead': {
+    description: 'Add firmographic data to a lead',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string' },
+        company: { type: 'string' }
+      },
+      additionalProperties: true
+    }
+  },
+  'validation.validateEmail': {
+    description: 'Check whether an email address looks valid and deliverable',
+    inputSchema: {
+      type: 'object',
+      properties: { email: { type: 'string' } },
+      required: ['email']
+    }
+  },
+  'intelligence.getMarketData': {
+    description: 'Market trends, competitors and opportunities',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        industry: { type: 'string' },
+        region: { type: 'string' }
+      }
+    }
+  }
+};
+
+const AGENT_ID: JSONSchema = { type: 'string', description: 'Agent id or type; omit for all shared knowledge' };
+const EDGE_FILTER: JSONSchema = {
+  type: 'object',
+  description: 'predicates, types, direction (out, in or both) and minStrength to restrict the edges followed'
+};
+
+/**
+ * Tool descriptions for the agent memory and knowledge graph methods the server entry point registers
+ */
+export const AGENT_TOOLS: Record<string, Omit<MCPTool, 'name'>> = {
+  'memory.query': {
+    description: 'Filter, sort and page the items in one agent\'s memory',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agentId: { type: 'string' },
+        query: { type: 'object', description: 'tiers, types, where, since, until, sort, limit and cursor' }
+      },
+      required: ['agentId']
+    }
+  },
+  'memory.lineage': {
+    description: 'Explain where a memory item came from',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agentId: { type: 'string' },
+        itemId: { type: 'string' },
+        maxDepth: { type: 'integer' }
+      },
+      required: ['agentId', 'itemId']
+    }
+  },
+  'memory.usage': {
+    description: 'Bytes held per memory tier and item type, with quotas and recent evictions',
+    inputSchema: { type: 'object', properties: { agentId: { type: 'string' } } }
+  },
+  'memory.export': {
+    description: 'Versioned snapshot of agent memory, for moving it to another deployment',
+    inputSchema: {
+      type: 'object',
+      properties: { agentIds: { type: 'array', items: { type: 'string' }, description: 'Agent ids or aliases; omit for every agent' } }
+    }
+  },
+  'memory.import': {
+    description: 'Load a memory snapshot; mode replace discards the memory of every agent it covers',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        snapshot: { description: 'Snapshot from memory.export, as an object or its JSON text' },
+        options: {
+          type: 'object',
+          properties: {
+            mode: { type: 'string', enum: ['merge', 'replace'] },
+            agents: { type: 'array', items: { type: 'string' } },
+            target: { type: 'string' }
+          }
+        }
+      },
+      required: ['snapshot']
+    }
+  },
+  'kg.neighbors': {
+    description: 'Nodes one edge away from a knowledge graph node',
+    inputSchema: {
+      type: 'object',
+      properties: { node: { type: 'string', description: 'Node id or concept' }, filter: EDGE_FILTER, agentId: AGENT_ID },
+      required: ['node']
+    }
+  },
+  'kg.traverse': {
+    description: 'Nodes reachable within a number of hops',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start: { type: 'string', description: 'Node id or concept' },
+        options: { type: 'object', description: 'Edge filter plus maxHops (default 2) and limit' },
+        agentId: AGENT_ID
+      },
+      required: ['start']
+    }
+  },
+  'kg.shortestPath': {
+    description: 'Strongest (or fewest-hop) path between two nodes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: { type: 'string' },
+        to: { type: 'string' },
+        options: { type: 'object', description: 'Edge filter plus weight: strength or hops' },
+        agentId: AGENT_ID
+      },
+      required: ['from', 'to']
+    }
+  },
+  'kg.match': {
+    description: 'Bind ?variables so every subject/predicate/object pattern matches an edge',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        patterns: { type: 'array', items: { type: 'object', properties: { subject: { type: 'string' }, predicate: { type: 'string' }, object: { type: 'string' } } } },
+        limit: { type: 'integer' },
+        agentId: AGENT_ID
+      },
+      required: ['patterns']
+    }
+  }
+};
+
+/**
+ * Problems with tool arguments: missing required properties and values of the wrong type or outside their enum.
+ * Only the top level and declared properties are checked, which is all the built-in schemas use.
+ */
+export const validateToolArguments = (schema: JSONSchema, args: unknown): string[] => {
+  if (schema.type === 'object' && (args === null || typeof args !== 'object' || Array.isArray(args))) {
+    return ['arguments must be an object'];
+  }
+
+  const values = (args || {}) as Record<string, unknown>;
+  const problems = (schema.required || [])
+    .filter(name => values[name] === undefined)
+    .map(name => `${name} is required`);
+
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    const value = values[name];
+    if (value !== undefined && property.type && !hasType(value, property.type)) {
+      problems.push(`${name} must be ${/^[aeiou]/.test(property.type) ? 'an' : 'a'} ${property.type}`);
+    } else if (value !== undefined && property.enum && !property.enum.includes(value as string | number | boolean)) {
+      problems.push(`${name} must be one of ${property.enum.join(', ')}`);
+    }
+  });
+
+  return problems;
+};
+
+const hasType = (value: unknown, type: NonNullable<JSONSchema['type']>): boolean => {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+};
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryMarketingRepository, RecordNotFoundError, RecordQueryError } from './MarketingRepository';
+import { FileMarketingRepository } from './FileMarketingRepository';
+import { leadRecord } from '../test/records';
+
+describe('InMemoryMarketingRepository', () => {
+  let repository: InMemoryMarketingRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryMarketingRepository();
+    await repository.seed({
+      leads: [
+        leadRecord('L-1', { score: 80, metadata: { region: 'EU' } }),
+        leadRecord('L-2', { score: 40, metadata: { region: 'US' } }),
+        leadRecord('L-3', { score: 80, metadata: { region: 'EU' } })
+      ]
+    });
+  });
+
+  it('filters, sorts stably and pages', async () => {
+    const page = await repository.list('leads', {
+      filters: { 'metadata.region': 'EU', score: { $gte: 50 } },
+      sort: [{ field: 'score', direction: 'desc' }],
+      offset: 1,
+      limit: 1
+    });
+
+    expect(page.items.map(lead => lead.id)).toEqual(['L-3']);
+    expect(page).toMatchObject({ total: 2, offset: 1, limit: 1 });
+  });
+
+  it('caps the page size', async () => {
+    const page = await repository.list('leads', { limit: 10_000 });
+    expect(page.limit).toBe(InMemoryMarketingRepository.MAX_LIMIT);
+  });
+
+  it.each([
+    { offset: -1 },
+    { offset: Number.NaN },
+    { limit: 0 },
+    { limit: 2.5 },
+    { sort: [{ direction: 'asc' }] }
+  ])('rejects the malformed query %o', async query => {
+    await expect(repository.list('leads', query as never)).rejects.toBeInstanceOf(RecordQueryError);
+  });
+
+  it('hands out copies, so stored records only change through update', async () => {
+    const lead = await repository.get('leads', 'L-1');
+    lead!.score = 0;
+
+    expect((await repository.get('leads', 'L-1'))!.score).toBe(80);
+  });
+
+  it('merges updates and keeps the id', async () => {
+    const updated = await repository.update('leads', 'L-2', { score: 90, id: 'L-9' });
+
+    expect(updated).toMatchObject({ id: 'L-2', score: 90, name: 'Lead L-2' });
+  });
+
+  it('fails updates to records that do not exist', async () => {
+    await expect(repository.update('leads', 'L-404', { score: 1 })).rejects.toBeInstanceOf(RecordNotFoundError);
+  });
+
+  it('refuses to create a record whose id is taken, and generates missing ids', async () => {
+    await expect(repository.create('leads', leadRecord('L-1'))).rejects.toThrow('already exists');
+    expect((await repository.create('leads', { name: 'No id' })).id).toEqual(expect.any(String));
+  });
+
+  it('seeds only collections that are still empty', async () => {
+    const added = await repository.seed({ leads: [leadRecord('L-4')], campaigns: [] });
+
+    expect(added).toBe(0);
+    expect((await repository.list('leads')).total).toBe(3);
+  });
+});
+
+describe('FileMarketingRepository', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marketing-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists writes and reads them back, dates included', async () => {
+    const first = new FileMarketingRepository(dir);
+    await first.open();
+    await first.create('leads', leadRecord('L-1'));
+    await first.update('leads', 'L-1', { score: 95 });
+    await first.flush();
+
+    const second = new FileMarketingRepository(dir);
+    expect(await second.open()).toBe(1);
+    const lead = await second.get('leads', 'L-1');
+    expect(lead?.score).toBe(95);
+    expect(lead?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('moves an unreadable collection aside instead of overwriting it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await writeFile(join(dir, 'leads.json'), '[{"id": "L-1", ', 'utf-8');
+
+    const repository = new FileMarketingRepository(dir);
+    expect(await repository.open()).toBe(0);
+    await repository.seed({ leads: [leadRecord('L-2')] });
+    await repository.flush();
+
+    const files = await readdir(dir);
+    expect(files).toContain('leads.json');
+    expect(files.some(file => file.startsWith('leads.json.corrupt-'))).toBe(true);
+  });
+});
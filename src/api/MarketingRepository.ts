@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalyticsEvent, Campaign, CustomerProfile, Lead } from '../types';
+import { FieldFilter, MemoryQueryEngine } from '../memory/MemoryQuery';
+
+/** Record type held in each collection */
+export interface MarketingRecords {
+  leads: Lead;
+  campaigns: Campaign;
+  customers: CustomerProfile;
+  /** Outbound channel events; not part of the dataset, so they start empty */
+  events: AnalyticsEvent;
+}
+
+export type MarketingCollection = keyof MarketingRecords;
+
+export const MARKETING_COLLECTIONS: MarketingCollection[] = ['leads', 'campaigns', 'customers', 'events'];
+
+/** Records to seed each collection with, e.g. a MarketingDataset */
+export type MarketingSeed = { [K in MarketingCollection]?: MarketingRecords[K][] };
+
+export interface RecordSortKey {
+  /** Dot path into the record, e.g. `score` or `metadata.region` */
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface RecordQuery {
+  /**
+   * Conditions keyed by dot path, with the memory query operators (`$gt`, `$in`, `$contains`, ...).
+   * A bare value must equal the field.
+   */
+  filters?: Record<string, FieldFilter>;
+  sort?: RecordSortKey[];
+  offset?: number;
+  limit?: number;
+}
+
+export interface RecordPage<T> {
+  items: T[];
+  /** Matches across all pages */
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Storage behind the MCP server's marketing, customer and analytics methods and resources
+ */
+export interface MarketingRepository {
+  list<K extends MarketingCollection>(collection: K, query?: RecordQuery): Promise<RecordPage<MarketingRecords[K]>>;
+  get<K extends MarketingCollection>(collection: K, id: string): Promise<MarketingRecords[K] | undefined>;
+  /** Store a new record, generating an id when it has none. Fails if the id is taken. */
+  create<K extends MarketingCollection>(collection: K, record: Partial<MarketingRecords[K]>): Promise<MarketingRecords[K]>;
+  /** Shallow-merge updates into a record. Fails if there is no record with that id. */
+  update<K extends MarketingCollection>(
+    collection: K,
+    id: string,
+    updates: Partial<MarketingRecords[K]>
+  ): Promise<MarketingRecords[K]>;
+  /** Fill empty collections from the dataset, leaving ones that already hold records alone; returns records added */
+  seed(dataset: MarketingSeed): Promise<number>;
+  /** Wait for buffered writes to be persisted */
+  flush(): Promise<void>;
+}
+
+export class RecordNotFoundError extends Error {
+  constructor(public readonly collection: MarketingCollection, public readonly id: string) {
+    super(`No record ${id} in ${collection}`);
+    this.name = 'RecordNotFoundError';
+  }
+}
+
+/** A query that can't be run as given, e.g. a negative offset */
+export class RecordQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordQueryError';
+  }
+}
+
+/**
+ * Keeps records in process memory. Records are cloned on the way in and out, so callers
+ * can't change stored state without going through update().
+ */
+export class InMemoryMarketingRepository implements MarketingRepository {
+  public static readonly DEFAULT_LIMIT = 50;
+  public static readonly MAX_LIMIT = 500;
+
+  protected collections: { [K in MarketingCollection]: Map<string, MarketingRecords[K]> } = {
+    leads: new Map(),
+    campaigns: new Map(),
+    customers: new Map(),
+    events: new Map()
+  };
+
+  public async list<K extends MarketingCollection>(collection: K, query: RecordQuery = {}): Promise<RecordPage<MarketingRecords[K]>> {
+    this.validate(query);
+    const limit = Math.min(query.limit ?? InMemoryMarketingRepository.DEFAULT_LIMIT, InMemoryMarketingRepository.MAX_LIMIT);
+    const offset = query.offset ?? 0;
+
+    const matches = Array.from(this.collections[collection].values())
+      .filter(record => MemoryQueryEngine.matches(record, query.filters));
+
+    if (query.sort && query.sort.length > 0) {
+      // Stable sort, so ties keep insertion order and pages don't overlap
+      const keys = query.sort;
+      matches.sort((a, b) => {
+        for (const key of keys) {
+          const order = MemoryQueryEngine.compare(
+            MemoryQueryEngine.resolvePath(a, key.field)[0],
+            MemoryQueryEngine.resolvePath(b, key.field)[0]
+          );
+          if (order !== 0) return key.direction === 'desc' ? -order : order;
+        }
+        return 0;
+      });
+    }
+
+    return {
+      items: matches.slice(offset, offset + limit).map(record => structuredClone(record)),
+      total: matches.length,
+      offset,
+      limit
+    };
+  }
+
+  public async get<K extends MarketingCollection>(collection: K, id: string): Promise<MarketingRecords[K] | undefined> {
+    const record = this.collections[collection].get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  public async create<K extends MarketingCollection>(collection: K, record: Partial<MarketingRecords[K]>): Promise<MarketingRecords[K]> {
+    const id = record.id || uuidv4();
+    if (this.collections[collection].has(id)) {
+      throw new Error(`Record ${id} already exists in ${collection}`);
+    }
+
+    const stored = { ...structuredClone(record), id } as MarketingRecords[K];
+    this.collections[collection].set(id, stored);
+    this.changed?.(collection);
+    return structuredClone(stored);
+  }
+
+  public async update<K extends MarketingCollection>(
+    collection: K,
+    id: string,
+    updates: Partial<MarketingRecords[K]>
+  ): Promise<MarketingRecords[K]> {
+    const existing = this.collections[collection].get(id);
+    if (!existing) {
+      throw new RecordNotFoundError(collection, id);
+    }
+
+    // The id is the key; an update can't move a record
+    const stored = { ...existing, ...structuredClone(updates), id } as MarketingRecords[K];
+    this.collections[collection].set(id, stored);
+    this.changed?.(collection);
+    return structuredClone(stored);
+  }
+
+  public async seed(dataset: MarketingSeed): Promise<number> {
+    let added = 0;
+
+    MARKETING_COLLECTIONS.forEach(collection => {
+      const records = this.collections[collection] as Map<string, MarketingRecords[MarketingCollection]>;
+      if (records.size > 0) return;
+
+      (dataset[collection] || []).forEach(record => {
+        if (!record.id || records.has(record.id)) return;
+        records.set(record.id, structuredClone(record));
+        added++;
+      });
+      if (records.size > 0) this.changed?.(collection);
+    });
+
+    return added;
+  }
+
+  public async flush(): Promise<void> {}
+
+  /**
+   * Reject paging and sort values that would otherwise turn into NaN slices or failed lookups
+   */
+  private validate(query: RecordQuery): void {
+    if (query.offset !== undefined && !(Number.isInteger(query.offset) && query.offset >= 0)) {
+      throw new RecordQueryError(`offset must be a non-negative integer, got ${query.offset}`);
+    }
+    if (query.limit !== undefined && !(Number.isInteger(query.limit) && query.limit >= 1)) {
+      throw new RecordQueryError(`limit must be a positive integer, got ${query.limit}`);
+    }
+    if (query.sort !== undefined && !(Array.isArray(query.sort) && query.sort.every(key => typeof key?.field === 'string' && key.field))) {
+      throw new RecordQueryError('sort must be a list of { field, direction } keys');
+    }
+  }
+
+  /**
+   * Called after every write to a collection; persistent subclasses save it from here
+   */
+  protected changed?(collection: MarketingCollection): void;
+}
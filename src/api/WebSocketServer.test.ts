@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { WebSocketServer } from './WebSocketServer';
+import { MCPServer } from './MCPServer';
+import { InMemoryMarketingRepository } from './MarketingRepository';
+import { MCPAuthenticator } from './MCPAuth';
+
+const PORT = 38731;
+
+/** Collects every frame after the welcome message */
+const connect = async (credential?: string): Promise<{ socket: WebSocket; next: () => Promise<unknown> }> => {
+  const socket = new WebSocket(`ws://127.0.0.1:${PORT}`, credential ? { headers: { authorization: `Bearer ${credential}` } } : {});
+  const frames: unknown[] = [];
+  const waiting: Array<(frame: unknown) => void> = [];
+  socket.on('message', data => {
+    const frame = JSON.parse(data.toString());
+    if (frame.type === 'connection_established') return;
+    const resolve = waiting.shift();
+    if (resolve) resolve(frame); else frames.push(frame);
+  });
+  await new Promise(resolve => socket.once('open', resolve));
+
+  return {
+    socket,
+    next: () => frames.length > 0 ? Promise.resolve(frames.shift()) : new Promise(resolve => waiting.push(resolve))
+  };
+};
+
+describe('WebSocketServer MCP messages', () => {
+  let server: WebSocketServer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    server = new WebSocketServer(PORT);
+    server.attachMCP(new MCPServer(0, new InMemoryMarketingRepository()));
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('answers calls on the socket they came in on', async () => {
+    const { socket, next } = await connect();
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+
+    expect(await next()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    socket.close();
+  });
+
+  it('answers a message that is not JSON with a JSON-RPC parse error', async () => {
+    const { socket, next } = await connect();
+    socket.send('{"jsonrpc": "2.0", "id": 1,');
+
+    expect(await next()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    socket.close();
+  });
+
+  it('applies the rate limit to calls over the socket', async () => {
+    const { socket, next } = await connect();
+    const batch = Array.from({ length: 101 }, (_, index) => ({ jsonrpc: '2.0', id: index, method: 'ping' }));
+    socket.send(JSON.stringify(batch));
+
+    expect(await next()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Rate limit exceeded' } });
+    socket.close();
+  });
+});
+
+describe('WebSocketServer agent messages with authentication', () => {
+  let server: WebSocketServer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const auth = new MCPAuthenticator({ apiKeys: [{ key: 'agent-key', principal: 'EN-001', scopes: ['agents:write'] }] });
+    server = new WebSocketServer(PORT);
+    server.attachMCP(new MCPServer(0, new InMemoryMarketingRepository(), auth));
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to register an agent for an anonymous socket', async () => {
+    const { socket, next } = await connect();
+    socket.send(JSON.stringify({ type: 'agent_register', agentId: 'EN-001', agentType: 'engagement' }));
+
+    expect(await next()).toMatchObject({ type: 'error', messageType: 'agent_register', error: 'Unauthorized' });
+    expect(server.getConnectedAgents()).toEqual([]);
+    socket.close();
+  });
+
+  it('refuses broadcasts without the broadcast scope', async () => {
+    const { socket, next } = await connect('agent-key');
+    socket.send(JSON.stringify({ type: 'broadcast_request', agentId: 'EN-001', payload: { text: 'hi' } }));
+
+    expect(await next()).toMatchObject({ type: 'error', messageType: 'broadcast_request', error: 'Forbidden' });
+    socket.close();
+  });
+
+  it('registers an agent whose credential holds the scope', async () => {
+    const { socket, next } = await connect('agent-key');
+    socket.send(JSON.stringify({ type: 'agent_register', agentId: 'EN-001', agentType: 'engagement' }));
+
+    expect(await next()).toMatchObject({ type: 'registration_confirmed', agentId: 'EN-001' });
+    socket.close();
+  });
+
+  it('still answers pings from anyone', async () => {
+    const { socket, next } = await connect();
+    socket.send(JSON.stringify({ type: 'ping' }));
+
+    expect(await next()).toMatchObject({ type: 'pong' });
+    socket.close();
+  });
+});
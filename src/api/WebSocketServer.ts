@@ -1,7 +1,8 @@
 import { WebSocketServer as WSServer, WebSocket } from 'ws';
-import { createServer } from 'http';
-import { WebSocketMessage, MessageType } from '../types';
+import { createServer, IncomingMessage } from 'http';
+import { WebSocketMessage, MessageType, MCPRequest } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { MCPRequestContext, MCPServer } from './MCPServer';
 
 export class WebSocketServer {
   private wss: WSServer;
@@ -9,6 +10,7 @@ export class WebSocketServer {
   private port: number;
   private clients: Map<string, WebSocket> = new Map();
   private agentConnections: Map<string, string> = new Map(); // agentId -> clientId
+  private mcpServer: MCPServer | null = null;
 
   constructor(port: number = 3002) {
     this.port = port;
@@ -21,6 +23,7 @@ export class WebSocketServer {
     this.wss.on('connection', (ws: WebSocket, req) => {
       const clientId = uuidv4();
       this.clients.set(clientId, ws);
+      const caller = this.callerOf(req);
 
       console.log(`WebSocket client connected: ${clientId}`);
 
@@ -32,22 +35,34 @@ export class WebSocketServer {
       }));
 
       ws.on('message', async (data) => {
+        let message: unknown;
         try {
-          const message = JSON.parse(data.toString());
-          await this.handleMessage(clientId, message);
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
+          message = JSON.parse(data.toString());
+        } catch {
+          // Which protocol the sender meant can't be told, so answer as JSON-RPC does
           ws.send(JSON.stringify({
-            type: 'error',
-            error: 'Invalid message format',
-            timestamp: new Date()
+            jsonrpc: '2.0',
+            id: null,
+            error: { code: -32700, message: 'Parse error' }
           }));
+          return;
+        }
+
+        try {
+          if (this.isJsonRpc(message)) {
+            await this.handleMCPMessage(clientId, message, caller);
+          } else if (this.authorizeMessage(clientId, message, caller)) {
+            await this.handleMessage(clientId, message);
+          }
+        } catch (error) {
+          console.error(`Failed to handle WebSocket message from ${clientId}:`, error);
         }
       });
 
       ws.on('close', () => {
         console.log(`WebSocket client disconnected: ${clientId}`);
         this.clients.delete(clientId);
+        this.mcpServer?.closeSession(clientId);
         
         // Remove agent connection if exists
         for (const [agentId, connectedClientId] of this.agentConnections) {
@@ -92,6 +107,90 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * With MCP authentication enabled, agent messages need a credential holding the scope their
+   * type maps to, like MCP calls on the same socket. Refusals are answered with an error message.
+   */
+  private authorizeMessage(clientId: string, message: unknown, caller: MCPRequestContext): boolean {
+    const auth = this.mcpServer?.getAuthenticator();
+    if (!auth) return true;
+
+    const { type, payload } = (message || {}) as { type?: string; payload?: unknown };
+    const decision = auth.authorize(type || '', payload, caller);
+    if (decision.result === 'success') return true;
+
+    const client = this.clients.get(clientId);
+    if (client && client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({
+        type: 'error',
+        messageType: type,
+        error: decision.result === 'denied' ? 'Forbidden' : 'Unauthorized',
+        reason: decision.reason,
+        timestamp: new Date()
+      }));
+    }
+    return false;
+  }
+
+  /**
+   * JSON-RPC messages and batches share the socket with agent messages, which carry a `type` instead
+   */
+  private isJsonRpc(message: unknown): boolean {
+    return Array.isArray(message) || (message as { jsonrpc?: unknown } | null)?.jsonrpc === '2.0';
+  }
+
+  /**
+   * Answer MCP calls on the socket they arrived on; responses carry the request ids, so clients
+   * can match them up however many calls are in flight. The connection's session lets the MCP
+   * server push notifications, such as resource updates, down the same socket.
+   */
+  private async handleMCPMessage(clientId: string, message: unknown, caller: MCPRequestContext): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    if (!this.mcpServer) {
+      const id = Array.isArray(message) ? undefined : (message as Partial<MCPRequest>).id;
+      if (id !== undefined) {
+        client.send(JSON.stringify({
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32601, message: 'MCP is not served on this WebSocket' }
+        }));
+      }
+      return;
+    }
+
+    const send = (payload: unknown) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify(payload));
+      }
+    };
+    // Same budget as HTTP calls from the same address
+    const limited = await this.mcpServer.rateLimit(caller.ip || clientId, message);
+    if (limited) {
+      send(limited);
+      return;
+    }
+
+    const session = this.mcpServer.getSession(clientId) || this.mcpServer.openSession(clientId, send);
+
+    // Credentials are checked on every call, so a token that expires mid-connection stops working
+    const response = await this.mcpServer.dispatch(message, { ...caller, session });
+    if (response !== null) {
+      send(response);
+    }
+  }
+
+  /**
+   * Credentials given when the socket opened: an Authorization header, or for browsers, which
+   * can't set one, an `access_token` query parameter
+   */
+  private callerOf(req: IncomingMessage): MCPRequestContext {
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const token = new URL(req.url || '/', 'ws://localhost').searchParams.get('access_token');
+    return { credential: bearer || token || undefined, ip: req.socket.remoteAddress };
+  }
+
   private async handleAgentRegistration(clientId: string, message: any): Promise<void> {
     const { agentId, agentType } = message;
     
@@ -195,6 +294,13 @@ export class WebSocketServer {
     return false;
   }
 
+  /**
+   * Serve MCP JSON-RPC on this server's connections alongside agent messages
+   */
+  public attachMCP(mcpServer: MCPServer): void {
+    this.mcpServer = mcpServer;
+  }
+
   public getConnectedAgents(): string[] {
     return Array.from(this.agentConnections.keys());
   }
@@ -220,6 +326,8 @@ export class WebSocketServer {
 
   public stop(): Promise<void> {
     return new Promise((resolve) => {
+      // Open connections would keep the HTTP server from closing; clients may reconnect elsewhere
+      this.clients.forEach(client => client.close(1001, 'Server shutting down'));
       this.wss.close(() => {
         this.server.close(() => {
           console.log('WebSocket Server stopped');
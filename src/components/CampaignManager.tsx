@@ -17,7 +17,7 @@ import {
   Trash2
 } from 'lucide-react';
 import { AgentOrchestrator } from '../system/AgentOrchestrator';
-import { Campaign, CampaignType, CampaignStatus } from '../types';
+import { Campaign, CampaignType, CampaignStatus, SegmentSummary } from '../types';
 
 interface CampaignManagerProps {
   orchestrator: AgentOrchestrator;
@@ -211,6 +211,7 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({ orchestrator }
       <AnimatePresence>
         {showNewCampaignForm && (
           <NewCampaignForm
+            segments={orchestrator.getSegments()}
             onSubmit={handleCreateCampaign}
             onClose={() => setShowNewCampaignForm(false)}
           />
@@ -222,6 +223,7 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({ orchestrator }
         {selectedCampaign && (
           <CampaignDetailsModal
             campaign={selectedCampaign}
+            segment={orchestrator.getSegments().find(segment => segment.id === selectedCampaign.targetSegmentId)}
             onClose={() => setSelectedCampaign(null)}
             onOptimize={() => handleOptimizeCampaign(selectedCampaign.id)}
           />
@@ -338,15 +340,17 @@ const CampaignCard: React.FC<CampaignCardProps> = ({
 };
 
 interface NewCampaignFormProps {
+  segments: SegmentSummary[];
   onSubmit: (campaignData: Partial<Campaign>) => void;
   onClose: () => void;
 }
 
-const NewCampaignForm: React.FC<NewCampaignFormProps> = ({ onSubmit, onClose }) => {
+const NewCampaignForm: React.FC<NewCampaignFormProps> = ({ segments, onSubmit, onClose }) => {
   const [formData, setFormData] = useState({
     name: '',
     type: CampaignType.EMAIL,
     targetAudience: '',
+    targetSegmentId: '',
     content: {
       body: '',
       callToAction: '',
@@ -358,9 +362,11 @@ const NewCampaignForm: React.FC<NewCampaignFormProps> = ({ onSubmit, onClose })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    // A segment's audience is resolved from its live membership when the campaign is created
     onSubmit({
       ...formData,
-      targetAudience: formData.targetAudience.split(',').map(s => s.trim()),
+      targetAudience: formData.targetSegmentId ? [] : formData.targetAudience.split(',').map(s => s.trim()),
+      targetSegmentId: formData.targetSegmentId || undefined,
       startDate: new Date(formData.startDate)
     });
   };
@@ -418,17 +424,42 @@ const NewCampaignForm: React.FC<NewCampaignFormProps> = ({ onSubmit, onClose })
 
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-1">
-              Target Audience (comma-separated)
+              Target Segment
             </label>
-            <input
-              type="text"
-              value={formData.targetAudience}
-              onChange={(e) => setFormData(prev => ({ ...prev, targetAudience: e.target.value }))}
-              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
-              placeholder="e.g., tech_companies, startups, enterprise"
-            />
+            <select
+              value={formData.targetSegmentId}
+              onChange={(e) => setFormData(prev => ({ ...prev, targetSegmentId: e.target.value }))}
+              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="" className="bg-slate-800">Custom audience</option>
+              {segments.map(segment => (
+                <option key={segment.id} value={segment.id} className="bg-slate-800">
+                  {segment.name} ({segment.memberCount} members)
+                </option>
+              ))}
+            </select>
+            {formData.targetSegmentId && (
+              <p className="text-xs text-slate-400 mt-1">
+                {segments.find(segment => segment.id === formData.targetSegmentId)?.description}
+              </p>
+            )}
           </div>
 
+          {!formData.targetSegmentId && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Target Audience (comma-separated)
+              </label>
+              <input
+                type="text"
+                value={formData.targetAudience}
+                onChange={(e) => setFormData(prev => ({ ...prev, targetAudience: e.target.value }))}
+                className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                placeholder="e.g., tech_companies, startups, enterprise"
+              />
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-1">
               Campaign Content *
@@ -515,13 +546,16 @@ const NewCampaignForm: React.FC<NewCampaignFormProps> = ({ onSubmit, onClose })
   );
 };
 
+const MAX_AUDIENCE_TAGS = 50;
+
 interface CampaignDetailsModalProps {
   campaign: Campaign;
+  segment?: SegmentSummary;
   onClose: () => void;
   onOptimize: () => void;
 }
 
-const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({ campaign, onClose, onOptimize }) => (
+const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({ campaign, segment, onClose, onOptimize }) => (
   <motion.div
     initial={{ opacity: 0 }}
     animate={{ opacity: 1 }}
@@ -613,8 +647,14 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({ campaign, o
           <div>
             <h4 className="font-medium text-slate-300 mb-2">Target Audience</h4>
             <div className="bg-white/5 rounded-lg p-4">
+              {segment && (
+                <p className="text-sm text-slate-300 mb-3">
+                  Segment <span className="text-white font-medium">{segment.name}</span>
+                  {' '}· {campaign.targetAudience.length} members at launch, {segment.memberCount} now
+                </p>
+              )}
               <div className="flex flex-wrap gap-2">
-                {campaign.targetAudience.map((audience, index) => (
+                {campaign.targetAudience.slice(0, MAX_AUDIENCE_TAGS).map((audience, index) => (
                   <span
                     key={index}
                     className="px-2 py-1 bg-purple-500/20 rounded text-xs text-purple-300"
@@ -622,13 +662,18 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({ campaign, o
                     {audience}
                   </span>
                 ))}
+                {campaign.targetAudience.length > MAX_AUDIENCE_TAGS && (
+                  <span className="px-2 py-1 text-xs text-slate-400">
+                    +{campaign.targetAudience.length - MAX_AUDIENCE_TAGS} more
+                  </span>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
     </motion.div>
-  );
+  </motion.div>
 );
 
 interface MetricBoxProps {
@@ -1,17 +1,23 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, FileText, CheckCircle, AlertCircle, Database } from 'lucide-react';
+import { Upload, FileText, CheckCircle, AlertCircle, AlertTriangle, Database, ChevronDown, ChevronRight, XCircle } from 'lucide-react';
 import { ZipExtractor } from '../utils/zipExtractor';
+import { AgentOrchestrator } from '../system/AgentOrchestrator';
+import { DataLoadProgress, ImportFileReport, ImportIssue, ImportReport, MarketingDataset } from '../types';
 
 interface DataUploaderProps {
+  orchestrator: AgentOrchestrator;
   onDataLoaded: (data: any) => void;
 }
 
-export const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
+export const DataUploader: React.FC<DataUploaderProps> = ({ orchestrator, onDataLoaded }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [uploadMessage, setUploadMessage] = useState('');
+  const [pendingData, setPendingData] = useState<MarketingDataset | null>(null);
+  const [loadProgress, setLoadProgress] = useState<DataLoadProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -48,6 +54,7 @@ export const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
   const processFile = async (file: File) => {
     setIsProcessing(true);
     setUploadStatus('idle');
+    setPendingData(null);
     
     try {
       console.log('📦 Processing uploaded file:', file.name);
@@ -56,20 +63,65 @@ export const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
       const extractedData = await ZipExtractor.extractFromZip(file);
       
       setUploadStatus('success');
-      setUploadMessage(`Successfully processed ${file.name} - ${extractedData.leads.length} leads, ${extractedData.campaigns.length} campaigns loaded`);
+      setUploadMessage(`Processed ${file.name} - ${extractedData.leads.length} leads, ${extractedData.campaigns.length} campaigns`);
       
-      // Pass data to parent component
-      onDataLoaded(extractedData);
+      // Hold the data until the import report has been reviewed
+      setPendingData(extractedData);
       
     } catch (error) {
       console.error('❌ File processing failed:', error);
       setUploadStatus('error');
-      setUploadMessage('Failed to process the uploaded file. Please check the file format.');
+      setUploadMessage(error instanceof Error ? error.message : 'Failed to process the uploaded file. Please check the file format.');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const loadIntoAgents = async (data: MarketingDataset) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsProcessing(true);
+
+    try {
+      const result = await orchestrator.loadMarketingData(data, {
+        signal: controller.signal,
+        onProgress: setLoadProgress
+      });
+
+      if (result.phase === 'cancelled') {
+        setUploadStatus('error');
+        setUploadMessage(`Load cancelled after ${result.processed.toLocaleString()} of ${result.total.toLocaleString()} records`);
+        return;
+      }
+
+      const failed = Object.entries(result.failed);
+      if (failed.length > 0) {
+        setUploadStatus('error');
+        setUploadMessage(`Agents rejected ${failed.map(([phase, count]) => `${count.toLocaleString()} ${phase}`).join(', ')} records`);
+        return;
+      }
+
+      const evicted = Object.entries(result.evicted);
+      if (evicted.length > 0) {
+        setUploadMessage(`Loaded, but memory quotas evicted ${evicted.map(([type, count]) => `${count.toLocaleString()} ${type}`).join(', ')} items`);
+      }
+
+      onDataLoaded(data);
+    } catch (error) {
+      console.error('❌ Loading data into agents failed:', error);
+      setUploadStatus('error');
+      setUploadMessage(error instanceof Error ? error.message : 'Failed to load data into agents');
+    } finally {
+      abortControllerRef.current = null;
+      setLoadProgress(null);
+      setIsProcessing(false);
+    }
+  };
+
+  const cancelLoad = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const loadSampleData = async () => {
     setIsProcessing(true);
     try {
@@ -81,13 +133,12 @@ export const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
       setUploadStatus('success');
       setUploadMessage(`Sample dataset loaded - ${sampleData.leads.length} leads, ${sampleData.campaigns.length} campaigns`);
       
-      onDataLoaded(sampleData);
+      await loadIntoAgents(sampleData);
       
     } catch (error) {
       console.error('❌ Sample data loading failed:', error);
       setUploadStatus('error');
       setUploadMessage('Failed to load sample data');
-    } finally {
       setIsProcessing(false);
     }
   };
@@ -147,8 +198,20 @@ export const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
         </div>
       </motion.div>
 
+      {/* Agent Load Progress */}
+      {loadProgress && <LoadProgressPanel progress={loadProgress} onCancel={cancelLoad} />}
+
+      {/* Import Report */}
+      {pendingData?.importReport && !loadProgress && (
+        <ImportReportPanel
+          report={pendingData.importReport}
+          summary={uploadMessage}
+          onContinue={() => loadIntoAgents(pendingData)}
+        />
+      )}
+
       {/* Status Message */}
-      {uploadStatus !== 'idle' && (
+      {uploadStatus !== 'idle' && !loadProgress && (!pendingData?.importReport || uploadStatus === 'error') && (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
@@ -183,4 +246,192 @@ export const DataUploader: React.FC<DataUploaderProps> = ({ onDataLoaded }) => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const PHASE_LABELS: Record<DataLoadProgress['phase'], string> = {
+  knowledge: 'Seeding knowledge graph',
+  playbooks: 'Loading episodic playbooks',
+  segments: 'Compiling segments',
+  leads: 'Triaging leads',
+  campaigns: 'Creating campaigns',
+  customers: 'Loading customer profiles',
+  conversations: 'Importing conversation history',
+  contexts: 'Restoring conversation contexts',
+  complete: 'Complete',
+  cancelled: 'Cancelled'
+};
+
+const LoadProgressPanel: React.FC<{ progress: DataLoadProgress; onCancel: () => void }> = ({ progress, onCancel }) => {
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 100;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="rounded-lg border border-purple-500/30 bg-purple-500/10 p-4 space-y-3"
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-white">
+          {PHASE_LABELS[progress.phase]}
+          {progress.phaseTotal > 0 && (
+            <span className="text-slate-400">
+              {' '}· {progress.phaseProcessed.toLocaleString()}/{progress.phaseTotal.toLocaleString()}
+            </span>
+          )}
+        </span>
+        <span className="text-purple-300 font-medium">{percent}%</span>
+      </div>
+
+      <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+        <motion.div
+          className="h-full bg-purple-500"
+          animate={{ width: `${percent}%` }}
+          transition={{ duration: 0.2 }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>{progress.processed.toLocaleString()} of {progress.total.toLocaleString()} records</span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-1 text-red-300 hover:text-red-200"
+        >
+          <XCircle className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  summary: string;
+  onContinue: () => void;
+}
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ report, summary, onContinue }) => {
+  const [expandedFile, setExpandedFile] = useState<string | null>(null);
+  const hasProblems = report.rejectedRows > 0 || report.danglingReferences > 0 || report.unmappedValues.length > 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className={`rounded-lg border p-4 space-y-4 ${
+        hasProblems ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-green-500/10 border-green-500/30'
+      }`}
+    >
+      <div className="flex items-center space-x-3">
+        {hasProblems ? (
+          <AlertTriangle className="w-5 h-5 text-yellow-300" />
+        ) : (
+          <CheckCircle className="w-5 h-5 text-green-300" />
+        )}
+        <span className={hasProblems ? 'text-yellow-200' : 'text-green-200'}>{summary}</span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-3 text-center">
+        <ReportStat label="Accepted rows" value={report.acceptedRows} color="text-green-400" />
+        <ReportStat label="Rejected rows" value={report.rejectedRows} color="text-red-400" />
+        <ReportStat label="Coerced values" value={report.coercedValues} color="text-yellow-400" />
+        <ReportStat label="Dangling FKs" value={report.danglingReferences} color="text-orange-400" />
+        <ReportStat label="Unmapped values" value={report.unmappedValues.length} color="text-blue-400" />
+      </div>
+
+      {report.unmappedValues.length > 0 && (
+        <div className="bg-white/5 rounded-lg px-3 py-2 text-xs space-y-1">
+          <div className="font-medium text-blue-300">Unmapped vocabulary values</div>
+          <ul className="text-slate-400 space-y-0.5">
+            {report.unmappedValues.map(entry => (
+              <li key={`${entry.vocabulary}:${entry.value}`}>
+                {entry.vocabulary} "{entry.value}" → {entry.fallback} ({entry.count.toLocaleString()} rows)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="max-h-80 overflow-y-auto divide-y divide-white/10 bg-white/5 rounded-lg">
+        {report.files.map(file => (
+          <div key={file.file}>
+            <button
+              type="button"
+              onClick={() => setExpandedFile(expandedFile === file.file ? null : file.file)}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-white/5"
+            >
+              <span className="flex items-center space-x-2 text-white">
+                {expandedFile === file.file ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                <span>{file.file}</span>
+                {file.status !== 'ok' && (
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-xs text-slate-300">{file.status}</span>
+                )}
+              </span>
+              <span className="text-slate-400">
+                {file.acceptedRows}/{file.totalRows}
+                {file.rejectedCount > 0 && <span className="text-red-400"> · {file.rejectedCount} rejected</span>}
+                {file.coercedCount > 0 && <span className="text-yellow-400"> · {file.coercedCount} coerced</span>}
+                {file.danglingCount > 0 && <span className="text-orange-400"> · {file.danglingCount} dangling</span>}
+              </span>
+            </button>
+            {expandedFile === file.file && <FileIssues file={file} />}
+          </div>
+        ))}
+      </div>
+
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={onContinue}
+        className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 px-6 py-3 rounded-lg transition-colors mx-auto"
+      >
+        <Database className="w-4 h-4" />
+        <span>Load {report.acceptedRows.toLocaleString()} rows into agents</span>
+      </motion.button>
+    </motion.div>
+  );
+};
+
+const FileIssues: React.FC<{ file: ImportFileReport }> = ({ file }) => {
+  const sections: Array<[string, number, ImportIssue[], string]> = [
+    ['Rejected rows', file.rejectedCount, file.rejected, 'text-red-300'],
+    ['Coerced values', file.coercedCount, file.coerced, 'text-yellow-300'],
+    ['Dangling foreign keys', file.danglingCount, file.danglingReferences, 'text-orange-300']
+  ];
+
+  if (file.missingColumns.length === 0 && sections.every(([, count]) => count === 0)) {
+    return <div className="px-9 pb-3 text-xs text-slate-400">No issues found</div>;
+  }
+
+  return (
+    <div className="px-9 pb-3 space-y-2 text-xs">
+      {file.missingColumns.length > 0 && (
+        <div className="text-slate-300">Missing columns: {file.missingColumns.join(', ')}</div>
+      )}
+      {sections.filter(([, count]) => count > 0).map(([title, count, issues, color]) => (
+        <div key={title}>
+          <div className={`font-medium ${color}`}>
+            {title} ({count}{issues.length < count ? `, showing first ${issues.length}` : ''})
+          </div>
+          <ul className="text-slate-400 space-y-0.5">
+            {issues.map((issue, index) => (
+              <li key={index}>
+                Row {issue.row}{issue.column && ` · ${issue.column}`}
+                {issue.value !== undefined && ` = "${issue.value}"`}
+                {issue.coercedTo !== undefined && ` → "${issue.coercedTo}"`}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ReportStat: React.FC<{ label: string; value: number; color: string }> = ({ label, value, color }) => (
+  <div className="bg-white/5 rounded-lg p-3">
+    <div className={`text-lg font-bold ${color}`}>{value.toLocaleString()}</div>
+    <div className="text-xs text-slate-400">{label}</div>
+  </div>
+);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Brain, 
@@ -10,9 +10,15 @@ import {
   BookOpen,
   Lightbulb,
   RefreshCw,
-  TrendingUp
+  TrendingUp,
+  Search,
+  Trash2
 } from 'lucide-react';
-import { AgentOrchestrator } from '../system/AgentOrchestrator';
+import { AgentMemoryUsage, AgentOrchestrator } from '../system/AgentOrchestrator';
+import { MemoryTier } from '../memory/MemoryStore';
+import { MemoryQuery, MemoryQueryHit } from '../memory/MemoryQuery';
+import { MemoryLineage } from '../memory/MemoryManager';
+import { MemoryProvenance } from '../types';
 
 interface MemoryVisualizationProps {
   orchestrator: AgentOrchestrator;
@@ -20,6 +26,8 @@ interface MemoryVisualizationProps {
 
 export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orchestrator }) => {
   const [memoryData, setMemoryData] = useState<any>(null);
+  const [memoryUsage, setMemoryUsage] = useState<Record<string, AgentMemoryUsage>>({});
+  const [agentNames, setAgentNames] = useState<Record<string, string>>({});
   const [selectedAgent, setSelectedAgent] = useState<string>('all');
   const [isLoading, setIsLoading] = useState(true);
 
@@ -33,6 +41,10 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
     try {
       const report = await orchestrator.getSystemReport();
       setMemoryData(report.memoryStats);
+      setMemoryUsage(report.memoryUsage);
+      setAgentNames(Object.fromEntries(
+        Object.entries(report.agentStatuses as Record<string, { name: string }>).map(([id, status]) => [id, status.name])
+      ));
       setIsLoading(false);
     } catch (error) {
       console.error('Failed to load memory data:', error);
@@ -40,6 +52,10 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
     }
   };
 
+  const visibleUsage = selectedAgent === 'all'
+    ? memoryUsage
+    : Object.fromEntries(Object.entries(memoryUsage).filter(([agentId]) => agentId === selectedAgent));
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -66,9 +82,9 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
           className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
         >
           <option value="all" className="bg-slate-800">All Agents</option>
-          <option value="triage" className="bg-slate-800">Triage Agent</option>
-          <option value="engagement" className="bg-slate-800">Engagement Agent</option>
-          <option value="optimization" className="bg-slate-800">Optimization Agent</option>
+          {Object.entries(agentNames).map(([id, name]) => (
+            <option key={id} value={id} className="bg-slate-800">{name} ({id})</option>
+          ))}
         </select>
       </div>
 
@@ -80,8 +96,9 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
           description="Current conversation contexts and active processing"
           data={memoryData}
           type="shortTermItems"
+          usage={visibleUsage}
+          tier="short"
           color="from-blue-500 to-cyan-500"
-          maxCapacity={100}
         />
         <MemoryTypeCard
           title="Long-term Memory"
@@ -89,8 +106,9 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
           description="Customer profiles, campaign history, and performance metrics"
           data={memoryData}
           type="longTermItems"
+          usage={visibleUsage}
+          tier="long"
           color="from-green-500 to-emerald-500"
-          maxCapacity={1000}
         />
         <MemoryTypeCard
           title="Episodic Memory"
@@ -98,8 +116,9 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
           description="Successful interactions and problem resolution patterns"
           data={memoryData}
           type="episodicItems"
+          usage={visibleUsage}
+          tier="episodic"
           color="from-yellow-500 to-orange-500"
-          maxCapacity={500}
         />
         <MemoryTypeCard
           title="Semantic Memory"
@@ -107,8 +126,9 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
           description="Domain knowledge graphs and learned concepts"
           data={memoryData}
           type="semanticItems"
+          usage={visibleUsage}
+          tier="semantic"
           color="from-purple-500 to-pink-500"
-          maxCapacity={300}
         />
       </div>
 
@@ -152,6 +172,12 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
         ))}
       </div>
 
+      {/* Quota evictions */}
+      <EvictionLog usage={visibleUsage} agentNames={agentNames} />
+
+      {/* Memory Browser */}
+      <MemoryBrowser orchestrator={orchestrator} agentId={selectedAgent === 'all' ? null : selectedAgent} />
+
       {/* Memory Optimization Recommendations */}
       <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
         <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
@@ -190,14 +216,211 @@ export const MemoryVisualization: React.FC<MemoryVisualizationProps> = ({ orches
   );
 };
 
+const BROWSER_PAGE_SIZE = 25;
+
+const TIER_OPTIONS: Array<{ value: MemoryTier | 'all'; label: string }> = [
+  { value: 'all', label: 'All tiers' },
+  { value: 'short', label: 'Short-term' },
+  { value: 'long', label: 'Long-term' },
+  { value: 'episodic', label: 'Episodic' },
+  { value: 'semantic', label: 'Semantic' }
+];
+
+interface MemoryBrowserProps {
+  orchestrator: AgentOrchestrator;
+  agentId: string | null;
+}
+
+const MemoryBrowser: React.FC<MemoryBrowserProps> = ({ orchestrator, agentId }) => {
+  const [tier, setTier] = useState<MemoryTier | 'all'>('all');
+  const [path, setPath] = useState('');
+  const [value, setValue] = useState('');
+  // The text filter only applies on Apply or Enter; tier and ordering apply as soon as they change
+  const [filter, setFilter] = useState({ path: '', value: '' });
+  const [newestFirst, setNewestFirst] = useState(true);
+  const [items, setItems] = useState<MemoryQueryHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [activeQuery, setActiveQuery] = useState<MemoryQuery>({});
+  const [explained, setExplained] = useState<{ itemId: string; lineage: MemoryLineage | null } | null>(null);
+
+  const toggleLineage = (itemId: string) => {
+    if (!agentId) return;
+    setExplained(current =>
+      current?.itemId === itemId ? null : { itemId, lineage: orchestrator.getMemoryLineage(agentId, itemId) }
+    );
+  };
+
+  const runQuery = useCallback((query: MemoryQuery, cursor?: string) => {
+    if (!agentId) return;
+
+    try {
+      const result = orchestrator.queryAgentMemory(agentId, { ...query, cursor });
+      setActiveQuery(query);
+      setItems(previous => cursor ? [...previous, ...result.items] : result.items);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to query memory');
+    }
+  }, [agentId, orchestrator]);
+
+  useEffect(() => {
+    runQuery({
+      tiers: tier === 'all' ? undefined : [tier],
+      // The browser only offers substring matching; MCP clients get the full operator set
+      where: filter.path && filter.value ? { [filter.path]: { $contains: filter.value } } : undefined,
+      sort: newestFirst ? [{ path: '$time', direction: 'desc' }] : undefined,
+      limit: BROWSER_PAGE_SIZE
+    });
+  }, [runQuery, tier, newestFirst, filter]);
+
+  // A fresh object each time, so applying the same filter again still re-runs the query
+  const applyFilter = () => setFilter({ path: path.trim(), value: value.trim() });
+
+  // Later pages reuse the query the first page ran with, even if the filters have been edited since
+  const loadMore = () => runQuery(activeQuery, nextCursor);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+        <Search className="w-5 h-5" />
+        <span>Memory Browser</span>
+      </h3>
+
+      {!agentId ? (
+        <p className="text-sm text-slate-400">Select an agent above to browse its memory.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mb-4">
+            <select
+              value={tier}
+              onChange={(e) => setTier(e.target.value as MemoryTier | 'all')}
+              className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {TIER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} className="bg-slate-800">{option.label}</option>
+              ))}
+            </select>
+            <input
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+              placeholder="Field path, e.g. status or preferences.frequency"
+              className="flex-1 min-w-[200px] px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilter()}
+              placeholder="Contains…"
+              className="w-40 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <label className="flex items-center space-x-2 text-sm text-slate-300">
+              <input type="checkbox" checked={newestFirst} onChange={(e) => setNewestFirst(e.target.checked)} />
+              <span>Newest first</span>
+            </label>
+            <button
+              onClick={applyFilter}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white text-sm"
+            >
+              Apply
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+          <div className="text-xs text-slate-400 mb-2">
+            Showing {items.length} of {total} items
+          </div>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {items.map((hit, index) => {
+              const { id, provenance } = hit.data as { id?: string; provenance?: MemoryProvenance };
+              return (
+                <div key={id || index} className="bg-white/5 rounded-lg p-3 border border-white/10">
+                  <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="text-purple-300">{hit.tier} · {hit.type}</span>
+                    <span className="flex items-center space-x-3">
+                      {provenance && id && (
+                        <button onClick={() => toggleLineage(id)} className="text-purple-300 hover:text-purple-200">
+                          {explained?.itemId === id ? 'Hide lineage' : 'Why?'}
+                        </button>
+                      )}
+                      <span className="text-slate-500">{hit.timestamp ? hit.timestamp.toLocaleString() : 'no timestamp'}</span>
+                    </span>
+                  </div>
+                  <pre className="text-xs text-slate-300 whitespace-pre-wrap break-all max-h-32 overflow-hidden">
+                    {JSON.stringify(hit.data, null, 2)}
+                  </pre>
+                  {explained && explained.itemId === id && <LineageSummary lineage={explained.lineage} />}
+                </div>
+              );
+            })}
+          </div>
+
+          {nextCursor && (
+            <button
+              onClick={loadMore}
+              className="mt-3 w-full px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm"
+            >
+              Load more
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const LineageSummary: React.FC<{ lineage: MemoryLineage | null }> = ({ lineage }) => {
+  if (!lineage) {
+    return <p className="mt-2 text-xs text-slate-400">This item is no longer in memory.</p>;
+  }
+
+  const sources = lineage.datasetSources.map(source => source.row ? `${source.file}#${source.row}` : source.file);
+
+  return (
+    <div className="mt-2 p-2 rounded bg-purple-500/10 border border-purple-500/20 text-xs text-slate-300 space-y-1">
+      {lineage.root.parents.length > 0 && (
+        <div>
+          <span className="text-slate-400">Built from: </span>
+          {lineage.root.parents.slice(0, 10).map(parent => (
+            <span key={parent.id} className="mr-2">
+              {parent.type || 'removed'}:{parent.id}{parent.relation === 'merged' ? ' (merged)' : ''}
+            </span>
+          ))}
+          {lineage.root.parents.length > 10 && <span>+{lineage.root.parents.length - 10} more</span>}
+        </div>
+      )}
+      <div>
+        <span className="text-slate-400">Actions: </span>
+        {lineage.actionIds.length > 0 ? lineage.actionIds.slice(0, 5).join(', ') : 'none'}
+        {lineage.actionIds.length > 5 && ` +${lineage.actionIds.length - 5} more`}
+      </div>
+      <div>
+        <span className="text-slate-400">Dataset: </span>
+        {sources.length > 0 ? sources.slice(0, 5).join(', ') : 'none'}
+        {sources.length > 5 && ` +${sources.length - 5} more`}
+      </div>
+      <div>
+        <span className="text-slate-400">Consolidation runs: </span>
+        {lineage.consolidationRuns.length > 0 ? lineage.consolidationRuns.join(', ') : 'none'}
+      </div>
+    </div>
+  );
+};
+
 interface MemoryTypeCardProps {
   title: string;
   icon: React.ReactNode;
   description: string;
   data: any;
   type: string;
+  usage: Record<string, AgentMemoryUsage>;
+  tier: MemoryTier;
   color: string;
-  maxCapacity: number;
 }
 
 const MemoryTypeCard: React.FC<MemoryTypeCardProps> = ({ 
@@ -206,14 +429,24 @@ const MemoryTypeCard: React.FC<MemoryTypeCardProps> = ({
   description, 
   data, 
   type, 
-  color, 
-  maxCapacity 
+  usage,
+  tier,
+  color
 }) => {
-  const totalItems = Object.values(data || {}).reduce((sum: number, stats: any) => 
-    sum + (stats[type] || 0), 0
-  );
-  
-  const utilizationPercentage = (totalItems / maxCapacity) * 100;
+  const totalItems = Object.entries((data || {}) as Record<string, Record<string, number>>)
+    .filter(([agentId]) => agentId in usage)
+    .reduce((sum: number, [, stats]) => sum + (stats[type] || 0), 0);
+
+  // A tier without its own quota is bounded by the agent quota; no quota at all leaves it unbounded
+  let usedBytes = 0;
+  let capacity: number | null = 0;
+  for (const { usage: agentUsage, quota } of Object.values(usage)) {
+    usedBytes += agentUsage.tiers[tier];
+    const limit = quota.tiers[tier] ?? quota.maxBytes;
+    capacity = capacity === null || limit === null ? null : capacity + limit;
+  }
+
+  const utilizationPercentage = capacity ? (usedBytes / capacity) * 100 : 0;
 
   return (
     <motion.div
@@ -235,7 +468,9 @@ const MemoryTypeCard: React.FC<MemoryTypeCardProps> = ({
       <div className="mb-4">
         <div className="flex justify-between text-sm mb-2">
           <span className="text-slate-400">Utilization</span>
-          <span className="text-white">{totalItems} / {maxCapacity}</span>
+          <span className="text-white">
+            {formatBytes(usedBytes)} / {capacity === null ? 'unlimited' : formatBytes(capacity)}
+          </span>
         </div>
         <div className="w-full bg-slate-700 rounded-full h-3">
           <motion.div
@@ -255,6 +490,49 @@ const MemoryTypeCard: React.FC<MemoryTypeCardProps> = ({
   );
 };
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface EvictionLogProps {
+  usage: Record<string, AgentMemoryUsage>;
+  agentNames: Record<string, string>;
+}
+
+const EvictionLog: React.FC<EvictionLogProps> = ({ usage, agentNames }) => {
+  const events = Object.values(usage)
+    .flatMap(({ evictions }) => evictions)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+        <Trash2 className="w-5 h-5" />
+        <span>Quota Evictions</span>
+      </h3>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-slate-400">No items have been evicted to stay within memory quotas.</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {events.map((event, index) => (
+            <div key={`${event.agentId}-${event.itemId || index}-${index}`} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2 text-xs">
+              <span className="text-white">{agentNames[event.agentId] || event.agentId}</span>
+              <span className="text-purple-300">{event.tier} · {event.type}</span>
+              <span className="text-slate-400 truncate max-w-[160px]">{event.itemId || 'no id'}</span>
+              <span className="text-slate-300">{formatBytes(event.bytes)}</span>
+              <span className="text-slate-400">{event.strategy} · {event.quota} quota</span>
+              <span className="text-slate-500">{new Date(event.timestamp).toLocaleTimeString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface AgentMemoryCardProps {
   agentId: string;
   stats: any;
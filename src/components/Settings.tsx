@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Settings as SettingsIcon, 
@@ -14,19 +14,69 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { AgentOrchestrator } from '../system/AgentOrchestrator';
+import { DEFAULT_MEMORY_POLICY, DecayCurve, EvictionStrategy, MemoryPolicy, MemoryPolicyPatch } from '../memory/MemoryPolicy';
 
 interface SettingsProps {
   orchestrator: AgentOrchestrator;
 }
 
+interface MemorySettings {
+  consolidationInterval: number; // seconds
+  maxShortTermItems: number;
+  memoryDecayFactor: number;
+  decayCurve: DecayCurve;
+  autoConsolidation: boolean;
+  quotaMb: number; // 0 for no quota
+  evictionStrategy: EvictionStrategy;
+}
+
+/** Memory settings apply to every agent unless one is picked */
+const ALL_AGENTS = 'all';
+
+const DECAY_CURVES: Array<{ value: DecayCurve; label: string }> = [
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'access_weighted', label: 'Access-frequency weighted' }
+];
+
+const EVICTION_STRATEGIES: Array<{ value: EvictionStrategy; label: string }> = [
+  { value: 'lru', label: 'Least recently used' },
+  { value: 'lowest_relevance', label: 'Lowest relevance' },
+  { value: 'oldest', label: 'Oldest first' }
+];
+
+const BYTES_PER_MB = 1024 * 1024;
+
+const memorySettingsFrom = (policy: MemoryPolicy): MemorySettings => {
+  const timeTrigger = policy.consolidation.triggers.find(trigger => trigger.kind === 'time');
+
+  return {
+    consolidationInterval: timeTrigger ? Math.round(timeTrigger.intervalMs / 1000) : 0,
+    maxShortTermItems: policy.capacity.shortTerm,
+    memoryDecayFactor: policy.decay.factor,
+    decayCurve: policy.decay.curve,
+    autoConsolidation: policy.consolidation.enabled,
+    quotaMb: policy.quota.maxBytes === null ? 0 : Math.round(policy.quota.maxBytes / BYTES_PER_MB),
+    evictionStrategy: policy.quota.strategy
+  };
+};
+
+const memoryPolicyPatch = (memory: MemorySettings): MemoryPolicyPatch => ({
+  decay: { factor: memory.memoryDecayFactor, curve: memory.decayCurve },
+  consolidation: {
+    enabled: memory.autoConsolidation,
+    triggers: [{ kind: 'time', intervalMs: memory.consolidationInterval * 1000 }]
+  },
+  capacity: { shortTerm: memory.maxShortTermItems },
+  quota: {
+    maxBytes: memory.quotaMb > 0 ? memory.quotaMb * BYTES_PER_MB : null,
+    strategy: memory.evictionStrategy
+  }
+});
+
 export const Settings: React.FC<SettingsProps> = ({ orchestrator }) => {
   const [settings, setSettings] = useState({
-    memory: {
-      consolidationInterval: 300, // seconds
-      maxShortTermItems: 100,
-      memoryDecayFactor: 0.95,
-      autoConsolidation: true
-    },
+    memory: memorySettingsFrom(DEFAULT_MEMORY_POLICY),
     agents: {
       maxRetryAttempts: 3,
       responseTimeout: 30000,
@@ -55,15 +105,39 @@ export const Settings: React.FC<SettingsProps> = ({ orchestrator }) => {
 
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [memoryTarget, setMemoryTarget] = useState(ALL_AGENTS);
+  const [agentNames, setAgentNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const statuses = orchestrator.getAgentStatuses();
+    setAgentNames(Object.fromEntries(Object.entries(statuses).map(([id, status]) => [id, status.name])));
+  }, [orchestrator]);
+
+  // Show the live policy of the selected agent; "all agents" shows the first one's
+  useEffect(() => {
+    const agentRef = memoryTarget === ALL_AGENTS ? Object.keys(agentNames)[0] : memoryTarget;
+    if (!agentRef) return;
+
+    try {
+      const policy = orchestrator.getMemoryPolicy(agentRef);
+      setSettings(prev => ({ ...prev, memory: memorySettingsFrom(policy) }));
+    } catch (error) {
+      console.error('Failed to load memory policy:', error);
+    }
+  }, [orchestrator, memoryTarget, agentNames]);
 
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      // Simulate saving settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Memory policy is hot-reloaded into the running agents
+      await orchestrator.updateMemoryPolicy(
+        memoryPolicyPatch(settings.memory),
+        memoryTarget === ALL_AGENTS ? undefined : memoryTarget
+      );
       setSaveStatus('success');
       setTimeout(() => setSaveStatus('idle'), 3000);
     } catch (error) {
+      console.error('Failed to save settings:', error);
       setSaveStatus('error');
       setTimeout(() => setSaveStatus('idle'), 3000);
     } finally {
@@ -74,12 +148,7 @@ export const Settings: React.FC<SettingsProps> = ({ orchestrator }) => {
   const handleReset = () => {
     // Reset to default values
     setSettings({
-      memory: {
-        consolidationInterval: 300,
-        maxShortTermItems: 100,
-        memoryDecayFactor: 0.95,
-        autoConsolidation: true
-      },
+      memory: memorySettingsFrom(DEFAULT_MEMORY_POLICY),
       agents: {
         maxRetryAttempts: 3,
         responseTimeout: 30000,
@@ -164,6 +233,15 @@ export const Settings: React.FC<SettingsProps> = ({ orchestrator }) => {
           description="Configure adaptive memory system parameters"
         >
           <div className="space-y-4">
+            <SelectField
+              label="Apply To"
+              value={memoryTarget}
+              options={[
+                { value: ALL_AGENTS, label: 'All agents' },
+                ...Object.entries(agentNames).map(([id, name]) => ({ value: id, label: name }))
+              ]}
+              onChange={setMemoryTarget}
+            />
             <SettingField
               label="Consolidation Interval (seconds)"
               type="number"
@@ -194,6 +272,34 @@ export const Settings: React.FC<SettingsProps> = ({ orchestrator }) => {
                 memory: { ...prev.memory, memoryDecayFactor: parseFloat(value) }
               }))}
             />
+            <SelectField
+              label="Decay Curve"
+              value={settings.memory.decayCurve}
+              options={DECAY_CURVES}
+              onChange={(value) => setSettings(prev => ({
+                ...prev,
+                memory: { ...prev.memory, decayCurve: value as DecayCurve }
+              }))}
+            />
+            <SettingField
+              label="Memory Quota (MB, 0 for none)"
+              type="number"
+              min="0"
+              value={settings.memory.quotaMb}
+              onChange={(value) => setSettings(prev => ({
+                ...prev,
+                memory: { ...prev.memory, quotaMb: parseInt(value) || 0 }
+              }))}
+            />
+            <SelectField
+              label="Eviction Strategy"
+              value={settings.memory.evictionStrategy}
+              options={EVICTION_STRATEGIES}
+              onChange={(value) => setSettings(prev => ({
+                ...prev,
+                memory: { ...prev.memory, evictionStrategy: value as EvictionStrategy }
+              }))}
+            />
             <ToggleField
               label="Auto Consolidation"
               checked={settings.memory.autoConsolidation}
@@ -393,6 +499,32 @@ const SettingField: React.FC<SettingFieldProps> = ({ label, type, value, onChang
   </div>
 );
 
+interface SelectFieldProps {
+  label: string;
+  value: string;
+  options: Array<{ value: string; label: string }>;
+  onChange: (value: string) => void;
+}
+
+const SelectField: React.FC<SelectFieldProps> = ({ label, value, options, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-slate-300 mb-1">
+      {label}
+    </label>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+    >
+      {options.map(option => (
+        <option key={option.value} value={option.value} className="bg-slate-800">
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
 interface ToggleFieldProps {
   label: string;
   checked: boolean;
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MCPClient } from './MCPClient';
+import { MCPServer } from '../api/MCPServer';
+import { InMemoryMarketingRepository } from '../api/MarketingRepository';
+
+describe('MCPClient request batching', () => {
+  let server: MCPServer;
+  let posted: unknown[];
+  let client: MCPClient;
+
+  beforeEach(() => {
+    server = new MCPServer(0, new InMemoryMarketingRepository());
+    server.registerHandler('test.echo', async params => params);
+    server.registerHandler('test.fail', async () => {
+      throw new Error('Handler failed');
+    });
+
+    posted = [];
+    vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      posted.push(body);
+      const result = await server.dispatch(body);
+      return { ok: true, status: result ? 200 : 204, json: async () => result };
+    });
+    client = new MCPClient('http://mcp.test', 'test-key', { retryAttempts: 1 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends calls made in the same tick as one batch and settles each on its own', async () => {
+    const results = await Promise.all([
+      client.request('test.echo', { n: 1 }),
+      client.request('test.echo', { n: 2 }),
+      client.request('test.echo', { n: 3 })
+    ]);
+
+    expect(results).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    expect(posted).toHaveLength(1);
+    expect(posted[0]).toHaveLength(3);
+  });
+
+  it('sends a lone call as a plain request and later calls separately', async () => {
+    await client.request('test.echo', { n: 1 });
+    await client.request('test.echo', { n: 2 });
+
+    expect(posted).toEqual([
+      expect.objectContaining({ method: 'test.echo', params: { n: 1 } }),
+      expect.objectContaining({ method: 'test.echo', params: { n: 2 } })
+    ]);
+  });
+
+  it('splits a long queue into batches of at most 100 calls', async () => {
+    const results = await Promise.all(Array.from({ length: 250 }, (_, n) => client.request('test.echo', { n })));
+
+    expect(results.map(result => result.n)).toEqual(Array.from({ length: 250 }, (_, n) => n));
+    expect(posted.map(batch => (batch as unknown[]).length)).toEqual([100, 100, 50]);
+  });
+
+  it('rejects only the call the server answered with an error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const [echoed, failed] = await Promise.allSettled([client.request('test.echo', { n: 1 }), client.request('test.fail')]);
+
+    expect(echoed).toEqual({ status: 'fulfilled', value: { n: 1 } });
+    expect(failed).toMatchObject({ status: 'rejected', reason: { name: 'MCPError' } });
+  });
+
+  it('rejects every call in a batch the server refused as a whole', async () => {
+    vi.stubGlobal('fetch', async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Rate limit exceeded' } })
+    }));
+
+    const settled = await Promise.allSettled([client.request('test.echo'), client.request('test.echo')]);
+
+    expect(settled).toEqual([
+      { status: 'rejected', reason: expect.objectContaining({ code: -32000, message: 'Rate limit exceeded' }) },
+      { status: 'rejected', reason: expect.objectContaining({ code: -32000, message: 'Rate limit exceeded' }) }
+    ]);
+  });
+});
@@ -1,19 +1,105 @@
-import { MCPRequest, MCPResponse, MCPError, MCPNotification } from '../types';
+import {
+  AuthEvent,
+  Campaign,
+  CustomerProfile,
+  Lead,
+  MCPRequest,
+  MCPResponse,
+  MCPError,
+  MCPNotification,
+  MCPImplementation,
+  MCPInitializeResult,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContents,
+  MCPServerCapabilities,
+  MCPTool,
+  MCPToolResult
+} from '../types';
+import { RecordQuery } from '../api/MarketingRepository';
+import { AuthEventQuery } from '../api/AuthEventLog';
+import { MemoryQuery, MemoryQueryResult } from '../memory/MemoryQuery';
+import { MemoryLineage } from '../memory/MemoryManager';
+import { AgentMemoryUsage } from '../system/AgentOrchestrator';
+import {
+  EdgeFilter,
+  GraphNeighbor,
+  GraphPath,
+  ShortestPathOptions,
+  TraversalHit,
+  TraversalOptions,
+  TripleMatch,
+  TriplePattern
+} from '../memory/KnowledgeGraphQuery';
+import { MemorySnapshot, MemorySnapshotCodec, MemorySnapshotImportOptions, MemorySnapshotImportResult } from '../memory/MemorySnapshot';
 import { v4 as uuidv4 } from 'uuid';
+import { HttpTransport, MCPTransport, MCPTransportKind } from './MCPTransport';
+import { WebSocketFactory, WebSocketTransport } from './WebSocketTransport';
+
+/** Protocol version this client asks for in initialize */
+const CLIENT_PROTOCOL_VERSION = '2025-06-18';
+
+/** Matches the server's limit; longer queues go out as several batches */
+const MAX_BATCH_SIZE = 100;
+
+export interface MCPClientOptions {
+  /** Milliseconds to wait for a response (default 30000) */
+  timeout?: number;
+  /** Attempts per HTTP request, or reconnect attempts in a row for a WebSocket (default 3) */
+  retryAttempts?: number;
+  /** Defaults to websocket for ws:// and wss:// URLs and http otherwise */
+  transport?: MCPTransportKind;
+  /** Opens the socket for the websocket transport; defaults to the global WebSocket */
+  createSocket?: WebSocketFactory;
+}
+
+interface PendingCall {
+  request: MCPRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
 
 export class MCPClient {
-  private baseUrl: string;
-  private apiKey: string;
-  private timeout: number;
-  private retryAttempts: number;
+  private transport: MCPTransport;
+  private session: MCPInitializeResult | null = null;
+  private queue: PendingCall[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private notificationHandlers: Map<string, (notification: MCPNotification) => void> = new Map();
+  /** Resource URIs to subscribe to again when a dropped connection comes back */
+  private subscriptions: Set<string> = new Set();
+
+  /**
+   * `baseUrl` is the server's HTTP root (requests go to `<baseUrl>/mcp`) or, for the websocket
+   * transport, the socket URL itself. Callers see the same methods whichever transport is used.
+   */
+  constructor(baseUrl: string, apiKey: string, options: MCPClientOptions = {}) {
+    const timeout = options.timeout ?? 30000;
+    const retryAttempts = options.retryAttempts ?? 3;
+    const transport = options.transport ?? (/^wss?:/i.test(baseUrl) ? 'websocket' : 'http');
+
+    this.transport = transport === 'websocket'
+      ? new WebSocketTransport(this.withAccessToken(baseUrl, apiKey), timeout, retryAttempts, {
+          notification: notification => this.handleNotification(notification),
+          reconnected: () => this.resubscribe()
+        }, options.createSocket)
+      : new HttpTransport(baseUrl, apiKey, timeout, retryAttempts);
+  }
 
-  constructor(baseUrl: string, apiKey: string, timeout: number = 30000, retryAttempts: number = 3) {
-    this.baseUrl = baseUrl;
-    this.apiKey = apiKey;
-    this.timeout = timeout;
-    this.retryAttempts = retryAttempts;
+  /**
+   * Browsers can't set headers on a WebSocket, so the key goes in the URL as `access_token`
+   */
+  private withAccessToken(url: string, apiKey: string): string {
+    if (!apiKey) return url;
+    const withToken = new URL(url);
+    withToken.searchParams.set('access_token', apiKey);
+    return withToken.toString();
   }
 
+  /**
+   * Call a method. Calls made before the event loop turns (e.g. several started together
+   * and awaited with Promise.all) are sent as one JSON-RPC batch; each still settles on its own.
+   */
   public async request(method: string, params?: any): Promise<any> {
     const request: MCPRequest = {
       jsonrpc: '2.0',
@@ -22,83 +108,140 @@ export class MCPClient {
       params
     };
 
-    return await this.sendRequest(request);
+    return await new Promise((resolve, reject) => {
+      this.queue.push({ request, resolve, reject });
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flushQueue(), 0);
+      }
+    });
+  }
+
+  private flushQueue(): void {
+    const calls = this.queue;
+    this.queue = [];
+    this.flushTimer = null;
+
+    for (let start = 0; start < calls.length; start += MAX_BATCH_SIZE) {
+      this.sendCalls(calls.slice(start, start + MAX_BATCH_SIZE));
+    }
   }
 
-  private async sendRequest(request: MCPRequest, attempt: number = 1): Promise<any> {
+  private async sendCalls(calls: PendingCall[]): Promise<void> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const response = await fetch(`${this.baseUrl}/mcp`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-          'X-MCP-Version': '1.0'
-        },
-        body: JSON.stringify(request),
-        signal: controller.signal
+      // A lone call goes out as a plain request rather than a batch of one
+      const body = await this.transport.send(calls.length === 1 ? calls[0].request : calls.map(call => call.request));
+      const responses: MCPResponse[] = Array.isArray(body) ? body : body ? [body] : [];
+      const byId = new Map(responses.map(response => [response.id, response]));
+
+      calls.forEach(call => {
+        // A whole batch rejected by the server comes back as one response with a null id
+        const response = byId.get(call.request.id) ?? (responses.length === 1 && responses[0].id === null ? responses[0] : undefined);
+        if (!response) {
+          call.reject(new Error(`No response to MCP request ${call.request.method}`));
+        } else if (response.error) {
+          call.reject(new MCPError(response.error));
+        } else {
+          call.resolve(response.result);
+        }
       });
+    } catch (error) {
+      calls.forEach(call => call.reject(error));
+    }
+  }
 
-      clearTimeout(timeoutId);
+  // MCP Protocol
+  /**
+   * Handshake: agree on a protocol version and learn what the server offers
+   */
+  public async initialize(clientInfo: MCPImplementation = { name: 'aiml-marketing-agent', version: '1.0.0' }): Promise<MCPInitializeResult> {
+    this.session = await this.request('initialize', {
+      protocolVersion: CLIENT_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo
+    });
+    await this.sendNotification({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    return this.session!;
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+  /**
+   * What the server offered in initialize, or null before the handshake
+   */
+  public getServerCapabilities(): MCPServerCapabilities | null {
+    return this.session?.capabilities ?? null;
+  }
 
-      const mcpResponse: MCPResponse = await response.json();
+  public async listResources(): Promise<MCPResource[]> {
+    const { resources } = await this.request('resources/list');
+    return resources;
+  }
 
-      if (mcpResponse.error) {
-        throw new MCPError(mcpResponse.error);
-      }
+  public async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const { contents } = await this.request('resources/read', { uri });
+    return contents;
+  }
 
-      return mcpResponse.result;
+  /**
+   * Read a JSON resource such as `db://leads?limit=20` or `kg://graph` and parse it
+   */
+  public async readJsonResource<T = unknown>(uri: string): Promise<T> {
+    const [contents] = await this.readResource(uri);
+    return JSON.parse(contents.text);
+  }
 
-    } catch (error) {
-      if (attempt < this.retryAttempts && this.isRetryableError(error)) {
-        console.warn(`MCP request failed (attempt ${attempt}), retrying...`, error);
-        await this.delay(Math.pow(2, attempt) * 1000); // Exponential backoff
-        return await this.sendRequest(request, attempt + 1);
-      }
+  /**
+   * Get notifications/resources/updated for a resource, or for a collection URI such as
+   * `db://leads` for any record in it. Needs the websocket transport.
+   */
+  public async subscribeResource(uri: string): Promise<void> {
+    await this.request('resources/subscribe', { uri });
+    this.subscriptions.add(uri);
+  }
 
-      throw error;
-    }
+  public async unsubscribeResource(uri: string): Promise<void> {
+    this.subscriptions.delete(uri);
+    await this.request('resources/unsubscribe', { uri });
+  }
+
+  public async listTools(): Promise<MCPTool[]> {
+    const { tools } = await this.request('tools/list');
+    return tools;
   }
 
-  private isRetryableError(error: any): boolean {
-    // Network errors, timeouts, and 5xx server errors are retryable
-    return error.name === 'AbortError' ||
-           error.message?.includes('fetch') ||
-           (error.status && error.status >= 500);
+  public async callTool(name: string, args: Record<string, unknown> = {}): Promise<MCPToolResult> {
+    return await this.request('tools/call', { name, arguments: args });
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  public async listPrompts(): Promise<MCPPrompt[]> {
+    const { prompts } = await this.request('prompts/list');
+    return prompts;
+  }
+
+  public async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    return await this.request('prompts/get', { name, arguments: args });
   }
 
   // Marketing Database Operations
-  public async getLeads(filters?: any): Promise<any[]> {
-    return await this.request('marketing.getLeads', { filters });
+  public async getLeads(query: RecordQuery = {}): Promise<{ leads: Lead[]; total: number; offset: number; limit: number }> {
+    return await this.request('marketing.getLeads', query);
   }
 
-  public async createLead(leadData: any): Promise<any> {
+  public async createLead(leadData: Partial<Lead>): Promise<{ lead: Lead; success: boolean }> {
     return await this.request('marketing.createLead', { lead: leadData });
   }
 
-  public async updateLead(leadId: string, updates: any): Promise<any> {
+  public async updateLead(leadId: string, updates: Partial<Lead>): Promise<{ lead: Lead; success: boolean }> {
     return await this.request('marketing.updateLead', { leadId, updates });
   }
 
-  public async getCampaigns(filters?: any): Promise<any[]> {
-    return await this.request('marketing.getCampaigns', { filters });
+  public async getCampaigns(query: RecordQuery = {}): Promise<{ campaigns: Campaign[]; total: number; offset: number; limit: number }> {
+    return await this.request('marketing.getCampaigns', query);
   }
 
-  public async createCampaign(campaignData: any): Promise<any> {
+  public async createCampaign(campaignData: Partial<Campaign>): Promise<{ campaign: Campaign; success: boolean }> {
     return await this.request('marketing.createCampaign', { campaign: campaignData });
   }
 
-  public async updateCampaign(campaignId: string, updates: any): Promise<any> {
+  public async updateCampaign(campaignId: string, updates: Partial<Campaign>): Promise<{ campaign: Campaign; success: boolean }> {
     return await this.request('marketing.updateCampaign', { campaignId, updates });
   }
 
@@ -106,11 +249,16 @@ export class MCPClient {
     return await this.request('analytics.query', query);
   }
 
-  public async getCustomerProfiles(filters?: any): Promise<any[]> {
-    return await this.request('customers.getProfiles', { filters });
+  public async getCustomerProfiles(
+    query: RecordQuery = {}
+  ): Promise<{ profiles: CustomerProfile[]; total: number; offset: number; limit: number }> {
+    return await this.request('customers.getProfiles', query);
   }
 
-  public async updateCustomerProfile(customerId: string, updates: any): Promise<any> {
+  public async updateCustomerProfile(
+    customerId: string,
+    updates: Partial<CustomerProfile>
+  ): Promise<{ profile: CustomerProfile; success: boolean }> {
     return await this.request('customers.updateProfile', { customerId, updates });
   }
 
@@ -149,18 +297,104 @@ export class MCPClient {
     return await this.request('intelligence.getMarketData', query);
   }
 
+  // Agent Memory
+  public async queryMemory(agentId: string, query: MemoryQuery = {}): Promise<MemoryQueryResult> {
+    return await this.request('memory.query', { agentId, query });
+  }
+
+  public async getMemoryLineage(agentId: string, itemId: string, maxDepth?: number): Promise<MemoryLineage | null> {
+    return await this.request('memory.lineage', { agentId, itemId, maxDepth });
+  }
+
+  public async getMemoryUsage(agentId?: string): Promise<Record<string, AgentMemoryUsage>> {
+    return await this.request('memory.usage', { agentId });
+  }
+
+  public async exportMemorySnapshot(agentIds?: string[]): Promise<MemorySnapshot> {
+    const snapshot = await this.request('memory.export', { agentIds });
+    return MemorySnapshotCodec.parse(snapshot).snapshot;
+  }
+
+  public async importMemorySnapshot(
+    snapshot: MemorySnapshot | string,
+    options: Omit<MemorySnapshotImportOptions, 'migrations'> = {}
+  ): Promise<MemorySnapshotImportResult> {
+    return await this.request('memory.import', { snapshot, options });
+  }
+
+  // Knowledge Graph
+  public async getGraphNeighbors(node: string, filter?: EdgeFilter, agentId?: string): Promise<GraphNeighbor[]> {
+    return await this.request('kg.neighbors', { node, filter, agentId });
+  }
+
+  public async traverseGraph(start: string, options?: TraversalOptions, agentId?: string): Promise<TraversalHit[]> {
+    return await this.request('kg.traverse', { start, options, agentId });
+  }
+
+  public async findGraphPath(from: string, to: string, options?: ShortestPathOptions, agentId?: string): Promise<GraphPath | null> {
+    return await this.request('kg.shortestPath', { from, to, options, agentId });
+  }
+
+  public async matchGraph(patterns: TriplePattern | TriplePattern[], limit?: number, agentId?: string): Promise<TripleMatch[]> {
+    return await this.request('kg.match', { patterns, limit, agentId });
+  }
+
+  // Auth
+  /**
+   * Recent auth decisions, newest first; needs the auth:read scope
+   */
+  public async getAuthEvents(query: AuthEventQuery = {}): Promise<AuthEvent[]> {
+    const { events } = await this.request('auth.events', query);
+    return events;
+  }
+
   // Notification Operations
+  /**
+   * Send a message that expects no response. Notifications are not batched.
+   */
   public async sendNotification(notification: MCPNotification): Promise<void> {
-    await fetch(`${this.baseUrl}/mcp/notify`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify(notification)
+    await this.transport.send(notification);
+  }
+
+  /**
+   * Listen for notifications the server sends on its own, such as resource updates.
+   * Only the websocket transport receives them.
+   */
+  public onNotification(handler: (notification: MCPNotification) => void): string {
+    const handlerId = uuidv4();
+    this.notificationHandlers.set(handlerId, handler);
+    return handlerId;
+  }
+
+  public offNotification(handlerId: string): void {
+    this.notificationHandlers.delete(handlerId);
+  }
+
+  private handleNotification(notification: MCPNotification): void {
+    this.notificationHandlers.forEach((handler, handlerId) => {
+      try {
+        handler(notification);
+      } catch (error) {
+        console.error(`MCP notification handler ${handlerId} failed:`, error);
+      }
     });
   }
 
+  private resubscribe(): void {
+    this.subscriptions.forEach(uri => {
+      this.request('resources/subscribe', { uri }).catch(error => {
+        console.error(`Failed to resubscribe to ${uri}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Close the connection, if the transport keeps one
+   */
+  public async close(): Promise<void> {
+    await this.transport.close();
+  }
+
   // Health Check
   public async healthCheck(): Promise<boolean> {
     try {
@@ -0,0 +1,100 @@
+import { MCPNotification, MCPRequest, MCPResponse } from '../types';
+
+export type MCPTransportKind = 'http' | 'websocket';
+
+/** A request, a notification, or a batch of them */
+export type MCPOutgoing = MCPRequest | MCPNotification | Array<MCPRequest | MCPNotification>;
+
+/** What comes back for an outgoing message: a response, one per call in a batch, or null for notifications */
+export type MCPIncoming = MCPResponse | MCPResponse[] | null;
+
+/** Callbacks a transport uses to hand the client what the server sent unprompted */
+export interface MCPTransportEvents {
+  notification(notification: MCPNotification): void;
+  /**
+   * The connection dropped and was opened again. The server forgets per-connection state
+   * such as subscriptions when a connection closes.
+   */
+  reconnected(): void;
+}
+
+/**
+ * Carries JSON-RPC messages between MCPClient and the server
+ */
+export interface MCPTransport {
+  /**
+   * Send a message or batch. Resolves to the response, or the array of responses for a batch,
+   * and to null when nothing was due back (notifications only).
+   */
+  send(message: MCPOutgoing): Promise<MCPIncoming>;
+  close(): Promise<void>;
+}
+
+/**
+ * One POST to `<baseUrl>/mcp` per message or batch. The server can't reach the client between
+ * requests, so there are no notifications.
+ */
+export class HttpTransport implements MCPTransport {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly timeout: number,
+    private readonly retryAttempts: number
+  ) {}
+
+  public async send(message: MCPOutgoing): Promise<MCPIncoming> {
+    return await this.post(message);
+  }
+
+  public async close(): Promise<void> {}
+
+  /**
+   * POST to the server, retrying transient failures
+   */
+  private async post(body: MCPOutgoing, attempt: number = 1): Promise<MCPIncoming> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      const response = await fetch(`${this.baseUrl}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+          'X-MCP-Version': '1.0'
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return response.status === 204 ? null : await response.json();
+
+    } catch (error) {
+      if (attempt < this.retryAttempts && this.isRetryableError(error)) {
+        console.warn(`MCP request failed (attempt ${attempt}), retrying...`, error);
+        await this.delay(Math.pow(2, attempt) * 1000); // Exponential backoff
+        return await this.post(body, attempt + 1);
+      }
+
+      throw error;
+    }
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    const { name, message, status } = (error ?? {}) as { name?: string; message?: string; status?: number };
+    // Network errors, timeouts, and 5xx server errors are retryable
+    return name === 'AbortError' ||
+           !!message?.includes('fetch') ||
+           (status !== undefined && status >= 500);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
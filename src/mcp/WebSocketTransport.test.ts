@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketTransport } from './WebSocketTransport';
+import { MCPClient } from './MCPClient';
+import { MCPNotification } from '../types';
+import { FakeSocket, fakeSocketFactory } from '../test/fakeSocket';
+
+/** Let the socket open and queued sends go out */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('WebSocketTransport', () => {
+  let sockets: FakeSocket[];
+  let notifications: MCPNotification[];
+  let reconnected: number;
+  let transport: WebSocketTransport;
+
+  beforeEach(() => {
+    const factory = fakeSocketFactory();
+    sockets = factory.sockets;
+    notifications = [];
+    reconnected = 0;
+    transport = new WebSocketTransport('ws://mcp.test', 1000, 2, {
+      notification: notification => notifications.push(notification),
+      reconnected: () => reconnected++
+    }, factory.createSocket);
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('matches responses arriving out of order to their calls', async () => {
+    const first = transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    const second = transport.send({ jsonrpc: '2.0', id: 2, method: 'ping' });
+    await flush();
+
+    sockets[0].receive({ jsonrpc: '2.0', id: 2, result: 'second' });
+    sockets[0].receive({ jsonrpc: '2.0', id: 1, result: 'first' });
+
+    await expect(first).resolves.toMatchObject({ result: 'first' });
+    await expect(second).resolves.toMatchObject({ result: 'second' });
+    expect(sockets).toHaveLength(1);
+  });
+
+  it('settles a batch once every call in it has a response', async () => {
+    const batch = transport.send([
+      { jsonrpc: '2.0', id: 'a', method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'b', method: 'ping' }
+    ]);
+    await flush();
+
+    sockets[0].receive([{ jsonrpc: '2.0', id: 'b', result: 2 }, { jsonrpc: '2.0', id: 'a', result: 1 }]);
+
+    await expect(batch).resolves.toEqual([
+      { jsonrpc: '2.0', id: 'b', result: 2 },
+      { jsonrpc: '2.0', id: 'a', result: 1 }
+    ]);
+  });
+
+  it('answers the waiting exchange with an error the server could not tie to a call', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const pending = transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    await flush();
+
+    sockets[0].receive({ jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Rate limit exceeded' } });
+
+    await expect(pending).resolves.toEqual({ jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Rate limit exceeded' } });
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('hands notifications to the client and refuses server requests', async () => {
+    await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    sockets[0].receive({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'db://leads/L-1' } });
+    sockets[0].receive({ jsonrpc: '2.0', id: 7, method: 'sampling/createMessage' });
+    sockets[0].receive({ type: 'connection_established' });
+
+    expect(notifications).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'db://leads/L-1' } }
+    ]);
+    expect(sockets[0].sent[sockets[0].sent.length - 1]).toMatchObject({ id: 7, error: { code: -32601 } });
+  });
+
+  it('fails calls in flight when the connection drops, then reconnects', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const pending = transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    await flush();
+
+    vi.useFakeTimers();
+    sockets[0].close();
+    await expect(pending).rejects.toThrow('closed before the server responded');
+
+    // First retry after a second, then the new socket opens
+    await vi.advanceTimersByTimeAsync(1001);
+    expect(sockets).toHaveLength(2);
+    expect(reconnected).toBe(1);
+  });
+});
+
+describe('MCPClient over WebSocket', () => {
+  it('rejects calls with the error the server answered a rejected message with', async () => {
+    const { sockets, createSocket } = fakeSocketFactory();
+    const client = new MCPClient('ws://mcp.test', 'test-key', { createSocket });
+
+    const pending = client.request('system.ping');
+    await flush();
+    await flush();
+    sockets[0].receive({ jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Rate limit exceeded' } });
+
+    await expect(pending).rejects.toMatchObject({ name: 'MCPError', code: -32000, message: 'Rate limit exceeded' });
+    await client.close();
+  });
+});
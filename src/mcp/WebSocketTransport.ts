@@ -0,0 +1,234 @@
+import { MCPNotification, MCPRequest, MCPResponse } from '../types';
+import { MCPIncoming, MCPOutgoing, MCPTransport, MCPTransportEvents } from './MCPTransport';
+
+/** Opens a socket; ws's WebSocket fits where there is no global one (Node before 22) */
+export type WebSocketFactory = (url: string) => WebSocket;
+
+/** A notification from the server, or a request when it carries an id */
+type ServerCall = MCPNotification & { id?: string | number };
+
+/** Calls sent together, settled once every one of them has a response */
+interface PendingExchange {
+  ids: Array<string | number>;
+  waiting: Set<string | number>;
+  responses: MCPResponse[];
+  batch: boolean;
+  resolve: (response: MCPIncoming) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * JSON-RPC over one long-lived WebSocket. Responses can arrive in any order and are matched to
+ * their calls by id. The socket opens on first use; if it drops, calls in flight fail (they may
+ * or may not have run) and the transport reconnects with exponential backoff.
+ */
+export class WebSocketTransport implements MCPTransport {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private pending: Map<string | number, PendingExchange> = new Map();
+  private reconnectAttempts: number = 0;
+  private reconnectDelay: number = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set by close(), so the drop that follows isn't treated as a lost connection */
+  private closing: boolean = false;
+  private hasConnected: boolean = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly timeout: number,
+    private readonly maxReconnectAttempts: number,
+    private readonly events: MCPTransportEvents,
+    private readonly createSocket: WebSocketFactory = url => new WebSocket(url)
+  ) {}
+
+  public async send(message: MCPOutgoing): Promise<MCPIncoming> {
+    const socket = await this.connect();
+    const ids = (Array.isArray(message) ? message : [message])
+      .filter((item): item is MCPRequest => 'id' in item && item.id !== undefined)
+      .map(item => item.id);
+
+    if (ids.length === 0) {
+      socket.send(JSON.stringify(message));
+      return null;
+    }
+
+    return await new Promise((resolve, reject) => {
+      const exchange: PendingExchange = {
+        ids,
+        waiting: new Set(ids),
+        responses: [],
+        batch: Array.isArray(message),
+        resolve,
+        reject,
+        timer: setTimeout(
+          () => this.settle(exchange, new Error(`MCP request timed out after ${this.timeout}ms`)),
+          this.timeout
+        )
+      };
+      ids.forEach(id => this.pending.set(id, exchange));
+
+      try {
+        socket.send(JSON.stringify(message));
+      } catch (error) {
+        this.settle(exchange, error);
+      }
+    });
+  }
+
+  public async close(): Promise<void> {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close(1000, 'Client disconnect');
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket && this.socket.readyState === this.socket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private open(): Promise<WebSocket> {
+    this.closing = false;
+
+    return new Promise((resolve, reject) => {
+      const socket = this.createSocket(this.url);
+
+      socket.onopen = () => {
+        const reconnected = this.hasConnected;
+        this.socket = socket;
+        this.hasConnected = true;
+        this.reconnectAttempts = 0;
+        resolve(socket);
+        if (reconnected) this.events.reconnected();
+      };
+
+      socket.onmessage = (event) => this.receive(String(event.data));
+
+      // Only matters while connecting; a drop after that is handled by onclose
+      socket.onerror = () => reject(new Error(`MCP WebSocket connection to ${this.url} failed`));
+
+      socket.onclose = () => this.handleClose(socket);
+    });
+  }
+
+  private handleClose(socket: WebSocket): void {
+    if (this.socket === socket) {
+      this.socket = null;
+    }
+
+    new Set(this.pending.values()).forEach(exchange =>
+      this.settle(exchange, new Error('MCP WebSocket connection closed before the server responded'))
+    );
+
+    // A first connection that never opened is reported to the caller instead
+    if (!this.closing && this.hasConnected && this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectAttempts++;
+    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+
+    console.log(`Scheduling MCP reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(error => {
+        console.error('MCP reconnection failed:', error);
+      });
+    }, delay);
+  }
+
+  private receive(data: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      console.error('Failed to parse MCP WebSocket message:', error);
+      return;
+    }
+
+    // The socket may also carry the server's own agent messages, which aren't JSON-RPC
+    const messages = (Array.isArray(parsed) ? parsed : [parsed]).filter(
+      (message): message is MCPResponse | ServerCall => (message as { jsonrpc?: unknown } | null)?.jsonrpc === '2.0'
+    );
+
+    messages.forEach(message => {
+      if (this.isServerCall(message)) {
+        this.receiveFromServer(message);
+        return;
+      }
+
+      if (message.id === null) {
+        this.receiveUnmatched(message);
+        return;
+      }
+
+      const exchange = this.pending.get(message.id);
+      if (!exchange) return; // A late response to a timed-out call
+
+      this.pending.delete(message.id);
+      exchange.waiting.delete(message.id);
+      exchange.responses.push(message);
+      if (exchange.waiting.size === 0) this.settle(exchange);
+    });
+  }
+
+  /**
+   * An error the server couldn't tie to a call, e.g. a rate limit or a message it couldn't
+   * parse. It answers the oldest exchange still waiting, as the one response to an HTTP post
+   * would; the client fails that exchange's calls with the error.
+   */
+  private receiveUnmatched(message: MCPResponse): void {
+    const [exchange] = this.pending.values();
+    if (!exchange) return;
+
+    exchange.responses = [message];
+    this.settle(exchange);
+  }
+
+  private isServerCall(message: MCPResponse | ServerCall): message is ServerCall {
+    return typeof (message as ServerCall).method === 'string';
+  }
+
+  /**
+   * Notifications go to the client. The client serves no methods, so requests are refused.
+   */
+  private receiveFromServer(message: ServerCall): void {
+    if (message.id === undefined) {
+      this.events.notification(message);
+      return;
+    }
+
+    this.socket?.send(JSON.stringify({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32601, message: `Method '${message.method}' not found` }
+    }));
+  }
+
+  private settle(exchange: PendingExchange, error?: unknown): void {
+    clearTimeout(exchange.timer);
+    exchange.ids.forEach(id => {
+      if (this.pending.get(id) === exchange) this.pending.delete(id);
+    });
+
+    if (error) {
+      exchange.reject(error);
+    } else {
+      exchange.resolve(exchange.batch ? exchange.responses : exchange.responses[0]);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMemoryStore } from './FileMemoryStore';
+import { MemoryManager } from './MemoryManager';
+
+describe('FileMemoryStore compaction', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'memory-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const store = (id: number) => ({ kind: 'store' as const, tier: 'short' as const, item: { id: `A-${id}`, type: 'recent_action', data: { id: `A-${id}` } } });
+
+  it('replaces the log with one snapshot segment', async () => {
+    const memory = new FileMemoryStore(dir);
+    await memory.append('EN-TEST', store(1));
+    await memory.compact('EN-TEST', new MemoryManager('EN-TEST').getMemory());
+    await memory.append('EN-TEST', store(2));
+    await memory.flush();
+
+    const entries = await new FileMemoryStore(dir).load('EN-TEST');
+    expect(entries.map(entry => entry.kind)).toEqual(['snapshot', 'store']);
+    expect(await readdir(join(dir, 'EN-TEST'))).toEqual(['000002.jsonl']);
+  });
+
+  it('keeps buffered entries and rejects when the snapshot cannot be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const memory = new FileMemoryStore(dir);
+    await memory.append('EN-TEST', store(1));
+    // A directory where the snapshot's temporary file should go makes the write fail
+    await mkdir(join(dir, 'EN-TEST', '000002.jsonl.tmp'));
+
+    await expect(memory.compact('EN-TEST', new MemoryManager('EN-TEST').getMemory())).rejects.toThrow();
+    await memory.append('EN-TEST', store(2));
+    await memory.flush();
+
+    const entries = await new FileMemoryStore(dir).load('EN-TEST');
+    expect(entries.map(entry => entry.kind === 'store' && entry.item.id)).toEqual(['A-1', 'A-2']);
+  });
+});
@@ -0,0 +1,176 @@
+import { appendFile, mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { AgentMemory } from '../types';
+import { MemoryLogEntry, MemoryStore, reviveDates } from './MemoryStore';
+
+export interface FileMemoryStoreOptions {
+  /** Start a new segment once the active one grows past this size */
+  maxSegmentBytes?: number;
+  /** Ask for compaction once this much has been logged since the last snapshot */
+  compactionBytes?: number;
+}
+
+interface AgentLog {
+  dir: string;
+  segments: number[];
+  activeBytes: number;
+  bytesSinceSnapshot: number;
+  pending: string[];
+  writing: Promise<void>;
+}
+
+/**
+ * Embedded file store: one directory per agent holding numbered append-only JSONL segments.
+ * Compaction writes a snapshot into a fresh segment and deletes the ones before it.
+ *
+ * Appends are write-behind; call flush() before exiting to make sure they reach disk.
+ */
+export class FileMemoryStore implements MemoryStore {
+  private static readonly SEGMENT_PATTERN = /^(\d+)\.jsonl$/;
+
+  private logs: Map<string, AgentLog> = new Map();
+  private maxSegmentBytes: number;
+  private compactionBytes: number;
+
+  constructor(private readonly baseDir: string, options: FileMemoryStoreOptions = {}) {
+    this.maxSegmentBytes = options.maxSegmentBytes ?? 8 * 1024 * 1024;
+    this.compactionBytes = options.compactionBytes ?? 32 * 1024 * 1024;
+  }
+
+  public async load(agentKey: string): Promise<MemoryLogEntry[]> {
+    const log = await this.open(agentKey);
+    await log.writing;
+
+    const entries: MemoryLogEntry[] = [];
+    for (const segment of log.segments) {
+      const content = await readFile(this.segmentPath(log, segment), 'utf-8').catch(() => '');
+
+      content.split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          entries.push(JSON.parse(line, reviveDates));
+        } catch {
+          // A crash mid-write can leave a truncated last line; everything before it is still good
+          console.warn(`Skipping unreadable memory log line ${index + 1} in ${this.segmentPath(log, segment)}`);
+        }
+      });
+    }
+
+    let lastSnapshot = -1;
+    entries.forEach((entry, index) => {
+      if (entry.kind === 'snapshot') lastSnapshot = index;
+    });
+
+    return lastSnapshot > 0 ? entries.slice(lastSnapshot) : entries;
+  }
+
+  public async append(agentKey: string, entry: MemoryLogEntry): Promise<void> {
+    const log = await this.open(agentKey);
+
+    // Serialize now so later in-place mutations of live memory don't leak into the log
+    const line = JSON.stringify(entry) + '\n';
+    log.pending.push(line);
+    log.bytesSinceSnapshot += Buffer.byteLength(line);
+    log.writing = log.writing.then(() => this.writePending(log));
+  }
+
+  public async compact(agentKey: string, memory: AgentMemory): Promise<void> {
+    const log = await this.open(agentKey);
+    const snapshot = JSON.stringify({ kind: 'snapshot', memory, timestamp: new Date() }) + '\n';
+    const coveredBytes = log.bytesSinceSnapshot;
+
+    // Entries buffered before this call are flushed by the appends queued ahead of it, into the
+    // segments the snapshot replaces; if the snapshot can't be written they are still on disk
+    const compaction = log.writing.then(async () => {
+      const previous = [...log.segments];
+      const next = previous[previous.length - 1] + 1;
+      const target = this.segmentPath(log, next);
+
+      // Write then rename so a crash never leaves a half-written snapshot as the latest segment
+      await writeFile(`${target}.tmp`, snapshot, 'utf-8');
+      await rename(`${target}.tmp`, target);
+
+      log.segments = [next];
+      log.activeBytes = Buffer.byteLength(snapshot);
+      log.bytesSinceSnapshot = Math.max(0, log.bytesSinceSnapshot - coveredBytes);
+      await Promise.all(previous.map(segment => unlink(this.segmentPath(log, segment)).catch(() => undefined)));
+    });
+
+    // Keep the write queue going for later appends, but let the caller see the failure
+    log.writing = compaction.catch(() => undefined);
+    try {
+      await compaction;
+    } catch (error) {
+      console.error(`Memory log compaction failed for ${agentKey}:`, error);
+      throw error;
+    }
+  }
+
+  public shouldCompact(agentKey: string): boolean {
+    const log = this.logs.get(agentKey);
+    return !!log && log.bytesSinceSnapshot > this.compactionBytes;
+  }
+
+  public async flush(): Promise<void> {
+    await Promise.all(Array.from(this.logs.values()).map(log => log.writing));
+  }
+
+  private async open(agentKey: string): Promise<AgentLog> {
+    const cached = this.logs.get(agentKey);
+    if (cached) return cached;
+
+    const dir = join(this.baseDir, agentKey.replace(/[^a-zA-Z0-9_.-]/g, '_'));
+    await mkdir(dir, { recursive: true });
+
+    const segments = (await readdir(dir))
+      .map(file => FileMemoryStore.SEGMENT_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+
+    const sizes = await Promise.all(segments.map(segment => stat(join(dir, this.segmentName(segment))).then(info => info.size)));
+    const log: AgentLog = {
+      dir,
+      segments: segments.length > 0 ? segments : [1],
+      activeBytes: sizes[sizes.length - 1] || 0,
+      // The first segment normally starts with the last snapshot
+      bytesSinceSnapshot: sizes.slice(1).reduce((sum, size) => sum + size, 0),
+      pending: [],
+      writing: Promise.resolve()
+    };
+
+    // Another caller may have opened the log while we were reading the directory
+    const existing = this.logs.get(agentKey);
+    if (existing) return existing;
+
+    this.logs.set(agentKey, log);
+    return log;
+  }
+
+  private async writePending(log: AgentLog): Promise<void> {
+    if (log.pending.length === 0) return;
+
+    const data = log.pending.join('');
+    log.pending = [];
+
+    if (log.activeBytes > this.maxSegmentBytes) {
+      log.segments.push(log.segments[log.segments.length - 1] + 1);
+      log.activeBytes = 0;
+    }
+
+    try {
+      await appendFile(this.segmentPath(log, log.segments[log.segments.length - 1]), data, 'utf-8');
+      log.activeBytes += Buffer.byteLength(data);
+    } catch (error) {
+      console.error(`Failed to append to memory log in ${log.dir}:`, error);
+    }
+  }
+
+  private segmentPath(log: AgentLog, segment: number): string {
+    return join(log.dir, this.segmentName(segment));
+  }
+
+  private segmentName(segment: number): string {
+    return `${String(segment).padStart(6, '0')}.jsonl`;
+  }
+}
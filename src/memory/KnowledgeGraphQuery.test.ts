@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeGraphQuery } from './KnowledgeGraphQuery';
+import { KnowledgeNode, Relationship, RelationshipType } from '../types';
+
+const node = (id: string, concept: string): KnowledgeNode => ({
+  id,
+  concept,
+  description: concept,
+  relationships: [],
+  confidence: 1,
+  lastUpdated: new Date(Date.UTC(2024, 2, 1))
+});
+
+const edge = (id: string, source: string, target: string, strength: number, predicate?: string): Relationship => ({
+  id,
+  source,
+  target,
+  type: predicate ? RelationshipType.RELATED_TO : RelationshipType.SIMILAR_TO,
+  strength,
+  metadata: predicate ? { predicate } : {}
+});
+
+// SMB reaches SMS directly (0.4) or through Email (0.9 × 0.5 = 0.45)
+const graph = new KnowledgeGraphQuery({
+  nodes: [
+    node('N-SMB', 'SMB'),
+    node('N-ENT', 'Enterprise'),
+    node('N-EMAIL', 'Email'),
+    node('N-SMS', 'SMS'),
+    node('N-EU', 'EU'),
+    node('N-LONE', 'Isolated')
+  ],
+  relationships: [
+    edge('R-1', 'N-SMB', 'N-EMAIL', 0.9, 'preferred_channel'),
+    edge('R-2', 'N-SMB', 'N-SMS', 0.4, 'preferred_channel'),
+    edge('R-3', 'N-ENT', 'N-EMAIL', 0.8, 'preferred_channel'),
+    edge('R-4', 'N-ENT', 'N-EU', 0.7, 'located_in'),
+    edge('R-5', 'N-EMAIL', 'N-SMS', 0.5)
+  ]
+});
+
+const ids = (nodes: Array<{ node: KnowledgeNode }>) => nodes.map(hit => hit.node.id);
+
+describe('KnowledgeGraphQuery traversal', () => {
+  it('reports each node once, at its smallest depth', () => {
+    const hits = graph.traverse('smb', { maxHops: 2 });
+
+    expect(hits.map(hit => [hit.node.id, hit.depth])).toEqual([['N-EMAIL', 1], ['N-SMS', 1], ['N-ENT', 2]]);
+    expect(hits[2].path.map(relationship => relationship.id)).toEqual(['R-1', 'R-3']);
+  });
+
+  it('follows only outgoing edges when asked, except symmetric ones', () => {
+    expect(ids(graph.traverse('N-SMS', { direction: 'out', maxHops: 3 }))).toEqual(['N-EMAIL']);
+    expect(ids(graph.traverse('N-SMB', { direction: 'out', maxHops: 3 }))).toEqual(['N-EMAIL', 'N-SMS']);
+  });
+
+  it('filters edges by predicate and strength and stops at the limit', () => {
+    expect(ids(graph.traverse('N-ENT', { predicates: ['located_in'] }))).toEqual(['N-EU']);
+    expect(ids(graph.traverse('N-SMB', { minStrength: 0.5, maxHops: 1 }))).toEqual(['N-EMAIL']);
+    expect(graph.traverse('N-SMB', { maxHops: 3, limit: 2 })).toHaveLength(2);
+  });
+
+  it('finds nothing from an unknown node', () => {
+    expect(graph.traverse('N-404')).toEqual([]);
+  });
+});
+
+describe('KnowledgeGraphQuery shortest paths', () => {
+  it('prefers the strongest path by default', () => {
+    const path = graph.shortestPath('N-SMB', 'N-SMS');
+
+    expect(path?.nodes.map(step => step.id)).toEqual(['N-SMB', 'N-EMAIL', 'N-SMS']);
+    expect(path?.strength).toBeCloseTo(0.45);
+    expect(path?.cost).toBeCloseTo(-Math.log(0.45));
+  });
+
+  it('takes the fewest edges under the hops weight', () => {
+    const path = graph.shortestPath('N-SMB', 'N-SMS', { weight: 'hops' });
+
+    expect(path?.relationships.map(relationship => relationship.id)).toEqual(['R-2']);
+    expect(path?.cost).toBe(1);
+  });
+
+  it('is null when the nodes are not connected or unknown', () => {
+    expect(graph.shortestPath('N-SMB', 'N-LONE')).toBeNull();
+    expect(graph.shortestPath('N-SMB', 'N-404')).toBeNull();
+    expect(graph.shortestPath('N-SMB', 'N-EU', { direction: 'out' })).toBeNull();
+  });
+});
+
+describe('KnowledgeGraphQuery triple matching', () => {
+  it('joins patterns on shared variables', () => {
+    const matches = graph.match([
+      { subject: '?segment', predicate: 'preferred_channel', object: 'Email' },
+      { subject: '?segment', predicate: 'located_in', object: 'EU' }
+    ]);
+
+    expect(matches.map(match => match.bindings)).toEqual([{ segment: 'N-ENT' }]);
+    expect(matches[0].triples.map(relationship => relationship.id)).toEqual(['R-3', 'R-4']);
+  });
+
+  it('binds predicate variables and matches symmetric edges both ways', () => {
+    expect(graph.match({ subject: 'N-ENT', predicate: '?verb', object: 'N-EU' }).map(match => match.bindings)).toEqual([{ verb: 'located_in' }]);
+    expect(graph.match({ subject: 'SMS', predicate: 'similar_to', object: '?channel' }).map(match => match.bindings)).toEqual([{ channel: 'N-EMAIL' }]);
+  });
+
+  it('matches nothing for an unknown node and stops at the limit', () => {
+    expect(graph.match({ subject: 'N-404', object: '?anything' })).toEqual([]);
+    expect(graph.match({ predicate: 'preferred_channel' }, 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,324 @@
+import { KnowledgeGraph, KnowledgeNode, Relationship, RelationshipType } from '../types';
+
+export type EdgeDirection = 'out' | 'in' | 'both';
+
+/**
+ * Which edges a graph operation may follow. Predicates are the dataset's verbs (e.g.
+ * `preferred_channel`); types are the coarser RelationshipType each predicate maps to.
+ */
+export interface EdgeFilter {
+  predicates?: string[];
+  types?: RelationshipType[];
+  direction?: EdgeDirection;
+  minStrength?: number;
+}
+
+export interface GraphNeighbor {
+  node: KnowledgeNode;
+  relationship: Relationship;
+  /** 'out' when the edge points from the queried node to this one */
+  direction: 'out' | 'in';
+}
+
+export interface TraversalOptions extends EdgeFilter {
+  maxHops?: number;
+  limit?: number;
+}
+
+export interface TraversalHit {
+  node: KnowledgeNode;
+  depth: number;
+  /** Edges from the start node to this one, in order */
+  path: Relationship[];
+}
+
+export interface ShortestPathOptions extends EdgeFilter {
+  /** `strength` (default) prefers the path whose edge strengths have the highest product; `hops` the fewest edges */
+  weight?: 'strength' | 'hops';
+}
+
+export interface GraphPath {
+  nodes: KnowledgeNode[];
+  relationships: Relationship[];
+  cost: number;
+  /** Product of the edge strengths along the path */
+  strength: number;
+}
+
+/**
+ * One (subject, predicate, object) pattern. Each part is a node id or concept (a predicate
+ * for the middle part), a `?name` variable, or omitted to match anything.
+ */
+export interface TriplePattern {
+  subject?: string;
+  predicate?: string;
+  object?: string;
+}
+
+export interface TripleMatch {
+  /** Variable name (without the `?`) to node id, or to the predicate for predicate variables */
+  bindings: Record<string, string>;
+  /** The edge that matched each pattern, in pattern order */
+  triples: Relationship[];
+}
+
+interface Adjacent {
+  relationship: Relationship;
+  other: string;
+  direction: 'out' | 'in';
+}
+
+/** Predicates whose direction carries no meaning, so A→B also answers B→A */
+const SYMMETRIC_PREDICATES = new Set<string>([
+  RelationshipType.SIMILAR_TO,
+  RelationshipType.RELATED_TO,
+  RelationshipType.OPPOSITE_OF
+]);
+
+/**
+ * Read-only graph operations over a set of knowledge nodes and relationships: neighbours,
+ * k-hop traversal, weighted shortest paths and triple pattern matching. Build a new one
+ * when the graph changes; adjacency is computed once up front.
+ */
+export class KnowledgeGraphQuery {
+  public static readonly DEFAULT_MATCH_LIMIT = 100;
+
+  private nodesById: Map<string, KnowledgeNode> = new Map();
+  private nodesByConcept: Map<string, KnowledgeNode> = new Map();
+  private adjacency: Map<string, Adjacent[]> = new Map();
+
+  constructor(private readonly graph: KnowledgeGraph) {
+    graph.nodes.forEach(node => {
+      this.nodesById.set(node.id, node);
+      const concept = node.concept.trim().toLowerCase();
+      if (!this.nodesByConcept.has(concept)) this.nodesByConcept.set(concept, node);
+    });
+
+    graph.relationships.forEach(relationship => {
+      this.link(relationship.source, { relationship, other: relationship.target, direction: 'out' });
+      this.link(relationship.target, { relationship, other: relationship.source, direction: 'in' });
+    });
+  }
+
+  /**
+   * The dataset predicate behind an edge, falling back to its relationship type
+   */
+  public static predicateOf(relationship: Relationship): string {
+    return relationship.metadata?.predicate || relationship.type;
+  }
+
+  public static isSymmetric(relationship: Relationship): boolean {
+    return SYMMETRIC_PREDICATES.has(this.predicateOf(relationship));
+  }
+
+  /**
+   * A node by id or, case-insensitively, by concept
+   */
+  public node(ref: string): KnowledgeNode | undefined {
+    return this.nodesById.get(ref) || this.nodesByConcept.get(ref.trim().toLowerCase());
+  }
+
+  public neighbors(ref: string, filter: EdgeFilter = {}): GraphNeighbor[] {
+    const start = this.node(ref);
+    if (!start) return [];
+
+    return this.edgesFrom(start.id, filter).flatMap(({ relationship, other, direction }) => {
+      const node = this.nodesById.get(other);
+      return node ? [{ node, relationship, direction }] : [];
+    });
+  }
+
+  /**
+   * Breadth-first walk out to `maxHops` edges from the start node. Each node is reported
+   * once, at its smallest depth, with the path that reached it first.
+   */
+  public traverse(ref: string, options: TraversalOptions = {}): TraversalHit[] {
+    const { maxHops = 2, limit = Infinity, ...filter } = options;
+    const start = this.node(ref);
+    if (!start) return [];
+
+    const hits: TraversalHit[] = [];
+    const seen = new Set([start.id]);
+    let frontier: TraversalHit[] = [{ node: start, depth: 0, path: [] }];
+
+    for (let depth = 1; depth <= maxHops && frontier.length > 0; depth++) {
+      const next: TraversalHit[] = [];
+      for (const hit of frontier) {
+        for (const { relationship, other } of this.edgesFrom(hit.node.id, filter)) {
+          const node = this.nodesById.get(other);
+          if (!node || seen.has(other)) continue;
+          seen.add(other);
+
+          const reached = { node, depth, path: [...hit.path, relationship] };
+          hits.push(reached);
+          next.push(reached);
+          if (hits.length >= limit) return hits;
+        }
+      }
+      frontier = next;
+    }
+
+    return hits;
+  }
+
+  /**
+   * Cheapest path between two nodes (Dijkstra), or null when they are not connected.
+   * Under the strength weight an edge costs -ln(strength), so the cheapest path is the one
+   * whose strengths multiply to the most.
+   */
+  public shortestPath(fromRef: string, toRef: string, options: ShortestPathOptions = {}): GraphPath | null {
+    const { weight = 'strength', ...filter } = options;
+    const from = this.node(fromRef);
+    const to = this.node(toRef);
+    if (!from || !to) return null;
+
+    const cost = new Map<string, number>([[from.id, 0]]);
+    const via = new Map<string, { previous: string; relationship: Relationship }>();
+    const settled = new Set<string>();
+
+    while (!settled.has(to.id)) {
+      let current: string | undefined;
+      cost.forEach((value, id) => {
+        if (!settled.has(id) && (current === undefined || value < cost.get(current)!)) current = id;
+      });
+      if (current === undefined) return null;
+      settled.add(current);
+
+      for (const { relationship, other } of this.edgesFrom(current, filter)) {
+        if (settled.has(other) || !this.nodesById.has(other)) continue;
+        const step = weight === 'hops' ? 1 : this.edgeCost(relationship);
+        if (!Number.isFinite(step)) continue;
+
+        const candidate = cost.get(current)! + step;
+        if (candidate < (cost.get(other) ?? Infinity)) {
+          cost.set(other, candidate);
+          via.set(other, { previous: current, relationship });
+        }
+      }
+    }
+
+    const nodes: KnowledgeNode[] = [to];
+    const relationships: Relationship[] = [];
+    for (let id = to.id; id !== from.id; id = via.get(id)!.previous) {
+      relationships.unshift(via.get(id)!.relationship);
+      nodes.unshift(this.nodesById.get(via.get(id)!.previous)!);
+    }
+
+    return {
+      nodes,
+      relationships,
+      cost: cost.get(to.id)!,
+      strength: relationships.reduce((product, relationship) => product * relationship.strength, 1)
+    };
+  }
+
+  /**
+   * Every way to bind the patterns' variables so that each pattern matches an edge, e.g.
+   * `[{ subject: '?segment', predicate: 'preferred_channel', object: 'Email' },
+   *   { subject: '?segment', predicate: 'located_in', object: 'EU' }]`.
+   * A variable used in several patterns must bind to the same value in all of them.
+   */
+  public match(patterns: TriplePattern | TriplePattern[], limit: number = KnowledgeGraphQuery.DEFAULT_MATCH_LIMIT): TripleMatch[] {
+    let matches: TripleMatch[] = [{ bindings: {}, triples: [] }];
+
+    for (const pattern of Array.isArray(patterns) ? patterns : [patterns]) {
+      const extended: TripleMatch[] = [];
+
+      for (const partial of matches) {
+        const subject = this.resolveTerm(pattern.subject, partial.bindings, true);
+        const predicate = this.resolveTerm(pattern.predicate, partial.bindings, false);
+        const object = this.resolveTerm(pattern.object, partial.bindings, true);
+        if (subject === null || predicate === null || object === null) continue;
+
+        for (const [relationship, source, target] of this.candidateTriples(subject.value, object.value)) {
+          const label = KnowledgeGraphQuery.predicateOf(relationship);
+          if (subject.value !== undefined && subject.value !== source) continue;
+          if (object.value !== undefined && object.value !== target) continue;
+          if (predicate.value !== undefined && predicate.value !== label) continue;
+
+          const bindings = { ...partial.bindings };
+          if (subject.variable) bindings[subject.variable] = source;
+          if (predicate.variable) bindings[predicate.variable] = label;
+          if (object.variable) {
+            // ?x knows ?x: the same variable on both ends must bind to one node
+            if (object.variable === subject.variable && source !== target) continue;
+            bindings[object.variable] = target;
+          }
+
+          extended.push({ bindings, triples: [...partial.triples, relationship] });
+        }
+      }
+
+      matches = extended;
+      if (matches.length === 0) break;
+    }
+
+    return matches.slice(0, limit);
+  }
+
+  /**
+   * A pattern term as a fixed value and/or the variable it binds. Null when a fixed node
+   * reference names no node, so the pattern cannot match.
+   */
+  private resolveTerm(
+    term: string | undefined,
+    bindings: Record<string, string>,
+    isNode: boolean
+  ): { value?: string; variable?: string } | null {
+    if (term === undefined || term === '' || term === '?') return {};
+    if (term.startsWith('?')) {
+      const variable = term.slice(1);
+      return variable in bindings ? { value: bindings[variable] } : { variable };
+    }
+    if (!isNode) return { value: term };
+
+    const node = this.node(term);
+    return node ? { value: node.id } : null;
+  }
+
+  /**
+   * Edges as (relationship, subject, object) triples touching the bound ends, with symmetric
+   * edges listed in both orientations
+   */
+  private candidateTriples(subject?: string, object?: string): Array<[Relationship, string, string]> {
+    const anchor = subject ?? object;
+    const side = subject !== undefined ? 'out' : 'in';
+    const edges = anchor !== undefined
+      ? (this.adjacency.get(anchor) || [])
+          .filter(edge => edge.direction === side || KnowledgeGraphQuery.isSymmetric(edge.relationship))
+          .map(edge => edge.relationship)
+      : this.graph.relationships;
+
+    const triples: Array<[Relationship, string, string]> = [];
+    new Set(edges).forEach(relationship => {
+      triples.push([relationship, relationship.source, relationship.target]);
+      if (KnowledgeGraphQuery.isSymmetric(relationship) && relationship.source !== relationship.target) {
+        triples.push([relationship, relationship.target, relationship.source]);
+      }
+    });
+    return triples;
+  }
+
+  private edgesFrom(nodeId: string, filter: EdgeFilter): Adjacent[] {
+    const { predicates, types, direction = 'both', minStrength } = filter;
+
+    return (this.adjacency.get(nodeId) || []).filter(({ relationship, direction: side }) => {
+      // Symmetric edges can be followed from either end whatever the requested direction
+      if (direction !== 'both' && side !== direction && !KnowledgeGraphQuery.isSymmetric(relationship)) return false;
+      if (predicates && !predicates.includes(KnowledgeGraphQuery.predicateOf(relationship))) return false;
+      if (types && !types.includes(relationship.type)) return false;
+      return minStrength === undefined || relationship.strength >= minStrength;
+    });
+  }
+
+  private edgeCost(relationship: Relationship): number {
+    if (!(relationship.strength > 0)) return Infinity;
+    return -Math.log(Math.min(relationship.strength, 1));
+  }
+
+  private link(nodeId: string, edge: Adjacent): void {
+    const edges = this.adjacency.get(nodeId) || [];
+    edges.push(edge);
+    this.adjacency.set(nodeId, edges);
+  }
+}
@@ -0,0 +1,82 @@
+import { bench, describe } from 'vitest';
+import { AgentMemory, Interaction, InteractionOutcome, InteractionType } from '../types';
+import { MemoryManager } from './MemoryManager';
+import { InMemoryStore } from './MemoryStore';
+
+/**
+ * Indexed lookups against a linear scan over the same memory, at 10k and 100k interactions.
+ * Indexed timings track the number of matching items; the scans grow with the whole tier.
+ *
+ *   npx vitest bench src/memory/MemoryIndex.bench.ts
+ */
+
+const CUSTOMERS = 5000;
+const CAMPAIGNS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+function buildInteractions(count: number): Interaction[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `INT${String(i).padStart(8, '0')}`,
+    customerId: `L${String(i % CUSTOMERS).padStart(7, '0')}`,
+    agentId: 'EN-001',
+    type: InteractionType.EMAIL,
+    content: 'email_sent via Email',
+    outcome: i % 7 === 0 ? InteractionOutcome.POSITIVE : InteractionOutcome.NEUTRAL,
+    sentiment: 0,
+    // Spread evenly over a year so time buckets look like the dataset's
+    timestamp: new Date(START + Math.floor((i / count) * 365 * DAY_MS)),
+    metadata: { campaignId: `CMP${String((i % CAMPAIGNS) + 1).padStart(4, '0')}` }
+  }));
+}
+
+/**
+ * Load memory through a snapshot restore, the same way a persisted agent starts up
+ */
+async function buildManager(count: number): Promise<MemoryManager> {
+  const store = new InMemoryStore();
+  const manager = new MemoryManager('bench');
+  const memory: AgentMemory = manager.getMemory();
+  memory.episodic.successfulInteractions = buildInteractions(count);
+
+  await store.compact('bench', memory);
+  const restored = new MemoryManager('bench', store);
+  await restored.restore();
+  return restored;
+}
+
+for (const size of [10_000, 100_000]) {
+  const manager = await buildManager(size);
+  const interactions = manager.getMemory().episodic.successfulInteractions;
+  let probe = 0;
+  const nextCustomer = () => `L${String(probe++ % CUSTOMERS).padStart(7, '0')}`;
+
+  describe(`${size.toLocaleString('en-US')} interactions`, () => {
+    bench('customerId: indexed retrieve', async () => {
+      await manager.retrieve('episodic', { type: 'interaction', customerId: nextCustomer() });
+    });
+
+    bench('customerId: linear scan', () => {
+      const customerId = nextCustomer();
+      interactions.filter(interaction => interaction.customerId === customerId);
+    });
+
+    bench('campaignId + week window: indexed query', () => {
+      manager.query({
+        types: ['interaction'],
+        where: { 'metadata.campaignId': 'CMP0007' },
+        since: new Date(START + 100 * DAY_MS),
+        until: new Date(START + 107 * DAY_MS)
+      });
+    });
+
+    bench('campaignId + week window: linear scan', () => {
+      const since = START + 100 * DAY_MS;
+      const until = START + 107 * DAY_MS;
+      interactions.filter(interaction => {
+        const time = interaction.timestamp.getTime();
+        return interaction.metadata.campaignId === 'CMP0007' && time >= since && time <= until;
+      });
+    });
+  });
+}
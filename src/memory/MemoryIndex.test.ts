@@ -0,0 +1,99 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MemoryIndex } from './MemoryIndex';
+import { MemoryManager } from './MemoryManager';
+import { MemoryQueryEngine } from './MemoryQuery';
+import { InMemoryStore } from './MemoryStore';
+import { Interaction, InteractionOutcome, InteractionType } from '../types';
+
+const SIZE = 100_000;
+const CUSTOMERS = 5000;
+const CAMPAIGNS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+const interaction = (i: number): Interaction => ({
+  id: `INT${String(i).padStart(8, '0')}`,
+  customerId: `L${String(i % CUSTOMERS).padStart(7, '0')}`,
+  agentId: 'EN-001',
+  type: InteractionType.EMAIL,
+  content: 'email_sent via Email',
+  outcome: InteractionOutcome.NEUTRAL,
+  sentiment: 0,
+  timestamp: new Date(START + Math.floor((i / SIZE) * 365 * DAY_MS)),
+  metadata: { campaignId: `CMP${String((i % CAMPAIGNS) + 1).padStart(4, '0')}` }
+});
+
+describe('MemoryIndex', () => {
+  it('looks up by field, type and time window without touching other items', () => {
+    const index = new MemoryIndex();
+    const items = Array.from({ length: 10 }, (_, i) => interaction(i * (SIZE / 10) + i));
+    items.forEach(item => index.add('episodic', 'interaction', item));
+
+    const since = items[3].timestamp;
+    const until = new Date(items[5].timestamp.getTime() + 1);
+
+    expect(index.lookup('customerId', items[2].customerId).map(hit => hit.item)).toEqual([items[2]]);
+    expect(index.count('type', 'interaction')).toBe(10);
+    expect(index.countRange(since, until)).toBe(3);
+    expect(index.range(since, until).map(hit => hit.item)).toEqual(items.slice(3, 6));
+  });
+
+  it('forgets removed items and counts each change against its tier', () => {
+    const index = new MemoryIndex();
+    const item = interaction(1);
+    index.add('episodic', 'interaction', item);
+    const revision = index.revisionOf('episodic');
+
+    index.remove(item);
+
+    expect(index.lookup('id', item.id)).toEqual([]);
+    expect(index.usage().totalBytes).toBe(0);
+    expect(index.revisionOf('episodic')).toBe(revision + 1);
+    expect(index.revisionOf('semantic')).toBe(0);
+  });
+});
+
+describe(`MemoryManager query planning at ${SIZE.toLocaleString('en-US')} items`, () => {
+  let manager: MemoryManager;
+
+  beforeAll(async () => {
+    const store = new InMemoryStore();
+    const seed = new MemoryManager('index-test');
+    const memory = seed.getMemory();
+    memory.episodic.successfulInteractions = Array.from({ length: SIZE }, (_, i) => interaction(i));
+    await store.compact('index-test', memory);
+
+    manager = new MemoryManager('index-test', store);
+    await manager.restore();
+  }, 60_000);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const candidatesFor = (query: Parameters<MemoryManager['query']>[0]) => {
+    const run = vi.spyOn(MemoryQueryEngine, 'run');
+    const result = manager.query(query);
+    return { candidates: run.mock.calls[0][0].length, total: result.total };
+  };
+
+  it('hands the engine only the items with the looked-up key', () => {
+    const { candidates, total } = candidatesFor({ types: ['interaction'], where: { customerId: 'L0000042' } });
+
+    expect(total).toBe(SIZE / CUSTOMERS);
+    expect(candidates).toBe(total);
+  });
+
+  it('walks the time window and intersects it with the other keys', () => {
+    const { candidates, total } = candidatesFor({
+      types: ['interaction'],
+      where: { 'metadata.campaignId': 'CMP0007' },
+      since: new Date(START + 100 * DAY_MS),
+      until: new Date(START + 107 * DAY_MS)
+    });
+
+    expect(total).toBeGreaterThan(0);
+    expect(candidates).toBe(total);
+    expect(candidates).toBeLessThan(SIZE / 1000);
+  });
+});
@@ -0,0 +1,293 @@
+import { MemoryTier } from './MemoryStore';
+import { MemoryQueryEngine } from './MemoryQuery';
+
+export type IndexedField = 'id' | 'leadId' | 'customerId' | 'campaignId';
+
+export interface IndexedItem {
+  tier: MemoryTier;
+  type: string;
+  item: object;
+}
+
+/** Bytes held per tier and per collection type */
+export interface MemoryUsage {
+  totalBytes: number;
+  tiers: Record<MemoryTier, number>;
+  types: Record<string, { tier: MemoryTier; items: number; bytes: number }>;
+}
+
+interface IndexEntry extends IndexedItem {
+  keys: Array<[IndexedField, string]>;
+  bucket?: number;
+  bytes: number;
+}
+
+/**
+ * Secondary indexes over memory items: by id, lead, customer, campaign, collection type
+ * and day-sized timestamp buckets, plus each item's size. Items are tracked by object
+ * identity, so MemoryManager must report every item it adds to or drops from a collection,
+ * and re-add an item it changes in place for its size to be measured again.
+ */
+export class MemoryIndex {
+  public static readonly BUCKET_MS = 24 * 60 * 60 * 1000;
+
+  private static readonly FIELDS: IndexedField[] = ['id', 'leadId', 'customerId', 'campaignId'];
+
+  /** Collections whose own id is also the lead / customer / campaign id */
+  private static readonly ID_ALIASES: Record<string, IndexedField[]> = {
+    lead: ['leadId', 'customerId'],
+    customer_profile: ['leadId', 'customerId'],
+    campaign: ['campaignId']
+  };
+
+  private entries: Map<object, IndexEntry> = new Map();
+  private byField: Map<IndexedField, Map<string, Set<object>>> = new Map(
+    MemoryIndex.FIELDS.map(field => [field, new Map()])
+  );
+  private byType: Map<string, Set<object>> = new Map();
+  private byBucket: Map<number, Set<object>> = new Map();
+  private sortedBuckets: number[] | null = null;
+  private bytesByType: Map<string, { tier: MemoryTier; items: number; bytes: number }> = new Map();
+  private revisions: Record<MemoryTier, number> = { short: 0, long: 0, episodic: 0, semantic: 0 };
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * An item's size as UTF-8 encoded JSON, which is what it costs to persist or send
+   */
+  public static sizeOf(item: unknown): number {
+    const json = JSON.stringify(item) ?? '';
+    let bytes = 0;
+    for (let i = 0; i < json.length; i++) {
+      const code = json.charCodeAt(i);
+      if (code < 0x80) bytes += 1;
+      else if (code < 0x800) bytes += 2;
+      // A surrogate pair is one 4-byte character; count 2 for each half
+      else if (code >= 0xd800 && code <= 0xdfff) bytes += 2;
+      else bytes += 3;
+    }
+    return bytes;
+  }
+
+  public add(tier: MemoryTier, type: string, item: unknown): void {
+    if (!item || typeof item !== 'object') return;
+    this.remove(item);
+
+    const entry: IndexEntry = { tier, type, item, keys: this.keysOf(type, item), bytes: MemoryIndex.sizeOf(item) };
+    entry.keys.forEach(([field, value]) => this.addTo(this.byField.get(field)!, value, item));
+    this.addTo(this.byType, type, item);
+
+    const timestamp = MemoryQueryEngine.timestampOf(item);
+    if (timestamp) {
+      entry.bucket = Math.floor(timestamp.getTime() / MemoryIndex.BUCKET_MS);
+      if (!this.byBucket.has(entry.bucket)) this.sortedBuckets = null;
+      this.addTo(this.byBucket, entry.bucket, item);
+    }
+
+    const usage = this.bytesByType.get(type) || { tier, items: 0, bytes: 0 };
+    usage.items++;
+    usage.bytes += entry.bytes;
+    this.bytesByType.set(type, usage);
+
+    this.entries.set(item, entry);
+    this.revisions[tier]++;
+  }
+
+  public remove(item: object): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) return false;
+
+    entry.keys.forEach(([field, value]) => this.removeFrom(this.byField.get(field)!, value, item));
+    this.removeFrom(this.byType, entry.type, item);
+    if (entry.bucket !== undefined) {
+      this.removeFrom(this.byBucket, entry.bucket, item);
+      if (!this.byBucket.has(entry.bucket)) this.sortedBuckets = null;
+    }
+
+    const usage = this.bytesByType.get(entry.type)!;
+    usage.items--;
+    usage.bytes -= entry.bytes;
+    if (usage.items === 0) this.bytesByType.delete(entry.type);
+
+    this.revisions[entry.tier]++;
+    return this.entries.delete(item);
+  }
+
+  public has(item: object): boolean {
+    return this.entries.has(item);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.byField.forEach(values => values.clear());
+    this.byType.clear();
+    this.byBucket.clear();
+    this.sortedBuckets = null;
+    this.bytesByType.clear();
+    (Object.keys(this.revisions) as MemoryTier[]).forEach(tier => this.revisions[tier]++);
+  }
+
+  /**
+   * Increases whenever an item of the tier is added, re-added or removed, so callers can
+   * cache what they derive from a tier's collections
+   */
+  public revisionOf(tier: MemoryTier): number {
+    return this.revisions[tier];
+  }
+
+  /**
+   * Bytes held in each tier and collection, as measured when the items were added
+   */
+  public usage(): MemoryUsage {
+    const usage: MemoryUsage = { totalBytes: 0, tiers: { short: 0, long: 0, episodic: 0, semantic: 0 }, types: {} };
+    this.bytesByType.forEach((bytes, type) => {
+      usage.types[type] = { ...bytes };
+      usage.tiers[bytes.tier] += bytes.bytes;
+      usage.totalBytes += bytes.bytes;
+    });
+    return usage;
+  }
+
+  public bytesOf(item: object): number {
+    return this.entries.get(item)?.bytes || 0;
+  }
+
+  /**
+   * Items whose field equals `value`, optionally restricted to some collection types
+   */
+  public lookup(field: IndexedField, value: string, types?: string[]): IndexedItem[] {
+    return this.collect(this.byField.get(field)!.get(value), types);
+  }
+
+  /**
+   * Whether `lookup(field, value)` would return the item, without running the lookup
+   */
+  public hasKey(item: object, field: IndexedField, value: string): boolean {
+    return this.byField.get(field)!.get(value)?.has(item) || false;
+  }
+
+  public ofType(type: string): IndexedItem[] {
+    return this.collect(this.byType.get(type));
+  }
+
+  /**
+   * How many items an index lookup would visit, so a caller can pick the cheapest one before running it
+   */
+  public count(field: IndexedField | 'type', value: string): number {
+    const index = field === 'type' ? this.byType : this.byField.get(field)!;
+    return index.get(value)?.size || 0;
+  }
+
+  public countRange(since?: Date, until?: Date): number {
+    const { buckets, start, end } = this.bucketSpan(since, until);
+    let count = 0;
+    for (let i = start; i < end; i++) {
+      count += this.byBucket.get(buckets[i])!.size;
+    }
+    return count;
+  }
+
+  /**
+   * Items whose timestamp falls inside [since, until]. Only the buckets overlapping
+   * the window are visited; items in the edge buckets are checked exactly.
+   */
+  public range(since?: Date, until?: Date, types?: string[]): IndexedItem[] {
+    const { buckets, start, end } = this.bucketSpan(since, until);
+    const from = buckets[start];
+    const to = buckets[end - 1];
+
+    const results: IndexedItem[] = [];
+    for (let i = start; i < end; i++) {
+      const bucket = buckets[i];
+      const onEdge = bucket === from || bucket === to;
+
+      this.collect(this.byBucket.get(bucket), types).forEach(hit => {
+        if (onEdge) {
+          const time = MemoryQueryEngine.timestampOf(hit.item)!.getTime();
+          if ((since && time < since.getTime()) || (until && time > until.getTime())) return;
+        }
+        results.push(hit);
+      });
+    }
+
+    return results;
+  }
+
+  private keysOf(type: string, item: object): Array<[IndexedField, string]> {
+    const record = item as Record<string, unknown> & { metadata?: Record<string, unknown>; context?: Record<string, unknown> };
+    const keys = new Set<string>();
+    const pairs: Array<[IndexedField, string]> = [];
+    const push = (field: IndexedField, value: unknown) => {
+      if (typeof value !== 'string' || value === '' || keys.has(`${field}:${value}`)) return;
+      keys.add(`${field}:${value}`);
+      pairs.push([field, value]);
+    };
+
+    MemoryIndex.FIELDS.forEach(field => {
+      push(field, record[field]);
+      if (field !== 'id') {
+        // Interactions and decision outcomes keep their references in metadata or context
+        push(field, record.metadata?.[field]);
+        push(field, record.context?.[field]);
+      }
+    });
+    (MemoryIndex.ID_ALIASES[type] || []).forEach(field => push(field, record.id));
+
+    return pairs;
+  }
+
+  private collect(items: Set<object> | undefined, types?: string[]): IndexedItem[] {
+    const results: IndexedItem[] = [];
+    items?.forEach(item => {
+      const { tier, type } = this.entries.get(item)!;
+      if (!types || types.includes(type)) results.push({ tier, type, item });
+    });
+    return results;
+  }
+
+  /**
+   * Positions [start, end) in the sorted bucket list that overlap the window
+   */
+  private bucketSpan(since?: Date, until?: Date): { buckets: number[]; start: number; end: number } {
+    const buckets = this.getSortedBuckets();
+    const from = since ? Math.floor(since.getTime() / MemoryIndex.BUCKET_MS) : -Infinity;
+    const to = until ? Math.floor(until.getTime() / MemoryIndex.BUCKET_MS) : Infinity;
+
+    const start = this.firstBucketAtOrAfter(buckets, from);
+    let end = start;
+    while (end < buckets.length && buckets[end] <= to) end++;
+    return { buckets, start, end };
+  }
+
+  private getSortedBuckets(): number[] {
+    if (!this.sortedBuckets) {
+      this.sortedBuckets = Array.from(this.byBucket.keys()).sort((a, b) => a - b);
+    }
+    return this.sortedBuckets;
+  }
+
+  private firstBucketAtOrAfter(buckets: number[], target: number): number {
+    let low = 0;
+    let high = buckets.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (buckets[mid] < target) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private addTo<K>(index: Map<K, Set<object>>, key: K, item: object): void {
+    const members = index.get(key) || new Set<object>();
+    members.add(item);
+    index.set(key, members);
+  }
+
+  private removeFrom<K>(index: Map<K, Set<object>>, key: K, item: object): void {
+    const members = index.get(key);
+    members?.delete(item);
+    if (members && members.size === 0) index.delete(key);
+  }
+}
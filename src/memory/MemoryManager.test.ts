@@ -0,0 +1,451 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryManager } from './MemoryManager';
+import { InMemoryStore } from './MemoryStore';
+import { SharedSemanticStore } from './SharedSemanticStore';
+import { MemoryPolicyPatch } from './MemoryPolicy';
+import { CustomerProfile, Interaction, InteractionOutcome, InteractionType } from '../types';
+
+const interaction = (index: number): Interaction => ({
+  id: `I-${index}`,
+  customerId: `L-${index % 3}`,
+  agentId: 'EN-TEST',
+  type: InteractionType.EMAIL,
+  content: 'email_reply via Email',
+  outcome: InteractionOutcome.POSITIVE,
+  sentiment: 0.8,
+  timestamp: new Date(Date.UTC(2024, 2, 1 + index)),
+  metadata: { channel: 'Email', conversationId: `C-${index}` }
+});
+
+const importedProfile = (index: number): CustomerProfile => ({
+  id: `L-${index}`,
+  email: `l-${index}@example.com`,
+  name: `Lead ${index}`,
+  interactionHistory: [],
+  segmentTags: [],
+  lifetimeValue: 1000,
+  lastEngagement: new Date(Date.UTC(2024, 2, 1)),
+  preferences: {
+    communicationChannel: ['email'],
+    contentTypes: ['text'],
+    frequency: 'weekly',
+    topics: ['analytics'],
+    timezone: 'UTC'
+  },
+  provenance: { datasetSources: [{ file: 'memory_long_term.csv', row: index + 1 }] }
+});
+
+describe('MemoryManager pattern extraction', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('updates a learned pattern in place on every consolidation', async () => {
+    const manager = new MemoryManager('EN-TEST');
+    for (let index = 0; index < 12; index++) {
+      await manager.store('episodic', { type: 'successful_interaction', data: interaction(index) });
+    }
+
+    await manager.consolidate();
+    const [first] = manager.getMemory().longTerm.learningPatterns;
+
+    await manager.store('episodic', { type: 'successful_interaction', data: interaction(12) });
+    await manager.consolidate();
+    await manager.consolidate();
+
+    const patterns = manager.getMemory().longTerm.learningPatterns;
+    expect(patterns).toHaveLength(1);
+    expect(patterns[0].id).toBe(first.id);
+    expect(patterns[0].applications).toBe(13);
+    expect(patterns[0].context).toHaveLength(5);
+    expect(JSON.parse(patterns[0].context[4]).conversationId).toBe('C-12');
+  });
+});
+
+describe('MemoryManager quota eviction', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('evicts derived items, then other items, before imported records', async () => {
+    const manager = new MemoryManager('EN-TEST', undefined, 'EN-TEST', { quota: { maxBytes: null } });
+    for (let index = 0; index < 5; index++) {
+      await manager.store('long', { type: 'customer_profile', data: importedProfile(index) });
+    }
+    for (let index = 0; index < 12; index++) {
+      await manager.store('episodic', { type: 'successful_interaction', data: interaction(index) });
+    }
+    await manager.consolidate();
+    expect(manager.getMemory().longTerm.learningPatterns).toHaveLength(1);
+
+    // Eviction stops 10% under the quota; leave room for the imported profiles and little else
+    const profileBytes = manager.getUsage().types.customer_profile.bytes;
+    await manager.setPolicy({ quota: { maxBytes: Math.ceil(profileBytes / 0.9) + 100 } });
+
+    const evictions = manager.getRecentEvictions(100).reverse();
+    expect(evictions[0].type).toBe('learning_pattern');
+    expect(evictions.slice(1).every(event => event.type === 'interaction')).toBe(true);
+    expect(manager.getMemory().longTerm.customerProfiles).toHaveLength(5);
+    expect(manager.getMemory().longTerm.learningPatterns).toHaveLength(0);
+  });
+
+  it('keeps evicting without snapshotting memory on every store', async () => {
+    const store = new InMemoryStore();
+    const compact = vi.spyOn(store, 'compact');
+    const manager = new MemoryManager('EN-TEST', store, 'EN-TEST', {
+      quota: { maxBytes: 2000 },
+      consolidation: { enabled: false }
+    });
+
+    for (let index = 0; index < 30; index++) {
+      await manager.store('episodic', { type: 'successful_interaction', data: interaction(index) });
+    }
+
+    expect(manager.getRecentEvictions(100).length).toBeGreaterThan(10);
+    expect(compact).not.toHaveBeenCalled();
+
+    // A restore replays the stores and brings memory back under the quota
+    const restored = new MemoryManager('EN-TEST', store, 'EN-TEST', { quota: { maxBytes: 2000 } });
+    await restored.restore();
+    expect(restored.getUsage().totalBytes).toBeLessThanOrEqual(2000);
+  });
+});
+
+describe('MemoryManager dataset reloads', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('upserts leads and contexts stored again by id', async () => {
+    const manager = new MemoryManager('EN-TEST');
+    const context = {
+      id: 'CTX-1',
+      leadId: 'L-1',
+      messages: [{ id: 'M-1', role: 'user', content: 'Pricing?', timestamp: new Date(Date.UTC(2024, 2, 1)) }],
+      entities: [{ type: 'topic', value: 'pricing', confidence: 0.9, start: 0, end: 7 }],
+      slots: { budget: '10k' }
+    };
+
+    for (let pass = 0; pass < 2; pass++) {
+      await manager.store('short', { type: 'processed_lead', data: { id: 'L-1', email: 'l-1@example.com' } });
+      await manager.store('short', { type: 'conversation_context', data: structuredClone(context) });
+    }
+
+    const { activeLeads, currentContext } = manager.getMemory().shortTerm;
+    expect(activeLeads).toHaveLength(1);
+    expect(currentContext).toHaveLength(1);
+    expect(currentContext[0].messages).toHaveLength(1);
+    expect(currentContext[0].entities).toHaveLength(1);
+  });
+});
+
+describe('MemoryManager consolidation persistence', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('snapshots what a consolidation produced, so a restore comes back to it', async () => {
+    const store = new InMemoryStore();
+    const manager = new MemoryManager('EN-TEST', store);
+    for (let index = 0; index < 12; index++) {
+      await manager.store('episodic', { type: 'successful_interaction', data: interaction(index) });
+    }
+    await manager.consolidate();
+
+    expect((await store.load('EN-TEST')).map(entry => entry.kind)).toEqual(['snapshot']);
+    const restored = new MemoryManager('EN-TEST', store);
+    await restored.restore();
+    expect(restored.getMemory().longTerm.learningPatterns).toEqual(manager.getMemory().longTerm.learningPatterns);
+  });
+
+  it('waits for new stores before the count trigger fires again', async () => {
+    const manager = new MemoryManager('EN-TEST', undefined, 'EN-TEST', {
+      consolidation: { triggers: [{ kind: 'count', threshold: 5 }] },
+      capacity: { shortTerm: 20 }
+    });
+    const consolidate = vi.spyOn(manager, 'consolidate');
+
+    for (let index = 0; index < 20; index++) {
+      await manager.store('short', { type: 'recent_action', data: { id: `A-${index}` } });
+    }
+
+    // Items 6..20 are over the threshold; a run every 5 stores rather than on each of them
+    expect(consolidate).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('MemoryManager slot promotion', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const expiringContext = (id: string, leadId: string) => ({
+    id,
+    leadId,
+    slots: { preferred_channel: 'sms', budget: '10k' },
+    expiresAt: new Date(Date.UTC(2024, 2, 2))
+  });
+
+  it('promotes slots into existing profiles and keeps the rest on the expiry event', async () => {
+    const manager = new MemoryManager('EN-TEST');
+    await manager.store('long', { type: 'customer_profile', data: importedProfile(1) });
+    await manager.store('short', { type: 'conversation_context', data: expiringContext('CTX-1', 'L-1') });
+    await manager.store('short', { type: 'conversation_context', data: expiringContext('CTX-2', 'L-9') });
+
+    const events = await manager.sweepExpired(new Date(Date.UTC(2024, 2, 3)));
+
+    expect(manager.getMemory().longTerm.customerProfiles.map(profile => profile.id)).toEqual(['L-1']);
+    expect(events.find(event => event.itemId === 'CTX-1')).toMatchObject({ promotedSlots: ['preferred_channel', 'budget'] });
+    expect(events.find(event => event.itemId === 'CTX-2')).toMatchObject({
+      promotedSlots: [],
+      unpromotedSlots: { preferred_channel: 'sms', budget: '10k' }
+    });
+  });
+});
+
+describe('MemoryManager snapshot import', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const managerWithProfiles = async (store?: InMemoryStore) => {
+    const manager = new MemoryManager('EN-TEST', store);
+    await manager.store('long', { type: 'customer_profile', data: importedProfile(1) });
+    await manager.store('long', { type: 'customer_profile', data: importedProfile(2) });
+    manager.getMemory().shortTerm.workingMemory.focus = 'renewals';
+    return manager;
+  };
+
+  const incomingMemory = async () => {
+    const source = new MemoryManager('EN-SOURCE');
+    await source.store('long', { type: 'customer_profile', data: { ...importedProfile(2), name: 'Renamed Lead' } });
+    await source.store('long', { type: 'customer_profile', data: importedProfile(3) });
+    source.getMemory().shortTerm.workingMemory.segment = 'enterprise';
+    return source.getMemory();
+  };
+
+  it('merges imported items by id and keeps the rest', async () => {
+    const manager = await managerWithProfiles();
+
+    await manager.importMemory(await incomingMemory(), 'merge');
+
+    const { longTerm, shortTerm } = manager.getMemory();
+    expect(longTerm.customerProfiles.map(profile => profile.id)).toEqual(['L-1', 'L-2', 'L-3']);
+    expect(longTerm.customerProfiles.find(profile => profile.id === 'L-2')?.name).toBe('Renamed Lead');
+    expect(shortTerm.workingMemory).toEqual({ focus: 'renewals', segment: 'enterprise' });
+  });
+
+  it('replaces memory, its index and its persisted state', async () => {
+    const store = new InMemoryStore();
+    const manager = await managerWithProfiles(store);
+
+    await manager.importMemory(await incomingMemory(), 'replace');
+
+    expect(manager.getMemory().longTerm.customerProfiles.map(profile => profile.id)).toEqual(['L-2', 'L-3']);
+    expect(manager.getMemory().shortTerm.workingMemory).toEqual({ segment: 'enterprise' });
+    expect(manager.query({ where: { id: 'L-1' } }).total).toBe(0);
+
+    const restored = new MemoryManager('EN-TEST', store);
+    await restored.restore();
+    expect(restored.getMemory().longTerm.customerProfiles.map(profile => profile.id)).toEqual(['L-2', 'L-3']);
+  });
+
+  it('does not share objects with the imported memory', async () => {
+    const manager = new MemoryManager('EN-TEST');
+    const memory = await incomingMemory();
+
+    await manager.importMemory(memory, 'merge');
+    memory.longTerm.customerProfiles[0].name = 'Changed After Import';
+
+    expect(manager.getMemory().longTerm.customerProfiles[0].name).toBe('Renamed Lead');
+  });
+});
+
+describe('MemoryManager knowledge graph queries', () => {
+  const node = (id: string, concept: string) => ({
+    id,
+    concept,
+    description: concept,
+    relationships: [],
+    confidence: 1,
+    lastUpdated: new Date(Date.UTC(2024, 2, 1))
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reuses the query until semantic memory changes', async () => {
+    const manager = new MemoryManager('LT-TEST');
+    await manager.store('semantic', { type: 'domain_knowledge', data: node('N-1', 'SMB') });
+    const query = manager.queryKnowledgeGraph();
+
+    await manager.store('short', { type: 'context', data: { id: 'CTX-1', leadId: 'L-1', timestamp: new Date() } });
+    expect(manager.queryKnowledgeGraph()).toBe(query);
+
+    await manager.store('semantic', { type: 'domain_knowledge', data: node('N-2', 'Email') });
+    const refreshed = manager.queryKnowledgeGraph();
+    expect(refreshed).not.toBe(query);
+    expect(refreshed.node('Email')?.id).toBe('N-2');
+  });
+
+  it('follows writes to a shared store', async () => {
+    const store = new SharedSemanticStore();
+    const manager = new MemoryManager('LT-TEST');
+    await manager.attachSharedSemantic(store.view('LT-TEST'));
+    const query = manager.queryKnowledgeGraph();
+
+    await store.view('EN-TEST').writeNode(node('N-1', 'SMB'));
+
+    expect(manager.queryKnowledgeGraph()).not.toBe(query);
+    expect(manager.queryKnowledgeGraph().node('SMB')?.id).toBe('N-1');
+  });
+});
+
+describe('MemoryManager decay curves', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const knowledge = (id: string, concept: string, daysOld: number) => ({
+    id,
+    concept,
+    description: concept,
+    relationships: [],
+    confidence: 0.8,
+    lastUpdated: new Date(Date.now() - daysOld * DAY_MS)
+  });
+
+  const decayedUnder = async (policy: MemoryPolicyPatch['decay'], read?: string) => {
+    const manager = new MemoryManager('LT-TEST', new InMemoryStore(), 'LT-TEST', { decay: policy });
+    await manager.store('semantic', { type: 'domain_knowledge', data: knowledge('N-STALE', 'Webinar', 90) });
+    await manager.store('semantic', { type: 'domain_knowledge', data: knowledge('N-READ', 'Procurement', 90) });
+    await manager.store('semantic', { type: 'domain_knowledge', data: knowledge('N-FRESH', 'Email', 1) });
+    if (read) manager.query({ types: ['domain_knowledge'], where: { id: read } });
+
+    await manager.consolidate();
+    return Object.fromEntries(manager.getMemory().semantic.domainKnowledge.map(node => [node.id, node.confidence]));
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('multiplies stale knowledge by the factor under the exponential curve', async () => {
+    const confidence = await decayedUnder({ curve: 'exponential', factor: 0.5 });
+
+    expect(confidence['N-STALE']).toBeCloseTo(0.4);
+    expect(confidence['N-FRESH']).toBe(0.8);
+  });
+
+  it('subtracts the rate under the linear curve', async () => {
+    expect((await decayedUnder({ curve: 'linear', linearRate: 0.3 }))['N-STALE']).toBeCloseTo(0.5);
+  });
+
+  it('decays read knowledge more slowly under the access-weighted curve', async () => {
+    const confidence = await decayedUnder({ curve: 'access_weighted', factor: 0.5 }, 'N-READ');
+
+    expect(confidence['N-STALE']).toBeCloseTo(0.4);
+    expect(confidence['N-READ']).toBeCloseTo(0.8 * Math.sqrt(0.5));
+  });
+
+  it('waits out the grace period', async () => {
+    const confidence = await decayedUnder({ curve: 'exponential', factor: 0.5, knowledgeGraceDays: 120 });
+
+    expect(confidence['N-STALE']).toBe(0.8);
+  });
+});
+
+describe('MemoryManager lineage', () => {
+  let manager: MemoryManager;
+
+  const stored = (index: number, provenance: Interaction['provenance']) =>
+    manager.store('episodic', { type: 'successful_interaction', data: { ...interaction(index), provenance } });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    manager = new MemoryManager('EN-TEST');
+
+    await stored(1, { datasetSources: [{ file: 'interactions.csv', row: 1 }], sourceActionIds: ['A-1'] });
+    await stored(2, { datasetSources: [{ file: 'interactions.csv', row: 1 }], derivedFrom: ['I-1'] });
+    await stored(3, { consolidationRunId: 'RUN-1', derivedFrom: ['I-1', 'I-2'], mergedFrom: ['I-GONE'] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('walks derived and merged parents and gathers their actions, rows and runs', () => {
+    const lineage = manager.getLineage('I-3')!;
+
+    expect(lineage.root.parents.map(parent => [parent.id, parent.relation, parent.tier])).toEqual([
+      ['I-1', 'derived', 'episodic'],
+      ['I-2', 'derived', 'episodic'],
+      ['I-GONE', 'merged', undefined]
+    ]);
+    expect(lineage.actionIds).toEqual(['A-1']);
+    expect(lineage.datasetSources).toEqual([{ file: 'interactions.csv', row: 1 }]);
+    expect(lineage.consolidationRuns).toEqual(['RUN-1']);
+  });
+
+  it('lists a shared ancestor everywhere but expands it once', () => {
+    const [first, second] = manager.getLineage('I-3')!.root.parents;
+
+    expect(first.parents).toEqual([]);
+    expect(second.parents.map(parent => parent.id)).toEqual(['I-1']);
+  });
+
+  it('stops at the depth limit', () => {
+    const lineage = manager.getLineage('I-3', 1)!;
+
+    expect(lineage.root.parents[1].parents).toEqual([]);
+    expect(manager.getLineage('I-3', 0)!.root.parents).toEqual([]);
+  });
+
+  it('is null for an id not in memory', () => {
+    expect(manager.getLineage('I-GONE')).toBeNull();
+  });
+
+  it('traces a consolidated pattern back to the interactions it came from', async () => {
+    for (let index = 10; index < 22; index++) {
+      await stored(index, { datasetSources: [{ file: 'interactions.csv', row: index }] });
+    }
+    await manager.consolidate();
+
+    const [pattern] = manager.getMemory().longTerm.learningPatterns;
+    const lineage = manager.getLineage(pattern.id)!;
+
+    expect(lineage.consolidationRuns[0]).toBe(pattern.provenance?.consolidationRunId);
+    expect(lineage.root.parents.every(parent => parent.relation === 'derived' && parent.type === 'interaction')).toBe(true);
+    expect(lineage.datasetSources).toContainEqual({ file: 'interactions.csv', row: 21 });
+  });
+});
@@ -6,22 +6,262 @@ import {
   SemanticMemory,
   LearningPattern,
   KnowledgeNode,
-  Relationship
+  Relationship,
+  ConversationContext,
+  CustomerProfile,
+  CustomerPreferences,
+  DatasetSource,
+  KnowledgeGraph,
+  MemoryProvenance
 } from '../types';
+import { InMemoryStore, MemoryStore, MemoryTier } from './MemoryStore';
+import { FieldFilter, MemoryQuery, MemoryQueryEngine, MemoryQueryHit, MemoryQueryResult } from './MemoryQuery';
+import { IndexedField, IndexedItem, MemoryIndex, MemoryUsage } from './MemoryIndex';
+import {
+  DEFAULT_MEMORY_POLICY,
+  EvictionStrategy,
+  MemoryPolicy,
+  MemoryPolicyPatch,
+  mergeMemoryPolicy,
+  validateMemoryPolicy
+} from './MemoryPolicy';
+import { MemoryImportMode } from './MemorySnapshot';
+import { SemanticView } from './SharedSemanticStore';
+import { KnowledgeGraphQuery } from './KnowledgeGraphQuery';
+import { TextEmbedder } from './TextEmbedder';
+import { VectorIndex } from './VectorIndex';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface SemanticSearchOptions {
+  /** Tiers to search; all of them when omitted */
+  tiers?: MemoryTier[];
+  /** Result types to keep, e.g. 'campaign' or 'interaction' */
+  types?: string[];
+  topK?: number;
+  minScore?: number;
+}
+
+export interface SemanticSearchHit extends MemoryQueryHit {
+  /** Cosine similarity between the query and the item's embedded text */
+  relevanceScore: number;
+}
+
+export interface MemoryExpiryEvent {
+  agentId: string;
+  /** Short-term collection the item left: context, lead, action, or a working memory key */
+  type: string;
+  itemId?: string;
+  leadId?: string;
+  /** Expired by TTL, or evicted early to stay within the short-term capacity */
+  reason: 'expired' | 'evicted';
+  expiresAt?: Date;
+  /** Slots copied into the lead's customer profile before the context was dropped */
+  promotedSlots: string[];
+  /** Slots of a context whose lead has no profile with this agent, kept here instead */
+  unpromotedSlots?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+export interface MemoryEvictionEvent {
+  agentId: string;
+  tier: MemoryTier;
+  type: string;
+  itemId?: string;
+  bytes: number;
+  strategy: EvictionStrategy;
+  /** Which budget was exceeded: the agent's total or the item's tier */
+  quota: 'agent' | 'tier';
+  timestamp: Date;
+}
+
+export interface MemoryLineageNode {
+  id: string;
+  /** Where the item lives; absent when it is no longer in memory (merged away, evicted or never stored here) */
+  tier?: MemoryTier;
+  type?: string;
+  item?: object;
+  provenance?: MemoryProvenance;
+  /** How this node relates to the child that listed it */
+  relation?: 'derived' | 'merged';
+  parents: MemoryLineageNode[];
+}
+
+/**
+ * Why an item is in memory: the tree of items it was derived or merged from, plus
+ * everything that tree ultimately rests on
+ */
+export interface MemoryLineage {
+  root: MemoryLineageNode;
+  actionIds: string[];
+  datasetSources: DatasetSource[];
+  consolidationRuns: string[];
+}
+
+/** The fields expiry reads; any memory item may carry them */
+interface ExpiringItem {
+  id?: string;
+  leadId?: string;
+  expiresAt?: Date | string;
+}
+
+/** One of the arrays in an agent's memory, e.g. long-term campaign history */
+interface MemoryCollection {
+  tier: MemoryTier;
+  type: string;
+  items: Array<{ id: string; provenance?: MemoryProvenance }>;
+}
+
+interface VectorEntry {
+  tier: MemoryTier;
+  type: string;
+  item: object;
+}
+
 export class MemoryManager {
   private agentId: string;
   private memory: AgentMemory;
-  private readonly MAX_SHORT_TERM_ITEMS = 100;
-  private readonly CONSOLIDATION_THRESHOLD = 50;
-  private readonly MEMORY_DECAY_FACTOR = 0.95;
-
-  constructor(agentId: string) {
+  private policy: MemoryPolicy;
+  private persistence: MemoryStore;
+  private storageKey: string;
+  private replaying: boolean = false;
+  private embedder: TextEmbedder = new TextEmbedder();
+  private vectorIndex: VectorIndex<VectorEntry> = new VectorIndex(this.embedder.dimensions);
+  private vectorKeys: WeakMap<object, string> = new WeakMap();
+  private nextVectorKey: number = 0;
+  private index: MemoryIndex = new MemoryIndex();
+  private graphQuery: { source: SemanticView | null; revision: number; query: KnowledgeGraphQuery } | null = null;
+  private expiryHandlers: Map<string, (events: MemoryExpiryEvent[]) => void> = new Map();
+  /** Reads per item, for the access-weighted decay curve. Runtime only; not persisted. */
+  private accessCounts: WeakMap<object, number> = new WeakMap();
+  private lastAccess: WeakMap<object, number> = new WeakMap();
+  private evictionHandlers: Map<string, (events: MemoryEvictionEvent[]) => void> = new Map();
+  private recentEvictions: MemoryEvictionEvent[] = [];
+  private lastConsolidatedAt: number = Date.now();
+  private lastActivityAt: number = Date.now();
+  private storesSinceConsolidation: number = 0;
+  /** When set, domain knowledge and relationships live in the shared store instead of this memory */
+  private sharedSemantic: SemanticView | null = null;
+
+  /** Derived items keep at most this many (most recent) source ids per lineage field */
+  private static readonly MAX_LINEAGE_IDS = 100;
+  /** Learning patterns keep this many (most recent) example contexts */
+  private static readonly MAX_PATTERN_CONTEXTS = 5;
+  private static readonly MAX_RECENT_EVICTIONS = 200;
+  /** Evict this far below a quota, so a store right after an eviction doesn't trigger another */
+  private static readonly EVICTION_HEADROOM = 0.1;
+
+  /** Conversation slots that map onto a customer preference field */
+  private static readonly PREFERENCE_SLOTS: Record<string, Exclude<keyof CustomerPreferences, 'slots'>> = {
+    channel: 'communicationChannel',
+    preferred_channel: 'communicationChannel',
+    preferred_channels: 'communicationChannel',
+    content_types: 'contentTypes',
+    interests: 'topics',
+    topics: 'topics',
+    frequency: 'frequency',
+    timezone: 'timezone',
+    best_contact_time: 'bestContactTime'
+  };
+
+  constructor(
+    agentId: string,
+    persistence: MemoryStore = new InMemoryStore(),
+    storageKey: string = agentId,
+    policy: MemoryPolicyPatch = {}
+  ) {
     this.agentId = agentId;
+    this.persistence = persistence;
+    this.storageKey = storageKey;
+    this.policy = mergeMemoryPolicy(DEFAULT_MEMORY_POLICY, policy);
+    validateMemoryPolicy(this.policy);
     this.memory = this.initializeMemory();
   }
 
+  public getPolicy(): MemoryPolicy {
+    return mergeMemoryPolicy(this.policy);
+  }
+
+  /**
+   * Hot-reload the decay, consolidation and capacity policy. The patch is applied on top of the
+   * current policy; lowered capacities take effect immediately rather than at the next store.
+   * An invalid result is rejected and the current policy stays in place.
+   */
+  public async setPolicy(patch: MemoryPolicyPatch): Promise<MemoryPolicy> {
+    const policy = mergeMemoryPolicy(this.policy, patch);
+    validateMemoryPolicy(policy);
+    this.policy = policy;
+    await this.enforceShortTermLimits();
+    this.enforceTierCapacity();
+    await this.enforceQuota();
+    return this.getPolicy();
+  }
+
+  /**
+   * Keep domain knowledge and relationships in a store shared with other agents. Knowledge
+   * already held here is written to the store and dropped from this memory.
+   */
+  public async attachSharedSemantic(view: SemanticView | null): Promise<void> {
+    this.sharedSemantic = view;
+    await this.moveSemanticToShared();
+  }
+
+  /**
+   * The knowledge graph this agent reasons over: its view of the shared store when attached,
+   * its own semantic memory otherwise
+   */
+  public getKnowledgeGraph(): KnowledgeGraph {
+    return { nodes: this.knowledgeNodes(), relationships: this.knowledgeEdges() };
+  }
+
+  /**
+   * Graph queries over the knowledge graph, rebuilt only once nodes or relationships have
+   * been added or removed. Edits in place (strength, confidence) show through the cached query.
+   */
+  public queryKnowledgeGraph(): KnowledgeGraphQuery {
+    const revision = this.sharedSemantic ? this.sharedSemantic.revision : this.index.revisionOf('semantic');
+    if (!this.graphQuery || this.graphQuery.source !== this.sharedSemantic || this.graphQuery.revision !== revision) {
+      this.graphQuery = { source: this.sharedSemantic, revision, query: new KnowledgeGraphQuery(this.getKnowledgeGraph()) };
+    }
+    return this.graphQuery.query;
+  }
+
+  /**
+   * Rebuild memory from the persisted log: start from the latest snapshot and replay
+   * every store after it. Consolidations are snapshotted, so a logged one only appears when
+   * that snapshot failed and is re-run as an approximation. Returns the number of log entries replayed.
+   */
+  public async restore(): Promise<number> {
+    const entries = await this.persistence.load(this.storageKey);
+    this.replaying = true;
+
+    try {
+      for (const entry of entries) {
+        switch (entry.kind) {
+          case 'snapshot':
+            this.memory = this.hydrate(entry.memory);
+            this.rebuildIndex();
+            break;
+          case 'store':
+            await this.apply(entry.tier, entry.item);
+            break;
+          case 'consolidate':
+            await this.consolidate(entry.runId);
+            break;
+          case 'expire':
+            await this.sweepExpired(entry.timestamp);
+            break;
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    // Knowledge logged before the store was attached is handed over once; the store replays its own log
+    await this.moveSemanticToShared();
+    await this.enforceQuota();
+    return entries.length;
+  }
+
   private initializeMemory(): AgentMemory {
     return {
       shortTerm: {
@@ -55,7 +295,57 @@ export class MemoryManager {
     return this.memory;
   }
 
-  public async store(type: 'short' | 'long' | 'episodic' | 'semantic', data: any): Promise<void> {
+  /**
+   * Deep copy of the current memory, safe to serialize or hand to another agent
+   */
+  public exportMemory(): AgentMemory {
+    return structuredClone(this.memory);
+  }
+
+  /**
+   * Load memory captured by exportMemory. `replace` discards what is here; `merge` upserts
+   * every imported item by id, so re-importing the same snapshot is idempotent. The result
+   * is persisted as a fresh snapshot so a restart comes back to it.
+   */
+  public async importMemory(memory: AgentMemory, mode: MemoryImportMode = 'merge'): Promise<void> {
+    const incoming = this.hydrate(structuredClone(memory));
+
+    if (mode === 'replace') {
+      this.memory = incoming;
+      this.rebuildIndex();
+    } else {
+      const sources = this.getCollections(incoming);
+      this.getCollections().forEach(({ tier, type, items }, i) => {
+        sources[i].items.forEach(item => this.upsertById(tier, type, items, item));
+      });
+      Object.assign(this.memory.shortTerm.workingMemory, incoming.shortTerm.workingMemory);
+    }
+
+    await this.enforceShortTermLimits();
+    this.enforceTierCapacity();
+    await this.persistence.compact(this.storageKey, this.memory);
+    await this.moveSemanticToShared();
+    await this.enforceQuota();
+  }
+
+  /**
+   * Fill in collections missing from a snapshot, e.g. one written before a collection existed
+   */
+  private hydrate(memory: Partial<AgentMemory>): AgentMemory {
+    const empty = this.initializeMemory();
+    return {
+      shortTerm: { ...empty.shortTerm, ...memory.shortTerm },
+      longTerm: { ...empty.longTerm, ...memory.longTerm },
+      episodic: { ...empty.episodic, ...memory.episodic },
+      semantic: { ...empty.semantic, ...memory.semantic }
+    };
+  }
+
+  /**
+   * Store an item in a tier. Short-term items may carry a `ttlMs` (or an `expiresAt` on their data)
+   * after which sweepExpired drops them.
+   */
+  public async store(type: MemoryTier, data: any): Promise<void> {
     const timestamp = new Date();
     const memoryItem = {
       id: uuidv4(),
@@ -64,6 +354,35 @@ export class MemoryManager {
       ...data
     };
 
+    await this.apply(type, memoryItem);
+    await this.persistence.append(this.storageKey, { kind: 'store', tier: type, item: memoryItem });
+    await this.enforceQuota();
+    if (this.persistence.shouldCompact(this.storageKey)) {
+      // Only an optimization here: the log still rebuilds this memory if the snapshot fails
+      await this.persistence.compact(this.storageKey, this.memory)
+        .catch(error => console.warn(`Keeping the uncompacted memory log for agent ${this.agentId}:`, error));
+    }
+    this.lastActivityAt = timestamp.getTime();
+    this.storesSinceConsolidation++;
+
+    // Check if consolidation is needed
+    if (this.shouldConsolidate(timestamp.getTime())) {
+      await this.consolidate();
+    }
+  }
+
+  /**
+   * Run a consolidation if any of the policy's triggers has fired. Time and idle triggers
+   * can only fire between stores, so the owner should call this periodically.
+   */
+  public async consolidateIfDue(now: Date = new Date()): Promise<boolean> {
+    if (!this.shouldConsolidate(now.getTime())) return false;
+    await this.consolidate();
+    this.lastConsolidatedAt = now.getTime();
+    return true;
+  }
+
+  private async apply(type: MemoryTier, memoryItem: any): Promise<void> {
     switch (type) {
       case 'short':
         await this.storeShortTerm(memoryItem);
@@ -78,24 +397,23 @@ export class MemoryManager {
         await this.storeSemantic(memoryItem);
         break;
     }
-
-    // Check if consolidation is needed
-    if (this.shouldConsolidate()) {
-      await this.consolidate();
-    }
   }
 
   private async storeShortTerm(item: any): Promise<void> {
+    if (item.ttlMs && item.data && typeof item.data === 'object' && !item.data.expiresAt) {
+      item.data.expiresAt = new Date(new Date(item.timestamp).getTime() + item.ttlMs);
+    }
+
     switch (item.type) {
       case 'conversation_context':
-        this.memory.shortTerm.currentContext.push(item.data);
+        this.fillContext(item.data, new Date(item.timestamp));
         break;
       case 'active_lead':
       case 'processed_lead':
-        this.memory.shortTerm.activeLeads.push(item.data);
+        this.upsertById('short', 'lead', this.memory.shortTerm.activeLeads, item.data);
         break;
       case 'recent_action':
-        this.memory.shortTerm.recentActions.push(item.data);
+        this.insert('short', 'action', this.memory.shortTerm.recentActions, item.data);
         break;
       default:
         this.memory.shortTerm.workingMemory[item.type] = item.data;
@@ -108,16 +426,16 @@ export class MemoryManager {
   private async storeLongTerm(item: any): Promise<void> {
     switch (item.type) {
       case 'customer_profile':
-        this.memory.longTerm.customerProfiles.push(item.data);
+        this.upsertById('long', 'customer_profile', this.memory.longTerm.customerProfiles, item.data);
         break;
       case 'campaign':
-        this.memory.longTerm.campaignHistory.push(item.data);
+        this.upsertById('long', 'campaign', this.memory.longTerm.campaignHistory, item.data);
         break;
       case 'performance_metric':
-        this.memory.longTerm.performanceMetrics.push(item.data);
+        this.insert('long', 'performance_metric', this.memory.longTerm.performanceMetrics, item.data);
         break;
       case 'learning_pattern':
-        this.memory.longTerm.learningPatterns.push(item.data);
+        this.insert('long', 'learning_pattern', this.memory.longTerm.learningPatterns, item.data);
         break;
     }
   }
@@ -126,42 +444,132 @@ export class MemoryManager {
     switch (item.type) {
       case 'interaction':
       case 'successful_interaction':
-        this.memory.episodic.successfulInteractions.push(item.data);
+        this.upsertById('episodic', 'interaction', this.memory.episodic.successfulInteractions, item.data);
         break;
       case 'problem_resolution':
-        this.memory.episodic.problemResolutions.push(item.data);
+        this.insert('episodic', 'problem_resolution', this.memory.episodic.problemResolutions, item.data);
         break;
       case 'decision_outcome':
       case 'learning_outcome':
-        this.memory.episodic.decisionOutcomes.push(item.data);
+        this.upsertById('episodic', 'decision_outcome', this.memory.episodic.decisionOutcomes, item.data);
         break;
       case 'contextual_learning':
-        this.memory.episodic.contextualLearnings.push(item.data);
+        this.insert('episodic', 'contextual_learning', this.memory.episodic.contextualLearnings, item.data);
         break;
     }
   }
 
   private async storeSemantic(item: any): Promise<void> {
+    // Replayed entries stay local until restore hands them to the shared store
+    const shared = this.replaying ? null : this.sharedSemantic;
+
     switch (item.type) {
       case 'domain_knowledge':
-        this.memory.semantic.domainKnowledge.push(item.data);
+        if (shared) await shared.writeNode(item.data);
+        else this.upsertById('semantic', 'domain_knowledge', this.memory.semantic.domainKnowledge, item.data);
         break;
       case 'relationship':
-        this.memory.semantic.relationships.push(item.data);
+        if (shared) await shared.writeRelationship(item.data);
+        else this.upsertById('semantic', 'relationship', this.memory.semantic.relationships, item.data);
         break;
       case 'concept':
-        this.memory.semantic.concepts.push(item.data);
+        this.insert('semantic', 'concept', this.memory.semantic.concepts, item.data);
         break;
       case 'business_rule':
       case 'learning_pattern':
       case 'optimization_strategy':
       case 'engagement_strategy':
-        this.memory.semantic.rules.push(item.data);
+        this.insert('semantic', 'business_rule', this.memory.semantic.rules, item.data);
         break;
     }
   }
 
-  public async retrieve(type: 'short' | 'long' | 'episodic' | 'semantic', query: any): Promise<any[]> {
+  /**
+   * Slot filling: storing a context again for the same conversation updates the existing one,
+   * merging slots, taking the newer intent and pushing the expiry out
+   */
+  private fillContext(context: Partial<ConversationContext>, timestamp: Date): void {
+    const existing: ConversationContext | undefined = context.id
+      ? this.index.lookup('id', context.id, ['context'])[0]?.item as ConversationContext | undefined
+      : undefined;
+
+    // Dataset contexts may come without times; they are stamped with the time they are stored
+    const messages = (context.messages || []).map(message => ({ ...message, timestamp: message.timestamp ?? timestamp }));
+
+    if (!existing) {
+      this.insert('short', 'context', this.memory.shortTerm.currentContext, {
+        entities: [],
+        intent: '',
+        sentiment: 0,
+        priority: 5,
+        ...context,
+        messages,
+        createdAt: context.createdAt ?? timestamp,
+        updatedAt: context.updatedAt ?? timestamp
+      });
+      return;
+    }
+
+    existing.slots = { ...existing.slots, ...context.slots };
+    existing.intent = context.intent || existing.intent;
+    // Storing the same context again (e.g. a dataset reload) must not repeat its messages or entities
+    const messageIds = new Set(existing.messages.map(message => message.id));
+    const entityKeys = new Set(existing.entities.map(entity => `${entity.type}:${entity.value}`));
+    existing.messages = [...existing.messages, ...messages.filter(message => !messageIds.has(message.id))];
+    existing.entities = [...existing.entities, ...(context.entities || []).filter(entity => !entityKeys.has(`${entity.type}:${entity.value}`))];
+    existing.sentiment = context.sentiment ?? existing.sentiment;
+    existing.priority = Math.max(existing.priority, context.priority ?? 0);
+    existing.updatedAt = context.updatedAt ?? timestamp;
+    if (context.expiresAt && (!existing.expiresAt || new Date(context.expiresAt) > new Date(existing.expiresAt))) {
+      existing.expiresAt = context.expiresAt;
+    }
+    this.index.add('short', 'context', existing);
+  }
+
+  private upsertById<T extends { id: string }>(tier: MemoryTier, type: string, items: T[], item: T): void {
+    // Re-importing the same record (e.g. reloading the dataset over restored memory) replaces it rather than duplicating it
+    const existing = item.id ? this.index.lookup('id', item.id, [type])[0]?.item as T | undefined : undefined;
+    const position = existing ? items.indexOf(existing) : -1;
+    if (position >= 0) {
+      this.index.remove(items[position]);
+      items[position] = item;
+      this.index.add(tier, type, item);
+      this.lastAccess.set(item, Date.now());
+    } else {
+      this.insert(tier, type, items, item);
+    }
+  }
+
+  private insert<T>(tier: MemoryTier, type: string, items: T[], item: T): void {
+    items.push(item);
+    this.index.add(tier, type, item);
+    if (item && typeof item === 'object') this.lastAccess.set(item, Date.now());
+  }
+
+  /**
+   * Filter a collection, dropping the removed items from the indexes
+   */
+  private prune<T extends object>(items: T[], keep: (item: T) => boolean): T[] {
+    return items.filter(item => {
+      if (keep(item)) return true;
+      this.index.remove(item);
+      return false;
+    });
+  }
+
+  private rebuildIndex(): void {
+    this.index.clear();
+    this.getCollections().forEach(({ tier, type, items }) => {
+      items.forEach(item => this.index.add(tier, type, item));
+    });
+  }
+
+  public async retrieve(type: MemoryTier, query: any): Promise<any[]> {
+    // Free-text queries go through the embedding index instead of field matching
+    if (typeof query?.text === 'string') {
+      return this.search(query.text, { tiers: [type], topK: query.topK });
+    }
+
     let results: any[] = [];
 
     switch (type) {
@@ -183,6 +591,204 @@ export class MemoryManager {
     return this.rankByRelevance(results, query);
   }
 
+  /**
+   * Structured retrieval: filter items by paths into their data, a time window and type,
+   * then sort and return one page. Pass the returned nextCursor back to get the next page.
+   */
+  public query(query: MemoryQuery = {}): MemoryQueryResult {
+    const { tiers, types } = query;
+
+    const planned = this.planQuery(query);
+    const candidates = planned
+      ? planned
+          .filter(hit => (!tiers || tiers.includes(hit.tier)) && (!types || types.includes(hit.type)))
+          .map(({ tier, type, item }) => ({ data: item, type, tier }))
+      : this.getReadableCollections()
+          .filter(collection => (!tiers || tiers.includes(collection.tier)) && (!types || types.includes(collection.type)))
+          .flatMap(({ tier, type, items }) => items.map(data => ({ data, type, tier })));
+
+    const result = MemoryQueryEngine.run(candidates, query);
+    this.recordAccess(result.items.map(hit => hit.data));
+    return result;
+  }
+
+  /**
+   * Narrow a query's candidates through the secondary indexes: an equality on an indexed
+   * key, a time window or a type list, whichever yields the fewest items. The query engine
+   * still checks every condition, so the plan only needs to return a superset of the matches.
+   * Returns null when nothing indexed applies and a full scan is needed.
+   */
+  private planQuery(query: MemoryQuery): IndexedItem[] | null {
+    const plans: Array<{ size: number; run: () => IndexedItem[] }> = [];
+    const keys: Array<[IndexedField, string]> = [];
+
+    Object.entries(query.where || {}).forEach(([path, filter]) => {
+      // The index also covers references kept under metadata or context, e.g. an interaction's metadata.campaignId
+      const field = path.replace(/^(metadata|context)\.(?!id$)/, '');
+      const value = this.equalityValue(filter);
+      if (value !== undefined && ['id', 'leadId', 'customerId', 'campaignId'].includes(field)) {
+        keys.push([field as IndexedField, value]);
+        plans.push({
+          size: this.index.count(field as IndexedField, value),
+          run: () => this.index.lookup(field as IndexedField, value, query.types)
+        });
+      }
+    });
+
+    if ((query.since !== undefined || query.until !== undefined) && !query.timeField) {
+      const since = query.since !== undefined ? new Date(query.since) : undefined;
+      const until = query.until !== undefined ? new Date(query.until) : undefined;
+      if (!isNaN(since?.getTime() ?? 0) && !isNaN(until?.getTime() ?? 0)) {
+        plans.push({ size: this.index.countRange(since, until), run: () => this.index.range(since, until, query.types) });
+      }
+    }
+
+    if (query.types) {
+      const types = query.types;
+      plans.push({
+        size: types.reduce((sum, type) => sum + this.index.count('type', type), 0),
+        run: () => types.flatMap(type => this.index.ofType(type))
+      });
+    }
+
+    if (plans.length === 0) return null;
+
+    // Run the most selective plan, then intersect with the other key lookups through cheap membership checks
+    const candidates = plans.reduce((smallest, plan) => plan.size < smallest.size ? plan : smallest).run();
+    const indexed = candidates.filter(hit => keys.every(([field, value]) => this.index.hasKey(hit.item, field, value)));
+
+    // Shared knowledge is outside this agent's index, so it is always handed to the engine to filter
+    return [...indexed, ...this.sharedCollections().flatMap(({ tier, type, items }) => items.map(item => ({ tier, type, item })))];
+  }
+
+  private equalityValue(filter: FieldFilter): string | undefined {
+    if (typeof filter === 'string') return filter;
+    if (filter && typeof filter === 'object' && !(filter instanceof Date) && typeof filter.$eq === 'string') {
+      return filter.$eq;
+    }
+    return undefined;
+  }
+
+  /**
+   * Semantic retrieval: the items whose embedded text is closest to `text`, best first,
+   * with the cosine similarity as relevanceScore
+   */
+  public async search(text: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchHit[]> {
+    const { tiers, types, topK = 10, minScore = 0 } = options;
+    this.syncVectorIndex();
+
+    const hits = this.vectorIndex.search(
+      this.embedder.embed(text),
+      topK,
+      entry => (!tiers || tiers.includes(entry.tier)) && (!types || types.includes(entry.type))
+    );
+
+    const matches = hits.filter(hit => hit.score >= minScore);
+    this.recordAccess(matches.map(hit => hit.payload.item));
+
+    return matches.map(hit => ({
+      data: hit.payload.item,
+      type: hit.payload.type,
+      tier: hit.payload.tier,
+      relevanceScore: hit.score
+    }));
+  }
+
+  /**
+   * Bring the vector index in line with memory. Items are tracked by object identity, so this
+   * picks up changes made by any path (stores, consolidation, limits, restores) and only
+   * embeds items it hasn't seen before.
+   */
+  private syncVectorIndex(): void {
+    const live = new Set<string>();
+
+    this.getReadableCollections().forEach(({ tier, type, items }) => {
+      items.forEach(item => {
+        if (!item || typeof item !== 'object') return;
+
+        let key = this.vectorKeys.get(item);
+        if (!key) {
+          key = `v${this.nextVectorKey++}`;
+          this.vectorKeys.set(item, key);
+        }
+        live.add(key);
+
+        if (!this.vectorIndex.has(key)) {
+          this.vectorIndex.add(key, this.embedder.embed(TextEmbedder.describe(item)), { tier, type, item });
+        }
+      });
+    });
+
+    this.vectorIndex.keys().forEach(key => {
+      if (!live.has(key)) this.vectorIndex.remove(key);
+    });
+  }
+
+  /**
+   * Every collection this agent can read, with shared knowledge in place of its own semantic graph
+   */
+  private getReadableCollections(): MemoryCollection[] {
+    if (!this.sharedSemantic) return this.getCollections();
+    return [
+      ...this.getCollections().filter(({ type }) => type !== 'domain_knowledge' && type !== 'relationship'),
+      ...this.sharedCollections()
+    ];
+  }
+
+  private sharedCollections(): MemoryCollection[] {
+    if (!this.sharedSemantic) return [];
+    return [
+      { tier: 'semantic', type: 'domain_knowledge', items: this.sharedSemantic.nodes() },
+      { tier: 'semantic', type: 'relationship', items: this.sharedSemantic.relationships() }
+    ];
+  }
+
+  private knowledgeNodes(): KnowledgeNode[] {
+    return this.sharedSemantic ? this.sharedSemantic.nodes() : this.memory.semantic.domainKnowledge;
+  }
+
+  private knowledgeEdges(): Relationship[] {
+    return this.sharedSemantic ? this.sharedSemantic.relationships() : this.memory.semantic.relationships;
+  }
+
+  /**
+   * Write this memory's domain knowledge and relationships to the shared store and drop the local copies
+   */
+  private async moveSemanticToShared(): Promise<void> {
+    const { domainKnowledge, relationships } = this.memory.semantic;
+    if (!this.sharedSemantic || domainKnowledge.length + relationships.length === 0) return;
+
+    // Nodes first, so edges written against a merged node id still resolve
+    for (const node of domainKnowledge) await this.sharedSemantic.writeNode(node);
+    for (const relationship of relationships) await this.sharedSemantic.writeRelationship(relationship);
+
+    this.memory.semantic.domainKnowledge = this.prune(domainKnowledge, () => false);
+    this.memory.semantic.relationships = this.prune(relationships, () => false);
+    await this.persistence.compact(this.storageKey, this.memory);
+  }
+
+  private getCollections(memory: AgentMemory = this.memory): MemoryCollection[] {
+    const { shortTerm, longTerm, episodic, semantic } = memory;
+
+    return [
+      { tier: 'short', type: 'context', items: shortTerm.currentContext },
+      { tier: 'short', type: 'lead', items: shortTerm.activeLeads },
+      { tier: 'short', type: 'action', items: shortTerm.recentActions },
+      { tier: 'long', type: 'customer_profile', items: longTerm.customerProfiles },
+      { tier: 'long', type: 'campaign', items: longTerm.campaignHistory },
+      { tier: 'long', type: 'performance_metric', items: longTerm.performanceMetrics },
+      { tier: 'long', type: 'learning_pattern', items: longTerm.learningPatterns },
+      { tier: 'episodic', type: 'interaction', items: episodic.successfulInteractions },
+      { tier: 'episodic', type: 'problem_resolution', items: episodic.problemResolutions },
+      { tier: 'episodic', type: 'decision_outcome', items: episodic.decisionOutcomes },
+      { tier: 'episodic', type: 'contextual_learning', items: episodic.contextualLearnings },
+      { tier: 'semantic', type: 'domain_knowledge', items: semantic.domainKnowledge },
+      { tier: 'semantic', type: 'relationship', items: semantic.relationships },
+      { tier: 'semantic', type: 'concept', items: semantic.concepts },
+      { tier: 'semantic', type: 'business_rule', items: semantic.rules }
+    ];
+  }
+
   private async retrieveShortTerm(query: any): Promise<any[]> {
     const results: any[] = [];
 
@@ -193,7 +799,7 @@ export class MemoryManager {
 
     // Search active leads
     if (query.type === 'active_lead' || query.leadId) {
-      const matchingLeads = this.memory.shortTerm.activeLeads.filter(lead => 
+      const matchingLeads = this.candidates('lead', 'leadId', query.leadId, this.memory.shortTerm.activeLeads).filter(lead => 
         !query.leadId || lead.id === query.leadId
       );
       results.push(...matchingLeads.map(item => ({ data: item, type: 'lead' })));
@@ -219,16 +825,17 @@ export class MemoryManager {
     const results: any[] = [];
 
     // Search customer profiles
-    if (query.type === 'customer_profile' || query.email) {
-      const matchingProfiles = this.memory.longTerm.customerProfiles.filter(profile => 
-        !query.email || profile.email === query.email
+    if (query.type === 'customer_profile' || query.email || query.customerId) {
+      const matchingProfiles = this.candidates('customer_profile', 'customerId', query.customerId, this.memory.longTerm.customerProfiles).filter(profile => 
+        (!query.email || profile.email === query.email) &&
+        (!query.customerId || profile.id === query.customerId)
       );
       results.push(...matchingProfiles.map(item => ({ data: item, type: 'customer_profile' })));
     }
 
     // Search campaign history
     if (query.type === 'campaign' || query.campaignId || query.id) {
-      const matchingCampaigns = this.memory.longTerm.campaignHistory.filter(campaign => 
+      const matchingCampaigns = this.candidates('campaign', 'campaignId', query.campaignId || query.id, this.memory.longTerm.campaignHistory).filter(campaign => 
         (!query.campaignId || campaign.id === query.campaignId) &&
         (!query.id || campaign.id === query.id) &&
         (!query.status || campaign.status === query.status)
@@ -257,7 +864,7 @@ export class MemoryManager {
 
     // Search successful interactions
     if (query.type === 'successful_interaction' || query.type === 'interaction') {
-      const matchingInteractions = this.memory.episodic.successfulInteractions.filter(interaction => 
+      const matchingInteractions = this.candidates('interaction', 'customerId', query.customerId, this.memory.episodic.successfulInteractions).filter(interaction => 
         (!query.agentId || interaction.agentId === query.agentId) &&
         (!query.customerId || interaction.customerId === query.customerId)
       );
@@ -272,7 +879,8 @@ export class MemoryManager {
     // Search decision outcomes
     if (query.type === 'decision_outcome' || query.type === 'learning_outcome' || query.type === 'action_log') {
       const matchingOutcomes = this.memory.episodic.decisionOutcomes.filter(outcome => 
-        !query.agentId || outcome.agentId === query.agentId
+        (!query.agentId || outcome.agentId === query.agentId) &&
+        (!query.scenario || outcome.context?.scenario === query.scenario)
       );
       results.push(...matchingOutcomes.map(item => ({ data: item, type: 'decision_outcome' })));
     }
@@ -290,7 +898,7 @@ export class MemoryManager {
 
     // Search domain knowledge
     if (query.type === 'domain_knowledge' || query.concept) {
-      const matchingKnowledge = this.memory.semantic.domainKnowledge.filter(knowledge => 
+      const matchingKnowledge = this.knowledgeNodes().filter(knowledge => 
         !query.concept || knowledge.concept.includes(query.concept)
       );
       results.push(...matchingKnowledge.map(item => ({ data: item, type: 'domain_knowledge' })));
@@ -298,7 +906,7 @@ export class MemoryManager {
 
     // Search relationships
     if (query.type === 'relationship') {
-      results.push(...this.memory.semantic.relationships.map(item => ({ data: item, type: 'relationship' })));
+      results.push(...this.knowledgeEdges().map(item => ({ data: item, type: 'relationship' })));
     }
 
     // Search concepts
@@ -319,14 +927,36 @@ export class MemoryManager {
     return results;
   }
 
+  /**
+   * A collection's items, narrowed through the secondary index when a key value is given
+   */
+  private candidates<T extends object>(type: string, field: IndexedField, value: string | undefined, items: T[]): T[] {
+    return value ? this.index.lookup(field, value, [type]).map(hit => hit.item as T) : items;
+  }
+
   private rankByRelevance(results: any[], query: any): any[] {
-    return results
+    const ranked = results
       .map(result => ({
-        ...result,
+        result,
         relevanceScore: this.calculateRelevance(result, query)
       }))
       .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, 50); // Limit results
+      .slice(0, query.limit ?? MemoryQueryEngine.DEFAULT_LIMIT); // Use query() to page through larger result sets
+
+    // Retrievals wrap each item as { data, type }
+    this.recordAccess(ranked.map(({ result }) => result.data ?? result));
+    return ranked.map(({ result, relevanceScore }) => ({ ...result, relevanceScore }));
+  }
+
+  private recordAccess(items: unknown[]): void {
+    const now = Date.now();
+    items.forEach(item => {
+      if (item && typeof item === 'object') {
+        this.accessCounts.set(item, (this.accessCounts.get(item) || 0) + 1);
+        this.lastAccess.set(item, now);
+      }
+    });
+    if (items.length > 0) this.lastActivityAt = now;
   }
 
   private calculateRelevance(result: any, query: any): number {
@@ -359,35 +989,338 @@ export class MemoryManager {
     return Math.min(score, 1.0);
   }
 
-  public async consolidate(): Promise<void> {
+  public onExpiry(handler: (events: MemoryExpiryEvent[]) => void): string {
+    const handlerId = uuidv4();
+    this.expiryHandlers.set(handlerId, handler);
+    return handlerId;
+  }
+
+  public offExpiry(handlerId: string): void {
+    this.expiryHandlers.delete(handlerId);
+  }
+
+  /**
+   * Drop short-term items whose TTL has passed. Slots from expiring conversation contexts are
+   * promoted into the lead's customer profile first, if this agent has one. Returns the events
+   * it emitted, one per item.
+   */
+  public async sweepExpired(now: Date = new Date()): Promise<MemoryExpiryEvent[]> {
+    const shortTerm = this.memory.shortTerm;
+    const events: MemoryExpiryEvent[] = [];
+
+    shortTerm.currentContext = this.prune(shortTerm.currentContext, context => {
+      if (!this.isExpired(context, now)) return true;
+      events.push(this.retireContext(context, 'expired', now));
+      return false;
+    });
+    shortTerm.activeLeads = this.dropExpired(shortTerm.activeLeads, 'lead', now, events);
+    shortTerm.recentActions = this.dropExpired(shortTerm.recentActions, 'action', now, events);
+
+    Object.entries(shortTerm.workingMemory).forEach(([key, value]) => {
+      if (this.isExpired(value, now)) {
+        delete shortTerm.workingMemory[key];
+        events.push(this.expiryEvent(key, value, 'expired', now));
+      }
+    });
+
+    if (events.length > 0 && !this.replaying) {
+      // Sweeps change memory, so they are logged like consolidations and replayed at the same clock time
+      await this.persistence.append(this.storageKey, { kind: 'expire', timestamp: now });
+      this.emitExpiry(events);
+    }
+
+    return events;
+  }
+
+  private isExpired(item: ExpiringItem | null, now: Date): boolean {
+    return !!item?.expiresAt && new Date(item.expiresAt).getTime() <= now.getTime();
+  }
+
+  private dropExpired<T extends object>(items: T[], type: string, now: Date, events: MemoryExpiryEvent[]): T[] {
+    return this.prune(items, item => {
+      if (!this.isExpired(item, now)) return true;
+      events.push(this.expiryEvent(type, item, 'expired', now));
+      return false;
+    });
+  }
+
+  private retireContext(context: ConversationContext, reason: MemoryExpiryEvent['reason'], now: Date): MemoryExpiryEvent {
+    return { ...this.expiryEvent('context', context, reason, now), ...this.promoteSlots(context) };
+  }
+
+  private expiryEvent(type: string, item: ExpiringItem | null, reason: MemoryExpiryEvent['reason'], now: Date): MemoryExpiryEvent {
+    return {
+      agentId: this.agentId,
+      type,
+      itemId: item?.id,
+      leadId: item?.leadId ?? (type === 'lead' ? item?.id : undefined),
+      reason,
+      expiresAt: item?.expiresAt ? new Date(item.expiresAt) : undefined,
+      promotedSlots: [],
+      timestamp: now
+    };
+  }
+
+  private emitExpiry(events: MemoryExpiryEvent[]): void {
+    if (events.length === 0 || this.replaying) return;
+
+    this.expiryHandlers.forEach((handler, handlerId) => {
+      try {
+        handler(events);
+      } catch (error) {
+        console.error(`Memory expiry handler ${handlerId} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Copy a context's non-empty slots into its lead's customer profile. Slots naming a preference
+   * fill that field; the rest are kept in preferences.slots. A lead this agent has no profile for
+   * gets none made up: its slots travel on the expiry event instead.
+   */
+  private promoteSlots(context: ConversationContext): Pick<MemoryExpiryEvent, 'promotedSlots' | 'unpromotedSlots'> {
+    const useful = Object.entries(context.slots || {}).filter(([, value]) =>
+      value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+    );
+    if (useful.length === 0 || !context.leadId) return { promotedSlots: [] };
+
+    const profile: CustomerProfile | undefined = this.index.lookup('id', context.leadId, ['customer_profile'])[0]?.item as CustomerProfile | undefined;
+    if (!profile) {
+      return { promotedSlots: [], unpromotedSlots: Object.fromEntries(useful) };
+    }
+
+    const preferences = profile.preferences;
+    useful.forEach(([slot, value]) => {
+      const field = MemoryManager.PREFERENCE_SLOTS[slot];
+
+      if (field === 'communicationChannel' || field === 'contentTypes' || field === 'topics') {
+        const values = (Array.isArray(value) ? value : [value]).map(String);
+        preferences[field] = Array.from(new Set([...(preferences[field] || []), ...values]));
+      } else if (field) {
+        preferences[field] = String(value);
+      } else {
+        if (slot === 'company' && !profile.company) profile.company = String(value);
+        preferences.slots = { ...preferences.slots, [slot]: value };
+      }
+    });
+    this.index.add('long', 'customer_profile', profile);
+
+    return { promotedSlots: useful.map(([slot]) => slot) };
+  }
+
+  private skeletonProfile(leadId: string): CustomerProfile {
+    return {
+      id: leadId,
+      email: '', // Would be populated from lead data
+      name: '',
+      interactionHistory: [],
+      segmentTags: [],
+      lifetimeValue: 0,
+      lastEngagement: new Date(),
+      company: undefined,
+      industry: undefined,
+      preferences: {
+        communicationChannel: ['email'],
+        contentTypes: ['text'],
+        frequency: 'weekly',
+        topics: [],
+        timezone: 'UTC'
+      }
+    };
+  }
+
+  /**
+   * Bytes held per tier and collection type. Shared knowledge is not counted against the agent.
+   */
+  public getUsage(): MemoryUsage {
+    return this.index.usage();
+  }
+
+  public onEviction(handler: (events: MemoryEvictionEvent[]) => void): string {
+    const handlerId = uuidv4();
+    this.evictionHandlers.set(handlerId, handler);
+    return handlerId;
+  }
+
+  public offEviction(handlerId: string): void {
+    this.evictionHandlers.delete(handlerId);
+  }
+
+  /**
+   * The latest evictions, newest first
+   */
+  public getRecentEvictions(limit: number = 50): MemoryEvictionEvent[] {
+    return this.recentEvictions.slice(0, limit);
+  }
+
+  /**
+   * Evict items from any tier over its byte quota, then from the whole memory if the agent is
+   * over its own. Evictions are not logged: the next snapshot (a consolidation, or the log growing
+   * due for compaction) records them, and until then a restore replays the stores and enforces
+   * the quota again. Which items go depends on reads the log does not record, so that replay may
+   * pick other victims of the same kind.
+   */
+  private async enforceQuota(): Promise<MemoryEvictionEvent[]> {
+    if (this.replaying) return [];
+
+    const { maxBytes, tiers } = this.policy.quota;
+    const events: MemoryEvictionEvent[] = [];
+    let usage = this.index.usage();
+
+    (Object.entries(tiers) as Array<[MemoryTier, number | null]>).forEach(([tier, quota]) => {
+      if (quota !== null && usage.tiers[tier] > quota) {
+        events.push(...this.evict(usage.tiers[tier] - quota * (1 - MemoryManager.EVICTION_HEADROOM), 'tier', tier));
+      }
+    });
+
+    usage = this.index.usage();
+    if (maxBytes !== null && usage.totalBytes > maxBytes) {
+      events.push(...this.evict(usage.totalBytes - maxBytes * (1 - MemoryManager.EVICTION_HEADROOM), 'agent'));
+    }
+
+    if (events.length > 0) {
+      this.recentEvictions = [...[...events].reverse(), ...this.recentEvictions].slice(0, MemoryManager.MAX_RECENT_EVICTIONS);
+      this.evictionHandlers.forEach((handler, handlerId) => {
+        try {
+          handler(events);
+        } catch (error) {
+          console.error(`Memory eviction handler ${handlerId} failed:`, error);
+        }
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Drop items until at least `bytes` are freed: derived items first, since consolidation can
+   * rebuild them, and records loaded from a dataset last. Within each group the policy's
+   * eviction order applies.
+   */
+  private evict(bytes: number, quota: MemoryEvictionEvent['quota'], tier?: MemoryTier): MemoryEvictionEvent[] {
+    const { strategy } = this.policy.quota;
+    const collections = this.getCollections().filter(collection => !tier || collection.tier === tier);
+
+    const candidates = collections
+      .flatMap(collection => collection.items.map(item => ({
+        collection,
+        item,
+        retention: this.evictionRetention(item),
+        rank: this.evictionRank(item, strategy)
+      })))
+      .sort((a, b) => a.retention - b.retention || a.rank - b.rank);
+
+    const victims = new Set<object>();
+    const events: MemoryEvictionEvent[] = [];
+    let freed = 0;
+    for (const { collection, item } of candidates) {
+      if (freed >= bytes) break;
+      const size = this.index.bytesOf(item);
+      freed += size;
+      victims.add(item);
+      events.push({
+        agentId: this.agentId,
+        tier: collection.tier,
+        type: collection.type,
+        itemId: item?.id,
+        bytes: size,
+        strategy,
+        quota,
+        timestamp: new Date()
+      });
+    }
+
+    // Compact in place: the collection arrays are shared with the agent's memory view
+    collections.forEach(({ items }) => {
+      let kept = 0;
+      items.forEach(item => {
+        if (victims.has(item)) {
+          this.index.remove(item);
+        } else {
+          items[kept++] = item;
+        }
+      });
+      items.length = kept;
+    });
+
+    return events;
+  }
+
+  /**
+   * 0 for items derived by consolidation, 2 for items imported from a dataset, 1 for the rest
+   */
+  private evictionRetention(item: { provenance?: MemoryProvenance } | null): number {
+    const provenance = item?.provenance;
+    // Derived items carry their sources' dataset rows too, so check for a run first
+    if (provenance?.consolidationRunId) return 0;
+    return provenance?.datasetSources?.length ? 2 : 1;
+  }
+
+  /**
+   * Lower ranks are evicted first
+   */
+  private evictionRank(item: object, strategy: EvictionStrategy): number {
+    const stored = MemoryQueryEngine.timestampOf(item)?.getTime() ?? 0;
+
+    switch (strategy) {
+      case 'oldest':
+        return stored;
+      case 'lowest_relevance': {
+        const { confidence, impact, strength, score, priority } =
+          item as Partial<Record<'confidence' | 'impact' | 'strength' | 'score' | 'priority', number>>;
+        const base = [confidence, impact, strength, (score ?? NaN) / 100, (priority ?? NaN) / 10]
+          .find(value => typeof value === 'number' && !isNaN(value)) ?? 0.5;
+        return base * (1 + Math.log2(1 + (this.accessCounts.get(item) || 0)));
+      }
+      default:
+        return this.lastAccess.get(item) ?? stored;
+    }
+  }
+
+  /**
+   * Move, derive and decay memories. Everything derived is stamped with `runId` in its provenance;
+   * replays pass the logged id so restored lineage matches the original run.
+   */
+  public async consolidate(runId: string = uuidv4()): Promise<void> {
     console.log(`Starting memory consolidation for agent ${this.agentId}`);
 
     // Move important short-term memories to long-term
-    await this.consolidateShortToLong();
+    await this.consolidateShortToLong(runId);
 
     // Extract patterns from episodic memories
-    await this.extractPatternsFromEpisodic();
+    await this.extractPatternsFromEpisodic(runId);
 
     // Update semantic knowledge based on new learnings
-    await this.updateSemanticKnowledge();
+    await this.updateSemanticKnowledge(runId);
 
     // Apply memory decay to reduce noise
     await this.applyMemoryDecay();
 
+    this.enforceTierCapacity();
+    this.lastConsolidatedAt = Date.now();
+    this.storesSinceConsolidation = 0;
+
     console.log(`Memory consolidation completed for agent ${this.agentId}`);
+
+    // Decay and derived items depend on the clock and on access history, so re-running a consolidation
+    // on restore would not rebuild this memory; persist its result as a snapshot instead
+    if (!this.replaying) {
+      await this.persistence.compact(this.storageKey, this.memory).catch(async error => {
+        console.warn(`Logging consolidation ${runId} for replay; agent ${this.agentId} memory could not be snapshotted:`, error);
+        await this.persistence.append(this.storageKey, { kind: 'consolidate', timestamp: new Date(), runId });
+      });
+    }
   }
 
-  private async consolidateShortToLong(): Promise<void> {
+  private async consolidateShortToLong(runId: string): Promise<void> {
     // Move frequently accessed or important short-term items to long-term storage
     const importantContexts = this.memory.shortTerm.currentContext.filter(context => 
       context.priority > 7 || context.messages.length > 10
     );
 
     importantContexts.forEach(context => {
-      this.memory.longTerm.customerProfiles.push({
-        id: context.leadId,
-        email: '', // Would be populated from lead data
-        name: '',
+      this.insert('long', 'customer_profile', this.memory.longTerm.customerProfiles, {
+        ...this.skeletonProfile(context.leadId),
         interactionHistory: context.messages.map(msg => ({
           id: msg.id,
           customerId: context.leadId,
@@ -399,45 +1332,50 @@ export class MemoryManager {
           timestamp: msg.timestamp,
           metadata: msg.metadata
         })),
-        segmentTags: [],
-        lifetimeValue: 0,
-        lastEngagement: new Date(),
-        company: undefined,
-        industry: undefined,
-        preferences: {
-          communicationChannel: ['email'],
-          contentTypes: ['text'],
-          frequency: 'weekly',
-          topics: [],
-          timezone: 'UTC'
-        }
+        provenance: this.derivedProvenance(runId, [context])
       });
     });
 
     // Clear consolidated items from short-term memory
-    this.memory.shortTerm.currentContext = this.memory.shortTerm.currentContext.filter(context => 
+    this.memory.shortTerm.currentContext = this.prune(this.memory.shortTerm.currentContext, context => 
       context.priority <= 7 && context.messages.length <= 10
     );
   }
 
-  private async extractPatternsFromEpisodic(): Promise<void> {
+  private async extractPatternsFromEpisodic(runId: string): Promise<void> {
     const interactions = this.memory.episodic.successfulInteractions;
     const outcomes = this.memory.episodic.decisionOutcomes;
 
     // Extract successful interaction patterns
-    const interactionPatterns = this.findInteractionPatterns(interactions);
-    interactionPatterns.forEach(pattern => {
-      this.memory.longTerm.learningPatterns.push(pattern);
-    });
+    const interactionPatterns = this.findInteractionPatterns(interactions, runId);
+    interactionPatterns.forEach(pattern => this.upsertPattern(pattern));
 
     // Extract decision patterns
-    const decisionPatterns = this.findDecisionPatterns(outcomes);
-    decisionPatterns.forEach(pattern => {
-      this.memory.longTerm.learningPatterns.push(pattern);
-    });
+    const decisionPatterns = this.findDecisionPatterns(outcomes, runId);
+    decisionPatterns.forEach(pattern => this.upsertPattern(pattern));
+  }
+
+  /**
+   * Patterns are recomputed from all of episodic memory on every run, so a pattern already
+   * learned is replaced (keeping its id) rather than stored again
+   */
+  private upsertPattern(pattern: LearningPattern): void {
+    const patterns = this.memory.longTerm.learningPatterns;
+    const position = patterns.findIndex(existing => existing.pattern === pattern.pattern);
+    if (position === -1) {
+      this.insert('long', 'learning_pattern', patterns, pattern);
+      return;
+    }
+
+    const previous = patterns[position];
+    const updated = { ...pattern, id: previous.id };
+    this.index.remove(previous);
+    patterns[position] = updated;
+    this.index.add('long', 'learning_pattern', updated);
+    this.lastAccess.set(updated, Date.now());
   }
 
-  private findInteractionPatterns(interactions: any[]): LearningPattern[] {
+  private findInteractionPatterns(interactions: any[], runId: string): LearningPattern[] {
     const patterns: LearningPattern[] = [];
     const patternMap = new Map<string, any>();
 
@@ -450,7 +1388,8 @@ export class MemoryManager {
           outcome: interaction.outcome,
           count: 0,
           successCount: 0,
-          contexts: []
+          contexts: [],
+          sources: []
         });
       }
 
@@ -462,6 +1401,7 @@ export class MemoryManager {
       }
       
       pattern.contexts.push(interaction.metadata);
+      pattern.sources.push(interaction);
     });
 
     patternMap.forEach((patternData, key) => {
@@ -473,7 +1413,10 @@ export class MemoryManager {
           applications: patternData.count,
           successRate: patternData.successCount / patternData.count,
           lastUsed: new Date(),
-          context: patternData.contexts.map((ctx: any) => JSON.stringify(ctx))
+          context: patternData.contexts
+            .slice(-MemoryManager.MAX_PATTERN_CONTEXTS)
+            .map((ctx: unknown) => JSON.stringify(ctx)),
+          provenance: this.derivedProvenance(runId, patternData.sources)
         });
       }
     });
@@ -481,7 +1424,7 @@ export class MemoryManager {
     return patterns;
   }
 
-  private findDecisionPatterns(outcomes: any[]): LearningPattern[] {
+  private findDecisionPatterns(outcomes: any[], runId: string): LearningPattern[] {
     const patterns: LearningPattern[] = [];
     const decisionMap = new Map<string, any>();
 
@@ -493,12 +1436,14 @@ export class MemoryManager {
           decision: key,
           count: 0,
           successCount: 0,
-          impacts: []
+          impacts: [],
+          sources: []
         });
       }
 
       const pattern = decisionMap.get(key);
       pattern.count++;
+      pattern.sources.push(outcome);
       
       if (outcome.success || outcome.impact > 0) {
         pattern.successCount++;
@@ -519,7 +1464,8 @@ export class MemoryManager {
           applications: patternData.count,
           successRate: patternData.successCount / patternData.count,
           lastUsed: new Date(),
-          context: [`average_impact:${avgImpact}`]
+          context: [`average_impact:${avgImpact}`],
+          provenance: this.derivedProvenance(runId, patternData.sources)
         });
       }
     });
@@ -527,7 +1473,10 @@ export class MemoryManager {
     return patterns;
   }
 
-  private async updateSemanticKnowledge(): Promise<void> {
+  private async updateSemanticKnowledge(runId: string): Promise<void> {
+    // The shared store logs its own writes, so replayed consolidations leave it alone
+    if (this.sharedSemantic && this.replaying) return;
+
     // Update knowledge nodes based on new learnings
     const recentLearnings = this.memory.episodic.contextualLearnings
       .filter(learning => {
@@ -535,33 +1484,47 @@ export class MemoryManager {
         return age < 7 * 24 * 60 * 60 * 1000; // Last 7 days
       });
 
-    recentLearnings.forEach(learning => {
+    for (const learning of recentLearnings) {
       // Create or update knowledge nodes
-      const existingNode = this.memory.semantic.domainKnowledge.find(node => 
+      const existingNode = this.knowledgeNodes().find(node => 
         node.concept === learning.context
       );
 
-      if (existingNode) {
+      if (this.sharedSemantic) {
+        // Raise this agent's own confidence in the concept; the store averages it with everyone else's
+        const own = existingNode && this.sharedSemantic.contributionTo(existingNode);
+        await this.sharedSemantic.writeNode({
+          id: existingNode?.id || uuidv4(),
+          concept: learning.context,
+          description: learning.learning,
+          relationships: [],
+          confidence: own ? Math.min(own.value + 0.1, 1.0) : learning.confidence,
+          lastUpdated: new Date(),
+          provenance: this.derivedProvenance(runId, [learning])
+        });
+      } else if (existingNode) {
         existingNode.confidence = Math.min(existingNode.confidence + 0.1, 1.0);
         existingNode.lastUpdated = new Date();
+        existingNode.provenance = this.combineProvenance(existingNode.provenance, this.derivedProvenance(runId, [learning]));
       } else {
-        this.memory.semantic.domainKnowledge.push({
+        this.insert('semantic', 'domain_knowledge', this.memory.semantic.domainKnowledge, {
           id: uuidv4(),
           concept: learning.context,
           description: learning.learning,
           relationships: [],
           confidence: learning.confidence,
-          lastUpdated: new Date()
+          lastUpdated: new Date(),
+          provenance: this.derivedProvenance(runId, [learning])
         });
       }
-    });
+    }
 
     // Update relationships between concepts
-    await this.updateConceptRelationships();
+    await this.updateConceptRelationships(runId);
   }
 
-  private async updateConceptRelationships(): Promise<void> {
-    const concepts = this.memory.semantic.domainKnowledge;
+  private async updateConceptRelationships(runId: string): Promise<void> {
+    const concepts = this.knowledgeNodes();
     
     // Find related concepts and create relationships
     for (let i = 0; i < concepts.length; i++) {
@@ -578,17 +1541,21 @@ export class MemoryManager {
             metadata: {
               createdAt: new Date(),
               agentId: this.agentId
-            }
+            },
+            provenance: this.derivedProvenance(runId, [concepts[i], concepts[j]])
           };
 
           // Check if relationship already exists
-          const existingRelationship = this.memory.semantic.relationships.find(rel => 
+          const existingRelationship = this.knowledgeEdges().find(rel => 
             (rel.source === relationship.source && rel.target === relationship.target) ||
             (rel.source === relationship.target && rel.target === relationship.source)
           );
 
-          if (!existingRelationship) {
-            this.memory.semantic.relationships.push(relationship);
+          if (existingRelationship) continue;
+          if (this.sharedSemantic) {
+            await this.sharedSemantic.writeRelationship(relationship);
+          } else {
+            this.insert('semantic', 'relationship', this.memory.semantic.relationships, relationship);
           }
         }
       }
@@ -613,61 +1580,167 @@ export class MemoryManager {
   }
 
   private async applyMemoryDecay(): Promise<void> {
+    const { patternGraceDays, knowledgeGraceDays, minConfidence } = this.policy.decay;
+
     // Apply decay to learning patterns
     this.memory.longTerm.learningPatterns.forEach(pattern => {
       const age = Date.now() - new Date(pattern.lastUsed).getTime();
       const daysSinceUse = age / (1000 * 60 * 60 * 24);
       
-      if (daysSinceUse > 30) {
-        pattern.confidence *= this.MEMORY_DECAY_FACTOR;
+      if (daysSinceUse > patternGraceDays) {
+        pattern.confidence = this.decayedConfidence(pattern.confidence, pattern);
       }
     });
 
     // Remove very low confidence patterns
-    this.memory.longTerm.learningPatterns = this.memory.longTerm.learningPatterns.filter(
-      pattern => pattern.confidence > 0.1
+    this.memory.longTerm.learningPatterns = this.prune(
+      this.memory.longTerm.learningPatterns,
+      pattern => pattern.confidence > minConfidence
     );
 
     // Apply decay to semantic knowledge
-    this.memory.semantic.domainKnowledge.forEach(node => {
+    const staleNodes = this.knowledgeNodes().filter(node => {
       const age = Date.now() - new Date(node.lastUpdated).getTime();
       const daysSinceUpdate = age / (1000 * 60 * 60 * 24);
-      
-      if (daysSinceUpdate > 60) {
-        node.confidence *= this.MEMORY_DECAY_FACTOR;
+      return daysSinceUpdate > knowledgeGraceDays;
+    });
+
+    if (!this.sharedSemantic) {
+      staleNodes.forEach(node => {
+        node.confidence = this.decayedConfidence(node.confidence, node);
+      });
+      return;
+    }
+
+    // Shared knowledge only decays this agent's own contribution to it
+    if (this.replaying) return;
+    for (const node of staleNodes) {
+      const own = this.sharedSemantic.contributionTo(node);
+      if (!own) continue;
+      await this.sharedSemantic.writeNode({
+        id: node.id,
+        concept: node.concept,
+        description: node.description,
+        relationships: [],
+        confidence: this.decayedConfidence(own.value, node),
+        lastUpdated: node.lastUpdated
+      });
+    }
+  }
+
+  /**
+   * One consolidation's worth of decay under the policy's curve
+   */
+  private decayedConfidence(confidence: number, item: object): number {
+    const { curve, factor, linearRate } = this.policy.decay;
+
+    switch (curve) {
+      case 'linear':
+        return Math.max(0, confidence - linearRate);
+      case 'access_weighted': {
+        // Unread items decay at the full factor; every doubling of reads slows the decay further
+        const reads = this.accessCounts.get(item) || 0;
+        return confidence * Math.pow(factor, 1 / (1 + Math.log2(1 + reads)));
       }
+      default:
+        return confidence * factor;
+    }
+  }
+
+  /**
+   * Trim long-term, episodic and semantic collections to the policy's capacity, dropping the oldest items
+   */
+  private enforceTierCapacity(): void {
+    const { capacity } = this.policy;
+    const caps: Partial<Record<MemoryTier, number | null>> = {
+      long: capacity.longTerm,
+      episodic: capacity.episodic,
+      semantic: capacity.semantic
+    };
+
+    this.getCollections().forEach(({ tier, items }) => {
+      const cap = caps[tier];
+      if (cap === null || cap === undefined || items.length <= cap) return;
+
+      const oldest = new Set(
+        items
+          .map(item => ({ item, time: MemoryQueryEngine.timestampOf(item)?.getTime() ?? 0 }))
+          .sort((a, b) => a.time - b.time)
+          .slice(0, items.length - cap)
+          .map(({ item }) => item)
+      );
+
+      // Compact in place: the collection arrays are shared with the agent's memory view
+      let kept = 0;
+      items.forEach(item => {
+        if (oldest.has(item)) {
+          this.index.remove(item);
+        } else {
+          items[kept++] = item;
+        }
+      });
+      items.length = kept;
     });
   }
 
   private async enforceShortTermLimits(): Promise<void> {
     // Limit current context
-    if (this.memory.shortTerm.currentContext.length > this.MAX_SHORT_TERM_ITEMS) {
-      this.memory.shortTerm.currentContext = this.memory.shortTerm.currentContext
-        .sort((a, b) => b.priority - a.priority)
-        .slice(0, this.MAX_SHORT_TERM_ITEMS);
+    if (this.memory.shortTerm.currentContext.length > this.policy.capacity.shortTerm) {
+      // Among equal priorities, keep the contexts that would live longest anyway
+      const ranked = this.memory.shortTerm.currentContext.sort((a, b) =>
+        b.priority - a.priority || this.expiryTime(b) - this.expiryTime(a)
+      );
+      const evicted = ranked.slice(this.policy.capacity.shortTerm);
+
+      this.memory.shortTerm.currentContext = this.keepFirst(ranked, this.policy.capacity.shortTerm);
+      this.emitExpiry(evicted.map(context => this.retireContext(context, 'evicted', new Date())));
     }
 
     // Limit active leads
-    if (this.memory.shortTerm.activeLeads.length > this.MAX_SHORT_TERM_ITEMS) {
-      this.memory.shortTerm.activeLeads = this.memory.shortTerm.activeLeads
-        .sort((a, b) => b.score - a.score)
-        .slice(0, this.MAX_SHORT_TERM_ITEMS);
+    if (this.memory.shortTerm.activeLeads.length > this.policy.capacity.shortTerm) {
+      this.memory.shortTerm.activeLeads = this.keepFirst(
+        this.memory.shortTerm.activeLeads.sort((a, b) => b.score - a.score),
+        this.policy.capacity.shortTerm
+      );
     }
 
     // Limit recent actions
-    if (this.memory.shortTerm.recentActions.length > this.MAX_SHORT_TERM_ITEMS) {
-      this.memory.shortTerm.recentActions = this.memory.shortTerm.recentActions
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, this.MAX_SHORT_TERM_ITEMS);
+    if (this.memory.shortTerm.recentActions.length > this.policy.capacity.shortTerm) {
+      this.memory.shortTerm.recentActions = this.keepFirst(
+        this.memory.shortTerm.recentActions.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+        this.policy.capacity.shortTerm
+      );
     }
   }
 
-  private shouldConsolidate(): boolean {
+  private expiryTime(item: { expiresAt?: Date }): number {
+    return item.expiresAt ? new Date(item.expiresAt).getTime() : Number.MAX_SAFE_INTEGER;
+  }
+
+  private keepFirst<T extends object>(items: T[], count: number): T[] {
+    items.slice(count).forEach(item => this.index.remove(item));
+    return items.slice(0, count);
+  }
+
+  private shouldConsolidate(now: number): boolean {
+    const { enabled, triggers } = this.policy.consolidation;
+    if (!enabled) return false;
+
     const shortTermSize = this.memory.shortTerm.currentContext.length + 
                          this.memory.shortTerm.activeLeads.length + 
                          this.memory.shortTerm.recentActions.length;
-    
-    return shortTermSize > this.CONSOLIDATION_THRESHOLD;
+
+    return triggers.some(trigger => {
+      switch (trigger.kind) {
+        case 'count':
+          // Consolidation doesn't drain every short-term collection, so also wait for that many new stores
+          return shortTermSize > trigger.threshold && this.storesSinceConsolidation >= trigger.threshold;
+        case 'time':
+          return now - this.lastConsolidatedAt >= trigger.intervalMs;
+        case 'idle':
+          return this.storesSinceConsolidation > 0 && now - this.lastActivityAt >= trigger.idleMs;
+      }
+    });
   }
 
   public getMemoryStats(): Record<string, number> {
@@ -683,13 +1756,127 @@ export class MemoryManager {
                     this.memory.episodic.problemResolutions.length + 
                     this.memory.episodic.decisionOutcomes.length + 
                     this.memory.episodic.contextualLearnings.length,
-      semanticItems: this.memory.semantic.domainKnowledge.length + 
-                    this.memory.semantic.relationships.length + 
+      semanticItems: this.knowledgeNodes().length + 
+                    this.knowledgeEdges().length + 
                     this.memory.semantic.concepts.length + 
                     this.memory.semantic.rules.length
     };
   }
 
+  /**
+   * Walk an item's lineage back through the items it was derived or merged from.
+   * Returns null when no item with that id is in memory.
+   */
+  public getLineage(itemId: string, maxDepth: number = 5): MemoryLineage | null {
+    if (!this.locate(itemId)) return null;
+
+    const lineage: MemoryLineage = { root: this.lineageNode(itemId), actionIds: [], datasetSources: [], consolidationRuns: [] };
+    const actionIds = new Set<string>();
+    const datasetSources = new Map<string, DatasetSource>();
+    const runs = new Set<string>();
+    const visited = new Set<string>();
+
+    const walk = (node: MemoryLineageNode, depth: number) => {
+      const provenance = node.provenance;
+      provenance?.sourceActionIds?.forEach(id => actionIds.add(id));
+      provenance?.datasetSources?.forEach(source => datasetSources.set(`${source.file}:${source.row ?? ''}`, source));
+      if (provenance?.consolidationRunId) runs.add(provenance.consolidationRunId);
+
+      // Shared ancestors are listed wherever they appear but only expanded once
+      if (visited.has(node.id) || depth >= maxDepth) return;
+      visited.add(node.id);
+
+      const parents: Array<[string, 'derived' | 'merged']> = [
+        ...(provenance?.derivedFrom || []).map(id => [id, 'derived'] as [string, 'derived']),
+        ...(provenance?.mergedFrom || []).map(id => [id, 'merged'] as [string, 'merged'])
+      ];
+      node.parents = parents.map(([id, relation]) => ({ ...this.lineageNode(id), relation }));
+      node.parents.forEach(parent => walk(parent, depth + 1));
+    };
+
+    walk(lineage.root, 0);
+    lineage.actionIds = Array.from(actionIds);
+    lineage.datasetSources = Array.from(datasetSources.values());
+    lineage.consolidationRuns = Array.from(runs);
+    return lineage;
+  }
+
+  private lineageNode(id: string): MemoryLineageNode {
+    const hit = this.locate(id);
+    if (!hit) return { id, parents: [] };
+    return { id, tier: hit.tier, type: hit.type, item: hit.item, provenance: (hit.item as { provenance?: MemoryProvenance }).provenance, parents: [] };
+  }
+
+  /**
+   * An item by id, in this agent's memory or the shared knowledge it can read
+   */
+  private locate(id: string): IndexedItem | undefined {
+    const [hit] = this.index.lookup('id', id);
+    if (hit) return hit;
+    return this.sharedCollections()
+      .flatMap(({ tier, type, items }) => items.filter(item => item.id === id).map(item => ({ tier, type, item })))[0];
+  }
+
+  /**
+   * Provenance for an item a consolidation run derived from `sources`. Action ids and dataset
+   * rows are carried up so they survive the sources being evicted later.
+   */
+  private derivedProvenance(runId: string, sources: Array<{ id?: string; provenance?: MemoryProvenance }>): MemoryProvenance {
+    return {
+      agentId: this.agentId,
+      consolidationRunId: runId,
+      derivedFrom: this.capLineage(sources.map(source => source.id)),
+      sourceActionIds: this.capLineage(sources.flatMap(source => source.provenance?.sourceActionIds || [])),
+      datasetSources: this.capLineage(sources.flatMap(source => source.provenance?.datasetSources || []))
+    };
+  }
+
+  /**
+   * Provenance for an item that absorbed `sources`, which are about to leave memory
+   */
+  private mergedProvenance(
+    base: MemoryProvenance | undefined,
+    sources: Array<{ id?: string; provenance?: MemoryProvenance }>
+  ): MemoryProvenance {
+    return sources.reduce<MemoryProvenance>((provenance, source) => {
+      const mergedFrom = [source.id, ...(source.provenance?.mergedFrom || [])].filter((id): id is string => !!id);
+      // Keep the absorbing item's own run; the sources' runs stay reachable through their lineage
+      return this.combineProvenance(provenance, { ...source.provenance, consolidationRunId: undefined, mergedFrom });
+    }, base || { agentId: this.agentId });
+  }
+
+  private combineProvenance(base: MemoryProvenance | undefined, extra: MemoryProvenance): MemoryProvenance {
+    const union = <T>(a: T[] = [], b: T[] = []) => {
+      const values = this.capLineage([...a, ...b]);
+      return values.length > 0 ? values : undefined;
+    };
+
+    return {
+      agentId: base?.agentId ?? extra.agentId,
+      consolidationRunId: base?.consolidationRunId ?? extra.consolidationRunId,
+      sourceActionIds: union(base?.sourceActionIds, extra.sourceActionIds),
+      datasetSources: union(base?.datasetSources, extra.datasetSources),
+      derivedFrom: union(base?.derivedFrom, extra.derivedFrom),
+      mergedFrom: union(base?.mergedFrom, extra.mergedFrom)
+    };
+  }
+
+  /**
+   * Drop blanks and duplicates, keeping the most recent entries
+   */
+  private capLineage<T>(values: Array<T | undefined>): T[] {
+    const seen = new Set<string>();
+    const unique: T[] = [];
+    for (let i = values.length - 1; i >= 0 && unique.length < MemoryManager.MAX_LINEAGE_IDS; i--) {
+      const value = values[i];
+      const key = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      if (value === undefined || value === null || seen.has(key)) continue;
+      seen.add(key);
+      unique.push(value);
+    }
+    return unique.reverse();
+  }
+
   public async compressMemory(): Promise<void> {
     // Compress episodic memories by summarizing similar events
     await this.compressEpisodicMemory();
@@ -712,17 +1899,21 @@ export class MemoryManager {
         const summary = this.createInteractionSummary(group);
         
         // Remove individual interactions
-        this.memory.episodic.successfulInteractions = this.memory.episodic.successfulInteractions
-          .filter(interaction => !group.includes(interaction));
+        this.memory.episodic.successfulInteractions = this.prune(
+          this.memory.episodic.successfulInteractions,
+          interaction => !group.includes(interaction)
+        );
         
         // Add summary
-        this.memory.episodic.contextualLearnings.push({
+        this.insert('episodic', 'contextual_learning', this.memory.episodic.contextualLearnings, {
           id: uuidv4(),
           context: key,
           learning: summary.pattern,
           confidence: summary.confidence,
           applications: group.length,
-          timestamp: new Date()
+          timestamp: new Date(),
+          // The summarized interactions are dropped, so they are merged rather than derived from
+          provenance: this.mergedProvenance(undefined, group)
         });
       }
     });
@@ -761,8 +1952,11 @@ export class MemoryManager {
   }
 
   private async mergeSemanticConcepts(): Promise<void> {
+    // The shared store merges concepts as they are written
+    if (this.sharedSemantic) return;
+
     const concepts = this.memory.semantic.domainKnowledge;
-    const toMerge: Array<[number, number]> = [];
+    const toMerge: Array<[KnowledgeNode, KnowledgeNode]> = [];
 
     // Find concepts that should be merged
     for (let i = 0; i < concepts.length; i++) {
@@ -770,16 +1964,15 @@ export class MemoryManager {
         const similarity = this.calculateConceptSimilarity(concepts[i], concepts[j]);
         
         if (similarity > 0.8) {
-          toMerge.push([i, j]);
+          toMerge.push([concepts[i], concepts[j]]);
         }
       }
     }
 
-    // Merge similar concepts
-    toMerge.reverse().forEach(([i, j]) => {
-      const concept1 = concepts[i];
-      const concept2 = concepts[j];
-      
+    // Merge similar concepts. Pairs hold the nodes rather than positions, since each merge shifts the array.
+    toMerge.reverse().forEach(([concept1, concept2]) => {
+      if (!concepts.includes(concept1) || !concepts.includes(concept2)) return;
+
       // Merge into the more confident concept
       const target = concept1.confidence >= concept2.confidence ? concept1 : concept2;
       const source = concept1.confidence >= concept2.confidence ? concept2 : concept1;
@@ -787,17 +1980,21 @@ export class MemoryManager {
       target.description += ` ${source.description}`;
       target.confidence = Math.max(target.confidence, source.confidence);
       target.relationships.push(...source.relationships);
+      target.provenance = this.mergedProvenance(target.provenance, [source]);
       
       // Remove the merged concept
-      concepts.splice(Math.max(i, j), 1);
+      concepts.splice(concepts.indexOf(source), 1).forEach(removed => this.index.remove(removed));
     });
   }
 
   private async cleanupRelationships(): Promise<void> {
+    // The shared store never holds duplicate edges, and other agents' edges are not ours to drop
+    if (this.sharedSemantic) return;
+
     // Remove relationships pointing to non-existent concepts
     const conceptIds = new Set(this.memory.semantic.domainKnowledge.map(node => node.id));
     
-    this.memory.semantic.relationships = this.memory.semantic.relationships.filter(rel => 
+    this.memory.semantic.relationships = this.prune(this.memory.semantic.relationships, rel => 
       conceptIds.has(rel.source) && conceptIds.has(rel.target)
     );
 
@@ -813,6 +2010,7 @@ export class MemoryManager {
       }
     });
 
-    this.memory.semantic.relationships = Array.from(uniqueRelationships.values());
+    const unique = new Set(uniqueRelationships.values());
+    this.memory.semantic.relationships = this.prune(this.memory.semantic.relationships, rel => unique.has(rel));
   }
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MEMORY_POLICY, MemoryPolicy, mergeMemoryPolicy, validateMemoryPolicy } from './MemoryPolicy';
+
+describe('mergeMemoryPolicy', () => {
+  it('patches nested fields and keeps the rest of the base', () => {
+    const merged = mergeMemoryPolicy(DEFAULT_MEMORY_POLICY, {
+      decay: { curve: 'linear' },
+      capacity: { episodic: 500 },
+      quota: { tiers: { semantic: 1024 } }
+    });
+
+    expect(merged.decay).toEqual({ ...DEFAULT_MEMORY_POLICY.decay, curve: 'linear' });
+    expect(merged.capacity).toEqual({ ...DEFAULT_MEMORY_POLICY.capacity, episodic: 500 });
+    expect(merged.quota).toEqual({
+      ...DEFAULT_MEMORY_POLICY.quota,
+      tiers: { short: null, long: null, episodic: null, semantic: 1024 }
+    });
+  });
+
+  it('replaces triggers of the patched kind only', () => {
+    const merged = mergeMemoryPolicy(DEFAULT_MEMORY_POLICY, {
+      consolidation: { triggers: [{ kind: 'count', threshold: 10 }, { kind: 'idle', idleMs: 1000 }] }
+    });
+
+    expect(merged.consolidation).toEqual({
+      enabled: true,
+      triggers: [
+        { kind: 'time', intervalMs: 5 * 60 * 1000 },
+        { kind: 'count', threshold: 10 },
+        { kind: 'idle', idleMs: 1000 }
+      ]
+    });
+  });
+
+  it('returns a copy that does not share state with the base', () => {
+    const merged = mergeMemoryPolicy(DEFAULT_MEMORY_POLICY);
+    merged.decay.factor = 0.5;
+    merged.quota.tiers.short = 1;
+
+    expect(DEFAULT_MEMORY_POLICY.decay.factor).toBe(0.95);
+    expect(DEFAULT_MEMORY_POLICY.quota.tiers.short).toBeNull();
+  });
+});
+
+describe('validateMemoryPolicy', () => {
+  const withPatch = (patch: Parameters<typeof mergeMemoryPolicy>[1]): MemoryPolicy => mergeMemoryPolicy(DEFAULT_MEMORY_POLICY, patch);
+
+  it('accepts the defaults', () => {
+    expect(() => validateMemoryPolicy(DEFAULT_MEMORY_POLICY)).not.toThrow();
+  });
+
+  it.each([
+    ['a zero decay factor', { decay: { factor: 0 } }, 'decay.factor must be in (0, 1]'],
+    ['a blank field', { decay: { linearRate: NaN } }, 'decay.linearRate must be in [0, 1]'],
+    ['an unknown curve', { decay: { curve: 'cubic' as never } }, 'unknown decay curve cubic'],
+    ['a non-positive trigger', { consolidation: { triggers: [{ kind: 'time' as const, intervalMs: 0 }] } }, 'time trigger must be positive'],
+    ['an empty short-term tier', { capacity: { shortTerm: 0 } }, 'capacity.shortTerm must be at least 1'],
+    ['a zero tier quota', { quota: { tiers: { long: 0 } } }, 'quota.tiers.long must be at least 1 or null']
+  ])('rejects %s', (_, patch, problem) => {
+    expect(() => validateMemoryPolicy(withPatch(patch))).toThrow(problem);
+  });
+
+  it('lists every problem at once', () => {
+    expect(() => validateMemoryPolicy(withPatch({ decay: { minConfidence: 1 }, quota: { maxBytes: 0 } }))).toThrow(
+      'Invalid memory policy: decay.minConfidence must be in [0, 1); quota.maxBytes must be at least 1 or null'
+    );
+  });
+});
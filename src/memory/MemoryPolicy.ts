@@ -0,0 +1,155 @@
+import { MemoryTier } from './MemoryStore';
+
+export type DecayCurve = 'exponential' | 'linear' | 'access_weighted';
+
+export interface DecayPolicy {
+  curve: DecayCurve;
+  /** Multiplier applied per consolidation by the exponential and access-weighted curves */
+  factor: number;
+  /** Confidence subtracted per consolidation by the linear curve */
+  linearRate: number;
+  /** Learning patterns start decaying once unused for this long */
+  patternGraceDays: number;
+  /** Domain knowledge starts decaying once not updated for this long */
+  knowledgeGraceDays: number;
+  /** Learning patterns below this confidence are forgotten */
+  minConfidence: number;
+}
+
+export type ConsolidationTrigger =
+  /** Short-term memory holds more than `threshold` items and at least that many were stored since the last consolidation */
+  | { kind: 'count'; threshold: number }
+  /** At least `intervalMs` since the last consolidation */
+  | { kind: 'time'; intervalMs: number }
+  /** Nothing stored or read for `idleMs`, and something was stored since the last consolidation */
+  | { kind: 'idle'; idleMs: number };
+
+export interface ConsolidationPolicy {
+  /** When false only explicit consolidate() calls run */
+  enabled: boolean;
+  triggers: ConsolidationTrigger[];
+}
+
+/**
+ * Item caps per collection in each tier; null leaves a tier unbounded. Short-term collections
+ * are trimmed on every store, the others at consolidation, oldest first.
+ */
+export interface CapacityPolicy {
+  shortTerm: number;
+  longTerm: number | null;
+  episodic: number | null;
+  semantic: number | null;
+}
+
+export type EvictionStrategy = 'lru' | 'lowest_relevance' | 'oldest';
+
+/**
+ * Byte budgets, measured as the UTF-8 JSON size of each item. When a store takes the agent
+ * or one of its tiers over budget, items are evicted until it is back under: those derived by
+ * consolidation first and those imported from a dataset last, each group ordered by `strategy`.
+ */
+export interface QuotaPolicy {
+  /** Budget for the whole agent; null leaves it unbounded */
+  maxBytes: number | null;
+  tiers: Record<MemoryTier, number | null>;
+  strategy: EvictionStrategy;
+}
+
+export interface MemoryPolicy {
+  decay: DecayPolicy;
+  consolidation: ConsolidationPolicy;
+  capacity: CapacityPolicy;
+  quota: QuotaPolicy;
+}
+
+export interface MemoryPolicyPatch {
+  decay?: Partial<DecayPolicy>;
+  consolidation?: Partial<ConsolidationPolicy>;
+  capacity?: Partial<CapacityPolicy>;
+  quota?: Partial<Omit<QuotaPolicy, 'tiers'>> & { tiers?: Partial<Record<MemoryTier, number | null>> };
+}
+
+export const DEFAULT_MEMORY_POLICY: MemoryPolicy = {
+  decay: {
+    curve: 'exponential',
+    factor: 0.95,
+    linearRate: 0.05,
+    patternGraceDays: 30,
+    knowledgeGraceDays: 60,
+    minConfidence: 0.1
+  },
+  consolidation: {
+    enabled: true,
+    triggers: [
+      { kind: 'count', threshold: 50 },
+      { kind: 'time', intervalMs: 5 * 60 * 1000 }
+    ]
+  },
+  capacity: {
+    shortTerm: 100,
+    longTerm: null,
+    episodic: null,
+    semantic: null
+  },
+  quota: {
+    maxBytes: 64 * 1024 * 1024,
+    tiers: { short: null, long: null, episodic: null, semantic: null },
+    strategy: 'lru'
+  }
+};
+
+/**
+ * Apply a patch on top of a policy. A patched trigger replaces the base trigger of the same kind;
+ * triggers of other kinds are kept.
+ */
+export const mergeMemoryPolicy = (base: MemoryPolicy, patch: MemoryPolicyPatch = {}): MemoryPolicy => {
+  const patched = patch.consolidation?.triggers || [];
+
+  return {
+    decay: { ...base.decay, ...patch.decay },
+    consolidation: {
+      ...base.consolidation,
+      ...patch.consolidation,
+      triggers: [
+        ...base.consolidation.triggers.filter(trigger => !patched.some(replacement => replacement.kind === trigger.kind)),
+        ...patched
+      ]
+    },
+    capacity: { ...base.capacity, ...patch.capacity },
+    quota: { ...base.quota, ...patch.quota, tiers: { ...base.quota.tiers, ...patch.quota?.tiers } }
+  };
+};
+
+/**
+ * Throws on values that would make decay or consolidation misbehave, e.g. a blank Settings field
+ */
+export const validateMemoryPolicy = (policy: MemoryPolicy): void => {
+  const problems: string[] = [];
+  const { decay, consolidation, capacity, quota } = policy;
+
+  if (!(decay.factor > 0 && decay.factor <= 1)) problems.push('decay.factor must be in (0, 1]');
+  if (!(decay.linearRate >= 0 && decay.linearRate <= 1)) problems.push('decay.linearRate must be in [0, 1]');
+  if (!(decay.minConfidence >= 0 && decay.minConfidence < 1)) problems.push('decay.minConfidence must be in [0, 1)');
+  if (!['exponential', 'linear', 'access_weighted'].includes(decay.curve)) problems.push(`unknown decay curve ${decay.curve}`);
+
+  consolidation.triggers.forEach(trigger => {
+    const value = trigger.kind === 'count' ? trigger.threshold : trigger.kind === 'time' ? trigger.intervalMs : trigger.idleMs;
+    if (!(value > 0)) problems.push(`${trigger.kind} trigger must be positive`);
+  });
+
+  if (!(capacity.shortTerm >= 1)) problems.push('capacity.shortTerm must be at least 1');
+  (['longTerm', 'episodic', 'semantic'] as const).forEach(tier => {
+    const cap = capacity[tier];
+    if (cap !== null && !(cap >= 1)) problems.push(`capacity.${tier} must be at least 1 or null`);
+  });
+
+  if (quota.maxBytes !== null && !(quota.maxBytes >= 1)) problems.push('quota.maxBytes must be at least 1 or null');
+  Object.entries(quota.tiers).forEach(([tier, bytes]) => {
+    if (bytes !== null && !(bytes >= 1)) problems.push(`quota.tiers.${tier} must be at least 1 or null`);
+  });
+  if (!['lru', 'lowest_relevance', 'oldest'].includes(quota.strategy)) problems.push(`unknown eviction strategy ${quota.strategy}`);
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid memory policy: ${problems.join('; ')}`);
+  }
+};
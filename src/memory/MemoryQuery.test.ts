@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { FieldFilter, MemoryQuery, MemoryQueryEngine, MemoryQueryError, MemoryQueryHit } from './MemoryQuery';
+
+const campaign = (id: string, conversionRate: number, channels: string[], startDate: string, owner?: string) => ({
+  id,
+  name: `Campaign ${id}`,
+  metrics: { conversionRate },
+  channels,
+  startDate: new Date(startDate),
+  owner,
+  variants: [{ subject: `Spring ${id}` }, { subject: 'Last call' }]
+});
+
+const hits: MemoryQueryHit[] = [
+  campaign('C-1', 0.12, ['Email', 'SMS'], '2024-03-01', 'ada@example.com'),
+  campaign('C-2', 0.05, ['Social'], '2024-04-01'),
+  campaign('C-3', 0.3, ['Email'], '2024-05-01', 'bo@example.com'),
+  campaign('C-4', 0.05, ['Ads'], '2024-06-01', 'ada@example.com')
+].map(data => ({ data, type: 'campaign', tier: 'long' }));
+
+const idOf = (hit: MemoryQueryHit) => (hit.data as { id: string }).id;
+
+const ids = (query: MemoryQuery) => MemoryQueryEngine.run(hits, query).items.map(idOf);
+
+describe('MemoryQueryEngine operators', () => {
+  it.each<[string, FieldFilter, string[]]>([
+    ['id', 'C-2', ['C-2']],
+    ['id', { $ne: 'C-2' }, ['C-1', 'C-3', 'C-4']],
+    ['metrics.conversionRate', { $gt: 0.05 }, ['C-1', 'C-3']],
+    ['metrics.conversionRate', { $gte: 0.05, $lt: 0.2 }, ['C-1', 'C-2', 'C-4']],
+    ['metrics.conversionRate', { $lte: 0.05 }, ['C-2', 'C-4']],
+    ['id', { $in: ['C-1', 'C-4', 'C-9'] }, ['C-1', 'C-4']],
+    ['id', { $nin: ['C-1', 'C-4'] }, ['C-2', 'C-3']],
+    ['channels', { $contains: 'Email' }, ['C-1', 'C-3']],
+    ['channels', 'SMS', ['C-1']],
+    ['owner', { $contains: 'ADA@' }, ['C-1', 'C-4']],
+    ['owner', { $exists: false }, ['C-2']],
+    ['startDate', { $gte: '2024-05-01' }, ['C-3', 'C-4']],
+    ['startDate', new Date('2024-04-01'), ['C-2']],
+    ['variants.subject', 'Spring C-3', ['C-3']],
+    ['variants.0.subject', { $contains: 'c-4' }, ['C-4']]
+  ])('filters %s by %j', (path, filter, expected) => {
+    expect(ids({ where: { [path]: filter } })).toEqual(expected);
+  });
+
+  it('requires every condition to hold', () => {
+    expect(ids({ where: { channels: { $contains: 'Email' }, 'metrics.conversionRate': { $lt: 0.2 } } })).toEqual(['C-1']);
+  });
+
+  it('does not compare numbers with strings', () => {
+    expect(ids({ where: { 'metrics.conversionRate': { $gt: '0' } } })).toEqual([]);
+  });
+
+  it('rejects unknown operators', () => {
+    expect(() => ids({ where: { id: { $regex: 'C' } as FieldFilter } })).toThrow(MemoryQueryError);
+  });
+});
+
+describe('MemoryQueryEngine time windows and sorting', () => {
+  it('keeps items inside the window, bounds included, using the named time field', () => {
+    expect(ids({ since: '2024-04-01', until: new Date('2024-05-01'), timeField: 'startDate' })).toEqual(['C-2', 'C-3']);
+  });
+
+  it('drops items without a timestamp from a windowed query', () => {
+    expect(ids({ since: 0, timeField: 'endDate' })).toEqual([]);
+  });
+
+  it('sorts by several keys and keeps memory order on ties', () => {
+    expect(ids({ sort: [{ path: 'metrics.conversionRate' }] })).toEqual(['C-2', 'C-4', 'C-1', 'C-3']);
+    expect(ids({ sort: [{ path: 'metrics.conversionRate' }, { path: 'startDate', direction: 'desc' }] })).toEqual(['C-4', 'C-2', 'C-1', 'C-3']);
+  });
+
+  it('sorts missing values last', () => {
+    expect(ids({ sort: [{ path: 'owner' }] })).toEqual(['C-1', 'C-4', 'C-3', 'C-2']);
+  });
+});
+
+describe('MemoryQueryEngine paging', () => {
+  const query: MemoryQuery = { sort: [{ path: '$time', direction: 'desc' }], timeField: 'startDate', limit: 3 };
+
+  it('pages through every match once with the cursor', () => {
+    const first = MemoryQueryEngine.run(hits, query);
+    const second = MemoryQueryEngine.run(hits, { ...query, cursor: first.nextCursor });
+
+    expect(first.items.map(idOf)).toEqual(['C-4', 'C-3', 'C-2']);
+    expect(first.total).toBe(4);
+    expect(second.items.map(idOf)).toEqual(['C-1']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('clamps the page size', () => {
+    expect(MemoryQueryEngine.run(hits, { limit: 0 }).items).toHaveLength(1);
+    expect(MemoryQueryEngine.run(hits, { limit: 2.7 }).items).toHaveLength(2);
+  });
+
+  it('rejects a cursor from a different query or one that is not a cursor', () => {
+    const { nextCursor } = MemoryQueryEngine.run(hits, query);
+
+    expect(() => MemoryQueryEngine.run(hits, { ...query, where: { id: 'C-1' }, cursor: nextCursor })).toThrow(
+      'Memory query cursor does not belong to this query'
+    );
+    expect(() => MemoryQueryEngine.run(hits, { ...query, cursor: 'not a cursor' })).toThrow('Invalid memory query cursor');
+  });
+});
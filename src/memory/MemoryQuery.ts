@@ -0,0 +1,314 @@
+import { MemoryTier } from './MemoryStore';
+
+export type QueryValue = string | number | boolean | Date | null;
+
+/**
+ * Operators applied to the value found at a path. Every operator given must hold.
+ */
+export interface FieldCondition {
+  $eq?: QueryValue;
+  $ne?: QueryValue;
+  $gt?: number | string | Date;
+  $gte?: number | string | Date;
+  $lt?: number | string | Date;
+  $lte?: number | string | Date;
+  $in?: QueryValue[];
+  $nin?: QueryValue[];
+  /** Array membership, or a case-insensitive substring for strings */
+  $contains?: QueryValue;
+  $exists?: boolean;
+}
+
+/** A bare value is shorthand for `{ $eq: value }` */
+export type FieldFilter = QueryValue | FieldCondition;
+
+export interface MemorySortKey {
+  /** Dot path into the item, or `$time` for the item's timestamp */
+  path: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface MemoryQuery {
+  /** Tiers to read; all of them when omitted */
+  tiers?: MemoryTier[];
+  /** Collection types to read, e.g. 'campaign' or 'interaction' */
+  types?: string[];
+  /**
+   * Conditions keyed by dot path into the stored item, e.g. `preferences.frequency`
+   * or `metrics.conversionRate`. Arrays along a path match when any element does.
+   */
+  where?: Record<string, FieldFilter>;
+  /** Keep items whose timestamp falls inside the window (bounds inclusive) */
+  since?: Date | string | number;
+  until?: Date | string | number;
+  /** Path to the timestamp used by since/until and `$time`; guessed per item when omitted */
+  timeField?: string;
+  sort?: MemorySortKey[];
+  limit?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+}
+
+export interface MemoryQueryHit {
+  /** The stored item; its other fields depend on `type` */
+  data: object;
+  type: string;
+  tier: MemoryTier;
+  timestamp?: Date;
+}
+
+export interface MemoryQueryResult {
+  items: MemoryQueryHit[];
+  /** Matches across all pages */
+  total: number;
+  /** Present while more pages remain */
+  nextCursor?: string;
+}
+
+/** A query that can't be evaluated as given: an unknown operator or a cursor from another query */
+export class MemoryQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryQueryError';
+  }
+}
+
+interface CursorState {
+  offset: number;
+  fingerprint: string;
+}
+
+/**
+ * Evaluates memory queries against plain item objects. Stateless; MemoryManager supplies the items.
+ */
+export class MemoryQueryEngine {
+  public static readonly DEFAULT_LIMIT = 50;
+  public static readonly MAX_LIMIT = 500;
+
+  private static readonly TIME_FIELDS = ['timestamp', 'createdAt', 'updatedAt', 'lastUpdated', 'lastEngagement', 'lastUsed'];
+  private static readonly OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$contains', '$exists']);
+
+  /**
+   * Filter, sort and page a set of candidate hits
+   */
+  public static run(candidates: MemoryQueryHit[], query: MemoryQuery): MemoryQueryResult {
+    const limit = Math.min(Math.max(1, Math.floor(query.limit ?? this.DEFAULT_LIMIT)), this.MAX_LIMIT);
+    const fingerprint = this.fingerprint(query);
+    const offset = query.cursor ? this.decodeCursor(query.cursor, fingerprint) : 0;
+
+    const since = query.since !== undefined ? this.toTime(query.since) : undefined;
+    const until = query.until !== undefined ? this.toTime(query.until) : undefined;
+
+    const matches = candidates
+      .map(hit => ({ ...hit, timestamp: this.timestampOf(hit.data, query.timeField) }))
+      .filter(hit => {
+        if (since !== undefined || until !== undefined) {
+          const time = hit.timestamp?.getTime();
+          if (time === undefined) return false;
+          if (since !== undefined && time < since) return false;
+          if (until !== undefined && time > until) return false;
+        }
+        return this.matches(hit.data, query.where);
+      });
+
+    if (query.sort && query.sort.length > 0) {
+      // Array.prototype.sort is stable, so ties keep memory order and pages don't overlap
+      const keys = query.sort;
+      matches.sort((a, b) => {
+        for (const key of keys) {
+          const order = this.compare(this.sortValue(a, key.path), this.sortValue(b, key.path));
+          if (order !== 0) return key.direction === 'desc' ? -order : order;
+        }
+        return 0;
+      });
+    }
+
+    const end = offset + limit;
+    return {
+      items: matches.slice(offset, end),
+      total: matches.length,
+      nextCursor: end < matches.length ? this.encodeCursor({ offset: end, fingerprint }) : undefined
+    };
+  }
+
+  /**
+   * Whether an item satisfies every condition in `where`
+   */
+  public static matches(item: unknown, where?: Record<string, FieldFilter>): boolean {
+    if (!where) return true;
+
+    return Object.entries(where).every(([path, filter]) => {
+      const condition = this.isCondition(filter) ? filter : { $eq: filter };
+      const values = this.resolvePath(item, path);
+
+      if (condition.$exists !== undefined && (values.length > 0) !== condition.$exists) {
+        return false;
+      }
+
+      const checks = Object.entries(condition).filter(([operator, operand]) => operator !== '$exists' && operand !== undefined);
+      if (checks.length === 0) return true;
+
+      // $ne and $nin must hold for every value at the path, the rest for at least one
+      return checks.every(([operator, operand]) =>
+        operator === '$ne' || operator === '$nin'
+          ? values.every(value => this.test(operator, value, operand))
+          : values.some(value => this.test(operator, value, operand))
+      );
+    });
+  }
+
+  /**
+   * Every value reachable at a dot path. Arrays in the middle of a path fan out over their
+   * elements; an array at the end is returned as a single value so `$contains` can look inside it.
+   */
+  public static resolvePath(item: unknown, path: string): unknown[] {
+    let current: unknown[] = [item];
+
+    for (const segment of path.split('.')) {
+      const next: unknown[] = [];
+      current.forEach(value => {
+        const elements = Array.isArray(value) && !/^\d+$/.test(segment) ? value : [value];
+        elements.forEach(element => {
+          if (element !== null && typeof element === 'object' && segment in element) {
+            next.push((element as Record<string, unknown>)[segment]);
+          }
+        });
+      });
+      current = next;
+    }
+
+    return current.filter(value => value !== undefined);
+  }
+
+  private static test(operator: string, value: unknown, operand: unknown): boolean {
+    switch (operator) {
+      case '$eq':
+        return Array.isArray(value) ? value.some(element => this.equals(element, operand)) : this.equals(value, operand);
+      case '$ne':
+        return !this.test('$eq', value, operand);
+      case '$gt':
+        return this.comparable(value, operand) && this.compare(value, operand) > 0;
+      case '$gte':
+        return this.comparable(value, operand) && this.compare(value, operand) >= 0;
+      case '$lt':
+        return this.comparable(value, operand) && this.compare(value, operand) < 0;
+      case '$lte':
+        return this.comparable(value, operand) && this.compare(value, operand) <= 0;
+      case '$in':
+        return Array.isArray(operand) && operand.some(candidate => this.test('$eq', value, candidate));
+      case '$nin':
+        return !this.test('$in', value, operand);
+      case '$contains':
+        if (Array.isArray(value)) return value.some(element => this.equals(element, operand));
+        if (typeof value === 'string' && operand !== null && operand !== undefined) {
+          return value.toLowerCase().includes(String(operand).toLowerCase());
+        }
+        return false;
+      default:
+        throw new MemoryQueryError(`Unknown memory query operator: ${operator}`);
+    }
+  }
+
+  private static isCondition(filter: FieldFilter): filter is FieldCondition {
+    if (filter === null || typeof filter !== 'object' || filter instanceof Date) return false;
+
+    const keys = Object.keys(filter);
+    const unknown = keys.find(key => !this.OPERATORS.has(key));
+    if (unknown) {
+      throw new MemoryQueryError(`Unknown memory query operator: ${unknown}`);
+    }
+    return keys.length > 0;
+  }
+
+  private static equals(value: unknown, operand: unknown): boolean {
+    if (value instanceof Date || operand instanceof Date) {
+      return this.toTime(value) === this.toTime(operand);
+    }
+    return value === operand;
+  }
+
+  /**
+   * Ranges compare numbers with numbers and strings with strings; dates compare with
+   * dates, ISO strings or epoch milliseconds
+   */
+  private static comparable(value: unknown, operand: unknown): boolean {
+    if (value instanceof Date || operand instanceof Date) {
+      return !isNaN(this.toTime(value) ?? NaN) && !isNaN(this.toTime(operand) ?? NaN);
+    }
+    return typeof value === typeof operand && (typeof value === 'number' || typeof value === 'string');
+  }
+
+  public static compare(a: unknown, b: unknown): number {
+    // Missing values sort last in ascending order
+    if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+    if (b === undefined || b === null) return -1;
+
+    if (a instanceof Date || b instanceof Date) {
+      return (this.toTime(a) ?? 0) - (this.toTime(b) ?? 0);
+    }
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+  }
+
+  private static sortValue(hit: MemoryQueryHit, path: string): unknown {
+    if (path === '$time') return hit.timestamp;
+    return this.resolvePath(hit.data, path)[0];
+  }
+
+  /**
+   * The item's own time: `timeField` when given, otherwise the first of the usual date fields it has
+   */
+  public static timestampOf(item: unknown, timeField?: string): Date | undefined {
+    const fields = timeField ? [timeField] : this.TIME_FIELDS;
+
+    for (const field of fields) {
+      const time = this.toTime(this.resolvePath(item, field)[0]);
+      if (time !== undefined && !isNaN(time)) return new Date(time);
+    }
+    return undefined;
+  }
+
+  private static toTime(value: unknown): number | undefined {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+      const time = Date.parse(value);
+      return isNaN(time) ? undefined : time;
+    }
+    return undefined;
+  }
+
+  /**
+   * Identifies the result set a cursor belongs to, so a cursor can't be replayed against a different query
+   */
+  private static fingerprint(query: MemoryQuery): string {
+    const shape: MemoryQuery = { ...query };
+    delete shape.cursor;
+    delete shape.limit;
+    const text = JSON.stringify(shape);
+
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return hash.toString(36);
+  }
+
+  private static encodeCursor(state: CursorState): string {
+    return btoa(JSON.stringify(state));
+  }
+
+  private static decodeCursor(cursor: string, fingerprint: string): number {
+    let state: CursorState;
+    try {
+      state = JSON.parse(atob(cursor));
+    } catch {
+      throw new MemoryQueryError('Invalid memory query cursor');
+    }
+
+    if (state.fingerprint !== fingerprint || !Number.isInteger(state.offset) || state.offset < 0) {
+      throw new MemoryQueryError('Memory query cursor does not belong to this query');
+    }
+    return state.offset;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { MEMORY_SNAPSHOT_FORMAT, MEMORY_SNAPSHOT_VERSION, MemorySnapshotCodec } from './MemorySnapshot';
+import { MemoryManager } from './MemoryManager';
+
+const agentMemory = () => new MemoryManager('EN-TEST').getMemory();
+
+describe('MemorySnapshotCodec', () => {
+  it('round-trips a snapshot and revives its dates', async () => {
+    const manager = new MemoryManager('EN-TEST');
+    await manager.store('short', { type: 'processed_lead', data: { id: 'L-1', createdAt: new Date(Date.UTC(2024, 2, 1)) } });
+    const snapshot = MemorySnapshotCodec.create([{ agentId: 'EN-001', agentType: 'engagement', memory: manager.getMemory() }]);
+
+    const { snapshot: parsed, fromVersion } = MemorySnapshotCodec.parse(MemorySnapshotCodec.serialize(snapshot));
+
+    expect(fromVersion).toBe(MEMORY_SNAPSHOT_VERSION);
+    expect(parsed.exportedAt).toBeInstanceOf(Date);
+    expect(parsed.agents[0].memory.shortTerm.activeLeads[0].createdAt).toEqual(new Date(Date.UTC(2024, 2, 1)));
+  });
+
+  it('parses a decoded payload without sharing objects with it', () => {
+    const payload = JSON.parse(MemorySnapshotCodec.serialize(MemorySnapshotCodec.create([{ agentId: 'EN-001', memory: agentMemory() }])));
+
+    const { snapshot } = MemorySnapshotCodec.parse(payload);
+    snapshot.agents[0].agentId = 'EN-002';
+
+    expect(payload.agents[0].agentId).toBe('EN-001');
+  });
+
+  it('migrates older snapshots one version at a time', () => {
+    const legacy = { format: MEMORY_SNAPSHOT_FORMAT, version: 0, exportedAt: '2024-03-01T00:00:00.000Z', memories: { 'EN-001': agentMemory() } };
+    const migrate = (snapshot: Record<string, unknown>) => ({
+      ...snapshot,
+      agents: Object.entries(snapshot.memories as typeof legacy.memories).map(([agentId, memory]) => ({ agentId, memory }))
+    });
+
+    const { snapshot, fromVersion } = MemorySnapshotCodec.parse(JSON.stringify(legacy), { 0: migrate });
+
+    expect(fromVersion).toBe(0);
+    expect(snapshot.version).toBe(MEMORY_SNAPSHOT_VERSION);
+    expect(snapshot.agents.map(agent => agent.agentId)).toEqual(['EN-001']);
+  });
+
+  it('prefers a per-call migration over a registered one', () => {
+    MemorySnapshotCodec.registerMigration(0, snapshot => ({ ...snapshot, agents: [] }));
+    const legacy = { format: MEMORY_SNAPSHOT_FORMAT, version: 0, exportedAt: '2024-03-01T00:00:00.000Z' };
+
+    const registered = MemorySnapshotCodec.parse(legacy).snapshot;
+    const overridden = MemorySnapshotCodec.parse(legacy, {
+      0: snapshot => ({ ...snapshot, agents: [{ agentId: 'EN-001', memory: agentMemory() }] })
+    }).snapshot;
+
+    expect(registered.agents).toEqual([]);
+    expect(overridden.agents).toHaveLength(1);
+  });
+
+  it.each([
+    ['text that is not JSON', '{', 'Memory snapshot is not valid JSON'],
+    ['another format', { format: 'something-else', version: 1, agents: [] }, 'Not a memory snapshot'],
+    ['a newer version', { format: MEMORY_SNAPSHOT_FORMAT, version: MEMORY_SNAPSHOT_VERSION + 1, agents: [] }, 'is newer than supported'],
+    ['a version with no migration', { format: MEMORY_SNAPSHOT_FORMAT, version: -1, agents: [] }, 'No memory snapshot migration from version -1'],
+    ['agents without memory', { format: MEMORY_SNAPSHOT_FORMAT, version: MEMORY_SNAPSHOT_VERSION, agents: [{ agentId: 'EN-001' }] }, 'malformed agent entries']
+  ])('rejects %s', (_, input, message) => {
+    expect(() => MemorySnapshotCodec.parse(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,115 @@
+import { AgentMemory } from '../types';
+import { reviveDates } from './MemoryStore';
+
+export const MEMORY_SNAPSHOT_FORMAT = 'agent-memory-snapshot';
+export const MEMORY_SNAPSHOT_VERSION = 1;
+
+export interface AgentMemorySnapshot {
+  agentId: string;
+  agentType?: string;
+  memory: AgentMemory;
+}
+
+/**
+ * Portable copy of one or more agents' memory. Dates are written as ISO strings and
+ * come back as Dates when the snapshot is parsed.
+ */
+export interface MemorySnapshot {
+  format: typeof MEMORY_SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: Date;
+  agents: AgentMemorySnapshot[];
+}
+
+/** `replace` discards the agent's current memory; `merge` upserts the imported items by id */
+export type MemoryImportMode = 'merge' | 'replace';
+
+/** Upgrades a parsed snapshot from one schema version to the next */
+export type MemorySnapshotMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+export interface MemorySnapshotImportOptions {
+  mode?: MemoryImportMode;
+  /** Only import these agents (ids or aliases, as in the snapshot) */
+  agents?: string[];
+  /** Import a single-agent snapshot into another agent, e.g. staging patterns into a prod agent */
+  target?: string;
+  /** Extra migrations keyed by the version they upgrade from; they take precedence over registered ones */
+  migrations?: Record<number, MemorySnapshotMigration>;
+}
+
+export interface MemorySnapshotImportResult {
+  mode: MemoryImportMode;
+  /** Snapshot version before migration */
+  version: number;
+  imported: string[];
+  /** Snapshot agents with no matching agent here */
+  skipped: string[];
+}
+
+/**
+ * Serializes memory snapshots and brings older ones up to the current schema version
+ */
+export class MemorySnapshotCodec {
+  private static migrations: Map<number, MemorySnapshotMigration> = new Map();
+
+  /**
+   * Register the step that upgrades snapshots written at `fromVersion` to `fromVersion + 1`
+   */
+  public static registerMigration(fromVersion: number, migration: MemorySnapshotMigration): void {
+    this.migrations.set(fromVersion, migration);
+  }
+
+  public static create(agents: AgentMemorySnapshot[]): MemorySnapshot {
+    return {
+      format: MEMORY_SNAPSHOT_FORMAT,
+      version: MEMORY_SNAPSHOT_VERSION,
+      exportedAt: new Date(),
+      agents
+    };
+  }
+
+  public static serialize(snapshot: MemorySnapshot, pretty: boolean = false): string {
+    return JSON.stringify(snapshot, null, pretty ? 2 : undefined);
+  }
+
+  /**
+   * Parse a snapshot from JSON text or an already-decoded object (e.g. a JSON-RPC payload,
+   * whose dates are still strings), migrating it to the current version. The result never
+   * shares objects with the input.
+   */
+  public static parse(
+    input: string | object,
+    migrations: Record<number, MemorySnapshotMigration> = {}
+  ): { snapshot: MemorySnapshot; fromVersion: number } {
+    let parsed: { format?: unknown; version?: unknown } | null;
+    try {
+      parsed = JSON.parse(typeof input === 'string' ? input : JSON.stringify(input), reviveDates);
+    } catch {
+      throw new Error('Memory snapshot is not valid JSON');
+    }
+
+    if (!parsed || parsed.format !== MEMORY_SNAPSHOT_FORMAT || !Number.isInteger(parsed.version)) {
+      throw new Error('Not a memory snapshot');
+    }
+    let raw = parsed as Record<string, unknown> & { version: number };
+    if (raw.version > MEMORY_SNAPSHOT_VERSION) {
+      throw new Error(`Memory snapshot version ${raw.version} is newer than supported version ${MEMORY_SNAPSHOT_VERSION}`);
+    }
+
+    const fromVersion: number = raw.version;
+    while (raw.version < MEMORY_SNAPSHOT_VERSION) {
+      const migrate = migrations[raw.version] || this.migrations.get(raw.version);
+      if (!migrate) {
+        throw new Error(`No memory snapshot migration from version ${raw.version}`);
+      }
+      raw = { ...migrate(raw), format: MEMORY_SNAPSHOT_FORMAT, version: raw.version + 1 };
+    }
+
+    const agents = raw.agents as Array<Partial<AgentMemorySnapshot> | null> | undefined;
+    if (!Array.isArray(agents) || agents.some(agent => typeof agent?.agentId !== 'string' || !agent.memory)) {
+      throw new Error('Memory snapshot has malformed agent entries');
+    }
+
+    return { snapshot: raw as unknown as MemorySnapshot, fromVersion };
+  }
+}
@@ -0,0 +1,68 @@
+import { AgentMemory } from '../types';
+
+export type MemoryTier = 'short' | 'long' | 'episodic' | 'semantic';
+
+/**
+ * One record in an agent's memory log. Replaying the log from the latest snapshot
+ * in order rebuilds the agent's memory.
+ */
+export type MemoryLogEntry =
+  | { kind: 'store'; tier: MemoryTier; item: Record<string, unknown> }
+  | { kind: 'consolidate'; timestamp: Date; runId?: string }
+  | { kind: 'expire'; timestamp: Date }
+  | { kind: 'snapshot'; memory: AgentMemory; timestamp: Date }
+  /** A dataset load finished `phase`; kept under its own key rather than in an agent's log */
+  | { kind: 'dataset'; datasetId: string; phase: string; timestamp: Date };
+
+/**
+ * Persistence backend for MemoryManager, keyed by a stable agent identity
+ */
+export interface MemoryStore {
+  /** Every entry since (and including) the latest snapshot, oldest first */
+  load(agentKey: string): Promise<MemoryLogEntry[]>;
+  append(agentKey: string, entry: MemoryLogEntry): Promise<void>;
+  /** Replace the log with a single snapshot of the current memory; rejects, leaving the log as it was, if that fails */
+  compact(agentKey: string, memory: AgentMemory): Promise<void>;
+  /** Whether the log has grown enough since the last snapshot to be worth compacting */
+  shouldCompact(agentKey: string): boolean;
+  /** Wait for buffered writes to be persisted */
+  flush(): Promise<void>;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON reviver that turns ISO timestamps back into Dates
+ */
+export const reviveDates = (_key: string, value: unknown): unknown =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+
+/**
+ * Keeps logs in process memory. Nothing survives a restart, which is what tests and the browser build want.
+ */
+export class InMemoryStore implements MemoryStore {
+  private logs: Map<string, MemoryLogEntry[]> = new Map();
+
+  constructor(private readonly compactionThreshold: number = 1000) {}
+
+  public async load(agentKey: string): Promise<MemoryLogEntry[]> {
+    return (this.logs.get(agentKey) || []).map(entry => structuredClone(entry));
+  }
+
+  public async append(agentKey: string, entry: MemoryLogEntry): Promise<void> {
+    // Clone so later in-place mutations of live memory don't rewrite history
+    const log = this.logs.get(agentKey) || [];
+    log.push(structuredClone(entry));
+    this.logs.set(agentKey, log);
+  }
+
+  public async compact(agentKey: string, memory: AgentMemory): Promise<void> {
+    this.logs.set(agentKey, [{ kind: 'snapshot', memory: structuredClone(memory), timestamp: new Date() }]);
+  }
+
+  public shouldCompact(agentKey: string): boolean {
+    return (this.logs.get(agentKey)?.length || 0) > this.compactionThreshold;
+  }
+
+  public async flush(): Promise<void> {}
+}
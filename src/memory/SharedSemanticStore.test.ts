@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { SemanticAccessError, SharedSemanticStore } from './SharedSemanticStore';
+import { InMemoryStore } from './MemoryStore';
+import { KnowledgeNode } from '../types';
+
+const node = (id: string, concept: string): KnowledgeNode => ({
+  id,
+  concept,
+  description: `${concept} leads`,
+  relationships: [],
+  confidence: 0.8,
+  lastUpdated: new Date(Date.UTC(2024, 2, 1))
+});
+
+describe('SharedSemanticStore restart', () => {
+  it('replays writes made under grants that are not given again until after restore', async () => {
+    const persistence = new InMemoryStore();
+    const before = new SharedSemanticStore(persistence);
+    before.grant('LT-001', { read: '*', write: ['triage'] });
+    await before.writeNode('LT-001', node('N-1', 'Cold Lead'), 'triage');
+
+    const after = new SharedSemanticStore(persistence);
+    await after.restore();
+    after.grant('LT-001', { read: '*', write: ['triage'] });
+
+    expect(after.getNodes('LT-001').map(item => item.concept)).toEqual(['Cold Lead']);
+  });
+
+  it('still checks access on live writes after a restore', async () => {
+    const persistence = new InMemoryStore();
+    const before = new SharedSemanticStore(persistence);
+    before.grant('LT-001', { read: '*', write: ['triage'] });
+    await before.writeNode('LT-001', node('N-1', 'Cold Lead'), 'triage');
+
+    const after = new SharedSemanticStore(persistence);
+    await after.restore();
+
+    await expect(after.writeNode('LT-001', node('N-2', 'Warm Lead'), 'triage')).rejects.toBeInstanceOf(SemanticAccessError);
+  });
+});
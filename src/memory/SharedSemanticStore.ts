@@ -0,0 +1,410 @@
+import { AgentMemory, KnowledgeNode, MemoryProvenance, Relationship } from '../types';
+import { InMemoryStore, MemoryStore } from './MemoryStore';
+import { KnowledgeGraphQuery } from './KnowledgeGraphQuery';
+
+export const SHARED_NAMESPACE = 'shared';
+
+/**
+ * Namespaces an agent may read and write. `'*'` covers every namespace except other agents'
+ * private ones (`agent:<id>`), which must be named; an agent can always use its own.
+ */
+export interface SemanticAccess {
+  read: string[] | '*';
+  write: string[] | '*';
+}
+
+/** One author's opinion of a node's confidence or an edge's strength */
+export interface SemanticContribution {
+  value: number;
+  /** How much the opinion counts, e.g. the number of dataset rows asserting an edge */
+  weight: number;
+  updatedAt: Date;
+}
+
+export interface SemanticWriteResult<T> {
+  /** The stored item, which is the existing one when the write was merged */
+  item: T;
+  merged: boolean;
+}
+
+export class SemanticAccessError extends Error {
+  constructor(public readonly agentId: string, public readonly access: 'read' | 'write', public readonly namespace: string) {
+    super(`Agent ${agentId} may not ${access} semantic namespace ${namespace}`);
+    this.name = 'SemanticAccessError';
+  }
+}
+
+type SemanticItemType = 'domain_knowledge' | 'relationship';
+
+/**
+ * Semantic knowledge (concept nodes and the edges between them) shared by every agent.
+ * Writes merge instead of duplicating: a node with a known concept folds into the existing
+ * node, and an edge between the same concepts updates the existing edge. Confidence and
+ * strength become the weighted average of every author's latest contribution, so replaying
+ * or repeating a write from the same author changes nothing.
+ */
+export class SharedSemanticStore {
+  private nodes: KnowledgeNode[] = [];
+  private relationships: Relationship[] = [];
+  private nodesById: Map<string, KnowledgeNode> = new Map();
+  private nodesByConcept: Map<string, KnowledgeNode> = new Map();
+  private edgesById: Map<string, Relationship> = new Map();
+  private edgesByKey: Map<string, Relationship> = new Map();
+  /** Node ids that were merged into another node, so edges written against them still land */
+  private aliases: Map<string, string> = new Map();
+  private grants: Map<string, SemanticAccess> = new Map();
+  private replaying: boolean = false;
+  private version: number = 0;
+
+  constructor(
+    private readonly persistence: MemoryStore = new InMemoryStore(),
+    private readonly storageKey: string = 'shared-semantic',
+    private readonly defaultAccess: SemanticAccess = { read: '*', write: [SHARED_NAMESPACE] }
+  ) {}
+
+  /** Increases on every change; views use it to know when to refresh */
+  public get revision(): number {
+    return this.version;
+  }
+
+  public grant(agentId: string, access: SemanticAccess): void {
+    this.grants.set(agentId, access);
+    this.version++;
+  }
+
+  public view(agentId: string): SemanticView {
+    return new SemanticView(this, agentId);
+  }
+
+  public canRead(agentId: string, namespace: string): boolean {
+    return this.allows(agentId, 'read', namespace);
+  }
+
+  public canWrite(agentId: string, namespace: string): boolean {
+    return this.allows(agentId, 'write', namespace);
+  }
+
+  public getNodes(agentId: string): KnowledgeNode[] {
+    return this.nodes.filter(node => this.canRead(agentId, this.namespaceOf(node)));
+  }
+
+  public getRelationships(agentId: string): Relationship[] {
+    return this.relationships.filter(edge => this.canRead(agentId, this.namespaceOf(edge)));
+  }
+
+  /**
+   * Rebuild the store from its persisted log. Returns the number of entries replayed.
+   */
+  public async restore(): Promise<number> {
+    const entries = await this.persistence.load(this.storageKey);
+    this.replaying = true;
+
+    try {
+      for (const entry of entries) {
+        if (entry.kind === 'snapshot') {
+          this.load(entry.memory.semantic.domainKnowledge, entry.memory.semantic.relationships);
+        } else if (entry.kind === 'store' && entry.tier === 'semantic') {
+          const { type, data, author, namespace } = entry.item as {
+            type: SemanticItemType;
+            data: KnowledgeNode | Relationship;
+            author: string;
+            namespace: string;
+          };
+          await this.write(author, type, data, namespace);
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    return entries.length;
+  }
+
+  public async writeNode(
+    agentId: string,
+    node: KnowledgeNode,
+    namespace: string = SHARED_NAMESPACE
+  ): Promise<SemanticWriteResult<KnowledgeNode>> {
+    return this.write(agentId, 'domain_knowledge', node, namespace);
+  }
+
+  public async writeRelationship(
+    agentId: string,
+    relationship: Relationship,
+    namespace: string = SHARED_NAMESPACE
+  ): Promise<SemanticWriteResult<Relationship>> {
+    return this.write(agentId, 'relationship', relationship, namespace);
+  }
+
+  /**
+   * Drop a node or edge outright, e.g. when decay takes it below the confidence floor.
+   * Removals are persisted by compacting the log.
+   */
+  public async remove(agentId: string, type: SemanticItemType, id: string): Promise<boolean> {
+    const item = type === 'domain_knowledge' ? this.nodesById.get(this.resolve(id)) : this.edgesById.get(id);
+    if (!item) return false;
+    this.assertAccess(agentId, 'write', this.namespaceOf(item));
+
+    if (type === 'domain_knowledge') {
+      const node = item as KnowledgeNode;
+      this.nodes = this.nodes.filter(existing => existing !== node);
+      this.nodesById.delete(node.id);
+      this.nodesByConcept.delete(this.conceptKey(node));
+    } else {
+      const edge = item as Relationship;
+      this.relationships = this.relationships.filter(existing => existing !== edge);
+      this.edgesById.delete(edge.id);
+      this.edgesByKey.delete(this.edgeKey(edge));
+    }
+    this.version++;
+
+    if (!this.replaying) {
+      await this.persistence.compact(this.storageKey, this.asMemory());
+    }
+    return true;
+  }
+
+  private async write<T extends KnowledgeNode | Relationship>(
+    agentId: string,
+    type: SemanticItemType,
+    data: T,
+    namespace: string = SHARED_NAMESPACE
+  ): Promise<SemanticWriteResult<T>> {
+    // Logged writes were checked when they were made; grants given since shouldn't lose them
+    if (!this.replaying) {
+      this.assertAccess(agentId, 'write', namespace);
+    }
+
+    const item = structuredClone(data);
+    item.metadata = { ...item.metadata, namespace };
+    const result = type === 'domain_knowledge'
+      ? this.upsertNode(agentId, item as KnowledgeNode)
+      : this.upsertRelationship(agentId, item as Relationship);
+    this.version++;
+
+    if (!this.replaying) {
+      await this.persistence.append(this.storageKey, {
+        kind: 'store',
+        tier: 'semantic',
+        item: { type, data, author: agentId, namespace }
+      });
+      if (this.persistence.shouldCompact(this.storageKey)) {
+        await this.persistence.compact(this.storageKey, this.asMemory());
+      }
+    }
+
+    return result as SemanticWriteResult<T>;
+  }
+
+  private upsertNode(author: string, node: KnowledgeNode): SemanticWriteResult<KnowledgeNode> {
+    const existing = this.nodesById.get(this.resolve(node.id)) || this.nodesByConcept.get(this.conceptKey(node));
+    const contribution = this.contributionOf(node);
+
+    if (!existing) {
+      node.metadata = { ...node.metadata, contributions: { [author]: contribution }, lastAuthor: author };
+      node.relationships = [...(node.relationships || [])];
+      this.addNode(node);
+      return { item: node, merged: false };
+    }
+
+    this.assertAccess(author, 'write', this.namespaceOf(existing));
+    if (existing.id !== node.id) {
+      this.aliases.set(node.id, existing.id);
+    }
+    // The existing node keeps its id, namespace and description; the incoming write adds evidence
+    existing.confidence = this.contribute(existing, author, contribution);
+    existing.relationships = Array.from(new Set([...existing.relationships, ...(node.relationships || [])]));
+    existing.lastUpdated = new Date(Math.max(new Date(existing.lastUpdated).getTime(), new Date(node.lastUpdated).getTime()));
+    existing.description = existing.description || node.description;
+    existing.provenance = this.mergeProvenance(existing.provenance, node.provenance, existing.id === node.id ? undefined : node.id);
+    return { item: existing, merged: true };
+  }
+
+  private upsertRelationship(author: string, edge: Relationship): SemanticWriteResult<Relationship> {
+    edge.source = this.resolve(edge.source);
+    edge.target = this.resolve(edge.target);
+
+    const existing = this.edgesById.get(edge.id) || this.edgesByKey.get(this.edgeKey(edge));
+    const contribution = this.contributionOf(edge);
+
+    if (!existing) {
+      edge.metadata = { ...edge.metadata, contributions: { [author]: contribution }, lastAuthor: author };
+      this.relationships.push(edge);
+      this.edgesById.set(edge.id, edge);
+      this.edgesByKey.set(this.edgeKey(edge), edge);
+      return { item: edge, merged: false };
+    }
+
+    this.assertAccess(author, 'write', this.namespaceOf(existing));
+    existing.strength = this.contribute(existing, author, contribution);
+    existing.provenance = this.mergeProvenance(existing.provenance, edge.provenance, existing.id === edge.id ? undefined : edge.id);
+    return { item: existing, merged: true };
+  }
+
+  /**
+   * Record an author's contribution on an item and return the new weighted average
+   */
+  private contribute(item: KnowledgeNode | Relationship, author: string, contribution: SemanticContribution): number {
+    const contributions: Record<string, SemanticContribution> = { ...item.metadata?.contributions, [author]: contribution };
+    item.metadata = { ...item.metadata, contributions, lastAuthor: author };
+
+    const entries = Object.values(contributions);
+    const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    return entries.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight;
+  }
+
+  private contributionOf(item: KnowledgeNode | Relationship): SemanticContribution {
+    const value = 'strength' in item ? item.strength : item.confidence;
+    const assertions = Number(item.metadata?.assertions);
+    return { value, weight: assertions > 0 ? assertions : 1, updatedAt: new Date() };
+  }
+
+  private mergeProvenance(base: MemoryProvenance | undefined, incoming: MemoryProvenance | undefined, mergedId?: string): MemoryProvenance | undefined {
+    if (!incoming && !mergedId) return base;
+
+    const union = <T>(a: T[] = [], b: T[] = []) => {
+      const keys = new Set(a.map(value => JSON.stringify(value)));
+      const values = [...a, ...b.filter(value => !keys.has(JSON.stringify(value)))];
+      return values.length > 0 ? values : undefined;
+    };
+
+    const merged: MemoryProvenance = {
+      ...base,
+      sourceActionIds: union(base?.sourceActionIds, incoming?.sourceActionIds),
+      datasetSources: union(base?.datasetSources, incoming?.datasetSources),
+      derivedFrom: union(base?.derivedFrom, incoming?.derivedFrom),
+      mergedFrom: union(base?.mergedFrom, [...(mergedId ? [mergedId] : []), ...(incoming?.mergedFrom || [])])
+    };
+    for (const key of Object.keys(merged) as Array<keyof MemoryProvenance>) {
+      if (merged[key] === undefined) delete merged[key];
+    }
+    return merged;
+  }
+
+  private load(nodes: KnowledgeNode[], relationships: Relationship[]): void {
+    this.nodes = [];
+    this.relationships = [];
+    this.nodesById.clear();
+    this.nodesByConcept.clear();
+    this.edgesById.clear();
+    this.edgesByKey.clear();
+    this.aliases.clear();
+
+    nodes.forEach(node => {
+      this.addNode(node);
+      node.provenance?.mergedFrom?.forEach(id => this.aliases.set(id, node.id));
+    });
+    relationships.forEach(edge => {
+      this.relationships.push(edge);
+      this.edgesById.set(edge.id, edge);
+      this.edgesByKey.set(this.edgeKey(edge), edge);
+    });
+    this.version++;
+  }
+
+  private addNode(node: KnowledgeNode): void {
+    this.nodes.push(node);
+    this.nodesById.set(node.id, node);
+    this.nodesByConcept.set(this.conceptKey(node), node);
+  }
+
+  private asMemory(): AgentMemory {
+    return {
+      shortTerm: { currentContext: [], activeLeads: [], recentActions: [], workingMemory: {} },
+      longTerm: { customerProfiles: [], campaignHistory: [], performanceMetrics: [], learningPatterns: [] },
+      episodic: { successfulInteractions: [], problemResolutions: [], decisionOutcomes: [], contextualLearnings: [] },
+      semantic: { domainKnowledge: this.nodes, relationships: this.relationships, concepts: [], rules: [] }
+    };
+  }
+
+  private resolve(nodeId: string): string {
+    return this.aliases.get(nodeId) || nodeId;
+  }
+
+  private conceptKey(node: KnowledgeNode): string {
+    return `${this.namespaceOf(node)}|${node.concept.trim().toLowerCase()}`;
+  }
+
+  private edgeKey(edge: Relationship): string {
+    const label = KnowledgeGraphQuery.predicateOf(edge);
+    // A→B and B→A are the same edge when its direction carries no meaning
+    const [from, to] = KnowledgeGraphQuery.isSymmetric(edge) && edge.target < edge.source
+      ? [edge.target, edge.source]
+      : [edge.source, edge.target];
+    return `${this.namespaceOf(edge)}|${from}|${label}|${to}`;
+  }
+
+  private namespaceOf(item: KnowledgeNode | Relationship): string {
+    return item.metadata?.namespace || SHARED_NAMESPACE;
+  }
+
+  private allows(agentId: string, access: 'read' | 'write', namespace: string): boolean {
+    if (namespace === `agent:${agentId}`) return true;
+    const granted = (this.grants.get(agentId) || this.defaultAccess)[access];
+    return granted === '*' ? !namespace.startsWith('agent:') : granted.includes(namespace);
+  }
+
+  private assertAccess(agentId: string, access: 'read' | 'write', namespace: string): void {
+    if (!this.allows(agentId, access, namespace)) {
+      throw new SemanticAccessError(agentId, access, namespace);
+    }
+  }
+}
+
+/**
+ * One agent's window onto the shared store: only the namespaces it may read, and writes
+ * attributed to it. Writes go to the shared namespace when the agent may write there and
+ * to its private namespace otherwise.
+ */
+export class SemanticView {
+  private cache: { revision: number; nodes: KnowledgeNode[]; relationships: Relationship[] } | null = null;
+
+  constructor(private readonly store: SharedSemanticStore, public readonly agentId: string) {}
+
+  /** The shared store's revision; changes whenever anything this view reads might have */
+  public get revision(): number {
+    return this.store.revision;
+  }
+
+  public get writeNamespace(): string {
+    return this.store.canWrite(this.agentId, SHARED_NAMESPACE) ? SHARED_NAMESPACE : `agent:${this.agentId}`;
+  }
+
+  public nodes(): KnowledgeNode[] {
+    return this.snapshot().nodes;
+  }
+
+  public relationships(): Relationship[] {
+    return this.snapshot().relationships;
+  }
+
+  /**
+   * This agent's own contribution to an item, if it has made one
+   */
+  public contributionTo(item: KnowledgeNode | Relationship): SemanticContribution | undefined {
+    return item.metadata?.contributions?.[this.agentId];
+  }
+
+  public async writeNode(node: KnowledgeNode): Promise<SemanticWriteResult<KnowledgeNode>> {
+    return this.store.writeNode(this.agentId, node, this.writeNamespace);
+  }
+
+  public async writeRelationship(relationship: Relationship): Promise<SemanticWriteResult<Relationship>> {
+    return this.store.writeRelationship(this.agentId, relationship, this.writeNamespace);
+  }
+
+  public async removeNode(id: string): Promise<boolean> {
+    return this.store.remove(this.agentId, 'domain_knowledge', id);
+  }
+
+  private snapshot(): { nodes: KnowledgeNode[]; relationships: Relationship[] } {
+    if (!this.cache || this.cache.revision !== this.store.revision) {
+      this.cache = {
+        revision: this.store.revision,
+        nodes: this.store.getNodes(this.agentId),
+        relationships: this.store.getRelationships(this.agentId)
+      };
+    }
+    return this.cache;
+  }
+}
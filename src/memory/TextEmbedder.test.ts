@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { TextEmbedder } from './TextEmbedder';
+
+const embedder = new TextEmbedder();
+const similarity = (a: string, b: string) => TextEmbedder.cosine(embedder.embed(a), embedder.embed(b));
+
+describe('TextEmbedder', () => {
+  it('embeds the same text to the same unit vector', () => {
+    const vector = embedder.embed('Quarterly email campaign');
+
+    expect(vector).toHaveLength(256);
+    expect(embedder.embed('quarterly EMAIL campaign!')).toEqual(vector);
+    expect(TextEmbedder.cosine(vector, vector)).toBeCloseTo(1);
+  });
+
+  it('ranks shared words and word forms above unrelated text', () => {
+    const query = 'email campaign for fintech leads';
+
+    expect(similarity(query, 'fintech email campaigns')).toBeGreaterThan(similarity(query, 'sms reminder'));
+    expect(similarity(query, 'fintech leads')).toBeGreaterThan(similarity(query, 'retail shoppers'));
+    expect(similarity('campaign', 'campaigns')).toBeGreaterThan(similarity('campaign', 'webinar'));
+  });
+
+  it('embeds empty text to the zero vector', () => {
+    expect(Array.from(embedder.embed('  ')).every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('TextEmbedder.describe', () => {
+  it('keeps strings, top-level first, and drops ids, numbers and dates', () => {
+    const text = TextEmbedder.describe({
+      id: 'L-1',
+      leadId: 'L-1',
+      score: 80,
+      createdAt: new Date(),
+      preferences: { topics: ['analytics'] },
+      name: 'Ada',
+      industry: 'FinTech'
+    });
+
+    expect(text).toBe('Ada FinTech analytics');
+  });
+
+  it('samples long lists and stops at nested depth', () => {
+    const history = Array.from({ length: 30 }, (_, index) => `touch ${index}`);
+
+    expect(TextEmbedder.describe(history).split(' touch')).toHaveLength(20);
+    expect(TextEmbedder.describe({ a: { b: { c: { d: 'too deep' } } } })).toBe('');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Deterministic local text embeddings: words, word bigrams and character trigrams are hashed
+ * into a fixed number of signed buckets and the result is L2-normalised. No model, no network,
+ * and the same text always produces the same vector.
+ */
+export class TextEmbedder {
+  private static readonly MAX_DESCRIBE_LENGTH = 2000;
+
+  constructor(public readonly dimensions: number = 256) {}
+
+  public embed(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+
+    words.forEach((word, index) => {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      if (index > 0) {
+        this.addFeature(vector, `b:${words[index - 1]} ${word}`, 0.5);
+      }
+
+      // Trigrams let "campaign" match "campaigns" and tolerate small spelling differences
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    return TextEmbedder.normalize(vector);
+  }
+
+  /**
+   * Flatten a memory item into the text worth embedding: its string values, top-level fields first.
+   * Numbers, dates and ids carry no meaning for similarity and long nested lists are sampled,
+   * so a profile isn't drowned out by its own interaction history.
+   */
+  public static describe(value: unknown, depth: number = 0): string {
+    if (typeof value === 'string') return value;
+    if (value === null || typeof value !== 'object' || value instanceof Date || depth > 2) return '';
+
+    const fields = Array.isArray(value)
+      ? value.slice(0, depth === 0 ? 20 : 5)
+      : Object.entries(value as Record<string, unknown>)
+          .filter(([key]) => key !== 'id' && !key.endsWith('Id'))
+          .map(([, field]) => field);
+
+    // Plain strings before nested structures so truncation drops the least descriptive text
+    const scalars = fields.filter(field => typeof field === 'string');
+    const nested = fields.filter(field => typeof field === 'object');
+
+    return [...scalars, ...nested.map(field => this.describe(field, depth + 1))]
+      .filter(Boolean)
+      .join(' ')
+      .slice(0, this.MAX_DESCRIBE_LENGTH);
+  }
+
+  public static cosine(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    // Vectors are normalised, so the dot product is the cosine
+    return dot;
+  }
+
+  private static normalize(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) {
+        vector[i] /= norm;
+      }
+    }
+    return vector;
+  }
+
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = TextEmbedder.fnv1a(feature);
+    // The top bit picks the sign so unrelated features colliding in a bucket tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
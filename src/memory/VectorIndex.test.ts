@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { VectorIndex } from './VectorIndex';
+import { TextEmbedder } from './TextEmbedder';
+
+const embedder = new TextEmbedder(64);
+
+const indexOf = (texts: Record<string, string>) => {
+  const index = new VectorIndex<{ tier: string }>(64);
+  Object.entries(texts).forEach(([key, text]) => index.add(key, embedder.embed(text), { tier: key.startsWith('S') ? 'semantic' : 'episodic' }));
+  return index;
+};
+
+describe('VectorIndex', () => {
+  const index = indexOf({
+    E1: 'email reply from fintech lead',
+    E2: 'sms reminder sent',
+    S1: 'fintech prefers email',
+    S2: 'retail prefers social ads'
+  });
+
+  it('ranks by cosine similarity, best first, up to topK', () => {
+    const hits = index.search(embedder.embed('fintech email'), 3);
+
+    expect(hits.map(hit => hit.key)).toEqual(['S1', 'E1', expect.any(String)]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[1].score).toBeGreaterThan(hits[2].score);
+  });
+
+  it('only returns payloads the filter accepts', () => {
+    const hits = index.search(embedder.embed('fintech email'), 10, payload => payload.tier === 'episodic');
+
+    expect(hits.map(hit => hit.key)).toEqual(['E1', 'E2']);
+  });
+
+  it('replaces a key on re-add and forgets it on remove', () => {
+    const local = indexOf({ A: 'email', B: 'sms' });
+    local.add('A', embedder.embed('social ads'), { tier: 'episodic' });
+
+    expect(local.size).toBe(2);
+    expect(local.search(embedder.embed('social ads'), 1)[0].key).toBe('A');
+
+    expect(local.remove('A')).toBe(true);
+    expect(local.keys()).toEqual(['B']);
+    expect(local.search(embedder.embed('social ads'), 1)[0].key).toBe('B');
+  });
+
+  it('rejects vectors of the wrong size', () => {
+    expect(() => index.add('X', new Float32Array(8), { tier: 'episodic' })).toThrow('Vector has 8 dimensions, index expects 64');
+  });
+
+  it('finds the same nearest neighbour as an exact scan in a larger index', () => {
+    const topics = ['email', 'sms', 'social', 'ads', 'webinar', 'demo', 'trial', 'pricing', 'security', 'onboarding'];
+    const industries = ['fintech', 'healthtech', 'retail', 'saas', 'logistics'];
+    const texts: Record<string, string> = {};
+    topics.forEach(topic => industries.forEach(industry => [1, 2, 3, 4].forEach(step => {
+      texts[`${topic}-${industry}-${step}`] = `${industry} ${topic} touch ${step}`;
+    })));
+    const large = new VectorIndex<null>(64);
+    Object.entries(texts).forEach(([key, text]) => large.add(key, embedder.embed(text), null));
+
+    const query = embedder.embed('retail pricing touch 3');
+    const exact = Object.keys(texts)
+      .map(key => ({ key, score: TextEmbedder.cosine(query, embedder.embed(texts[key])) }))
+      .sort((a, b) => b.score - a.score);
+
+    expect(large.search(query, 1)[0].key).toBe(exact[0].key);
+    expect(exact[0].key).toBe('pricing-retail-3');
+  });
+});
@@ -0,0 +1,139 @@
+import { TextEmbedder } from './TextEmbedder';
+
+export interface VectorSearchHit<T> {
+  key: string;
+  score: number;
+  payload: T;
+}
+
+interface IndexedVector<T> {
+  vector: Float32Array;
+  payload: T;
+  buckets: number[];
+}
+
+/**
+ * Approximate nearest-neighbour index using random-hyperplane LSH. Each table hashes a vector
+ * to the signs of its projections onto a few fixed hyperplanes; a query looks in its own bucket
+ * and the buckets one bit away in every table, then ranks the candidates by exact cosine.
+ * Hyperplanes come from a seeded generator, so the index behaves the same on every run.
+ */
+export class VectorIndex<T> {
+  private entries: Map<string, IndexedVector<T>> = new Map();
+  private tables: Map<number, Set<string>>[];
+  private hyperplanes: Float32Array[][];
+
+  constructor(
+    private readonly dimensions: number,
+    tableCount: number = 16,
+    private readonly bitsPerTable: number = 8,
+    seed: number = 42
+  ) {
+    const random = this.seededRandom(seed);
+    this.hyperplanes = Array.from({ length: tableCount }, () =>
+      Array.from({ length: bitsPerTable }, () => Float32Array.from({ length: dimensions }, () => random() * 2 - 1))
+    );
+    this.tables = Array.from({ length: tableCount }, () => new Map());
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  public keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  public add(key: string, vector: Float32Array, payload: T): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    this.remove(key);
+
+    const buckets = this.hyperplanes.map(planes => this.bucketOf(vector, planes));
+    buckets.forEach((bucket, table) => {
+      const members = this.tables[table].get(bucket) || new Set<string>();
+      members.add(key);
+      this.tables[table].set(bucket, members);
+    });
+
+    this.entries.set(key, { vector, payload, buckets });
+  }
+
+  public remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    entry.buckets.forEach((bucket, table) => {
+      const members = this.tables[table].get(bucket);
+      members?.delete(key);
+      if (members && members.size === 0) {
+        this.tables[table].delete(bucket);
+      }
+    });
+
+    return this.entries.delete(key);
+  }
+
+  public search(query: Float32Array, topK: number, filter?: (payload: T) => boolean): VectorSearchHit<T>[] {
+    const candidates = new Set<string>();
+
+    this.hyperplanes.forEach((planes, table) => {
+      const bucket = this.bucketOf(query, planes);
+      for (let bit = -1; bit < this.bitsPerTable; bit++) {
+        const probe = bit < 0 ? bucket : bucket ^ (1 << bit);
+        this.tables[table].get(probe)?.forEach(key => candidates.add(key));
+      }
+    });
+
+    let hits = this.rank(query, candidates, filter);
+
+    // Small or sparse indexes may not surface enough candidates; fall back to an exact scan
+    if (hits.length < topK && candidates.size < this.entries.size) {
+      hits = this.rank(query, this.entries.keys(), filter);
+    }
+
+    return hits.slice(0, topK);
+  }
+
+  private rank(query: Float32Array, keys: Iterable<string>, filter?: (payload: T) => boolean): VectorSearchHit<T>[] {
+    const hits: VectorSearchHit<T>[] = [];
+
+    for (const key of keys) {
+      const entry = this.entries.get(key)!;
+      if (filter && !filter(entry.payload)) continue;
+      hits.push({ key, score: TextEmbedder.cosine(query, entry.vector), payload: entry.payload });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  private bucketOf(vector: Float32Array, planes: Float32Array[]): number {
+    let bucket = 0;
+    planes.forEach((plane, bit) => {
+      let projection = 0;
+      for (let i = 0; i < vector.length; i++) {
+        projection += vector[i] * plane[i];
+      }
+      if (projection >= 0) bucket |= 1 << bit;
+    });
+    return bucket;
+  }
+
+  private seededRandom(seed: number): () => number {
+    // mulberry32
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -3,30 +3,132 @@ import { createServer } from 'http';
 import { MCPServer } from '../api/MCPServer';
 import { WebSocketServer } from '../api/WebSocketServer';
 import { AgentOrchestrator } from '../system/AgentOrchestrator';
+import { DataExtractor } from '../utils/dataExtractor';
+import { FileMemoryStore } from '../memory/FileMemoryStore';
+import { FileMarketingRepository } from '../api/FileMarketingRepository';
+import { AGENT_TOOLS } from '../api/MCPTools';
+import { MCPAuthenticator } from '../api/MCPAuth';
+import { FileAuthEventLog } from '../api/FileAuthEventLog';
+import { readFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { WebSocket } from 'ws';
 
 const app = express();
 const server = createServer(app);
 const port = process.env.PORT || 3001;
 const wsPort = process.env.WEBSOCKET_PORT || 3002;
+const datasetPath = process.env.DATASET_PATH || 'data/marketing_multi_agent_dataset_v1_final.zip';
+const memoryDir = process.env.MEMORY_DIR || 'data/memory';
+const marketingDir = process.env.MARKETING_DATA_DIR || 'data/marketing';
+// e.g. ws://localhost:3002 to have the agents call this server's MCP over WebSocket
+const mcpUrl = process.env.MCP_URL;
+// JSON array of { key, principal, scopes }; with MCP_JWT_SECRET, turns on MCP authentication
+const mcpApiKeys = process.env.MCP_API_KEYS;
+const jwtSecret = process.env.MCP_JWT_SECRET;
+const authLogPath = process.env.AUTH_LOG_PATH || 'data/auth/events.jsonl';
 
 async function startServer() {
   try {
     console.log('🚀 Starting AIML Marketing Multi-Agent System...');
 
-    // Initialize MCP Server
-    const mcpServer = new MCPServer(port);
-    console.log('✅ MCP Server initialized');
+    // Initialize MCP Server on the saved leads, campaigns and customer profiles
+    const repository = new FileMarketingRepository(marketingDir);
+    await repository.open();
+
+    // Check API keys and signed tokens against each method's scope, logging every decision
+    let auth: MCPAuthenticator | undefined;
+    if (mcpApiKeys || jwtSecret) {
+      const authLog = new FileAuthEventLog(authLogPath);
+      await authLog.open();
+      auth = new MCPAuthenticator({
+        apiKeys: mcpApiKeys ? JSON.parse(mcpApiKeys) : [],
+        jwtSecret,
+        jwtIssuer: process.env.MCP_JWT_ISSUER,
+        jwtAudience: process.env.MCP_JWT_AUDIENCE,
+        log: authLog
+      });
+    }
+
+    const mcpServer = new MCPServer(port, repository, auth);
+    console.log(`✅ MCP Server initialized (records persisted in ${marketingDir})`);
+    if (auth) {
+      console.log(`✅ MCP authentication enabled (decisions logged to ${authLogPath})`);
+    } else {
+      console.warn('⚠️  MCP authentication disabled: set MCP_API_KEYS or MCP_JWT_SECRET to require credentials');
+    }
 
     // Initialize WebSocket Server
     const wsServer = new WebSocketServer(wsPort);
-    console.log('✅ WebSocket Server initialized');
+    wsServer.attachMCP(mcpServer);
+    console.log('✅ WebSocket Server initialized (serving MCP)');
 
     // Initialize Agent Orchestrator
-    const orchestrator = new AgentOrchestrator();
+    const orchestrator = new AgentOrchestrator({
+      memoryStore: new FileMemoryStore(memoryDir),
+      mcp: mcpUrl
+        ? {
+            url: mcpUrl,
+            apiKey: process.env.MCP_API_KEY || '',
+            // Node has no global WebSocket before v22
+            createSocket: url => new WebSocket(url) as unknown as globalThis.WebSocket
+          }
+        : undefined
+    });
     await orchestrator.initialize();
-    console.log('✅ Agent Orchestrator initialized');
+    console.log(`✅ Agent Orchestrator initialized (memory persisted in ${memoryDir})`);
+
+    // Let external tools browse agent memory page by page, and move snapshots between deployments
+    mcpServer.registerHandler('memory.query', async (params) =>
+      orchestrator.queryAgentMemory(params.agentId, params.query),
+      AGENT_TOOLS['memory.query']
+    );
+    mcpServer.registerHandler('memory.lineage', async (params) =>
+      orchestrator.getMemoryLineage(params.agentId, params.itemId, params.maxDepth),
+      AGENT_TOOLS['memory.lineage']
+    );
+    mcpServer.registerHandler('memory.usage', async (params) =>
+      orchestrator.getMemoryUsage(params?.agentId),
+      AGENT_TOOLS['memory.usage']
+    );
+    mcpServer.registerHandler('memory.export', async (params) =>
+      orchestrator.exportMemorySnapshot(params?.agentIds),
+      AGENT_TOOLS['memory.export']
+    );
+    mcpServer.registerHandler('memory.import', async (params) =>
+      orchestrator.importMemorySnapshot(params.snapshot, params.options),
+      AGENT_TOOLS['memory.import']
+    );
+
+    // Graph queries over the shared knowledge graph, as seen by one agent when agentId is given
+    mcpServer.registerHandler('kg.neighbors', async (params) =>
+      orchestrator.queryKnowledgeGraph(params?.agentId).neighbors(params.node, params.filter),
+      AGENT_TOOLS['kg.neighbors']
+    );
+    mcpServer.registerHandler('kg.traverse', async (params) =>
+      orchestrator.queryKnowledgeGraph(params?.agentId).traverse(params.start, params.options),
+      AGENT_TOOLS['kg.traverse']
+    );
+    mcpServer.registerHandler('kg.shortestPath', async (params) =>
+      orchestrator.queryKnowledgeGraph(params?.agentId).shortestPath(params.from, params.to, params.options),
+      AGENT_TOOLS['kg.shortestPath']
+    );
+    mcpServer.registerHandler('kg.match', async (params) =>
+      orchestrator.queryKnowledgeGraph(params?.agentId).match(params.patterns, params.limit),
+      AGENT_TOOLS['kg.match']
+    );
+
+    // The shared knowledge graph as a resource; ?agentId= reads it as one agent sees it
+    mcpServer.registerResource(
+      {
+        uri: 'kg://graph',
+        name: 'Knowledge graph',
+        description: 'Concepts and weighted relationships shared by the agents',
+        mimeType: 'application/json'
+      },
+      async (uri) => orchestrator.getKnowledgeGraph(uri.searchParams.get('agentId') || undefined)
+    );
 
-    // Start servers
+    // Start servers before loading, since agents call MCP while they take in the dataset
     await Promise.all([
       mcpServer.start(),
       wsServer.start()
@@ -34,25 +136,40 @@ async function startServer() {
 
     console.log(`🎯 AIML Marketing System running on:`);
     console.log(`   HTTP API: http://localhost:${port}`);
-    console.log(`   WebSocket: ws://localhost:${wsPort}`);
+    console.log(`   WebSocket: ws://localhost:${wsPort} (agent messages and MCP)`);
     console.log(`   Frontend: http://localhost:5173`);
     console.log('');
-    console.log('📊 System Status:');
-    console.log('   - Lead Triage Agent: Active');
-    console.log('   - Engagement Agent: Active');
-    console.log('   - Campaign Optimization Agent: Active');
-    console.log('   - Adaptive Memory System: Operational');
-    console.log('');
-    console.log('🔗 Access the dashboard to start managing leads and campaigns!');
 
     // Graceful shutdown
     process.on('SIGTERM', async () => {
       console.log('🛑 Shutting down gracefully...');
       await orchestrator.shutdown();
+      await repository.flush();
+      await auth?.getLog().flush();
       await wsServer.stop();
       process.exit(0);
     });
 
+    // Load the marketing dataset bundle. Records go to the repository first, so the agents'
+    // MCP updates find them; records edited through the MCP server since the first start are kept.
+    const zipFile = await readFile(datasetPath);
+    const marketingData = await DataExtractor.extractMarketingData(
+      zipFile.buffer.slice(zipFile.byteOffset, zipFile.byteOffset + zipFile.byteLength)
+    );
+    const seeded = await repository.seed(marketingData);
+    // Agent memory is persisted, so a restart only loads the phases this bundle hasn't finished yet
+    const datasetId = createHash('sha256').update(zipFile).digest('hex');
+    await orchestrator.loadMarketingData(marketingData, { datasetId });
+    console.log(`✅ Marketing dataset loaded from ${datasetPath} (${seeded} records seeded)`);
+    console.log('');
+    console.log('📊 System Status:');
+    console.log('   - Lead Triage Agent: Active');
+    console.log('   - Engagement Agent: Active');
+    console.log('   - Campaign Optimization Agent: Active');
+    console.log('   - Adaptive Memory System: Operational');
+    console.log('');
+    console.log('🔗 Access the dashboard to start managing leads and campaigns!');
+
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentOrchestrator } from './AgentOrchestrator';
+import { InMemoryStore } from '../memory/MemoryStore';
+import { DataLoadProgress, MarketingDataset } from '../types';
+import { leadRecord } from '../test/records';
+
+const dataset: MarketingDataset = {
+  leads: [leadRecord('L-1'), leadRecord('L-2')],
+  campaigns: [],
+  customers: [],
+  knowledgeGraph: {
+    nodes: [{ id: 'N-1', concept: 'Email', description: 'Email', relationships: [], confidence: 1, lastUpdated: new Date() }],
+    relationships: []
+  }
+};
+
+const phasesOf = (onProgress: ReturnType<typeof vi.fn>) =>
+  [...new Set(onProgress.mock.calls.map(([progress]) => (progress as DataLoadProgress).phase))];
+
+describe('AgentOrchestrator dataset loads', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resumes an interrupted load after the last phase it finished', async () => {
+    const store = new InMemoryStore();
+    const controller = new AbortController();
+    await new AgentOrchestrator({ memoryStore: store }).loadMarketingData(dataset, {
+      datasetId: 'bundle-1',
+      signal: controller.signal,
+      onProgress: progress => progress.phase === 'leads' && controller.abort()
+    });
+
+    const onProgress = vi.fn();
+    const progress = await new AgentOrchestrator({ memoryStore: store }).loadMarketingData(dataset, { datasetId: 'bundle-1', onProgress });
+
+    expect(phasesOf(onProgress)[0]).toBe('leads');
+    expect(progress).toMatchObject({ phase: 'complete', processed: 3, total: 3 });
+  });
+
+  it('skips a dataset that already loaded, but not a different one', async () => {
+    const store = new InMemoryStore();
+    await new AgentOrchestrator({ memoryStore: store }).loadMarketingData(dataset, { datasetId: 'bundle-1' });
+
+    const again = vi.fn();
+    await new AgentOrchestrator({ memoryStore: store }).loadMarketingData(dataset, { datasetId: 'bundle-1', onProgress: again });
+    const other = vi.fn();
+    await new AgentOrchestrator({ memoryStore: store }).loadMarketingData(dataset, { datasetId: 'bundle-2', onProgress: other });
+
+    expect(phasesOf(again)).toEqual(['complete']);
+    expect(phasesOf(other)[0]).toBe('knowledge');
+  });
+});
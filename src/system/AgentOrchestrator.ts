@@ -1,24 +1,99 @@
 import { LeadTriageAgent } from '../agents/LeadTriageAgent';
 import { EngagementAgent } from '../agents/EngagementAgent';
 import { CampaignOptimizationAgent } from '../agents/CampaignOptimizationAgent';
-import { MCPClient } from '../mcp/MCPClient';
+import { MCPClient, MCPClientOptions } from '../mcp/MCPClient';
 import { WebSocketManager } from '../communication/WebSocketManager';
-import { Agent, AgentAction, ActionResult, Lead, Campaign, SystemMetrics } from '../types';
+import { Agent, AgentAction, AgentIdentity, AgentType, ActionType, ActionResult, Lead, Campaign, SystemMetrics, MarketingDataset, DataLoadOptions, DataLoadProgress, ConversationTimeline, DatasetContext, KnowledgeGraph, KnowledgeNode, Relationship, Playbook, SegmentSummary, SegmentMember } from '../types';
+import { BatchPipeline } from '../utils/batchPipeline';
+import { SegmentEngine } from './SegmentEngine';
+import { AgentRegistry, DEFAULT_AGENT_IDENTITIES } from './AgentRegistry';
+import { AgentOptions, BaseAgent } from '../agents/BaseAgent';
+import { InMemoryStore, MemoryStore } from '../memory/MemoryStore';
+import { MemoryQuery, MemoryQueryResult } from '../memory/MemoryQuery';
+import { MemoryEvictionEvent, MemoryLineage } from '../memory/MemoryManager';
+import { MemoryUsage } from '../memory/MemoryIndex';
+import {
+  MemorySnapshot,
+  MemorySnapshotCodec,
+  MemorySnapshotImportOptions,
+  MemorySnapshotImportResult
+} from '../memory/MemorySnapshot';
+import { DEFAULT_MEMORY_POLICY, MemoryPolicy, MemoryPolicyPatch, QuotaPolicy, mergeMemoryPolicy } from '../memory/MemoryPolicy';
+import { SemanticAccess, SemanticAccessError, SharedSemanticStore } from '../memory/SharedSemanticStore';
+import { KnowledgeGraphQuery } from '../memory/KnowledgeGraphQuery';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface AgentOrchestratorOptions {
+  /** Where agents persist their memory; defaults to an in-process store */
+  memoryStore?: MemoryStore;
+  /** Agents to run; several identities may share a type. Defaults to one agent per type. */
+  agents?: AgentIdentity[];
+  /** Memory policy for every agent, on top of the defaults */
+  memoryPolicy?: MemoryPolicyPatch;
+  /** Per-agent memory policy overrides, keyed by agent id, alias or type */
+  memoryPolicies?: Record<string, MemoryPolicyPatch>;
+  /**
+   * Which shared knowledge namespaces agents may read and write, keyed by agent id, alias or type.
+   * Agents without an entry read everything and write the shared namespace.
+   */
+  semanticAccess?: Record<string, SemanticAccess>;
+  /**
+   * MCP server the agents call; defaults to the demo HTTP endpoint. A ws:// or wss:// url
+   * switches every agent to the WebSocket transport.
+   */
+  mcp?: MCPClientOptions & { url: string; apiKey: string };
+}
+
+export interface AgentMemoryUsage {
+  usage: MemoryUsage;
+  quota: QuotaPolicy;
+  /** Latest quota evictions, newest first */
+  evictions: MemoryEvictionEvent[];
+}
+
+/** Author recorded on knowledge loaded from the dataset */
+const DATASET_AUTHOR = 'dataset';
+
+/** Memory store key of the log recording how far each dataset load got */
+const DATASET_LOG_KEY = 'dataset-loads';
+
+const AGENT_FACTORIES: Record<AgentType, (mcpClient: MCPClient, wsManager: WebSocketManager, options: AgentOptions) => BaseAgent> = {
+  [AgentType.LEAD_TRIAGE]: (mcpClient, wsManager, options) => new LeadTriageAgent(mcpClient, wsManager, options),
+  [AgentType.ENGAGEMENT]: (mcpClient, wsManager, options) => new EngagementAgent(mcpClient, wsManager, options),
+  [AgentType.CAMPAIGN_OPTIMIZATION]: (mcpClient, wsManager, options) =>
+    new CampaignOptimizationAgent(mcpClient, wsManager, options)
+};
+
 export class AgentOrchestrator {
-  private agents: Map<string, Agent> = new Map();
+  private registry = new AgentRegistry<BaseAgent>();
+  private agentIdentities: AgentIdentity[];
+  private leadAssignments: Map<string, string> = new Map();
   private mcpClient: MCPClient;
   private wsManager: WebSocketManager;
   private systemMetrics: SystemMetrics;
   private isRunning: boolean = false;
-
-  constructor() {
-    // Initialize MCP client with mock endpoint
-    this.mcpClient = new MCPClient(
-      'https://api.purplemerit.com',
-      'mock-api-key-for-demo'
-    );
+  private segmentEngine: SegmentEngine = new SegmentEngine();
+  private memoryStore: MemoryStore;
+  private memoryPolicy: MemoryPolicyPatch;
+  private memoryPolicies: Record<string, MemoryPolicyPatch>;
+  private semanticStore: SharedSemanticStore;
+  private semanticAccess: Record<string, SemanticAccess>;
+  private restoredEntries: number = 0;
+
+  constructor(options: AgentOrchestratorOptions = {}) {
+    this.memoryStore = options.memoryStore || new InMemoryStore();
+    this.agentIdentities = options.agents || DEFAULT_AGENT_IDENTITIES;
+    this.memoryPolicy = options.memoryPolicy || {};
+    this.memoryPolicies = options.memoryPolicies || {};
+    this.semanticStore = new SharedSemanticStore(this.memoryStore);
+    this.semanticAccess = options.semanticAccess || {};
+
+    // Initialize MCP client, against the mock endpoint unless configured
+    const { url, apiKey, ...mcpOptions } = options.mcp || {
+      url: 'https://api.purplemerit.com',
+      apiKey: 'mock-api-key-for-demo'
+    };
+    this.mcpClient = new MCPClient(url, apiKey, mcpOptions);
 
     // Initialize WebSocket manager with mock endpoint
     this.wsManager = new WebSocketManager('wss://ws.purplemerit.com/agents');
@@ -77,22 +152,46 @@ export class AgentOrchestrator {
   private async createAgents(): Promise<void> {
     console.log('Creating specialized agents...');
 
-    // Create Lead Triage Agent
-    const triageAgent = new LeadTriageAgent(this.mcpClient, this.wsManager);
-    this.agents.set(triageAgent.id, triageAgent);
-    this.agents.set('triage_agent', triageAgent); // Alias for easy access
+    for (const identity of this.agentIdentities) {
+      const agent = AGENT_FACTORIES[identity.type](this.mcpClient, this.wsManager, {
+        id: identity.id,
+        name: identity.name,
+        aliases: identity.aliases,
+        memoryStore: this.memoryStore,
+        memoryPolicy: this.memoryPolicyFor(identity)
+      });
+      this.registry.register(agent, identity);
+    }
 
-    // Create Engagement Agent
-    const engagementAgent = new EngagementAgent(this.mcpClient, this.wsManager);
-    this.agents.set(engagementAgent.id, engagementAgent);
-    this.agents.set('engagement_agent', engagementAgent); // Alias for easy access
+    console.log(`Created ${this.registry.getAll().length} agents`);
 
-    // Create Campaign Optimization Agent
-    const optimizationAgent = new CampaignOptimizationAgent(this.mcpClient, this.wsManager);
-    this.agents.set(optimizationAgent.id, optimizationAgent);
-    this.agents.set('optimization_agent', optimizationAgent); // Alias for easy access
+    for (const identity of this.agentIdentities) {
+      const access = Object.entries(this.semanticAccess)
+        .filter(([ref]) => ref === identity.type || AgentRegistry.matches(identity, ref))
+        .map(([, grant]) => grant)
+        .pop();
+      if (access) this.semanticStore.grant(identity.id, access);
+    }
+
+    // Pick up where the previous run left off: shared knowledge first, then each agent
+    await this.semanticStore.restore();
 
-    console.log(`Created ${this.agents.size / 2} agents`); // Divide by 2 due to aliases
+    for (const agent of this.registry.getAll()) {
+      await agent.attachSharedSemantic(this.semanticStore.view(agent.id));
+      const replayed = await agent.restoreMemory();
+      this.restoredEntries += replayed;
+      if (replayed > 0) {
+        console.log(`Restored ${agent.name} memory from ${replayed} log entries`);
+      }
+    }
+  }
+
+  private memoryPolicyFor(identity: AgentIdentity): MemoryPolicy {
+    const shared = mergeMemoryPolicy(DEFAULT_MEMORY_POLICY, this.memoryPolicy);
+
+    return Object.entries(this.memoryPolicies)
+      .filter(([ref]) => ref === identity.type || AgentRegistry.matches(identity, ref))
+      .reduce((policy, [, patch]) => mergeMemoryPolicy(policy, patch), shared);
   }
 
   private async setupSystemMonitoring(): Promise<void> {
@@ -101,15 +200,20 @@ export class AgentOrchestrator {
       await this.updateSystemMetrics();
     }, 30000);
 
-    // Memory cleanup every 5 minutes
+    // Check each agent's consolidation triggers every 30 seconds; the policies decide when to run
     setInterval(async () => {
       await this.performMemoryCleanup();
-    }, 300000);
+    }, 30000);
 
     // Health checks every minute
     setInterval(async () => {
       await this.performHealthChecks();
     }, 60000);
+
+    // Expire short-term memory every minute
+    setInterval(async () => {
+      await this.performMemoryExpiry();
+    }, 60000);
   }
 
   private async startOrchestration(): Promise<void> {
@@ -121,8 +225,10 @@ export class AgentOrchestrator {
     // Start processing queued tasks
     this.startTaskProcessing();
 
-    // Initialize with sample data for demonstration
-    await this.initializeSampleData();
+    // Initialize with sample data for demonstration, unless memory from a previous run came back
+    if (this.restoredEntries === 0) {
+      await this.initializeSampleData();
+    }
   }
 
   private setupAgentCommunication(): void {
@@ -153,15 +259,15 @@ export class AgentOrchestrator {
 
   private async handleAgentHandoff(message: any): Promise<void> {
     const { targetAgent, context, reason } = message.payload;
-    const targetAgentInstance = this.agents.get(targetAgent);
+    const targetAgentInstance = this.registry.get(targetAgent);
 
     if (targetAgentInstance) {
-      console.log(`Handing off from ${message.agentId} to ${targetAgent}: ${reason}`);
+      console.log(`Handing off from ${message.agentId} to ${targetAgentInstance.id}: ${reason}`);
       
       // Create handoff action for target agent
       const handoffAction: AgentAction = {
         id: uuidv4(),
-        agentId: targetAgent,
+        agentId: targetAgentInstance.id,
         type: 'HANDOFF_RECEIVED' as any,
         target: context.leadId || context.campaignId,
         payload: {
@@ -173,17 +279,25 @@ export class AgentOrchestrator {
       };
 
       // Process the handoff
-      await (targetAgentInstance as any).processAction(handoffAction);
+      await targetAgentInstance.processAction(handoffAction);
     }
   }
 
   private async handleMemoryUpdate(message: any): Promise<void> {
-    // Broadcast memory updates to relevant agents
     const { memoryType, data } = message.payload;
     
-    // Update system-wide knowledge if it's semantic memory
-    if (memoryType === 'semantic') {
-      this.broadcastSemanticUpdate(data);
+    // Semantic knowledge goes to the shared store once, credited to the agent that reported it
+    if (memoryType === 'semantic' && data && typeof data === 'object') {
+      try {
+        if ('concept' in data) {
+          await this.semanticStore.writeNode(message.agentId, data);
+        } else if ('source' in data && 'target' in data) {
+          await this.semanticStore.writeRelationship(message.agentId, data);
+        }
+      } catch (error) {
+        if (!(error instanceof SemanticAccessError)) throw error;
+        console.warn(error.message);
+      }
     }
   }
 
@@ -191,7 +305,7 @@ export class AgentOrchestrator {
     const { campaignId, updates } = message.payload;
     
     // Notify optimization agent of campaign changes
-    const optimizationAgent = this.agents.get('optimization_agent');
+    const optimizationAgent = this.registry.assign(AgentType.CAMPAIGN_OPTIMIZATION, campaignId);
     if (optimizationAgent) {
       const action: AgentAction = {
         id: uuidv4(),
@@ -202,7 +316,7 @@ export class AgentOrchestrator {
         timestamp: new Date()
       };
 
-      await (optimizationAgent as any).processAction(action);
+      await optimizationAgent.processAction(action);
     }
   }
 
@@ -232,24 +346,6 @@ export class AgentOrchestrator {
     // 3. Trigger automated fallback procedures
   }
 
-  private broadcastSemanticUpdate(data: any): void {
-    // Share semantic knowledge across all agents
-    this.agents.forEach(async (agent, agentId) => {
-      if (!agentId.includes('_agent')) return; // Skip aliases
-      
-      try {
-        await (agent as any).storeMemory('semantic', {
-          type: 'shared_knowledge',
-          data,
-          sharedBy: 'system',
-          timestamp: new Date()
-        });
-      } catch (error) {
-        console.error(`Failed to share knowledge with agent ${agentId}:`, error);
-      }
-    });
-  }
-
   private startTaskProcessing(): void {
     // Process tasks every 5 seconds
     setInterval(async () => {
@@ -259,8 +355,7 @@ export class AgentOrchestrator {
 
   private async processScheduledTasks(): Promise<void> {
     // Check for scheduled followups
-    const engagementAgent = this.agents.get('engagement_agent') as any;
-    if (engagementAgent) {
+    for (const engagementAgent of this.registry.getByType(AgentType.ENGAGEMENT)) {
       const followups = await engagementAgent.retrieveMemory('short', {
         type: 'scheduled_followup'
       });
@@ -294,8 +389,7 @@ export class AgentOrchestrator {
   }
 
   private async updateSystemMetrics(): Promise<void> {
-    const activeAgentCount = Array.from(this.agents.values())
-      .filter(agent => !agent.id.includes('_agent')) // Exclude aliases
+    const activeAgentCount = this.registry.getAll()
       .filter(agent => agent.status === 'active' || agent.status === 'processing').length;
 
     this.systemMetrics = {
@@ -316,14 +410,12 @@ export class AgentOrchestrator {
   private async getTotalLeadsCount(): Promise<number> {
     let totalLeads = 0;
     
-    for (const [agentId, agent] of this.agents) {
-      if (agentId.includes('_agent')) continue; // Skip aliases
-      
+    for (const agent of this.registry.getAll()) {
       try {
-        const memoryStats = await (agent as any).getMemoryStats();
+        const memoryStats = await agent.getMemoryStats();
         totalLeads += memoryStats.shortTermItems || 0;
       } catch (error) {
-        console.error(`Failed to get memory stats for agent ${agentId}:`, error);
+        console.error(`Failed to get memory stats for agent ${agent.id}:`, error);
       }
     }
 
@@ -331,22 +423,25 @@ export class AgentOrchestrator {
   }
 
   private async getActiveCampaignsCount(): Promise<number> {
-    const engagementAgent = this.agents.get('engagement_agent') as any;
-    if (!engagementAgent) return 0;
+    let activeCampaigns = 0;
 
-    try {
-      const campaigns = await engagementAgent.retrieveMemory('long', {
-        type: 'campaign',
-        status: 'active'
-      });
-      return campaigns.length;
-    } catch (error) {
-      return 0;
+    for (const engagementAgent of this.registry.getByType(AgentType.ENGAGEMENT)) {
+      try {
+        const campaigns = await engagementAgent.retrieveMemory('long', {
+          type: 'campaign',
+          status: 'active'
+        });
+        activeCampaigns += campaigns.length;
+      } catch {
+        // Skip agents whose memory can't be read
+      }
     }
+
+    return activeCampaigns;
   }
 
   private async calculateSystemConversionRate(): Promise<number> {
-    const engagementAgent = this.agents.get('engagement_agent') as any;
+    const engagementAgent = this.registry.getByType(AgentType.ENGAGEMENT)[0] as EngagementAgent | undefined;
     if (!engagementAgent) return 0;
 
     try {
@@ -361,17 +456,15 @@ export class AgentOrchestrator {
     let totalResponseTime = 0;
     let responseCount = 0;
 
-    for (const [agentId, agent] of this.agents) {
-      if (agentId.includes('_agent')) continue; // Skip aliases
-      
+    for (const agent of this.registry.getAll()) {
       try {
-        const performanceMetrics = await (agent as any).getPerformanceMetrics();
+        const performanceMetrics = await agent.getPerformanceMetrics();
         if (performanceMetrics.processing_time) {
           totalResponseTime += performanceMetrics.processing_time;
           responseCount++;
         }
       } catch (error) {
-        console.error(`Failed to get performance metrics for agent ${agentId}:`, error);
+        console.error(`Failed to get performance metrics for agent ${agent.id}:`, error);
       }
     }
 
@@ -379,44 +472,48 @@ export class AgentOrchestrator {
   }
 
   private calculateSystemLoad(): number {
-    const processingAgents = Array.from(this.agents.values())
-      .filter(agent => !agent.id.includes('_agent')) // Exclude aliases
+    const processingAgents = this.registry.getAll()
       .filter(agent => agent.status === 'processing').length;
 
-    const totalAgents = Array.from(this.agents.values())
-      .filter(agent => !agent.id.includes('_agent')).length;
+    const totalAgents = this.registry.getAll().length;
 
     return totalAgents > 0 ? processingAgents / totalAgents : 0;
   }
 
+  /**
+   * Fraction of the agents' byte quotas in use. Agents without a quota count against the default one.
+   */
   private async calculateMemoryUsage(): Promise<number> {
-    let totalMemoryItems = 0;
-    const maxMemoryItems = 10000; // Arbitrary limit for calculation
+    let usedBytes = 0;
+    let quotaBytes = 0;
 
-    for (const [agentId, agent] of this.agents) {
-      if (agentId.includes('_agent')) continue; // Skip aliases
-      
+    Object.values(this.getMemoryUsage()).forEach(({ usage, quota }) => {
+      usedBytes += usage.totalBytes;
+      quotaBytes += quota.maxBytes ?? DEFAULT_MEMORY_POLICY.quota.maxBytes ?? usage.totalBytes;
+    });
+
+    return quotaBytes > 0 ? Math.min(usedBytes / quotaBytes, 1.0) : 0;
+  }
+
+  private async performMemoryCleanup(): Promise<void> {
+    for (const agent of this.registry.getAll()) {
       try {
-        const memoryStats = await (agent as any).getMemoryStats();
-        totalMemoryItems += Object.values(memoryStats).reduce((sum: number, count: any) => sum + count, 0);
+        await agent.consolidateMemoryIfDue();
       } catch (error) {
-        console.error(`Failed to get memory stats for agent ${agentId}:`, error);
+        console.error(`Memory cleanup failed for agent ${agent.id}:`, error);
       }
     }
-
-    return Math.min(totalMemoryItems / maxMemoryItems, 1.0);
   }
 
-  private async performMemoryCleanup(): Promise<void> {
-    console.log('Performing system-wide memory cleanup...');
-
-    for (const [agentId, agent] of this.agents) {
-      if (agentId.includes('_agent')) continue; // Skip aliases
-      
+  private async performMemoryExpiry(): Promise<void> {
+    for (const agent of this.registry.getAll()) {
       try {
-        await (agent as any).consolidateMemory();
+        const events = await agent.sweepExpiredMemory();
+        if (events.length > 0) {
+          console.log(`Expired ${events.length} short-term memories for agent ${agent.id}`);
+        }
       } catch (error) {
-        console.error(`Memory cleanup failed for agent ${agentId}:`, error);
+        console.error(`Memory expiry failed for agent ${agent.id}:`, error);
       }
     }
   }
@@ -435,11 +532,9 @@ export class AgentOrchestrator {
     }
 
     // Check agent health
-    for (const [agentId, agent] of this.agents) {
-      if (agentId.includes('_agent')) continue; // Skip aliases
-      
+    for (const agent of this.registry.getAll()) {
       if (agent.status === 'error') {
-        console.warn(`Agent ${agentId} is in error state`);
+        console.warn(`Agent ${agent.id} is in error state`);
         // In production, this would trigger recovery procedures
       }
     }
@@ -448,7 +543,7 @@ export class AgentOrchestrator {
   private routeMessage(message: any): void {
     // Route messages to appropriate agents
     if (message.targetAgentId) {
-      const targetAgent = this.agents.get(message.targetAgentId);
+      const targetAgent = this.registry.get(message.targetAgentId);
       if (targetAgent) {
         // Message will be handled by the agent's message handler
         return;
@@ -457,17 +552,16 @@ export class AgentOrchestrator {
 
     // Broadcast messages to all agents if no specific target
     if (message.type === 'SYSTEM_BROADCAST') {
-      this.agents.forEach((agent, agentId) => {
-        if (!agentId.includes('_agent')) { // Skip aliases
-          // Agent will handle the message through its message handler
-        }
+      this.registry.getAll().forEach(() => {
+        // Agent will handle the message through its message handler
       });
     }
   }
 
   // Public API Methods
   public async processNewLead(leadData: Partial<Lead>): Promise<ActionResult> {
-    const triageAgent = this.agents.get('triage_agent') as any;
+    const leadKey = leadData.id || leadData.email;
+    const triageAgent = this.registry.assign(AgentType.LEAD_TRIAGE, leadKey);
     if (!triageAgent) {
       return {
         success: false,
@@ -478,17 +572,24 @@ export class AgentOrchestrator {
     const action: AgentAction = {
       id: uuidv4(),
       agentId: triageAgent.id,
-      type: 'CATEGORIZE_LEAD' as any,
+      type: ActionType.CATEGORIZE_LEAD,
       target: leadData.email || 'unknown',
       payload: { lead: leadData },
       timestamp: new Date()
     };
 
+    // Remember which engagement agent owns the lead so its profile and history land there too
+    const engagementAgent = this.registry.assign(AgentType.ENGAGEMENT, leadKey, leadData.metadata?.assignedEngagementAgent);
+    if (leadKey && engagementAgent) {
+      this.leadAssignments.set(leadKey, engagementAgent.id);
+    }
+
+    this.segmentEngine.upsertLead(leadData);
     return await triageAgent.processAction(action);
   }
 
   public async createCampaign(campaignData: Partial<Campaign>): Promise<ActionResult> {
-    const engagementAgent = this.agents.get('engagement_agent') as any;
+    const engagementAgent = this.registry.assign(AgentType.ENGAGEMENT, campaignData.id || campaignData.name) as EngagementAgent | undefined;
     if (!engagementAgent) {
       return {
         success: false,
@@ -497,6 +598,22 @@ export class AgentOrchestrator {
     }
 
     try {
+      // Targeting a segment snapshots its current members as the audience
+      if (campaignData.targetSegmentId) {
+        const segment = this.segmentEngine.findSegment(campaignData.targetSegmentId);
+        if (!segment) {
+          return {
+            success: false,
+            error: `Unknown segment: ${campaignData.targetSegmentId}`
+          };
+        }
+        campaignData = {
+          ...campaignData,
+          targetSegmentId: segment.id,
+          targetAudience: this.segmentEngine.getMemberIds(segment.id)
+        };
+      }
+
       const campaign = await engagementAgent.createCampaign(campaignData);
       
       return {
@@ -516,7 +633,7 @@ export class AgentOrchestrator {
   }
 
   public async optimizeCampaign(campaignId: string): Promise<ActionResult> {
-    const optimizationAgent = this.agents.get('optimization_agent') as any;
+    const optimizationAgent = this.registry.assign(AgentType.CAMPAIGN_OPTIMIZATION, campaignId);
     if (!optimizationAgent) {
       return {
         success: false,
@@ -536,23 +653,197 @@ export class AgentOrchestrator {
     return await optimizationAgent.processAction(action);
   }
 
+  public getSegments(): SegmentSummary[] {
+    return this.segmentEngine.getSummaries();
+  }
+
+  public getSegmentMembers(segmentIdOrName: string, offset: number = 0, limit?: number): SegmentMember[] {
+    return this.segmentEngine.getMembers(segmentIdOrName, offset, limit);
+  }
+
   public getSystemMetrics(): SystemMetrics {
     return { ...this.systemMetrics };
   }
 
+  /**
+   * Resolve an agent id, alias, dataset agent code (e.g. EN-015) or agent type to a running agent
+   */
+  public getAgent(ref: string): Agent | undefined {
+    return this.registry.get(ref);
+  }
+
+  /**
+   * Page through one agent's memory without copying whole tiers
+   */
+  public queryAgentMemory(agentRef: string, query: MemoryQuery = {}): MemoryQueryResult {
+    const agent = this.registry.get(agentRef);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    return agent.queryMemory(query);
+  }
+
+  public getMemoryPolicy(agentRef: string): MemoryPolicy {
+    const agent = this.registry.get(agentRef);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    return agent.getMemoryPolicy();
+  }
+
+  /**
+   * Hot-reload memory policy for one agent, or for all of them when no agent is given.
+   * Returns the resulting policy per agent id.
+   */
+  public async updateMemoryPolicy(patch: MemoryPolicyPatch, agentRef?: string): Promise<Record<string, MemoryPolicy>> {
+    const agent = agentRef ? this.registry.get(agentRef) : undefined;
+    if (agentRef && !agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    const policies: Record<string, MemoryPolicy> = {};
+    for (const target of agent ? [agent] : this.registry.getAll()) {
+      policies[target.id] = await target.setMemoryPolicy(patch);
+    }
+    return policies;
+  }
+
+  /**
+   * Bytes held per tier and item type, the quota they count against and recent evictions,
+   * for one agent or for all of them
+   */
+  public getMemoryUsage(agentRef?: string): Record<string, AgentMemoryUsage> {
+    const agent = agentRef ? this.registry.get(agentRef) : undefined;
+    if (agentRef && !agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    const usage: Record<string, AgentMemoryUsage> = {};
+    for (const target of agent ? [agent] : this.registry.getAll()) {
+      usage[target.id] = {
+        usage: target.getMemoryUsage(),
+        quota: target.getMemoryPolicy().quota,
+        evictions: target.getRecentEvictions()
+      };
+    }
+    return usage;
+  }
+
+  /**
+   * Lineage of one item in an agent's memory, or null if the agent doesn't hold it
+   */
+  public getMemoryLineage(agentRef: string, itemId: string, maxDepth?: number): MemoryLineage | null {
+    const agent = this.registry.get(agentRef);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    return agent.explainMemory(itemId, maxDepth);
+  }
+
+  /**
+   * The knowledge an agent can read, or all shared knowledge when no agent is given
+   */
+  public getKnowledgeGraph(agentRef?: string): KnowledgeGraph {
+    if (!agentRef) {
+      const view = this.semanticStore.view(DATASET_AUTHOR);
+      return { nodes: view.nodes(), relationships: view.relationships() };
+    }
+
+    const agent = this.registry.get(agentRef);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    return agent.getKnowledgeGraph();
+  }
+
+  /**
+   * Graph queries over the knowledge an agent can read, or over all shared knowledge when no agent is given
+   */
+  public queryKnowledgeGraph(agentRef?: string): KnowledgeGraphQuery {
+    if (!agentRef) {
+      return new KnowledgeGraphQuery(this.getKnowledgeGraph());
+    }
+
+    const agent = this.registry.get(agentRef);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentRef}`);
+    }
+
+    return agent.queryKnowledgeGraph();
+  }
+
+  /**
+   * Snapshot the memory of the given agents, or of every agent when none are given
+   */
+  public exportMemorySnapshot(agentRefs?: string[]): MemorySnapshot {
+    const agents = agentRefs
+      ? agentRefs.map(ref => {
+          const agent = this.registry.get(ref);
+          if (!agent) {
+            throw new Error(`Unknown agent: ${ref}`);
+          }
+          return agent;
+        })
+      : this.registry.getAll();
+
+    return MemorySnapshotCodec.create(
+      agents.map(agent => ({ agentId: agent.id, agentType: agent.type, memory: agent.exportMemory() }))
+    );
+  }
+
+  /**
+   * Load a snapshot (JSON text or object) into the running agents. Each snapshot agent goes to
+   * the agent its id resolves to here, or to `options.target` for a single-agent snapshot.
+   */
+  public async importMemorySnapshot(
+    input: string | object,
+    options: MemorySnapshotImportOptions = {}
+  ): Promise<MemorySnapshotImportResult> {
+    const mode = options.mode || 'merge';
+    const { snapshot, fromVersion } = MemorySnapshotCodec.parse(input, options.migrations);
+
+    const entries = options.agents
+      ? snapshot.agents.filter(entry => options.agents!.some(ref => ref === entry.agentId || this.registry.get(ref)?.id === entry.agentId))
+      : snapshot.agents;
+
+    if (options.target && entries.length !== 1) {
+      throw new Error(`Importing into ${options.target} needs exactly one snapshot agent, found ${entries.length}`);
+    }
+
+    // Resolve everything before touching memory so an unknown target doesn't leave a partial import
+    const targets = entries.map(entry => ({ entry, agent: this.registry.get(options.target || entry.agentId) }));
+    if (options.target && !targets[0].agent) {
+      throw new Error(`Unknown agent: ${options.target}`);
+    }
+
+    const result: MemorySnapshotImportResult = { mode, version: fromVersion, imported: [], skipped: [] };
+    for (const { entry, agent } of targets) {
+      if (!agent) {
+        result.skipped.push(entry.agentId);
+        continue;
+      }
+      await agent.importMemory(entry.memory, mode);
+      result.imported.push(agent.id);
+    }
+
+    return result;
+  }
+
   public getAgentStatuses(): Record<string, any> {
     const statuses: Record<string, any> = {};
 
-    this.agents.forEach((agent, agentId) => {
-      if (!agentId.includes('_agent')) { // Skip aliases
-        statuses[agentId] = {
-          name: agent.name,
-          type: agent.type,
-          status: agent.status,
-          lastActive: agent.lastActive,
-          capabilities: agent.capabilities
-        };
-      }
+    this.registry.getAll().forEach(agent => {
+      statuses[agent.id] = {
+        name: agent.name,
+        type: agent.type,
+        status: agent.status,
+        lastActive: agent.lastActive,
+        capabilities: agent.capabilities
+      };
     });
 
     return statuses;
@@ -563,6 +854,7 @@ export class AgentOrchestrator {
       systemMetrics: this.getSystemMetrics(),
       agentStatuses: this.getAgentStatuses(),
       memoryStats: await this.getSystemMemoryStats(),
+      memoryUsage: this.getMemoryUsage(),
       performanceMetrics: await this.getSystemPerformanceMetrics(),
       generatedAt: new Date()
     };
@@ -573,13 +865,11 @@ export class AgentOrchestrator {
   private async getSystemMemoryStats(): Promise<Record<string, any>> {
     const stats: Record<string, any> = {};
 
-    for (const [agentId, agent] of this.agents) {
-      if (agentId.includes('_agent')) continue; // Skip aliases
-      
+    for (const agent of this.registry.getAll()) {
       try {
-        stats[agentId] = await (agent as any).getMemoryStats();
+        stats[agent.id] = await agent.getMemoryStats();
       } catch (error) {
-        stats[agentId] = { error: 'Failed to retrieve memory stats' };
+        stats[agent.id] = { error: 'Failed to retrieve memory stats' };
       }
     }
 
@@ -590,7 +880,7 @@ export class AgentOrchestrator {
     const metrics: Record<string, any> = {};
 
     // Get triage agent metrics
-    const triageAgent = this.agents.get('triage_agent') as any;
+    const triageAgent = this.registry.getByType(AgentType.LEAD_TRIAGE)[0] as LeadTriageAgent | undefined;
     if (triageAgent) {
       try {
         metrics.triage = await triageAgent.getTriageStats();
@@ -600,7 +890,7 @@ export class AgentOrchestrator {
     }
 
     // Get engagement agent metrics
-    const engagementAgent = this.agents.get('engagement_agent') as any;
+    const engagementAgent = this.registry.getByType(AgentType.ENGAGEMENT)[0] as EngagementAgent | undefined;
     if (engagementAgent) {
       try {
         metrics.engagement = await engagementAgent.getEngagementMetrics();
@@ -610,7 +900,7 @@ export class AgentOrchestrator {
     }
 
     // Get optimization agent metrics
-    const optimizationAgent = this.agents.get('optimization_agent') as any;
+    const optimizationAgent = this.registry.getByType(AgentType.CAMPAIGN_OPTIMIZATION)[0] as CampaignOptimizationAgent | undefined;
     if (optimizationAgent) {
       try {
         metrics.optimization = await optimizationAgent.getOptimizationMetrics();
@@ -684,9 +974,13 @@ export class AgentOrchestrator {
     
     // Disconnect WebSocket
     await this.wsManager.disconnect();
+    await this.mcpClient.close();
+
+    // Make sure buffered memory writes reach the store
+    await this.memoryStore.flush();
     
     // Clear agents
-    this.agents.clear();
+    this.registry.clear();
     
     console.log('Agent Orchestrator shutdown completed');
   }
@@ -695,46 +989,138 @@ export class AgentOrchestrator {
     return this.isRunning;
   }
 
-  public async loadMarketingData(data: any): Promise<void> {
+  /**
+   * Load a full dataset into the agents in batches, reporting progress as it goes.
+   * Pass an AbortSignal to cancel; the returned progress has phase 'cancelled' in that case.
+   */
+  public async loadMarketingData(data: MarketingDataset, options: DataLoadOptions = {}): Promise<DataLoadProgress> {
+    const { batchSize = 250, signal, onProgress, datasetId } = options;
     console.log('📊 Loading marketing data into agent system...');
-    
+
+    const phases: {
+      phase: 'knowledge' | 'playbooks' | 'segments' | 'leads' | 'campaigns' | 'customers' | 'conversations' | 'contexts';
+      items: any[];
+      load: (item: any) => Promise<unknown>;
+    }[] = [
+      {
+        phase: 'knowledge',
+        items: [...(data.knowledgeGraph?.nodes || []), ...(data.knowledgeGraph?.relationships || [])],
+        load: item => this.loadKnowledge(item)
+      },
+      { phase: 'playbooks', items: data.playbooks || [], load: playbook => this.loadPlaybook(playbook) },
+      { phase: 'segments', items: data.segments || [], load: async segment => this.segmentEngine.addSegment(segment) },
+      { phase: 'leads', items: data.leads || [], load: lead => this.processNewLead(lead) },
+      { phase: 'campaigns', items: data.campaigns || [], load: campaign => this.createCampaign(campaign) },
+      { phase: 'customers', items: data.customers || [], load: customer => this.loadCustomerProfile(customer) },
+      { phase: 'conversations', items: data.conversations || [], load: conversation => this.loadConversation(conversation) },
+      // After customers, so expiring contexts can promote their slots into the loaded profiles
+      { phase: 'contexts', items: data.shortTermContexts || [], load: context => this.loadShortTermContext(context) }
+    ];
+
+    const progress: DataLoadProgress = {
+      phase: phases[0].phase,
+      processed: 0,
+      total: phases.reduce((sum, phase) => sum + phase.items.length, 0),
+      phaseProcessed: 0,
+      phaseTotal: 0,
+      evicted: {},
+      failed: {}
+    };
+    const snapshot = (): DataLoadProgress => ({ ...progress, evicted: { ...progress.evicted }, failed: { ...progress.failed } });
+
+    // Quotas can push loaded records out again; count what went so the caller can tell
+    const agents = this.registry.getAll();
+    const evictionHandlers = agents.map(agent => agent.onMemoryEviction(events => {
+      events.forEach(event => {
+        progress.evicted[event.type] = (progress.evicted[event.type] || 0) + 1;
+      });
+    }));
+
+    // Phases a previous load of the same dataset finished are already in the agents' memory
+    const completed = datasetId ? await this.completedDatasetPhase(datasetId) : null;
+    const resumeAt = phases.findIndex(({ phase }) => phase === completed) + 1;
+    if (resumeAt > 0) {
+      console.log(`⏭️ Dataset ${datasetId} already loaded up to the ${completed} phase; resuming after it`);
+    }
+
     try {
-      // Load leads into triage agent
-      const triageAgent = this.agents.get('triage_agent') as any;
-      if (triageAgent && data.leads) {
-        for (const lead of data.leads.slice(0, 20)) { // Load first 20 for demo
-          await this.processNewLead(lead);
-          await this.delay(100); // Stagger processing
+      for (const [index, { phase, items, load }] of phases.entries()) {
+        if (index < resumeAt) {
+          progress.processed += items.length;
+          continue;
         }
-      }
 
-      // Load campaigns into engagement agent
-      const engagementAgent = this.agents.get('engagement_agent') as any;
-      if (engagementAgent && data.campaigns) {
-        for (const campaign of data.campaigns.slice(0, 10)) { // Load first 10 for demo
-          await this.createCampaign(campaign);
-          await this.delay(100);
+        progress.phase = phase;
+        progress.phaseProcessed = 0;
+        progress.phaseTotal = items.length;
+        onProgress?.(snapshot());
+
+        const result = await BatchPipeline.run(BatchPipeline.fromArray(items, batchSize), async batch => {
+          for (const item of batch) {
+            // Loaders that go through an agent action report refusals as a failed ActionResult
+            const outcome = await load(item) as ActionResult | void;
+            if (outcome && outcome.success === false) {
+              progress.failed[phase] = (progress.failed[phase] || 0) + 1;
+            }
+          }
+          progress.processed += batch.length;
+          progress.phaseProcessed += batch.length;
+          onProgress?.(snapshot());
+        }, signal);
+
+        if (result.cancelled) {
+          progress.phase = 'cancelled';
+          onProgress?.(snapshot());
+          console.log(`⏹️ Marketing data load cancelled after ${progress.processed} of ${progress.total} records`);
+          return snapshot();
         }
-      }
 
-      // Load customer profiles
-      if (data.customers) {
-        for (const customer of data.customers.slice(0, 30)) { // Load first 30 for demo
-          await this.loadCustomerProfile(customer);
-          await this.delay(50);
+        if (datasetId) {
+          await this.recordDatasetPhase(datasetId, phase);
         }
       }
 
-      console.log('✅ Marketing data loaded successfully into agent system');
-      
+      progress.phase = 'complete';
+      onProgress?.(snapshot());
+      if (Object.keys(progress.failed).length > 0) {
+        console.warn(`⚠️ Marketing data loaded with failures (${progress.processed} records):`, progress.failed);
+      } else {
+        console.log(`✅ Marketing data loaded successfully into agent system (${progress.processed} records)`);
+      }
+      if (Object.keys(progress.evicted).length > 0) {
+        console.warn('⚠️ Memory quotas evicted items during the load:', progress.evicted);
+      }
+      return snapshot();
+
     } catch (error) {
       console.error('❌ Failed to load marketing data:', error);
+      throw error;
+    } finally {
+      agents.forEach((agent, index) => agent.offMemoryEviction(evictionHandlers[index]));
     }
   }
 
+  /**
+   * The last phase a load of this dataset finished, as recorded in the memory store
+   */
+  private async completedDatasetPhase(datasetId: string): Promise<string | null> {
+    const entries = await this.memoryStore.load(DATASET_LOG_KEY);
+    const marker = entries.filter(entry => entry.kind === 'dataset' && entry.datasetId === datasetId).pop();
+    return marker?.kind === 'dataset' ? marker.phase : null;
+  }
+
+  private async recordDatasetPhase(datasetId: string, phase: string): Promise<void> {
+    // Flush the phase's memory writes first, so the marker never gets to disk ahead of them
+    await this.memoryStore.flush();
+    await this.memoryStore.append(DATASET_LOG_KEY, { kind: 'dataset', datasetId, phase, timestamp: new Date() });
+    await this.memoryStore.flush();
+  }
+
   private async loadCustomerProfile(customer: any): Promise<void> {
+    this.segmentEngine.upsertCustomer(customer);
+
     // Store customer profile in agent memory
-    const engagementAgent = this.agents.get('engagement_agent') as any;
+    const engagementAgent = this.engagementAgentFor(customer.id);
     if (engagementAgent) {
       await engagementAgent.storeMemory('long', {
         type: 'customer_profile',
@@ -742,4 +1128,40 @@ export class AgentOrchestrator {
       });
     }
   }
+
+  private async loadShortTermContext(context: DatasetContext): Promise<void> {
+    const engagementAgent = this.engagementAgentFor(context.leadId);
+    if (engagementAgent) {
+      await engagementAgent.storeMemory('short', {
+        type: 'conversation_context',
+        data: context
+      });
+    }
+  }
+
+  private async loadKnowledge(item: KnowledgeNode | Relationship): Promise<void> {
+    // Every agent reasons over the same domain knowledge graph, so it is stored once
+    if ('concept' in item) {
+      await this.semanticStore.writeNode(DATASET_AUTHOR, item);
+    } else {
+      await this.semanticStore.writeRelationship(DATASET_AUTHOR, item);
+    }
+  }
+
+  private async loadPlaybook(playbook: Playbook): Promise<void> {
+    for (const agent of this.registry.getAll()) {
+      await agent.importPlaybook(playbook);
+    }
+  }
+
+  private engagementAgentFor(leadId: string): EngagementAgent | undefined {
+    return this.registry.assign(AgentType.ENGAGEMENT, leadId, this.leadAssignments.get(leadId)) as EngagementAgent | undefined;
+  }
+
+  private async loadConversation(conversation: ConversationTimeline): Promise<void> {
+    const engagementAgent = this.engagementAgentFor(conversation.leadId);
+    if (engagementAgent) {
+      await engagementAgent.importConversation(conversation);
+    }
+  }
 }
\ No newline at end of file
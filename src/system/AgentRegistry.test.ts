@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AgentRegistry, DEFAULT_AGENT_IDENTITIES } from './AgentRegistry';
+import { Agent, AgentIdentity, AgentStatus, AgentType } from '../types';
+
+const agentFor = (identity: AgentIdentity): Agent => ({
+  id: identity.id,
+  name: identity.name || identity.id,
+  type: identity.type,
+  status: AgentStatus.IDLE,
+  capabilities: [],
+  memory: {
+    shortTerm: { currentContext: [], activeLeads: [], recentActions: [], workingMemory: {} },
+    longTerm: { customerProfiles: [], campaignHistory: [], performanceMetrics: [], learningPatterns: [] },
+    episodic: { successfulInteractions: [], problemResolutions: [], decisionOutcomes: [], contextualLearnings: [] },
+    semantic: { domainKnowledge: [], relationships: [], concepts: [], rules: [] }
+  },
+  lastActive: new Date()
+});
+
+const register = (registry: AgentRegistry, identities: AgentIdentity[]) =>
+  identities.forEach(identity => registry.register(agentFor(identity), identity));
+
+describe('AgentRegistry resolution', () => {
+  let registry: AgentRegistry;
+
+  beforeEach(() => {
+    registry = new AgentRegistry();
+    register(registry, [
+      ...DEFAULT_AGENT_IDENTITIES,
+      { id: 'EN-002', type: AgentType.ENGAGEMENT, name: 'EU Engagement Agent', aliases: ['EN-02*'] }
+    ]);
+  });
+
+  it.each([
+    ['LT-001', 'LT-001'],
+    ['triage_agent', 'LT-001'],
+    ['engagement_agent', 'EN-001'],
+    ['EN-015', 'EN-001'],
+    ['OP-042', 'OP-001'],
+    [AgentType.CAMPAIGN_OPTIMIZATION, 'OP-001']
+  ])('resolves %s to %s', (ref, id) => {
+    expect(registry.get(ref)?.id).toBe(id);
+  });
+
+  it('prefers the most specific prefix alias', () => {
+    expect(registry.get('EN-021')?.id).toBe('EN-002');
+    expect(registry.get('EN-015')?.id).toBe('EN-001');
+  });
+
+  it('resolves nothing for unknown or empty references', () => {
+    expect(registry.get('XX-001')).toBeUndefined();
+    expect(registry.get(undefined)).toBeUndefined();
+  });
+
+  it('rejects a duplicate id', () => {
+    const [triage] = DEFAULT_AGENT_IDENTITIES;
+
+    expect(() => registry.register(agentFor(triage), triage)).toThrow('Duplicate agent id: LT-001');
+  });
+});
+
+describe('AgentRegistry assignment', () => {
+  let registry: AgentRegistry;
+
+  beforeEach(() => {
+    registry = new AgentRegistry();
+    register(registry, [
+      ...DEFAULT_AGENT_IDENTITIES,
+      { id: 'EN-002', type: AgentType.ENGAGEMENT, name: 'Engagement Agent 2', aliases: [] },
+      { id: 'EN-003', type: AgentType.ENGAGEMENT, name: 'Engagement Agent 3', aliases: [] }
+    ]);
+  });
+
+  it('always lands the same key on the same instance and spreads keys across instances', () => {
+    const keys = Array.from({ length: 30 }, (_, index) => `L-${index}`);
+    const assigned = keys.map(key => registry.assign(AgentType.ENGAGEMENT, key)?.id);
+
+    expect(keys.map(key => registry.assign(AgentType.ENGAGEMENT, key)?.id)).toEqual(assigned);
+    expect(new Set(assigned)).toEqual(new Set(['EN-001', 'EN-002', 'EN-003']));
+  });
+
+  it('honours a preferred reference of the right type only', () => {
+    expect(registry.assign(AgentType.ENGAGEMENT, 'L-1', 'EN-003')?.id).toBe('EN-003');
+    expect(registry.assign(AgentType.ENGAGEMENT, 'L-1', 'LT-001')?.type).toBe(AgentType.ENGAGEMENT);
+  });
+
+  it('uses the only instance of a type whatever the key', () => {
+    expect(registry.assign(AgentType.LEAD_TRIAGE, 'L-1')?.id).toBe('LT-001');
+    expect(registry.assign(AgentType.LEAD_TRIAGE)?.id).toBe('LT-001');
+  });
+});
@@ -0,0 +1,112 @@
+import { Agent, AgentIdentity, AgentType } from '../types';
+
+/**
+ * One instance per agent type. Each instance answers for its legacy orchestrator key
+ * and for every dataset agent code of its type, so e.g. `EN-015` resolves to the engagement agent.
+ */
+export const DEFAULT_AGENT_IDENTITIES: AgentIdentity[] = [
+  { id: 'LT-001', type: AgentType.LEAD_TRIAGE, name: 'Lead Triage Agent', aliases: ['triage_agent', 'LT-*'] },
+  { id: 'EN-001', type: AgentType.ENGAGEMENT, name: 'Engagement Agent', aliases: ['engagement_agent', 'EN-*'] },
+  {
+    id: 'OP-001',
+    type: AgentType.CAMPAIGN_OPTIMIZATION,
+    name: 'Campaign Optimization Agent',
+    aliases: ['optimization_agent', 'OP-*']
+  }
+];
+
+/**
+ * Resolves agent references (ids, aliases, dataset agent codes, agent types) to running agents
+ */
+export class AgentRegistry<T extends Agent = Agent> {
+  private agents: Map<string, T> = new Map();
+  private identities: Map<string, AgentIdentity> = new Map();
+
+  /**
+   * Whether a reference names the given identity. Aliases ending in `*` match by prefix.
+   */
+  public static matches(identity: Pick<AgentIdentity, 'id' | 'aliases'>, ref: string): boolean {
+    return identity.id === ref || (identity.aliases || []).some(alias => this.aliasMatch(alias, ref) >= 0);
+  }
+
+  public register(agent: T, identity: AgentIdentity): void {
+    if (this.agents.has(identity.id)) {
+      throw new Error(`Duplicate agent id: ${identity.id}`);
+    }
+
+    this.agents.set(identity.id, agent);
+    this.identities.set(identity.id, identity);
+  }
+
+  public clear(): void {
+    this.agents.clear();
+    this.identities.clear();
+  }
+
+  public getAll(): T[] {
+    return Array.from(this.agents.values());
+  }
+
+  public getByType(type: AgentType): T[] {
+    return this.getAll().filter(agent => agent.type === type);
+  }
+
+  /**
+   * Resolve a reference: exact id, then exact alias, then the most specific prefix alias,
+   * and finally an agent type, which picks the first instance of that type.
+   */
+  public get(ref: string | undefined): T | undefined {
+    if (!ref) return undefined;
+
+    const byId = this.agents.get(ref);
+    if (byId) return byId;
+
+    let bestId: string | null = null;
+    let bestSpecificity = -1;
+    for (const identity of this.identities.values()) {
+      for (const alias of identity.aliases || []) {
+        const specificity = AgentRegistry.aliasMatch(alias, ref);
+        if (specificity > bestSpecificity) {
+          bestId = identity.id;
+          bestSpecificity = specificity;
+        }
+      }
+    }
+    if (bestId) return this.agents.get(bestId);
+
+    return this.getByType(ref as AgentType)[0];
+  }
+
+  /**
+   * Pick the instance of a type that owns some work. A preferred reference (e.g. a lead's
+   * assigned agent code) wins when it resolves to that type; otherwise the key is hashed
+   * so the same key always lands on the same instance.
+   */
+  public assign(type: AgentType, key?: string, preferredRef?: string): T | undefined {
+    const preferred = this.get(preferredRef);
+    if (preferred && preferred.type === type) return preferred;
+
+    const candidates = this.getByType(type);
+    if (candidates.length <= 1 || !key) return candidates[0];
+
+    return candidates[this.hash(key) % candidates.length];
+  }
+
+  /**
+   * How specifically an alias matches a reference: its length for a match
+   * (exact matches beat any prefix), -1 for no match
+   */
+  private static aliasMatch(alias: string, ref: string): number {
+    if (alias === ref) return Number.MAX_SAFE_INTEGER;
+    if (alias.endsWith('*') && ref.startsWith(alias.slice(0, -1))) return alias.length - 1;
+    return -1;
+  }
+
+  private hash(key: string): number {
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+}
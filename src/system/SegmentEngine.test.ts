@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SegmentEngine } from './SegmentEngine';
+import { CustomerProfile, Segment, SegmentRules } from '../types';
+import { leadRecord } from '../test/records';
+
+const segment = (id: string, rules: SegmentRules): Segment => ({ id, name: `Segment ${id}`, description: '', rules });
+
+const profile = (id: string, channels: string[], segmentTags: string[] = []): CustomerProfile => ({
+  id,
+  email: `${id.toLowerCase()}@example.com`,
+  name: `Customer ${id}`,
+  industry: 'SaaS',
+  preferences: { communicationChannel: channels, contentTypes: [], frequency: 'weekly', topics: [], timezone: 'UTC' },
+  interactionHistory: [],
+  segmentTags,
+  lifetimeValue: 0
+});
+
+describe('SegmentEngine rules', () => {
+  let engine: SegmentEngine;
+
+  beforeEach(() => {
+    engine = new SegmentEngine();
+    engine.upsertLead(leadRecord('L-1', { score: 80, metadata: { region: 'EU', industry: 'SaaS', preferredChannel: 'Email' } }));
+    engine.upsertLead(leadRecord('L-2', { score: 40, metadata: { region: 'NA', industry: 'Retail', preferredChannel: 'SMS' } }));
+  });
+
+  it.each<[string, SegmentRules, string[]]>([
+    ['score', { minLeadScore: 50 }, ['L-1']],
+    ['region, case-insensitively', { regions: ['eu', 'APAC'] }, ['L-1']],
+    ['channel', { preferredChannel: 'sms' }, ['L-2']],
+    ['industry', { industry: 'retail' }, ['L-2']],
+    ['every rule at once', { minLeadScore: 50, regions: ['EU'], preferredChannel: 'Email', industry: 'SaaS' }, ['L-1']],
+    ['null rules, which match everyone', { minLeadScore: null, industry: null, preferredChannel: null, regions: [] }, ['L-1', 'L-2']]
+  ])('compiles a %s rule and evaluates existing members', (_, rules, members) => {
+    engine.addSegment(segment('S-1', rules));
+
+    expect(engine.getMemberIds('S-1')).toEqual(members);
+  });
+
+  it('finds segments by id or name and pages their members', () => {
+    engine.addSegment(segment('S-1', {}));
+
+    expect(engine.findSegment('segment s-1')?.id).toBe('S-1');
+    expect(engine.getMembers('S-1', 1, 1).map(member => member.id)).toEqual(['L-2']);
+    expect(engine.getSummaries()).toEqual([expect.objectContaining({ id: 'S-1', memberCount: 2 })]);
+  });
+});
+
+describe('SegmentEngine updates', () => {
+  let engine: SegmentEngine;
+
+  beforeEach(() => {
+    engine = new SegmentEngine();
+    engine.addSegment(segment('EMAIL', { preferredChannel: 'Email' }));
+    engine.addSegment(segment('EU', { regions: ['EU'] }));
+  });
+
+  it("replaces a lead's channel when it changes", () => {
+    engine.upsertLead(leadRecord('L-1', { metadata: { preferredChannel: 'Email' } }));
+    engine.upsertLead(leadRecord('L-1', { metadata: { preferredChannel: 'SMS' } }));
+
+    expect(engine.getMemberIds('EMAIL')).toEqual([]);
+  });
+
+  it('keeps a lead channel when an update leaves it out', () => {
+    engine.upsertLead(leadRecord('L-1', { metadata: { preferredChannel: 'Email' } }));
+    engine.upsertLead({ id: 'L-1', score: 90 });
+
+    expect(engine.getMemberIds('EMAIL')).toEqual(['L-1']);
+  });
+
+  it("uses a customer's current channel list and region tag", () => {
+    engine.upsertCustomer(profile('C-1', ['Email', 'SMS'], ['EU']));
+    expect(engine.getMemberIds('EMAIL')).toEqual(['C-1']);
+    expect(engine.getMemberIds('EU')).toEqual(['C-1']);
+
+    engine.upsertCustomer(profile('C-1', ['SMS'], ['NA']));
+    expect(engine.getMemberIds('EMAIL')).toEqual([]);
+    expect(engine.getMemberIds('EU')).toEqual([]);
+  });
+
+  it('combines the channels of a lead and its profile', () => {
+    engine.upsertLead(leadRecord('L-1', { metadata: { preferredChannel: 'Email' } }));
+    engine.upsertCustomer(profile('L-1', ['SMS']));
+
+    expect(engine.getMemberIds('EMAIL')).toEqual(['L-1']);
+    expect(engine.getMembers('EMAIL')[0].channels).toEqual(['Email', 'SMS']);
+  });
+});
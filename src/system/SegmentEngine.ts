@@ -0,0 +1,156 @@
+import { CustomerProfile, Lead, Segment, SegmentMember, SegmentRules, SegmentSummary } from '../types';
+
+type SegmentPredicate = (member: SegmentMember) => boolean;
+
+interface CompiledSegment {
+  segment: Segment;
+  matches: SegmentPredicate;
+  members: Set<string>;
+}
+
+/**
+ * Keeps segment membership live: every lead or customer profile that is added or updated
+ * is re-evaluated against each segment's compiled rules.
+ */
+export class SegmentEngine {
+  private segments: Map<string, CompiledSegment> = new Map();
+  private members: Map<string, SegmentMember> = new Map();
+  /** Channels a member's lead and its profile last reported; each update replaces its own list */
+  private channelSources: Map<string, { lead: string[]; profile: string[] }> = new Map();
+
+  public addSegment(segment: Segment): void {
+    const compiled: CompiledSegment = {
+      segment,
+      matches: this.compile(segment.rules),
+      members: new Set()
+    };
+
+    this.members.forEach(member => {
+      if (compiled.matches(member)) compiled.members.add(member.id);
+    });
+
+    this.segments.set(segment.id, compiled);
+  }
+
+  public removeSegment(segmentId: string): boolean {
+    return this.segments.delete(segmentId);
+  }
+
+  public upsertLead(lead: Partial<Lead>): void {
+    const id = lead.id || lead.email;
+    if (!id) return;
+
+    const existing = this.members.get(id);
+    const preferredChannel = lead.metadata?.preferredChannel;
+
+    this.updateMember({
+      id,
+      email: lead.email || existing?.email || '',
+      name: lead.name || existing?.name || id,
+      score: lead.score ?? existing?.score,
+      region: lead.metadata?.region || existing?.region,
+      industry: lead.metadata?.industry || existing?.industry,
+      channels: this.channelsFrom(id, 'lead', preferredChannel ? [preferredChannel] : undefined)
+    });
+  }
+
+  public upsertCustomer(profile: CustomerProfile): void {
+    const existing = this.members.get(profile.id);
+
+    this.updateMember({
+      id: profile.id,
+      email: profile.email || existing?.email || '',
+      name: profile.name || existing?.name || profile.id,
+      score: existing?.score,
+      // Profiles only carry the region as a segment tag
+      region: profile.segmentTags[0] || existing?.region,
+      industry: profile.industry || existing?.industry,
+      channels: this.channelsFrom(profile.id, 'profile', profile.preferences.communicationChannel)
+    });
+  }
+
+  public getSummaries(): SegmentSummary[] {
+    return Array.from(this.segments.values()).map(({ segment, members }) => ({
+      ...segment,
+      memberCount: members.size
+    }));
+  }
+
+  /**
+   * Look a segment up by id or (case-insensitive) name
+   */
+  public findSegment(idOrName: string): Segment | undefined {
+    const byId = this.segments.get(idOrName);
+    if (byId) return byId.segment;
+
+    const name = idOrName.toLowerCase();
+    return Array.from(this.segments.values()).find(({ segment }) => segment.name.toLowerCase() === name)?.segment;
+  }
+
+  public getMembers(idOrName: string, offset: number = 0, limit?: number): SegmentMember[] {
+    const segment = this.findSegment(idOrName);
+    if (!segment) return [];
+
+    const ids = Array.from(this.segments.get(segment.id)!.members);
+    return ids
+      .slice(offset, limit === undefined ? undefined : offset + limit)
+      .map(id => this.members.get(id)!);
+  }
+
+  public getMemberIds(idOrName: string): string[] {
+    const segment = this.findSegment(idOrName);
+    return segment ? Array.from(this.segments.get(segment.id)!.members) : [];
+  }
+
+  private updateMember(member: SegmentMember): void {
+    this.members.set(member.id, member);
+
+    this.segments.forEach(compiled => {
+      if (compiled.matches(member)) {
+        compiled.members.add(member.id);
+      } else {
+        compiled.members.delete(member.id);
+      }
+    });
+  }
+
+  /**
+   * Turn a rule set into a single predicate. Null or empty rules don't constrain membership.
+   */
+  private compile(rules: SegmentRules): SegmentPredicate {
+    const predicates: SegmentPredicate[] = [];
+
+    if (rules.minLeadScore !== null && rules.minLeadScore !== undefined) {
+      const minScore = rules.minLeadScore;
+      predicates.push(member => member.score !== undefined && member.score >= minScore);
+    }
+
+    if (rules.regions && rules.regions.length > 0) {
+      const regions = new Set(rules.regions.map(region => region.toLowerCase()));
+      predicates.push(member => !!member.region && regions.has(member.region.toLowerCase()));
+    }
+
+    if (rules.preferredChannel) {
+      const channel = rules.preferredChannel.toLowerCase();
+      predicates.push(member => member.channels.some(candidate => candidate.toLowerCase() === channel));
+    }
+
+    if (rules.industry) {
+      const industry = rules.industry.toLowerCase();
+      predicates.push(member => member.industry?.toLowerCase() === industry);
+    }
+
+    return member => predicates.every(predicate => predicate(member));
+  }
+
+  /**
+   * A member's channels after one source reports its current list. A lead without a preferred
+   * channel keeps the one it had; the member has the channels of its lead and its profile.
+   */
+  private channelsFrom(id: string, source: 'lead' | 'profile', channels?: string[]): string[] {
+    const sources = this.channelSources.get(id) || { lead: [], profile: [] };
+    if (channels) sources[source] = channels;
+    this.channelSources.set(id, sources);
+    return Array.from(new Set([...sources.lead, ...sources.profile]));
+  }
+}
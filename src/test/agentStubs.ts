@@ -0,0 +1,12 @@
+import { WebSocketManager } from '../communication/WebSocketManager';
+import { MCPClient } from '../mcp/MCPClient';
+
+/** A WebSocketManager that drops everything, for agents tested without a hub */
+export const silentWebSocketManager = (): WebSocketManager => ({
+  broadcast: () => undefined,
+  sendMessage: async () => undefined,
+  onMessage: () => undefined
+}) as unknown as WebSocketManager;
+
+/** An MCPClient pointed nowhere; tests that reach MCP should stub the methods they use */
+export const offlineMCPClient = (): MCPClient => new MCPClient('http://127.0.0.1:0', 'test-key', { retryAttempts: 0 });
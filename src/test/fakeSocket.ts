@@ -0,0 +1,49 @@
+/**
+ * Stands in for a browser WebSocket. Tests play the server: they read what the client sent
+ * from `sent` and answer with `receive`.
+ */
+export class FakeSocket {
+  public readonly CONNECTING = 0;
+  public readonly OPEN = 1;
+  public readonly CLOSING = 2;
+  public readonly CLOSED = 3;
+  public readyState = this.CONNECTING;
+  public sent: unknown[] = [];
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onerror: (() => void) | null = null;
+  public onclose: (() => void) | null = null;
+
+  constructor(public readonly url: string) {}
+
+  public open(): void {
+    this.readyState = this.OPEN;
+    this.onopen?.();
+  }
+
+  public send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  public receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  public close(): void {
+    if (this.readyState === this.CLOSED) return;
+    this.readyState = this.CLOSED;
+    this.onclose?.();
+  }
+}
+
+/** A socket factory that opens each socket on the next tick and keeps every socket it made */
+export const fakeSocketFactory = () => {
+  const sockets: FakeSocket[] = [];
+  const createSocket = (url: string): WebSocket => {
+    const socket = new FakeSocket(url);
+    sockets.push(socket);
+    setTimeout(() => socket.open(), 0);
+    return socket as unknown as WebSocket;
+  };
+  return { sockets, createSocket };
+};
@@ -0,0 +1,16 @@
+import { Lead, LeadCategory, LeadStatus } from '../types';
+
+/** A lead with every required field set; override what the test is about */
+export const leadRecord = (id: string, overrides: Partial<Lead> = {}): Lead => ({
+  id,
+  email: `${id.toLowerCase()}@example.com`,
+  name: `Lead ${id}`,
+  source: 'webinar',
+  category: LeadCategory.CAMPAIGN_QUALIFIED,
+  score: 50,
+  status: LeadStatus.NEW,
+  metadata: {},
+  createdAt: new Date(Date.UTC(2024, 2, 1)),
+  updatedAt: new Date(Date.UTC(2024, 2, 1)),
+  ...overrides
+});
@@ -0,0 +1,68 @@
+import { deflateRawSync } from 'zlib';
+
+/**
+ * Build a ZIP archive in memory. Files are deflated unless `stored` is set; CRCs are left
+ * zero because ZipReader doesn't check them.
+ */
+export const buildZip = (files: Record<string, string>, options: { stored?: boolean } = {}): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = options.stored ? raw : new Uint8Array(deflateRawSync(raw));
+    const method = options.stored ? 0 : 8;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, method, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const archive = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    archive.set(part, position);
+    position += part.length;
+  });
+  return archive.buffer;
+};
+
+/** Render rows as CSV, quoting every value */
+export const toCsv = (rows: Array<Record<string, string | number>>): string => {
+  const columns = Object.keys(rows[0] || {});
+  const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  return [columns.map(quote).join(','), ...rows.map(row => columns.map(column => quote(row[column] ?? '')).join(','))].join('\n');
+};
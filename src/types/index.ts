@@ -10,6 +10,14 @@ export interface Agent {
   lastActive: Date;
 }
 
+export interface AgentIdentity {
+  id: string;
+  type: AgentType;
+  name?: string;
+  /** Other references that resolve to this agent, e.g. dataset agent codes; a trailing * matches by prefix */
+  aliases?: string[];
+}
+
 export enum AgentType {
   LEAD_TRIAGE = 'lead_triage',
   ENGAGEMENT = 'engagement',
@@ -58,6 +66,31 @@ export interface SemanticMemory {
   rules: BusinessRule[];
 }
 
+/**
+ * Where a memory item came from. Derived items point at the items they were built from,
+ * so lineage can be walked back to agent actions and dataset rows.
+ */
+export interface MemoryProvenance {
+  /** Agent that created or derived the item */
+  agentId?: string;
+  /** Agent actions whose outcomes produced the item */
+  sourceActionIds?: string[];
+  /** Dataset rows the item was loaded from */
+  datasetSources?: DatasetSource[];
+  /** Consolidation run that derived the item */
+  consolidationRunId?: string;
+  /** Memory items this one was derived from */
+  derivedFrom?: string[];
+  /** Items folded into this one, which no longer exist on their own */
+  mergedFrom?: string[];
+}
+
+export interface DatasetSource {
+  file: string;
+  /** 1-based data row, header excluded */
+  row?: number;
+}
+
 export interface Lead {
   id: string;
   email: string;
@@ -70,6 +103,7 @@ export interface Lead {
   metadata: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
+  provenance?: MemoryProvenance;
 }
 
 export enum LeadCategory {
@@ -101,6 +135,36 @@ export interface Campaign {
   endDate?: Date;
   budget: number;
   createdBy: string;
+  targetSegmentId?: string;
+  provenance?: MemoryProvenance;
+}
+
+export interface SegmentRules {
+  industry?: string | null;
+  minLeadScore?: number | null;
+  regions?: string[];
+  preferredChannel?: string | null;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string;
+  rules: SegmentRules;
+}
+
+export interface SegmentSummary extends Segment {
+  memberCount: number;
+}
+
+export interface SegmentMember {
+  id: string;
+  email: string;
+  name: string;
+  score?: number;
+  region?: string;
+  industry?: string;
+  channels: string[];
 }
 
 export enum CampaignType {
@@ -148,7 +212,9 @@ export interface CustomerProfile {
   interactionHistory: Interaction[];
   segmentTags: string[];
   lifetimeValue: number;
-  lastEngagement: Date;
+  /** Absent when a dataset record gives no time for it */
+  lastEngagement?: Date;
+  provenance?: MemoryProvenance;
 }
 
 export interface CustomerPreferences {
@@ -157,6 +223,9 @@ export interface CustomerPreferences {
   frequency: string;
   topics: string[];
   timezone: string;
+  bestContactTime?: string;
+  /** Conversation slots promoted from expired short-term contexts */
+  slots?: Record<string, unknown>;
 }
 
 export interface Interaction {
@@ -169,6 +238,17 @@ export interface Interaction {
   sentiment: number;
   timestamp: Date;
   metadata: Record<string, any>;
+  provenance?: MemoryProvenance;
+}
+
+export interface ConversationTimeline {
+  id: string;
+  leadId: string;
+  status: string;
+  /** Absent when neither the conversation nor its interactions carry a time */
+  openedAt?: Date;
+  lastEventAt?: Date;
+  interactions: Interaction[];
 }
 
 export enum InteractionType {
@@ -224,6 +304,21 @@ export interface ConversationContext {
   priority: number;
   createdAt: Date;
   updatedAt: Date;
+  /** Fields extracted from the conversation so far, e.g. company size or tooling */
+  slots?: Record<string, unknown>;
+  /** When the context stops being worth keeping in short-term memory */
+  expiresAt?: Date;
+  provenance?: MemoryProvenance;
+}
+
+/**
+ * A short-term context read from a dataset. Times the dataset doesn't give are left out, and
+ * memory stamps them with the time the context is stored.
+ */
+export interface DatasetContext extends Omit<ConversationContext, 'createdAt' | 'updatedAt' | 'messages'> {
+  createdAt?: Date;
+  updatedAt?: Date;
+  messages: Array<Omit<Message, 'timestamp'> & { timestamp?: Date }>;
 }
 
 export interface Message {
@@ -259,6 +354,7 @@ export interface LearningPattern {
   successRate: number;
   lastUsed: Date;
   context: string[];
+  provenance?: MemoryProvenance;
 }
 
 export interface Resolution {
@@ -278,6 +374,16 @@ export interface DecisionOutcome {
   impact: number;
   timestamp: Date;
   context: Record<string, any>;
+  provenance?: MemoryProvenance;
+}
+
+export interface Playbook {
+  id: string;
+  scenario: string;
+  actionSequence: string[];
+  outcomeScore: number;
+  notes: string;
+  provenance?: MemoryProvenance;
 }
 
 export interface ContextualLearning {
@@ -287,6 +393,7 @@ export interface ContextualLearning {
   confidence: number;
   applications: number;
   timestamp: Date;
+  provenance?: MemoryProvenance;
 }
 
 export interface KnowledgeNode {
@@ -296,6 +403,8 @@ export interface KnowledgeNode {
   relationships: string[];
   confidence: number;
   lastUpdated: Date;
+  metadata?: Record<string, unknown>;
+  provenance?: MemoryProvenance;
 }
 
 export interface Relationship {
@@ -305,6 +414,12 @@ export interface Relationship {
   type: RelationshipType;
   strength: number;
   metadata: Record<string, any>;
+  provenance?: MemoryProvenance;
+}
+
+export interface KnowledgeGraph {
+  nodes: KnowledgeNode[];
+  relationships: Relationship[];
 }
 
 export enum RelationshipType {
@@ -334,6 +449,101 @@ export interface BusinessRule {
   lastModified: Date;
 }
 
+// Dataset Import Types
+export interface MarketingDataset {
+  leads: Lead[];
+  campaigns: Campaign[];
+  customers: CustomerProfile[];
+  conversations?: ConversationTimeline[];
+  knowledgeGraph?: KnowledgeGraph;
+  playbooks?: Playbook[];
+  segments?: Segment[];
+  shortTermContexts?: DatasetContext[];
+  importReport?: ImportReport;
+}
+
+export interface DataLoadProgress {
+  phase: 'knowledge' | 'playbooks' | 'segments' | 'leads' | 'campaigns' | 'customers' | 'conversations' | 'contexts' | 'complete' | 'cancelled';
+  processed: number;
+  total: number;
+  phaseProcessed: number;
+  phaseTotal: number;
+  /** Items agents dropped to stay within their memory quotas during the load, by item type */
+  evicted: Record<string, number>;
+  /** Records an agent refused to take (e.g. a lead triage that failed), by phase */
+  failed: Record<string, number>;
+}
+
+export interface DataLoadOptions {
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: DataLoadProgress) => void;
+  /**
+   * Identifies the dataset, e.g. a checksum of the bundle. Completed phases are then recorded in the
+   * memory store, and a later load of the same dataset resumes after the last one.
+   */
+  datasetId?: string;
+}
+
+export type ColumnType = 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'json';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  required?: boolean;
+  enum?: string[];
+  min?: number;
+  max?: number;
+  references?: { table: string; column: string };
+}
+
+export interface TableSchema {
+  file: string;
+  primaryKey?: string;
+  required?: boolean;
+  columns: ColumnSchema[];
+}
+
+export interface ImportIssue {
+  row: number;
+  column?: string;
+  value?: string;
+  message: string;
+  coercedTo?: string;
+}
+
+export interface ImportFileReport {
+  file: string;
+  status: 'ok' | 'missing' | 'unknown';
+  totalRows: number;
+  acceptedRows: number;
+  missingColumns: string[];
+  rejectedCount: number;
+  coercedCount: number;
+  danglingCount: number;
+  rejected: ImportIssue[];
+  coerced: ImportIssue[];
+  danglingReferences: ImportIssue[];
+}
+
+export interface ImportReport {
+  files: ImportFileReport[];
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  coercedValues: number;
+  danglingReferences: number;
+  unmappedValues: UnmappedValue[];
+  generatedAt: Date;
+}
+
+export interface UnmappedValue {
+  vocabulary: string;
+  value: string;
+  fallback: string;
+  count: number;
+}
+
 // MCP Protocol Types
 export interface MCPRequest {
   jsonrpc: '2.0';
@@ -344,7 +554,8 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  /** null when the request's id could not be read, e.g. for a malformed batch item */
+  id: string | number | null;
   result?: any;
   error?: MCPError;
 }
@@ -361,6 +572,122 @@ export interface MCPNotification {
   params?: any;
 }
 
+/** The subset of JSON Schema used to describe tool and prompt inputs */
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean>;
+  additionalProperties?: boolean | JSONSchema;
+}
+
+export interface MCPImplementation {
+  name: string;
+  version: string;
+}
+
+export interface MCPServerCapabilities {
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  tools?: { listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+}
+
+export interface MCPInitializeResult {
+  /** The protocol version both sides will speak: the client's if the server supports it, else the server's latest */
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  serverInfo: MCPImplementation;
+  instructions?: string;
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface MCPTool {
+  /** The JSON-RPC method the tool calls, e.g. `marketing.getLeads` */
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+}
+
+export interface MCPToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  /** The handler's result as returned by the method */
+  structuredContent?: unknown;
+  /** Set when the handler failed; the content then holds the error message */
+  isError: boolean;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/** Something that happened to a lead or campaign on an outbound channel, recorded by the MCP server */
+export interface AnalyticsEvent {
+  id: string;
+  /** e.g. `email_delivered`, `opened`, `clicked`, `social_post` */
+  type: string;
+  channel: string;
+  leadId?: string;
+  campaignId?: string;
+  messageId?: string;
+  properties: Record<string, unknown>;
+  timestamp: Date;
+}
+
+export type AuthMechanism = 'APIKey' | 'JWT' | 'none';
+
+/**
+ * success: allowed; failure: missing or invalid credentials; expired: the token was past its exp;
+ * denied: authenticated but without the scope
+ */
+export type AuthResult = 'success' | 'failure' | 'expired' | 'denied';
+
+/** One authentication and authorization decision made by the MCP server */
+export interface AuthEvent {
+  id: string;
+  timestamp: Date;
+  /** API key owner or token subject; `anonymous` when no usable credential was given */
+  principal: string;
+  mechanism: AuthMechanism;
+  method: string;
+  /** Scope the call needed; null for methods anyone may call */
+  scope: string | null;
+  result: AuthResult;
+  reason?: string;
+  ip?: string;
+}
+
 // WebSocket Message Types
 export interface WebSocketMessage {
   type: MessageType;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { BatchPipeline } from './batchPipeline';
+
+describe('BatchPipeline', () => {
+  it('splits arrays into batches of the given size', async () => {
+    const batches: number[][] = [];
+    for await (const batch of BatchPipeline.fromArray([1, 2, 3, 4, 5], 2)) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('pulls the next batch only once the handler has finished the current one', async () => {
+    const events: string[] = [];
+    async function* source(): AsyncGenerator<number[]> {
+      for (let index = 0; index < 3; index++) {
+        events.push(`pull ${index}`);
+        yield [index];
+      }
+    }
+
+    const result = await BatchPipeline.run(source(), async ([value]) => {
+      events.push(`start ${value}`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      events.push(`end ${value}`);
+    });
+
+    expect(result).toEqual({ processed: 3, cancelled: false });
+    expect(events).toEqual(['pull 0', 'start 0', 'end 0', 'pull 1', 'start 1', 'end 1', 'pull 2', 'start 2', 'end 2']);
+  });
+
+  it('stops before the next batch when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const handled: number[][] = [];
+
+    const result = await BatchPipeline.run(BatchPipeline.fromArray([1, 2, 3, 4, 5, 6], 2), async batch => {
+      handled.push(batch);
+      if (handled.length === 2) controller.abort();
+    }, controller.signal);
+
+    expect(result).toEqual({ processed: 4, cancelled: true });
+    expect(handled).toEqual([[1, 2], [3, 4]]);
+  });
+});
@@ -0,0 +1,37 @@
+export class BatchPipeline {
+  /**
+   * Split an in-memory array into batches
+   */
+  public static async *fromArray<T>(items: T[], batchSize: number): AsyncGenerator<T[]> {
+    for (let i = 0; i < items.length; i += batchSize) {
+      yield items.slice(i, i + batchSize);
+    }
+  }
+
+  /**
+   * Drain a batch source through a handler, one batch at a time.
+   * The next batch is only pulled once the handler has finished the current one,
+   * which gives streaming sources natural backpressure.
+   */
+  public static async run<T>(
+    source: AsyncIterable<T[]>,
+    handler: (batch: T[]) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<{ processed: number; cancelled: boolean }> {
+    let processed = 0;
+
+    for await (const batch of source) {
+      if (signal?.aborted) {
+        return { processed, cancelled: true };
+      }
+
+      await handler(batch);
+      processed += batch.length;
+
+      // Yield to the event loop so UI updates and cancellation can get through
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return { processed, cancelled: signal?.aborted ?? false };
+  }
+}
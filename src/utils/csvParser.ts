@@ -0,0 +1,174 @@
+export type CsvRow = Record<string, string>;
+
+/**
+ * Incremental RFC 4180 parser: feed text chunks in, get complete records out.
+ * Quoted fields may span chunk boundaries and line breaks.
+ */
+export class CsvStreamParser {
+  private record: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private pendingQuote = false;
+  private pendingCarriageReturn = false;
+  private started = false;
+
+  public push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let i = 0;
+
+    // Strip a UTF-8 byte order mark if present
+    if (!this.started) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false;
+        if (char === '\n') continue; // CRLF
+      }
+
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"'; // Escaped quote
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true; // Closing quote or first half of an escaped quote
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inQuotes = true;
+          break;
+        case ',':
+          this.record.push(this.field);
+          this.field = '';
+          break;
+        case '\r':
+        case '\n':
+          this.pendingCarriageReturn = char === '\r';
+          this.endRecord(records);
+          break;
+        default:
+          this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  public flush(): string[][] {
+    const records: string[][] = [];
+    if (this.field !== '' || this.record.length > 0) {
+      this.endRecord(records);
+    }
+    this.inQuotes = false;
+    this.pendingQuote = false;
+    return records;
+  }
+
+  private endRecord(records: string[][]): void {
+    this.record.push(this.field);
+    // Blank lines carry no data
+    if (!(this.record.length === 1 && this.record[0] === '')) {
+      records.push(this.record);
+    }
+    this.record = [];
+    this.field = '';
+  }
+}
+
+export class CsvParser {
+  /**
+   * Parse RFC 4180 CSV text into objects keyed by the header row
+   */
+  public static parse(text: string): CsvRow[] {
+    const records = this.parseRecords(text);
+    if (records.length === 0) return [];
+
+    const [header, ...body] = records;
+    return body.map(record => this.toRow(header, record));
+  }
+
+  /**
+   * Parse RFC 4180 CSV text into raw records (arrays of field values)
+   */
+  public static parseRecords(text: string): string[][] {
+    const parser = new CsvStreamParser();
+    return [...parser.push(text), ...parser.flush()];
+  }
+
+  /**
+   * Stream rows out of a byte stream in batches. The stream is only read as
+   * fast as the consumer pulls batches, so large files never sit fully in memory.
+   */
+  public static async *streamRows(
+    stream: ReadableStream<Uint8Array>,
+    batchSize: number = 500
+  ): AsyncGenerator<CsvRow[]> {
+    const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+    const parser = new CsvStreamParser();
+    let header: string[] | null = null;
+    let batch: CsvRow[] = [];
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        const records = done ? parser.flush() : parser.push(value);
+
+        for (const record of records) {
+          if (!header) {
+            header = record;
+            continue;
+          }
+
+          batch.push(this.toRow(header, record));
+          if (batch.length >= batchSize) {
+            yield batch;
+            batch = [];
+          }
+        }
+
+        if (done) break;
+      }
+
+      if (batch.length > 0) yield batch;
+    } finally {
+      // Releases the underlying stream if the consumer stops early
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Parse an embedded JSON column, returning the fallback for empty or malformed values
+   */
+  public static parseJson<T>(value: string | undefined, fallback: T): T {
+    if (!value) return fallback;
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static toRow(header: string[], record: string[]): CsvRow {
+    const row: CsvRow = {};
+    header.forEach((column, index) => {
+      row[column] = record[index] ?? '';
+    });
+    return row;
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { DataExtractor } from './dataExtractor';
+import { VocabularyMapper } from './vocabularyMapper';
+import { RelationshipType } from '../types';
+import { buildZip, toCsv } from '../test/zipFixture';
+
+const rows = (count: number) => Array.from({ length: count }, (_, index) => ({
+  id: `R-${index}`,
+  note: index % 100 === 0 ? `line one\nline "two" of ${index}` : `note ${index}`
+}));
+
+describe('DataExtractor.readTables', () => {
+  it('reads every CSV in the bundle across stream batches, keyed by base file name', async () => {
+    const zip = buildZip({
+      'dataset/interactions.csv': toCsv(rows(1200)),
+      'dataset/leads.csv': toCsv(rows(3)),
+      'dataset/README.md': '# Not a table'
+    });
+
+    const tables = await DataExtractor.readTables(zip);
+
+    expect([...tables.keys()]).toEqual(['interactions.csv', 'leads.csv']);
+    expect(tables.get('interactions.csv')).toEqual(rows(1200));
+    expect(tables.get('leads.csv')).toEqual(rows(3));
+  });
+
+  it('streams one table in batches', async () => {
+    const zip = buildZip({ 'interactions.csv': toCsv(rows(1200)) }, { stored: true });
+    const sizes: number[] = [];
+
+    for await (const batch of DataExtractor.streamTable(zip, 'interactions.csv', 500)) {
+      sizes.push(batch.length);
+    }
+
+    expect(sizes).toEqual([500, 500, 200]);
+  });
+});
+
+describe('DataExtractor.extractMarketingData', () => {
+  const bundle = () => buildZip({
+    'leads.csv': toCsv([{
+      lead_id: 'L-1',
+      created_at: '2024-03-01T09:00:00Z',
+      triage_category: 'Campaign Qualified',
+      lead_status: 'Open',
+      lead_score: 70,
+      email: 'l-1@example.com'
+    }]),
+    'conversations.csv': toCsv([{ conversation_id: 'C-1', lead_id: 'L-1', opened_at: '', last_event_at: '', status: 'active' }]),
+    'interactions.csv': toCsv([{
+      interaction_id: 'I-1',
+      conversation_id: 'C-1',
+      lead_id: 'L-1',
+      timestamp: '2024-03-02T10:00:00Z',
+      channel: 'Email',
+      event_type: 'email_reply',
+      outcome: 'positive',
+      metadata_json: JSON.stringify({ conversationId: 'C-OTHER', channel: 'SMS', device: 'mobile' })
+    }]),
+    'memory_short_term.csv': toCsv([{ conversation_id: 'C-1', lead_id: 'L-1', active_intent: 'pricing', expires_at: '' }]),
+    'memory_long_term.csv': toCsv([{ lead_id: 'L-1', industry: 'SaaS', last_updated_at: '' }])
+  });
+
+  it('leaves blank optional dates unset or derives them from interactions, never from the clock', async () => {
+    const data = await DataExtractor.extractMarketingData(bundle());
+    const interactionTime = new Date('2024-03-02T10:00:00Z');
+
+    expect(data.shortTermContexts?.[0].expiresAt).toBeUndefined();
+    expect(data.conversations?.[0]).toMatchObject({ openedAt: interactionTime, lastEventAt: interactionTime });
+    expect(data.customers[0].lastEngagement).toEqual(interactionTime);
+    expect(data.leads[0].updatedAt).toEqual(new Date('2024-03-01T09:00:00Z'));
+  });
+
+  it('keeps interaction columns over same-named metadata_json keys', async () => {
+    const [interaction] = (await DataExtractor.extractMarketingData(bundle())).conversations![0].interactions;
+
+    expect(interaction.metadata).toMatchObject({ conversationId: 'C-1', channel: 'Email', device: 'mobile' });
+  });
+});
+
+describe('DataExtractor knowledge graph import', () => {
+  const bundle = () => buildZip({
+    'semantic_kg_triples.csv': toCsv([
+      { subject: 'SMB', predicate: 'preferred_channel', object: 'Email', weight: 0.9, source: 'survey' },
+      { subject: 'SMB', predicate: 'preferred_channel', object: 'Email', weight: 0.5, source: 'crm' },
+      { subject: 'SMB', predicate: 'located_in', object: 'EU', weight: 0.6, source: 'crm' },
+      { subject: 'SMB', predicate: 'competes_with', object: 'Enterprise', weight: '', source: '' }
+    ])
+  });
+
+  it('merges repeated triples into one edge and keeps the dataset predicate', async () => {
+    const { nodes, relationships } = (await DataExtractor.extractMarketingData(bundle())).knowledgeGraph!;
+    const [preferred] = relationships;
+
+    expect(relationships).toHaveLength(3);
+    expect(preferred).toMatchObject({
+      id: 'kg:SMB:preferred_channel:Email',
+      source: 'kg:SMB',
+      target: 'kg:Email',
+      type: RelationshipType.RELATED_TO,
+      metadata: { predicate: 'preferred_channel', sources: ['survey', 'crm'], assertions: 2 }
+    });
+    expect(preferred.strength).toBeCloseTo(0.7);
+    expect(nodes.map(node => node.id)).toEqual(['kg:SMB', 'kg:Email', 'kg:EU', 'kg:Enterprise']);
+    expect(nodes[0].description).toBe('SMB competes_with Enterprise, preferred_channel Email, located_in EU');
+  });
+
+  it('maps predicates through the vocabulary and reports the unmapped ones', async () => {
+    const { knowledgeGraph, importReport } = await DataExtractor.extractMarketingData(bundle());
+    const types = Object.fromEntries(knowledgeGraph!.relationships.map(edge => [edge.metadata.predicate, edge.type]));
+
+    expect(types).toEqual({
+      preferred_channel: RelationshipType.RELATED_TO,
+      located_in: RelationshipType.PART_OF,
+      competes_with: RelationshipType.RELATED_TO
+    });
+    expect(importReport?.unmappedValues).toEqual([
+      { vocabulary: 'relationshipType', value: 'competes_with', fallback: RelationshipType.RELATED_TO, count: 1 }
+    ]);
+  });
+
+  it('takes extra predicates from an extended vocabulary', async () => {
+    const vocabulary = new VocabularyMapper();
+    vocabulary.extend('relationshipType', { values: { competes_with: RelationshipType.OPPOSITE_OF } });
+
+    const { knowledgeGraph, importReport } = await DataExtractor.extractMarketingData(bundle(), vocabulary);
+
+    expect(knowledgeGraph!.relationships.find(edge => edge.metadata.predicate === 'competes_with')?.type).toBe(RelationshipType.OPPOSITE_OF);
+    expect(importReport?.unmappedValues).toEqual([]);
+  });
+});
@@ -0,0 +1,255 @@
+import { TableSchema } from '../types';
+
+// Shared vocabularies from data_dictionary.md
+const CHANNELS = ['Email', 'SMS', 'Social', 'Ads', 'Web', 'Call'];
+const AGENT_TYPES = ['LeadTriage', 'Engagement', 'Optimizer'];
+const REGIONS = ['US', 'EU', 'APAC', 'MEA', 'LATAM', 'India'];
+
+const ref = (table: string, column: string) => ({ table, column });
+
+/**
+ * Declarative schema for every CSV file in the marketing dataset bundle
+ */
+export const DATASET_SCHEMA: TableSchema[] = [
+  {
+    file: 'campaigns.csv',
+    primaryKey: 'campaign_id',
+    required: true,
+    columns: [
+      { name: 'campaign_id', type: 'string', required: true },
+      { name: 'name', type: 'string', required: true },
+      { name: 'objective', type: 'string' },
+      { name: 'start_date', type: 'date', required: true },
+      { name: 'end_date', type: 'date' },
+      { name: 'channel_mix', type: 'json' },
+      { name: 'daily_budget_usd', type: 'number', min: 0 },
+      { name: 'total_budget_usd', type: 'number', min: 0 },
+      { name: 'owner_email', type: 'string' },
+      { name: 'primary_region', type: 'string', enum: REGIONS },
+      { name: 'target_personas', type: 'json' },
+      { name: 'kpi', type: 'string' }
+    ]
+  },
+  {
+    file: 'ab_variants.csv',
+    primaryKey: 'variant_id',
+    columns: [
+      { name: 'variant_id', type: 'string', required: true },
+      { name: 'campaign_id', type: 'string', required: true, references: ref('campaigns.csv', 'campaign_id') },
+      { name: 'channel', type: 'string', enum: CHANNELS },
+      { name: 'creative_type', type: 'string', enum: ['SubjectLine', 'AdCopy', 'LandingPage', 'SMSCopy'] },
+      { name: 'subject_line', type: 'string' },
+      { name: 'call_to_action', type: 'string' },
+      { name: 'tone', type: 'string' },
+      { name: 'length_words', type: 'integer', min: 0 }
+    ]
+  },
+  {
+    file: 'leads.csv',
+    primaryKey: 'lead_id',
+    required: true,
+    columns: [
+      { name: 'lead_id', type: 'string', required: true },
+      { name: 'created_at', type: 'date', required: true },
+      { name: 'source', type: 'string' },
+      { name: 'campaign_id', type: 'string', references: ref('campaigns.csv', 'campaign_id') },
+      { name: 'triage_category', type: 'string', required: true, enum: ['Campaign Qualified', 'Cold Lead', 'General Inquiry'] },
+      { name: 'lead_status', type: 'string', required: true, enum: ['New', 'Open', 'Qualified', 'Unqualified', 'Converted'] },
+      { name: 'lead_score', type: 'number', required: true, min: 0, max: 100 },
+      { name: 'company_size', type: 'string' },
+      { name: 'industry', type: 'string' },
+      { name: 'persona', type: 'string' },
+      { name: 'region', type: 'string', enum: REGIONS },
+      { name: 'preferred_channel', type: 'string', enum: CHANNELS },
+      { name: 'gdpr_consent', type: 'boolean' },
+      { name: 'email', type: 'string', required: true },
+      { name: 'phone', type: 'string' },
+      { name: 'assigned_engagement_agent', type: 'string' },
+      { name: 'last_active_at', type: 'date' }
+    ]
+  },
+  {
+    file: 'interactions.csv',
+    primaryKey: 'interaction_id',
+    columns: [
+      { name: 'interaction_id', type: 'string', required: true },
+      { name: 'conversation_id', type: 'string', references: ref('conversations.csv', 'conversation_id') },
+      { name: 'lead_id', type: 'string', required: true, references: ref('leads.csv', 'lead_id') },
+      { name: 'campaign_id', type: 'string', references: ref('campaigns.csv', 'campaign_id') },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'channel', type: 'string', enum: CHANNELS },
+      { name: 'event_type', type: 'string', required: true },
+      { name: 'agent_id', type: 'string' },
+      { name: 'variant_id', type: 'string', references: ref('ab_variants.csv', 'variant_id') },
+      { name: 'outcome', type: 'string', enum: ['none', 'positive', 'negative', 'unsubscribe', 'callback_requested'] },
+      { name: 'metadata_json', type: 'json' }
+    ]
+  },
+  {
+    file: 'conversations.csv',
+    primaryKey: 'conversation_id',
+    columns: [
+      { name: 'conversation_id', type: 'string', required: true },
+      { name: 'lead_id', type: 'string', required: true, references: ref('leads.csv', 'lead_id') },
+      { name: 'opened_at', type: 'date' },
+      { name: 'last_event_at', type: 'date' },
+      { name: 'status', type: 'string', enum: ['active', 'idle', 'closed'] }
+    ]
+  },
+  {
+    file: 'agent_actions.csv',
+    primaryKey: 'action_id',
+    columns: [
+      { name: 'action_id', type: 'string', required: true },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'conversation_id', type: 'string', references: ref('conversations.csv', 'conversation_id') },
+      { name: 'lead_id', type: 'string', references: ref('leads.csv', 'lead_id') },
+      { name: 'action_type', type: 'string', required: true },
+      { name: 'source_agent', type: 'string' },
+      { name: 'source_agent_type', type: 'string', enum: AGENT_TYPES },
+      { name: 'dest_agent_type', type: 'string', enum: [...AGENT_TYPES, 'Manager'] },
+      { name: 'handoff_context_json', type: 'json' },
+      { name: 'escalation_reason', type: 'string', enum: ['none', 'high_value', 'complaint', 'legal', 'complex_request'] }
+    ]
+  },
+  {
+    file: 'campaign_daily.csv',
+    columns: [
+      { name: 'campaign_id', type: 'string', required: true, references: ref('campaigns.csv', 'campaign_id') },
+      { name: 'date', type: 'date', required: true },
+      { name: 'impressions', type: 'integer', min: 0 },
+      { name: 'clicks', type: 'integer', min: 0 },
+      { name: 'ctr', type: 'number', min: 0, max: 1 },
+      { name: 'leads_created', type: 'integer', min: 0 },
+      { name: 'conversions', type: 'integer', min: 0 },
+      { name: 'cost_usd', type: 'number', min: 0 },
+      { name: 'revenue_usd', type: 'number', min: 0 },
+      { name: 'cpl_usd', type: 'number', min: 0 },
+      { name: 'roas', type: 'number', min: 0 }
+    ]
+  },
+  {
+    file: 'conversions.csv',
+    columns: [
+      { name: 'lead_id', type: 'string', required: true, references: ref('leads.csv', 'lead_id') },
+      { name: 'campaign_id', type: 'string', references: ref('campaigns.csv', 'campaign_id') },
+      { name: 'converted_at', type: 'date', required: true },
+      { name: 'conversion_value_usd', type: 'number', min: 0 },
+      { name: 'conversion_type', type: 'string', enum: ['demo_booked', 'trial_started', 'purchase', 'meeting_scheduled'] }
+    ]
+  },
+  {
+    file: 'memory_short_term.csv',
+    columns: [
+      { name: 'conversation_id', type: 'string', required: true, references: ref('conversations.csv', 'conversation_id') },
+      { name: 'lead_id', type: 'string', required: true, references: ref('leads.csv', 'lead_id') },
+      { name: 'last_utterance_summary', type: 'string' },
+      { name: 'active_intent', type: 'string' },
+      { name: 'slots_json', type: 'json' },
+      { name: 'expires_at', type: 'date' }
+    ]
+  },
+  {
+    file: 'memory_long_term.csv',
+    columns: [
+      { name: 'lead_id', type: 'string', required: true, references: ref('leads.csv', 'lead_id') },
+      { name: 'region', type: 'string', enum: REGIONS },
+      { name: 'industry', type: 'string' },
+      { name: 'rfm_score', type: 'number', min: 0, max: 1 },
+      { name: 'preferences_json', type: 'json' },
+      { name: 'last_updated_at', type: 'date' }
+    ]
+  },
+  {
+    file: 'memory_episodic.csv',
+    primaryKey: 'episode_id',
+    columns: [
+      { name: 'episode_id', type: 'string', required: true },
+      { name: 'scenario', type: 'string', required: true },
+      { name: 'action_sequence_json', type: 'json', required: true },
+      { name: 'outcome_score', type: 'number', min: 0, max: 1 },
+      { name: 'notes', type: 'string' }
+    ]
+  },
+  {
+    file: 'semantic_kg_triples.csv',
+    columns: [
+      { name: 'subject', type: 'string', required: true },
+      { name: 'predicate', type: 'string', required: true },
+      { name: 'object', type: 'string', required: true },
+      { name: 'weight', type: 'number', min: 0.1, max: 1 },
+      { name: 'source', type: 'string' }
+    ]
+  },
+  {
+    file: 'mcp_jsonrpc_calls.csv',
+    primaryKey: 'rpc_id',
+    columns: [
+      { name: 'rpc_id', type: 'string', required: true },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'transport', type: 'string', enum: ['WebSocket', 'HTTP'] },
+      { name: 'method', type: 'string', required: true },
+      { name: 'params_bytes', type: 'integer', min: 0 },
+      { name: 'duration_ms', type: 'number', min: 0 },
+      { name: 'status_code', type: 'integer' },
+      { name: 'source_agent_type', type: 'string', enum: AGENT_TYPES },
+      { name: 'target_resource', type: 'string' }
+    ]
+  },
+  {
+    file: 'transport_websocket_sessions.csv',
+    columns: [
+      { name: 'session_id', type: 'string', required: true },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'messages_sent', type: 'integer', min: 0 },
+      { name: 'messages_received', type: 'integer', min: 0 },
+      { name: 'bytes_in', type: 'integer', min: 0 },
+      { name: 'bytes_out', type: 'integer', min: 0 }
+    ]
+  },
+  {
+    file: 'transport_http_requests.csv',
+    columns: [
+      { name: 'request_id', type: 'string', required: true },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'method', type: 'string', enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] },
+      { name: 'status_code', type: 'integer' },
+      { name: 'bytes_in', type: 'integer', min: 0 },
+      { name: 'bytes_out', type: 'integer', min: 0 }
+    ]
+  },
+  {
+    file: 'mcp_resource_access.csv',
+    columns: [
+      { name: 'resource_uri', type: 'string', required: true },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'scope', type: 'string', enum: ['read', 'write', 'search', 'consolidate'] },
+      { name: 'operation', type: 'string' },
+      { name: 'success', type: 'boolean' },
+      { name: 'actor', type: 'string' }
+    ]
+  },
+  {
+    file: 'segments.csv',
+    primaryKey: 'segment_id',
+    columns: [
+      { name: 'segment_id', type: 'string', required: true },
+      { name: 'name', type: 'string', required: true },
+      { name: 'rules_json', type: 'json', required: true },
+      { name: 'description', type: 'string' }
+    ]
+  },
+  {
+    file: 'security_auth_events.csv',
+    primaryKey: 'event_id',
+    columns: [
+      { name: 'event_id', type: 'string', required: true },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'principal', type: 'string' },
+      { name: 'auth_mechanism', type: 'string', enum: ['mTLS', 'OIDC', 'APIKey'] },
+      { name: 'scope', type: 'string' },
+      { name: 'result', type: 'string', enum: ['success', 'failure', 'expired', 'denied'] },
+      { name: 'ip', type: 'string' }
+    ]
+  }
+];
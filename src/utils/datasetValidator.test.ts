@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetValidator } from './datasetValidator';
+import { BatchPipeline } from './batchPipeline';
+import { CsvRow } from './csvParser';
+import { TableSchema } from '../types';
+
+const lead = (id: string, score: string = '50'): CsvRow => ({
+  lead_id: id,
+  created_at: '2024-03-01T09:00:00Z',
+  triage_category: 'Cold Lead',
+  lead_status: 'New',
+  lead_score: score,
+  email: `${id.toLowerCase()}@example.com`
+});
+
+const schema: TableSchema[] = [
+  {
+    file: 'campaigns.csv',
+    primaryKey: 'campaign_id',
+    required: true,
+    columns: [
+      { name: 'campaign_id', type: 'string', required: true },
+      { name: 'budget', type: 'number', min: 0 },
+      { name: 'seats', type: 'integer' },
+      { name: 'active', type: 'boolean' },
+      { name: 'region', type: 'string', enum: ['EU', 'US'] },
+      { name: 'start_date', type: 'date' },
+      { name: 'channels', type: 'json' }
+    ]
+  },
+  {
+    file: 'leads.csv',
+    primaryKey: 'lead_id',
+    columns: [
+      { name: 'lead_id', type: 'string', required: true },
+      { name: 'campaign_id', type: 'string', references: { table: 'campaigns.csv', column: 'campaign_id' } }
+    ]
+  },
+  {
+    file: 'segments.csv',
+    required: true,
+    columns: [{ name: 'segment_id', type: 'string', required: true }]
+  }
+];
+
+const campaign = (id: string, overrides: CsvRow = {}): CsvRow => ({
+  campaign_id: id,
+  budget: '100',
+  seats: '3',
+  active: 'True',
+  region: 'EU',
+  start_date: '2024-03-01',
+  channels: '["Email"]',
+  ...overrides
+});
+
+const fileReport = (report: ReturnType<typeof DatasetValidator.validate>['report'], file: string) =>
+  report.files.find(entry => entry.file === file)!;
+
+describe('DatasetValidator.validate', () => {
+  it('coerces recoverable values and records each coercion', () => {
+    const { tables, report } = DatasetValidator.validate(
+      new Map([['campaigns.csv', [campaign('C-1', { budget: ' $1,200 ', active: 'yes', region: 'eu' })]]]),
+      schema
+    );
+
+    expect(tables.get('campaigns.csv')![0]).toMatchObject({ budget: '1200', active: 'true', region: 'EU' });
+    expect(fileReport(report, 'campaigns.csv').coerced.map(issue => [issue.column, issue.coercedTo])).toEqual([
+      ['budget', '1200'],
+      ['active', 'true'],
+      ['region', 'EU']
+    ]);
+    expect(report.coercedValues).toBe(3);
+  });
+
+  it.each([
+    ['a missing required value', { campaign_id: ' ' }, 'Required value is missing'],
+    ['a non-numeric number', { budget: 'lots' }, 'Expected a number'],
+    ['a fractional integer', { seats: '2.5' }, 'Expected an integer'],
+    ['a value below the minimum', { budget: '-5' }, 'Value -5 is below the minimum of 0'],
+    ['an unknown boolean', { active: 'maybe' }, 'Expected a boolean'],
+    ['a value outside the enum', { region: 'Mars' }, "Value 'Mars' is not one of: EU, US"],
+    ['an unparseable date', { start_date: 'soon' }, 'Expected an ISO 8601 date'],
+    ['malformed JSON', { channels: '[Email' }, 'Malformed JSON']
+  ])('rejects a row with %s', (_, overrides, message) => {
+    const { tables, report } = DatasetValidator.validate(new Map([['campaigns.csv', [campaign('C-1', overrides)]]]), schema);
+
+    expect(tables.get('campaigns.csv')).toEqual([]);
+    expect(fileReport(report, 'campaigns.csv').rejected).toEqual([expect.objectContaining({ row: 2, message })]);
+  });
+
+  it('reports missing files and columns and passes unknown files through', () => {
+    const { tables, report } = DatasetValidator.validate(
+      new Map([['campaigns.csv', [{ campaign_id: 'C-1' }]], ['notes.csv', [{ note: 'kept' }]]]),
+      schema
+    );
+
+    expect(fileReport(report, 'campaigns.csv').missingColumns).toEqual(['budget', 'seats', 'active', 'region', 'start_date', 'channels']);
+    expect(fileReport(report, 'leads.csv')).toMatchObject({ status: 'missing', rejected: [] });
+    expect(fileReport(report, 'segments.csv')).toMatchObject({
+      status: 'missing',
+      rejected: [expect.objectContaining({ row: 0, message: 'Required file is missing from the bundle' })]
+    });
+    expect(fileReport(report, 'notes.csv')).toMatchObject({ status: 'unknown', totalRows: 1, acceptedRows: 1 });
+    expect(tables.get('notes.csv')).toEqual([{ note: 'kept' }]);
+  });
+
+  it('flags references to rows that are missing or were rejected, but keeps the referring rows', () => {
+    const { tables, report } = DatasetValidator.validate(
+      new Map([
+        ['campaigns.csv', [campaign('C-1'), campaign('C-2', { budget: 'lots' })]],
+        ['leads.csv', [{ lead_id: 'L-1', campaign_id: 'C-1' }, { lead_id: 'L-2', campaign_id: 'C-2' }, { lead_id: 'L-3', campaign_id: '' }]]
+      ]),
+      schema
+    );
+
+    expect(tables.get('leads.csv')).toHaveLength(3);
+    expect(fileReport(report, 'leads.csv').danglingReferences).toEqual([
+      expect.objectContaining({ column: 'campaign_id', value: 'C-2', message: 'No campaigns.csv row with campaign_id = C-2' })
+    ]);
+    expect(report).toMatchObject({ totalRows: 5, acceptedRows: 4, rejectedRows: 1, danglingReferences: 1 });
+  });
+
+  it('counts every issue but keeps only a bounded sample', () => {
+    const rows = Array.from({ length: 150 }, (_, index) => campaign(`C-${index}`, { budget: 'lots' }));
+
+    const report = fileReport(DatasetValidator.validate(new Map([['campaigns.csv', rows]]), schema).report, 'campaigns.csv');
+
+    expect(report.rejectedCount).toBe(150);
+    expect(report.rejected).toHaveLength(100);
+  });
+});
+
+describe('DatasetValidator.validateStreams', () => {
+  const leads = [lead('L-1'), lead('L-2', 'high'), lead('L-3'), lead('L-1'), lead('L-4', '$70')];
+  const tables = new Map([['leads.csv', leads], ['notes.csv', [{ note: 'kept' }]]]);
+
+  it('gives the same result batch by batch as over whole tables', async () => {
+    const streamed = await DatasetValidator.validateStreams(tables.keys(), file => BatchPipeline.fromArray(tables.get(file)!, 2));
+    const whole = DatasetValidator.validate(tables);
+
+    expect(streamed.tables).toEqual(whole.tables);
+    expect({ ...streamed.report, generatedAt: undefined }).toEqual({ ...whole.report, generatedAt: undefined });
+  });
+
+  it('numbers rows and catches duplicate keys across batch boundaries', async () => {
+    const { tables: accepted, report } = await DatasetValidator.validateStreams(
+      ['leads.csv'],
+      () => BatchPipeline.fromArray(leads, 2)
+    );
+    const leadReport = report.files.find(file => file.file === 'leads.csv')!;
+
+    expect(accepted.get('leads.csv')!.map(row => row.lead_id)).toEqual(['L-1', 'L-3', 'L-4']);
+    expect(leadReport.rejected.map(issue => [issue.row, issue.message])).toEqual([
+      [3, 'Expected a number'],
+      [5, 'Duplicate primary key']
+    ]);
+    expect(leadReport).toMatchObject({ totalRows: 5, acceptedRows: 3, coercedCount: 1 });
+  });
+});
@@ -0,0 +1,375 @@
+import { ColumnSchema, ImportFileReport, ImportIssue, ImportReport, TableSchema } from '../types';
+import { CsvRow } from './csvParser';
+import { DATASET_SCHEMA } from './datasetSchema';
+import { BatchPipeline } from './batchPipeline';
+
+type Coercion = { value: string; coerced: boolean } | { error: string };
+
+/** Running state for one file while its rows arrive batch by batch */
+interface TableValidation {
+  schema?: TableSchema;
+  fileReport: ImportFileReport;
+  seenKeys: Set<string>;
+  rows: CsvRow[];
+}
+
+export class DatasetValidator {
+  private static readonly MAX_ISSUES_PER_KIND = 100;
+
+  /**
+   * Validate parsed CSV tables against the dataset schema.
+   * Returns the accepted (and coerced) rows per file together with an import report.
+   */
+  public static validate(
+    tables: Map<string, CsvRow[]>,
+    schema: TableSchema[] = DATASET_SCHEMA
+  ): { tables: Map<string, CsvRow[]>; report: ImportReport } {
+    const validations = new Map<string, TableValidation>();
+
+    tables.forEach((rows, file) => {
+      const validation = this.startTable(file, schema);
+      this.validateBatch(validation, rows);
+      validations.set(file, validation);
+    });
+
+    return this.finish(validations, schema);
+  }
+
+  /**
+   * Validate tables as they stream in. Each batch is checked and coerced as soon as it
+   * arrives and then dropped, so only the accepted rows of a file are ever held; those are
+   * kept because foreign keys and the dataset mappers join across files.
+   */
+  public static async validateStreams(
+    files: Iterable<string>,
+    open: (file: string) => AsyncIterable<CsvRow[]>,
+    schema: TableSchema[] = DATASET_SCHEMA
+  ): Promise<{ tables: Map<string, CsvRow[]>; report: ImportReport }> {
+    const validations = new Map<string, TableValidation>();
+
+    for (const file of files) {
+      const validation = this.startTable(file, schema);
+      await BatchPipeline.run(open(file), async batch => {
+        this.validateBatch(validation, batch);
+      });
+      validations.set(file, validation);
+    }
+
+    return this.finish(validations, schema);
+  }
+
+  private static startTable(file: string, schema: TableSchema[]): TableValidation {
+    const tableSchema = schema.find(candidate => candidate.file === file);
+    return {
+      schema: tableSchema,
+      fileReport: this.createFileReport(file, tableSchema ? 'ok' : 'unknown'),
+      seenKeys: new Set(),
+      rows: []
+    };
+  }
+
+  private static finish(
+    validations: Map<string, TableValidation>,
+    schema: TableSchema[]
+  ): { tables: Map<string, CsvRow[]>; report: ImportReport } {
+    const accepted = new Map<string, CsvRow[]>();
+    const fileReports = new Map<string, ImportFileReport>();
+
+    // Pass 1 ran per batch; list schema files first, flagging the missing ones
+    for (const tableSchema of schema) {
+      const validation = validations.get(tableSchema.file);
+      if (!validation) {
+        const fileReport = this.createFileReport(tableSchema.file, 'missing');
+        if (tableSchema.required) {
+          this.addIssue(fileReport, 'rejected', { row: 0, message: 'Required file is missing from the bundle' });
+        }
+        fileReports.set(tableSchema.file, fileReport);
+        continue;
+      }
+
+      fileReports.set(tableSchema.file, validation.fileReport);
+      accepted.set(tableSchema.file, validation.rows);
+    }
+
+    // Files in the bundle that the schema does not describe are passed through untouched
+    validations.forEach((validation, file) => {
+      if (fileReports.has(file)) return;
+      fileReports.set(file, validation.fileReport);
+      accepted.set(file, validation.rows);
+    });
+
+    // Pass 2: foreign keys, checked against accepted rows only
+    const keyIndex = this.buildKeyIndex(schema, accepted);
+    for (const tableSchema of schema) {
+      const rows = accepted.get(tableSchema.file);
+      if (rows) {
+        this.checkReferences(tableSchema, rows, keyIndex, fileReports.get(tableSchema.file)!);
+      }
+    }
+
+    const files = Array.from(fileReports.values());
+    const report: ImportReport = {
+      files,
+      totalRows: files.reduce((sum, file) => sum + file.totalRows, 0),
+      acceptedRows: files.reduce((sum, file) => sum + file.acceptedRows, 0),
+      rejectedRows: files.reduce((sum, file) => sum + (file.totalRows - file.acceptedRows), 0),
+      coercedValues: files.reduce((sum, file) => sum + file.coercedCount, 0),
+      danglingReferences: files.reduce((sum, file) => sum + file.danglingCount, 0),
+      unmappedValues: [],
+      generatedAt: new Date()
+    };
+
+    return { tables: accepted, report };
+  }
+
+  /**
+   * Pass 1 for one batch: column presence, types, enums and primary keys
+   */
+  private static validateBatch(validation: TableValidation, batch: CsvRow[]): void {
+    const { schema: tableSchema, fileReport, seenKeys, rows } = validation;
+    const firstRow = fileReport.totalRows + 2; // Header is line 1
+
+    if (fileReport.totalRows === 0 && batch.length > 0 && tableSchema) {
+      const presentColumns = new Set(Object.keys(batch[0]));
+      fileReport.missingColumns = tableSchema.columns
+        .filter(column => !presentColumns.has(column.name))
+        .map(column => column.name);
+    }
+    fileReport.totalRows += batch.length;
+
+    batch.forEach((row, index) => {
+      if (!tableSchema) {
+        rows.push(row);
+        return;
+      }
+
+      const rowNumber = firstRow + index;
+      const validated = this.validateRow(tableSchema, row, rowNumber, fileReport);
+      if (!validated) return;
+
+      if (tableSchema.primaryKey) {
+        const key = validated[tableSchema.primaryKey];
+        if (seenKeys.has(key)) {
+          this.addIssue(fileReport, 'rejected', {
+            row: rowNumber,
+            column: tableSchema.primaryKey,
+            value: key,
+            message: 'Duplicate primary key'
+          });
+          return;
+        }
+        seenKeys.add(key);
+      }
+
+      rows.push(validated);
+    });
+
+    fileReport.acceptedRows = rows.length;
+  }
+
+  private static validateRow(
+    tableSchema: TableSchema,
+    row: CsvRow,
+    rowNumber: number,
+    fileReport: ImportFileReport
+  ): CsvRow | null {
+    const result: CsvRow = { ...row };
+    const coercions: ImportIssue[] = [];
+
+    for (const column of tableSchema.columns) {
+      const raw = row[column.name] ?? '';
+
+      if (raw.trim() === '') {
+        if (column.required) {
+          this.addIssue(fileReport, 'rejected', {
+            row: rowNumber,
+            column: column.name,
+            value: raw,
+            message: 'Required value is missing'
+          });
+          return null;
+        }
+        result[column.name] = '';
+        continue;
+      }
+
+      const coercion = this.coerceValue(column, raw);
+      if ('error' in coercion) {
+        this.addIssue(fileReport, 'rejected', {
+          row: rowNumber,
+          column: column.name,
+          value: raw,
+          message: coercion.error
+        });
+        return null;
+      }
+
+      if (coercion.coerced) {
+        coercions.push({
+          row: rowNumber,
+          column: column.name,
+          value: raw,
+          coercedTo: coercion.value,
+          message: `Coerced ${column.type} value`
+        });
+      }
+      result[column.name] = coercion.value;
+    }
+
+    // Only record coercions for rows that were actually accepted
+    coercions.forEach(issue => this.addIssue(fileReport, 'coerced', issue));
+    return result;
+  }
+
+  private static coerceValue(column: ColumnSchema, raw: string): Coercion {
+    const trimmed = raw.trim();
+    const coercion = this.coerceType(column, trimmed);
+    if ('error' in coercion) return coercion;
+
+    const value = coercion.value;
+    const coerced = coercion.coerced || trimmed !== raw;
+
+    if (column.type === 'integer' || column.type === 'number') {
+      const numeric = Number(value);
+      if (column.min !== undefined && numeric < column.min) {
+        return { error: `Value ${value} is below the minimum of ${column.min}` };
+      }
+      if (column.max !== undefined && numeric > column.max) {
+        return { error: `Value ${value} is above the maximum of ${column.max}` };
+      }
+    }
+
+    if (column.enum) {
+      if (column.enum.includes(value)) return { value, coerced };
+
+      const match = column.enum.find(option => option.toLowerCase() === value.toLowerCase());
+      if (!match) {
+        return { error: `Value '${value}' is not one of: ${column.enum.join(', ')}` };
+      }
+      return { value: match, coerced: true };
+    }
+
+    return { value, coerced };
+  }
+
+  private static coerceType(column: ColumnSchema, value: string): Coercion {
+    switch (column.type) {
+      case 'integer':
+      case 'number': {
+        const cleaned = value.replace(/[$,\s]/g, '');
+        const numeric = Number(cleaned);
+        if (cleaned === '' || !Number.isFinite(numeric)) {
+          return { error: `Expected a ${column.type}` };
+        }
+        if (column.type === 'integer' && !Number.isInteger(numeric)) {
+          return { error: 'Expected an integer' };
+        }
+        return { value: cleaned, coerced: cleaned !== value };
+      }
+      case 'boolean': {
+        const normalized = value.toLowerCase();
+        if (['true', 'yes', '1', 'y'].includes(normalized)) return { value: 'true', coerced: value !== 'True' };
+        if (['false', 'no', '0', 'n'].includes(normalized)) return { value: 'false', coerced: value !== 'False' };
+        return { error: 'Expected a boolean' };
+      }
+      case 'date':
+        return isNaN(new Date(value).getTime())
+          ? { error: 'Expected an ISO 8601 date' }
+          : { value, coerced: false };
+      case 'json':
+        try {
+          JSON.parse(value);
+          return { value, coerced: false };
+        } catch {
+          return { error: 'Malformed JSON' };
+        }
+      default:
+        return { value, coerced: false };
+    }
+  }
+
+  private static buildKeyIndex(schema: TableSchema[], tables: Map<string, CsvRow[]>): Map<string, Set<string>> {
+    const index = new Map<string, Set<string>>();
+
+    schema.forEach(tableSchema => {
+      tableSchema.columns.forEach(column => {
+        if (!column.references) return;
+
+        const key = `${column.references.table}.${column.references.column}`;
+        if (index.has(key)) return;
+
+        const rows = tables.get(column.references.table) || [];
+        index.set(key, new Set(rows.map(row => row[column.references!.column])));
+      });
+    });
+
+    return index;
+  }
+
+  private static checkReferences(
+    tableSchema: TableSchema,
+    rows: CsvRow[],
+    keyIndex: Map<string, Set<string>>,
+    fileReport: ImportFileReport
+  ): void {
+    const referenceColumns = tableSchema.columns.filter(column => column.references);
+    if (referenceColumns.length === 0) return;
+
+    rows.forEach((row, index) => {
+      referenceColumns.forEach(column => {
+        const value = row[column.name];
+        if (!value) return;
+
+        const target = column.references!;
+        const keys = keyIndex.get(`${target.table}.${target.column}`);
+        if (keys && !keys.has(value)) {
+          this.addIssue(fileReport, 'danglingReferences', {
+            row: index + 2,
+            column: column.name,
+            value,
+            message: `No ${target.table} row with ${target.column} = ${value}`
+          });
+        }
+      });
+    });
+  }
+
+  private static createFileReport(file: string, status: ImportFileReport['status']): ImportFileReport {
+    return {
+      file,
+      status,
+      totalRows: 0,
+      acceptedRows: 0,
+      missingColumns: [],
+      rejectedCount: 0,
+      coercedCount: 0,
+      danglingCount: 0,
+      rejected: [],
+      coerced: [],
+      danglingReferences: []
+    };
+  }
+
+  private static addIssue(
+    fileReport: ImportFileReport,
+    kind: 'rejected' | 'coerced' | 'danglingReferences',
+    issue: ImportIssue
+  ): void {
+    switch (kind) {
+      case 'rejected':
+        fileReport.rejectedCount++;
+        break;
+      case 'coerced':
+        fileReport.coercedCount++;
+        break;
+      case 'danglingReferences':
+        fileReport.danglingCount++;
+        break;
+    }
+
+    // Keep a bounded sample of issues so huge files don't bloat the report
+    if (fileReport[kind].length < this.MAX_ISSUES_PER_KIND) {
+      fileReport[kind].push(issue);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { VocabularyMapper } from './vocabularyMapper';
+import { InteractionOutcome, LeadCategory, LeadStatus, RelationshipType } from '../types';
+
+describe('VocabularyMapper', () => {
+  it.each([
+    ['leadCategory', 'Campaign Qualified', LeadCategory.CAMPAIGN_QUALIFIED],
+    ['leadCategory', '  cold lead ', LeadCategory.COLD_LEAD],
+    ['leadStatus', 'Open', LeadStatus.CONTACTED],
+    ['leadStatus', 'Unqualified', LeadStatus.LOST],
+    ['channel', 'Call', 'phone'],
+    ['interactionOutcome', 'unsubscribe', InteractionOutcome.NEGATIVE],
+    ['relationshipType', 'located_in', RelationshipType.PART_OF]
+  ] as const)('maps %s %j to %s', (vocabulary, value, internal) => {
+    expect(new VocabularyMapper().toInternal(vocabulary, value)).toBe(internal);
+  });
+
+  it('falls back for unmapped values and reports them, most frequent first', () => {
+    const mapper = new VocabularyMapper();
+
+    expect(mapper.toInternal('leadStatus', 'Nurturing')).toBe(LeadStatus.NEW);
+    mapper.toInternal('channel', 'Fax');
+    mapper.toInternal('channel', 'Fax');
+
+    expect(mapper.getUnmappedValues()).toEqual([
+      { vocabulary: 'channel', value: 'Fax', fallback: 'email', count: 2 },
+      { vocabulary: 'leadStatus', value: 'Nurturing', fallback: LeadStatus.NEW, count: 1 }
+    ]);
+  });
+
+  it('treats empty values as missing rather than unmapped', () => {
+    const mapper = new VocabularyMapper();
+
+    expect(mapper.toInternal('leadCategory', '')).toBe(LeadCategory.GENERAL_INQUIRY);
+    expect(mapper.toInternal('leadCategory', undefined)).toBe(LeadCategory.GENERAL_INQUIRY);
+    expect(mapper.getUnmappedValues()).toEqual([]);
+  });
+
+  it('takes overrides and extensions without losing the default mappings', () => {
+    const mapper = new VocabularyMapper({ leadStatus: { values: { Nurturing: LeadStatus.ENGAGED } } });
+    mapper.extend('relationshipType', { values: { competes_with: RelationshipType.OPPOSITE_OF }, fallback: RelationshipType.SIMILAR_TO });
+
+    expect(mapper.toInternal('leadStatus', 'nurturing')).toBe(LeadStatus.ENGAGED);
+    expect(mapper.toInternal('leadStatus', 'Open')).toBe(LeadStatus.CONTACTED);
+    expect(mapper.toInternal('relationshipType', 'competes_with')).toBe(RelationshipType.OPPOSITE_OF);
+    expect(mapper.toInternal('relationshipType', 'mentions')).toBe(RelationshipType.SIMILAR_TO);
+    expect(mapper.getUnmappedValues()).toEqual([expect.objectContaining({ value: 'mentions', fallback: RelationshipType.SIMILAR_TO })]);
+  });
+
+  it('does not let one mapper change the defaults of another', () => {
+    new VocabularyMapper().extend('channel', { values: { Fax: 'fax' } });
+
+    expect(new VocabularyMapper().toInternal('channel', 'Fax')).toBe('email');
+  });
+
+  it('starts a fresh report after a reset', () => {
+    const mapper = new VocabularyMapper();
+    mapper.toInternal('channel', 'Fax');
+
+    mapper.resetUnmapped();
+
+    expect(mapper.getUnmappedValues()).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  CampaignType,
+  InteractionOutcome,
+  InteractionType,
+  LeadCategory,
+  LeadStatus,
+  RelationshipType,
+  UnmappedValue
+} from '../types';
+
+/**
+ * Internal value type produced by each vocabulary
+ */
+export interface VocabularyTargets {
+  leadCategory: LeadCategory;
+  leadStatus: LeadStatus;
+  campaignType: CampaignType;
+  channel: string;
+  interactionType: InteractionType;
+  eventType: InteractionType;
+  interactionOutcome: InteractionOutcome;
+  relationshipType: RelationshipType;
+}
+
+export type VocabularyName = keyof VocabularyTargets;
+
+export interface VocabularyDefinition<T> {
+  /** Dataset value -> internal value. Matching is case-insensitive. */
+  values: Record<string, T>;
+  /** Used when a dataset value has no mapping */
+  fallback: T;
+}
+
+export type VocabularyConfig = { [K in VocabularyName]: VocabularyDefinition<VocabularyTargets[K]> };
+
+export type VocabularyOverrides = {
+  [K in VocabularyName]?: Partial<VocabularyDefinition<VocabularyTargets[K]>>;
+};
+
+export const DEFAULT_VOCABULARY: VocabularyConfig = {
+  leadCategory: {
+    values: {
+      'Campaign Qualified': LeadCategory.CAMPAIGN_QUALIFIED,
+      'Cold Lead': LeadCategory.COLD_LEAD,
+      'General Inquiry': LeadCategory.GENERAL_INQUIRY
+    },
+    fallback: LeadCategory.GENERAL_INQUIRY
+  },
+  leadStatus: {
+    values: {
+      'New': LeadStatus.NEW,
+      'Open': LeadStatus.CONTACTED,
+      'Qualified': LeadStatus.QUALIFIED,
+      'Unqualified': LeadStatus.LOST,
+      'Converted': LeadStatus.CONVERTED
+    },
+    fallback: LeadStatus.NEW
+  },
+  campaignType: {
+    values: {
+      'Email': CampaignType.EMAIL,
+      'SMS': CampaignType.EMAIL,
+      'Social': CampaignType.SOCIAL_MEDIA,
+      'Ads': CampaignType.PAID_ADS,
+      'Web': CampaignType.CONTENT_MARKETING,
+      'Call': CampaignType.EMAIL
+    },
+    fallback: CampaignType.EMAIL
+  },
+  channel: {
+    values: {
+      'Email': 'email',
+      'SMS': 'sms',
+      'Social': 'social_media',
+      'Ads': 'paid_ads',
+      'Web': 'web',
+      'Call': 'phone'
+    },
+    fallback: 'email'
+  },
+  interactionType: {
+    values: {
+      'Email': InteractionType.EMAIL,
+      'SMS': InteractionType.CHAT,
+      'Social': InteractionType.SOCIAL_MEDIA,
+      'Ads': InteractionType.SOCIAL_MEDIA,
+      'Web': InteractionType.CHAT,
+      'Call': InteractionType.PHONE
+    },
+    fallback: InteractionType.EMAIL
+  },
+  eventType: {
+    values: {
+      'email_sent': InteractionType.EMAIL,
+      'email_open': InteractionType.EMAIL,
+      'email_click': InteractionType.EMAIL,
+      'reply': InteractionType.EMAIL,
+      'sms_sent': InteractionType.CHAT,
+      'sms_reply': InteractionType.CHAT,
+      'site_visit': InteractionType.CHAT,
+      'call_made': InteractionType.PHONE,
+      'call_answered': InteractionType.PHONE,
+      'social_comment': InteractionType.SOCIAL_MEDIA
+    },
+    fallback: InteractionType.EMAIL
+  },
+  interactionOutcome: {
+    values: {
+      'none': InteractionOutcome.NEUTRAL,
+      'positive': InteractionOutcome.POSITIVE,
+      'negative': InteractionOutcome.NEGATIVE,
+      'unsubscribe': InteractionOutcome.NEGATIVE,
+      'callback_requested': InteractionOutcome.POSITIVE
+    },
+    fallback: InteractionOutcome.NEUTRAL
+  },
+  relationshipType: {
+    // Knowledge graph predicates; the original predicate is kept on each relationship
+    values: {
+      'similar_to': RelationshipType.SIMILAR_TO,
+      'related_to': RelationshipType.RELATED_TO,
+      'located_in': RelationshipType.PART_OF,
+      'requires': RelationshipType.PART_OF,
+      'boosts': RelationshipType.CAUSES,
+      'targets': RelationshipType.RELATED_TO,
+      'preferred_channel': RelationshipType.RELATED_TO,
+      'interested_in': RelationshipType.RELATED_TO
+    },
+    fallback: RelationshipType.RELATED_TO
+  }
+};
+
+/**
+ * Translates the dataset's vocabularies into our internal enums. Every value that has no mapping
+ * is counted so imports can report it instead of silently falling back to a default.
+ */
+export class VocabularyMapper {
+  private config: VocabularyConfig;
+  private lookups = new Map<VocabularyName, Map<string, unknown>>();
+  private unmapped = new Map<string, UnmappedValue>();
+
+  constructor(overrides: VocabularyOverrides = {}) {
+    this.config = { ...DEFAULT_VOCABULARY };
+
+    (Object.keys(overrides) as VocabularyName[]).forEach(name => this.extend(name, overrides[name]!));
+    (Object.keys(this.config) as VocabularyName[]).forEach(name => this.buildLookup(name));
+  }
+
+  /**
+   * Add or replace mappings for a vocabulary
+   */
+  public extend<K extends VocabularyName>(name: K, override: Partial<VocabularyDefinition<VocabularyTargets[K]>>): void {
+    const current = this.config[name];
+    this.config[name] = {
+      values: { ...current.values, ...override.values },
+      fallback: override.fallback ?? current.fallback
+    } as VocabularyConfig[K];
+    this.buildLookup(name);
+  }
+
+  /**
+   * Map a dataset value to its internal value, falling back (and recording the miss) when unmapped
+   */
+  public toInternal<K extends VocabularyName>(name: K, value: string | undefined): VocabularyTargets[K] {
+    const definition = this.config[name];
+    const key = this.normalize(value);
+    const lookup = this.lookups.get(name)!;
+
+    if (lookup.has(key)) {
+      return lookup.get(key) as VocabularyTargets[K];
+    }
+
+    // Empty values are missing rather than unmapped; the validator reports those
+    if (key !== '') {
+      this.recordUnmapped(name, value!, String(definition.fallback));
+    }
+    return definition.fallback;
+  }
+
+  /**
+   * Values that had no mapping since the last reset, most frequent first
+   */
+  public getUnmappedValues(): UnmappedValue[] {
+    return Array.from(this.unmapped.values())
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  public resetUnmapped(): void {
+    this.unmapped.clear();
+  }
+
+  private buildLookup(name: VocabularyName): void {
+    const lookup = new Map<string, unknown>();
+    Object.entries(this.config[name].values).forEach(([datasetValue, internal]) => {
+      lookup.set(this.normalize(datasetValue), internal);
+    });
+    this.lookups.set(name, lookup);
+  }
+
+  private recordUnmapped(name: VocabularyName, value: string, fallback: string): void {
+    const key = `${name}:${value}`;
+    const existing = this.unmapped.get(key);
+
+    if (existing) {
+      existing.count++;
+    } else {
+      this.unmapped.set(key, { vocabulary: name, value, fallback, count: 1 });
+    }
+  }
+
+  private normalize(value: string | undefined): string {
+    return (value ?? '').trim().toLowerCase();
+  }
+}
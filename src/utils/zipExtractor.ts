@@ -1,10 +1,11 @@
 import { DataExtractor } from './dataExtractor';
+import { MarketingDataset } from '../types';
 
 export class ZipExtractor {
   /**
    * Extract marketing data from the uploaded ZIP file
    */
-  public static async extractFromZip(file: File): Promise<any> {
+  public static async extractFromZip(file: File): Promise<MarketingDataset> {
     try {
       console.log('📦 Processing marketing dataset ZIP file...');
       
@@ -18,12 +19,17 @@ export class ZipExtractor {
       console.log(`   - ${extractedData.leads.length} leads`);
       console.log(`   - ${extractedData.campaigns.length} campaigns`);
       console.log(`   - ${extractedData.customers.length} customer profiles`);
+
+      const report = extractedData.importReport;
+      if (report && (report.rejectedRows > 0 || report.danglingReferences > 0 || report.unmappedValues.length > 0)) {
+        console.warn(`⚠️ Import report: ${report.rejectedRows} rejected rows, ${report.coercedValues} coerced values, ${report.danglingReferences} dangling references, ${report.unmappedValues.length} unmapped values`);
+      }
       
       return extractedData;
       
     } catch (error) {
       console.error('❌ Failed to extract ZIP data:', error);
-      throw new Error('ZIP extraction failed');
+      throw new Error(`ZIP extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -0,0 +1,116 @@
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class ZipReader {
+  private static readonly END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+  private static readonly CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+  private static readonly LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+  private static readonly METHOD_STORED = 0;
+  private static readonly METHOD_DEFLATE = 8;
+
+  /**
+   * Read every file in the archive and decode it as UTF-8 text, keyed by file name
+   */
+  public static async extractText(buffer: ArrayBuffer): Promise<Map<string, string>> {
+    const decoder = new TextDecoder('utf-8');
+    const files = new Map<string, string>();
+
+    for (const entry of this.listEntries(buffer)) {
+      if (entry.name.endsWith('/')) continue; // Skip directories
+
+      const content = await this.readEntry(buffer, entry);
+      files.set(entry.name, decoder.decode(content));
+    }
+
+    return files;
+  }
+
+  /**
+   * List the entries recorded in the archive's central directory
+   */
+  public static listEntries(buffer: ArrayBuffer): ZipEntry[] {
+    const view = new DataView(buffer);
+    const eocdOffset = this.findEndOfCentralDirectory(view);
+
+    const entryCount = view.getUint16(eocdOffset + 10, true);
+    let offset = view.getUint32(eocdOffset + 16, true);
+
+    const decoder = new TextDecoder('utf-8');
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+      if (view.getUint32(offset, true) !== this.CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error(`Corrupt ZIP central directory at offset ${offset}`);
+      }
+
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+
+      entries.push({
+        name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)),
+        compressionMethod: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        uncompressedSize: view.getUint32(offset + 24, true),
+        localHeaderOffset: view.getUint32(offset + 42, true)
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Read and decompress a single entry
+   */
+  public static async readEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(this.streamEntry(buffer, entry)).arrayBuffer());
+  }
+
+  /**
+   * Stream a single entry, decompressing lazily as the consumer reads
+   */
+  public static streamEntry(buffer: ArrayBuffer, entry: ZipEntry): ReadableStream<Uint8Array> {
+    const view = new DataView(buffer);
+    const headerOffset = entry.localHeaderOffset;
+
+    if (view.getUint32(headerOffset, true) !== this.LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP local header for ${entry.name}`);
+    }
+
+    // Local header lengths can differ from the central directory copy
+    const nameLength = view.getUint16(headerOffset + 26, true);
+    const extraLength = view.getUint16(headerOffset + 28, true);
+    const dataOffset = headerOffset + 30 + nameLength + extraLength;
+    const data = new Uint8Array(buffer, dataOffset, entry.compressedSize);
+
+    switch (entry.compressionMethod) {
+      case this.METHOD_STORED:
+        return new Blob([data]).stream();
+      case this.METHOD_DEFLATE:
+        // DecompressionStream is available in modern browsers and Node 18+
+        return new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for ${entry.name}`);
+    }
+  }
+
+  private static findEndOfCentralDirectory(view: DataView): number {
+    // The record is 22 bytes plus an optional comment of up to 64KB
+    const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+
+    for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+      if (view.getUint32(offset, true) === this.END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        return offset;
+      }
+    }
+
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+}